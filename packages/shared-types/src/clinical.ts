@@ -1,18 +1,28 @@
+import type { Patient } from './patient';
+
 // Clinical Data Types
 
+// One set of measurements. Units: temperature °C, weight kg, height and length cm, MUAC mm,
+// blood glucose mmol/L. BMI, z-scores and flags are derived when the set is recorded.
 export interface VitalSigns {
   id: string;
-  consultationId: string;
-  bloodPressure: BloodPressure;
-  heartRate: number;
+  patientId: string;
+  encounterId?: string;
+  consultationId?: string;
+  bloodPressure?: Pick<BloodPressure, 'systolic' | 'diastolic'>;
+  heartRate?: number;
   respiratoryRate?: number;
-  temperature: number;
-  weight: number;
-  height: number;
-  bmi: number; // calculated
+  temperature?: number;
+  weight?: number;
+  height?: number;
+  muac?: number;
+  bmi?: number; // calculated
   bloodGlucose?: number;
   oxygenSaturation?: number;
   painScore?: number; // 0-10 scale
+  ageInMonths?: number; // at the time of recording, from date of birth or the recorded age estimate
+  anthropometry?: AnthropometricAssessment;
+  flags: VitalSignFlag[];
   recordedDateTime: Date;
   recordedBy: string;
   notes?: string;
@@ -25,6 +35,69 @@ export interface BloodPressure {
   date: Date;
 }
 
+export type VitalMeasure =
+  | 'systolic'
+  | 'diastolic'
+  | 'heartRate'
+  | 'respiratoryRate'
+  | 'temperature'
+  | 'weight'
+  | 'height'
+  | 'muac'
+  | 'bmi'
+  | 'bloodGlucose'
+  | 'oxygenSaturation'
+  | 'painScore';
+
+// An out-of-range value; `referenceRange` is the normal range for the patient's age
+export interface VitalSignFlag {
+  measure: VitalMeasure | 'weightForHeightZ' | 'muacForAgeZ';
+  value: number;
+  direction: 'low' | 'high';
+  severity: 'abnormal' | 'critical';
+  referenceRange: { min?: number; max?: number };
+  message: string;
+}
+
+export type NutritionStatus = 'normal' | 'moderate_acute_malnutrition' | 'severe_acute_malnutrition';
+
+// WHO child growth standards, for children under five. Weight-for-height uses length under two years.
+export interface AnthropometricAssessment {
+  weightForHeightZ?: number;
+  muacForAgeZ?: number;
+  nutritionStatus?: NutritionStatus;
+}
+
+export interface RecordVitalSignsRequest {
+  encounterId?: string;
+  consultationId?: string;
+  bloodPressure?: { systolic: number; diastolic: number };
+  heartRate?: number;
+  respiratoryRate?: number;
+  temperature?: number;
+  weight?: number;
+  height?: number;
+  muac?: number;
+  bloodGlucose?: number;
+  oxygenSaturation?: number;
+  painScore?: number;
+  recordedDateTime?: string;
+  notes?: string;
+}
+
+export interface VitalTrendPoint {
+  vitalSignsId: string;
+  recordedDateTime: Date;
+  value: number;
+  flagged: boolean;
+}
+
+export interface VitalTrendSeries {
+  measure: VitalMeasure;
+  unit: string;
+  points: VitalTrendPoint[];
+}
+
 export interface ClinicalAssessment {
   id: string;
   consultationId: string;
@@ -223,18 +296,168 @@ export interface FollowUpPlan {
 
 // Specialized Clinical Assessments
 
+export type NCDConditionType = 'hypertension' | 'diabetes' | 'copd' | 'asthma' | 'epilepsy';
+
+// One NCD follow-up visit. Units: blood pressure mmHg, glucose mmol/L, HbA1c %.
+// Control status is derived from the measurements when the visit is recorded.
 export interface NCDAssessment {
   id: string;
   patientId: string;
-  conditionType: 'hypertension' | 'diabetes' | 'copd' | 'asthma' | 'epilepsy';
+  enrollmentId: string;
+  conditionType: NCDConditionType;
   assessmentDate: Date;
+  facilityCode?: string;
+  measurements: NCDMeasurements;
   controlStatus: NCDControlAssessment;
+  treatment: NCDTreatment;
+  medications: NCDMedication[];
   complications: NCDComplication[];
-  riskFactors: RiskFactorAssessment;
-  treatmentAdherence: TreatmentAdherence;
-  lifestyle: LifestyleAssessment;
+  riskFactors?: Partial<RiskFactorAssessment>;
+  treatmentAdherence?: TreatmentAdherence;
   provider: string;
-  nextAssessment: Date;
+  nextAssessment?: Date;
+  notes?: string;
+}
+
+export interface NCDMeasurements {
+  bloodPressure?: Pick<BloodPressure, 'systolic' | 'diastolic'>;
+  pulse?: number;
+  fastingGlucose?: number;
+  randomGlucose?: number;
+  hba1c?: number;
+}
+
+// Protocol step 0 is lifestyle advice only; each higher step intensifies drug treatment
+export interface NCDTreatment {
+  protocol: string;
+  step: number;
+  previousStep?: number;
+  change: 'started' | 'stepped_up' | 'unchanged' | 'stepped_down';
+}
+
+export interface NCDMedication {
+  name: string;
+  dosage: string;
+  frequency: string;
+  instructions?: string;
+}
+
+export interface RecordNCDVisitRequest {
+  visitDate?: string;
+  facilityCode?: string;
+  bloodPressure?: Pick<BloodPressure, 'systolic' | 'diastolic'>;
+  pulse?: number;
+  fastingGlucose?: number;
+  randomGlucose?: number;
+  hba1c?: number;
+  treatmentStep: number;
+  protocol?: string;
+  medications?: NCDMedication[];
+  complications?: Array<Omit<NCDComplication, 'dateDetected'> & { dateDetected?: string }>;
+  riskFactors?: Partial<RiskFactorAssessment>;
+  treatmentAdherence?: TreatmentAdherence;
+  nextAppointment?: string;
+  notes?: string;
+}
+
+// Patients enrolled within [from, to]; at each milestone a patient counts as controlled or
+// uncontrolled by their last measured visit in the three months before it, else as no visit
+export interface NCDCohortOutcome {
+  months: number;
+  due: number; // enrolled long enough to have reached the milestone
+  controlled: number;
+  uncontrolled: number;
+  noVisit: number;
+  controlledRate: number | null; // controlled / due
+}
+
+export interface NCDFacilityCohort {
+  facilityCode: string; // 'unknown' when not recorded
+  enrolled: number;
+  outcomes: NCDCohortOutcome[];
+}
+
+export interface NCDCohortReport {
+  conditionType: NCDConditionType;
+  from: Date;
+  to: Date;
+  facilities: NCDFacilityCohort[];
+  generatedAt: Date;
+}
+
+// Stepwise drug protocols are loaded from configuration files so each partner can use its
+// national protocol. Blood pressure in mmHg; a reading is controlled when below the target.
+export interface TreatmentProtocol {
+  id: string;
+  name: string;
+  version: string;
+  conditionType: NCDConditionType;
+  description?: string;
+  target: BloodPressureTarget;
+  highRiskTarget?: BloodPressureTarget & { comorbidities: string[] };
+  urgentThreshold: BloodPressureTarget; // at or above either value the patient needs same-day review
+  followUpDays: { controlled: number; uncontrolled: number; urgent: number };
+  minimumAdherence?: number; // % below which adherence is addressed before stepping up
+  comorbidities: Record<string, ProtocolComorbidity>;
+  steps: ProtocolStep[];
+}
+
+export interface BloodPressureTarget {
+  systolic: number;
+  diastolic: number;
+}
+
+// A comorbidity is present when the patient has one of the ICD-10 codes (by prefix) or an open
+// enrollment in one of the programs
+export interface ProtocolComorbidity {
+  diagnosisCodes: string[];
+  programs?: string[];
+}
+
+export interface ProtocolStep {
+  step: number; // from 1; step 0 is lifestyle advice without medication
+  description: string;
+  medications: NCDMedication[];
+  contraindications?: string[]; // comorbidities in which the step must not be used
+}
+
+export interface TreatmentProtocolSummary {
+  id: string;
+  name: string;
+  version: string;
+  conditionType: NCDConditionType;
+  description?: string;
+  steps: number;
+  checksum: string;
+  active: boolean; // the protocol and version recommendations use for the condition
+  loadedAt: Date;
+}
+
+export interface MedicationChange {
+  name: string;
+  action: 'start' | 'change_dose' | 'continue' | 'stop';
+  from?: string; // dosage and frequency, e.g. "5 mg once daily"
+  to?: string;
+}
+
+export interface TreatmentRecommendation {
+  protocolId: string;
+  protocolVersion: string;
+  conditionType: NCDConditionType;
+  bloodPressure: BloodPressureTarget & { date?: Date };
+  target: BloodPressureTarget;
+  controlled: boolean;
+  urgent: boolean;
+  comorbidities: string[];
+  currentStep: number;
+  recommendedStep: number;
+  action: 'start' | 'continue' | 'step_up' | 'refer';
+  medications: NCDMedication[]; // the regimen of the recommended step
+  medicationChanges: MedicationChange[];
+  followUpDays: number;
+  nextAppointment: Date;
+  reasons: string[];
+  warnings: string[];
 }
 
 export interface NCDControlAssessment {
@@ -368,27 +591,133 @@ export interface StressAssessment {
 }
 
 // Emergency and Trauma
+// Patients aged 12 and over are triaged with the South African Triage Scale (the TEWS score plus
+// clinical discriminators), younger children with the WHO ETAT emergency and priority signs.
+// Blue is dead on arrival; the other categories carry a time-to-treatment target.
+export type TriageCategory = 'red' | 'orange' | 'yellow' | 'green' | 'blue';
+
+export type TriageScale = 'sats' | 'etat';
+
+export type EmergencyType = 'medical' | 'surgical' | 'trauma' | 'psychiatric' | 'obstetric';
+
+export type EmergencyStatus = 'waiting' | 'in_treatment' | 'disposed';
+
+export type Mobility = 'walking' | 'with_help' | 'immobile';
+
+export type Alertness = 'alert' | 'voice' | 'pain' | 'unresponsive';
+
+// Discriminators and signs found at triage, grouped by the category they put the patient in
+export type EmergencySign =
+  | 'dead'
+  | 'airway_obstructed'
+  | 'breathing_inadequate'
+  | 'cardiac_arrest'
+  | 'seizure_current'
+  | 'burn_facial_inhalation'
+  | 'severe_respiratory_distress'
+  | 'central_cyanosis'
+  | 'shock'
+  | 'severe_dehydration'
+  | 'shortness_of_breath'
+  | 'coughing_blood'
+  | 'chest_pain'
+  | 'haemorrhage_uncontrolled'
+  | 'seizure_post_ictal'
+  | 'focal_neurology'
+  | 'psychosis_aggression'
+  | 'threatened_limb'
+  | 'dislocation_large_joint'
+  | 'fracture_compound'
+  | 'burn_major'
+  | 'poisoning_overdose'
+  | 'diabetic_ketonuria'
+  | 'vomiting_blood'
+  | 'pregnancy_abdominal'
+  | 'respiratory_distress'
+  | 'severe_pallor'
+  | 'restless_irritable_lethargic'
+  | 'urgent_referral'
+  | 'severe_wasting'
+  | 'bilateral_oedema'
+  | 'haemorrhage_controlled'
+  | 'fracture_closed'
+  | 'burn_other'
+  | 'abdominal_pain'
+  | 'vomiting_persistent';
+
+export type TriageVitals = Pick<
+  VitalSigns,
+  'bloodPressure' | 'heartRate' | 'respiratoryRate' | 'temperature' | 'oxygenSaturation' | 'bloodGlucose' | 'painScore'
+>;
+
 export interface EmergencyAssessment {
   id: string;
   patientId: string;
-  triageCategory: 'red' | 'yellow' | 'green' | 'black';
+  encounterId?: string;
+  facilityCode: string;
+  status: EmergencyStatus;
+  triageCategory: TriageCategory;
+  triage: TriageResult;
   chiefComplaint: string;
-  emergencyType: 'medical' | 'surgical' | 'trauma' | 'psychiatric' | 'obstetric';
-  vitalSigns: VitalSigns;
+  emergencyType: EmergencyType;
+  vitalSigns: TriageVitals;
+  mobility?: Mobility;
   consciousness: ConsciousnessLevel;
-  painAssessment: PainAssessment;
+  signs: EmergencySign[];
   injuryAssessment?: InjuryAssessment;
   interventions: EmergencyIntervention[];
-  disposition: EmergencyDisposition;
+  disposition?: EmergencyDisposition;
+  timeToTreatment: TimeToTreatment;
   provider: string;
   arrivalTime: Date;
   assessmentTime: Date;
+  disposedAt?: Date;
+  disposedBy?: string;
+  notes?: string;
+  patient?: Pick<Patient, 'id' | 'mrn' | 'firstName' | 'lastName'>;
+}
+
+// The TEWS score is only given under SATS, and only when all of its vital signs were taken
+export interface TriageResult {
+  scale: TriageScale;
+  category: TriageCategory;
+  tews?: TEWSScore;
+  reasons: TriageReason[]; // everything that raised the category above green
+  targetMinutes: number | null; // null when dead on arrival
+}
+
+export interface TEWSScore {
+  total: number;
+  mobility: number;
+  respiratoryRate: number;
+  heartRate: number;
+  systolic: number;
+  temperature: number;
+  consciousness: number;
+  trauma: number;
+}
+
+export interface TriageReason {
+  code: string; // an EmergencySign, `tews`, or a finding from the vital signs such as `hypoglycaemia`
+  category: TriageCategory;
+  message: string;
+}
+
+// Treatment is due within the target of arrival; a waiting patient past it is in breach and an alert is raised
+export interface TimeToTreatment {
+  targetMinutes: number | null;
+  dueAt?: Date;
+  startedAt?: Date;
+  startedBy?: string;
+  waitMinutes: number; // arrival to the start of treatment; to the disposition or now when never treated
+  breached: boolean;
+  alertedAt?: Date;
 }
 
 export interface ConsciousnessLevel {
-  glasgowComaScale: GlasgowComaScale;
-  alertness: 'alert' | 'voice' | 'pain' | 'unresponsive';
-  orientation: OrientationAssessment;
+  glasgowComaScale?: GlasgowComaScale;
+  alertness: Alertness;
+  orientation?: OrientationAssessment;
 }
 
 export interface GlasgowComaScale {
@@ -464,4 +793,95 @@ export interface EmergencyDisposition {
   condition: 'stable' | 'unstable' | 'critical' | 'improved' | 'unchanged' | 'worse';
   instructions: string;
   followUp?: string;
-}
\ No newline at end of file
+}
+
+// What triage is judged on; trauma counts when the emergency type is trauma or an injury assessment is given
+export interface TriageFindings {
+  emergencyType: EmergencyType;
+  vitalSigns?: TriageVitals;
+  mobility?: Mobility;
+  alertness: Alertness;
+  glasgowComaScale?: Omit<GlasgowComaScale, 'total'>;
+  orientation?: Omit<OrientationAssessment, 'score'>;
+  signs?: EmergencySign[];
+  injuryAssessment?: InjuryAssessment;
+}
+
+export interface ScoreTriageRequest extends TriageFindings {
+  ageInMonths?: number;
+}
+
+export interface TriageRequest extends TriageFindings {
+  arrivalTime?: string;
+  encounterId?: string;
+  facilityCode?: string;
+  chiefComplaint: string;
+  notes?: string;
+}
+
+export interface StartEmergencyTreatmentRequest {
+  startedAt?: string;
+}
+
+export type RecordEmergencyInterventionRequest = Omit<EmergencyIntervention, 'time' | 'provider'> & { time?: string };
+
+// Arrivals within [from, to] by category; a patient breached the target when treated late or still waiting past it
+export interface TriageCategoryPerformance {
+  category: Exclude<TriageCategory, 'blue'>;
+  targetMinutes: number;
+  triaged: number;
+  treated: number;
+  withinTarget: number;
+  breached: number;
+  medianWaitMinutes: number | null;
+  complianceRate: number | null; // withinTarget / (withinTarget + breached)
+}
+
+export interface EmergencyPerformanceReport {
+  facilityCode: string;
+  from: Date;
+  to: Date;
+  categories: TriageCategoryPerformance[];
+  generatedAt: Date;
+}
+
+// Terminology
+// Code systems are loaded from local files, e.g. `icd10`, `ewars`, `formulary` and `lab`.
+export interface TerminologyConcept {
+  code: string;
+  display: string;
+  synonyms?: string[];
+  parent?: string;
+  inactive?: boolean;
+  // Codes in other systems this concept covers, e.g. { icd10: ['A00', 'A09'] }; ICD-10 codes match by prefix
+  mappings?: Record<string, string[]>;
+  properties?: Record<string, string | number | boolean>;
+}
+
+export interface CodeSystemSummary {
+  system: string;
+  name: string;
+  version: string;
+  description?: string;
+  conceptCount: number;
+  checksum: string; // SHA-256 of the source file; devices re-download a code set when it changes
+  active: boolean; // the version used when a request does not name one
+  loadedAt: Date;
+}
+
+// A complete code set as synced to devices for offline lookup
+export interface CodeSystemExport {
+  system: string;
+  name: string;
+  version: string;
+  checksum: string;
+  concepts: TerminologyConcept[];
+}
+
+export interface TerminologySearchResult {
+  system: string;
+  version: string;
+  concept: TerminologyConcept;
+  matchedOn: 'code' | 'display' | 'synonym';
+  score: number;
+}
@@ -17,6 +17,7 @@ export interface BaseEntity {
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
+  message?: string;
   error?: ApiError;
   metadata?: ResponseMetadata;
   timestamp: Date;
@@ -313,7 +314,7 @@ export interface AuditTrail {
   id: string;
   entityType: string;
   entityId: string;
-  action: 'create' | 'read' | 'update' | 'delete' | 'login' | 'logout' | 'export' | 'import';
+  action: 'create' | 'read' | 'update' | 'delete' | 'restore' | 'purge' | 'merge' | 'unmerge' | 'login' | 'logout' | 'export' | 'import';
   userId?: string;
   sessionId?: string;
   timestamp: Date;
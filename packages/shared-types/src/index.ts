@@ -3,6 +3,7 @@
 
 // Common utility types
 export * from './common';
+export * as CommonTypes from './common';
 
 // Domain-specific modules (use named imports to avoid conflicts)
 export * as PatientTypes from './patient';
@@ -1,14 +1,185 @@
+import type { FileInfo, ValidationRule } from './common';
+import type { NCDConditionType, RiskFactorAssessment, VitalSigns } from './clinical';
+
 // Patient Management Types
+export enum PatientStatus {
+  ACTIVE = 'active',
+  INACTIVE = 'inactive',
+  TRANSFERRED = 'transferred',
+  DECEASED = 'deceased',
+}
+
+export enum Gender {
+  MALE = 'male',
+  FEMALE = 'female',
+  DIVERSE = 'diverse',
+}
+
 export interface Patient {
   id: string;
+  mrn: string;
+  firstName: string;
+  lastName: string;
+  dateOfBirth?: Date;
+  gender: Gender;
   demographics: PatientDemographics;
   medicalHistory: MedicalHistory[];
+  programs: string[];
   registrationDate: Date;
   facilityCode: string;
+  organizationId?: string;
+  projectId?: string;
+  status: PatientStatus;
   activeStatus: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy?: string;
+  updatedBy?: string;
+  version: number;
   syncStatus?: SyncStatus;
+  flags?: PatientFlag[]; // active flags the caller may see, embedded in single-patient responses
+}
+
+export interface CreatePatientRequest {
+  mrn?: string; // pre-assigned from a reserved MRN block (offline registration)
+  firstName: string;
+  lastName: string;
+  dateOfBirth?: string;
+  gender: Gender;
+  facilityCode: string;
+  projectId?: string;
+  demographics?: Partial<PatientDemographics>;
+  medicalHistory?: MedicalHistory[];
+}
+
+export interface UpdatePatientRequest extends Partial<CreatePatientRequest> {
+  status?: PatientStatus;
+  version?: number;
+}
+
+export interface PotentialDuplicate {
+  patient: Patient;
+  score: number; // match probability 0-1
+  likelyDuplicate: boolean;
+  matchedOn: string[];
+  conflicts: string[];
+}
+
+export interface MergePatientsRequest {
+  survivorId: string;
+  mergedId: string;
+  reason?: string;
+}
+
+export interface PatientMerge {
+  id: string;
+  survivorId: string;
+  mergedId: string;
+  reason?: string;
+  matchScore?: number;
+  mergedBy: string;
+  mergedAt: Date;
+  unmergedBy?: string;
+  unmergedAt?: Date;
+}
+
+export type MrnCheckDigit = 'luhn_mod_n' | 'none';
+
+export interface MrnFormat {
+  facilityCode: string;
+  pattern: string; // e.g. '{FACILITY}-{YYYY}-{COUNTER}{CHECK}'
+  counterWidth: number;
+  checkDigit: MrnCheckDigit;
+}
+
+export interface MrnReservationRequest {
+  facilityCode: string;
+  deviceId: string;
+  count: number;
+}
+
+// A block of MRNs handed to a device so it can register patients offline
+export interface MrnReservation {
+  id: string;
+  facilityCode: string;
+  deviceId: string;
+  year: number | null;
+  startCounter: number;
+  endCounter: number;
+  mrns: string[];
+  reservedBy: string;
+  reservedAt: Date;
+}
+
+export type PatientImportFormat = 'csv' | 'xlsx';
+export type PatientImportStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface PatientImportJob {
+  id: string;
+  fileName: string;
+  format: PatientImportFormat;
+  dryRun: boolean;
+  status: PatientImportStatus;
+  totalRows: number;
+  processedRows: number;
+  importedRows: number; // in a dry run: rows that would be imported
+  failedRows: number;
+  duplicateRows: number;
+  error?: string;
+  createdBy: string;
+  createdAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
 }
 
+export interface PatientImportRowResult {
+  row: number; // spreadsheet row number, header = 1
+  status: 'imported' | 'valid' | 'failed' | 'duplicate';
+  patientId?: string;
+  mrn?: string;
+  errors: Array<{ field: string; message: string; code: string; value?: any }>;
+  warnings: string[];
+}
+
+export type PatientExportFormat = 'csv' | 'ndjson' | 'fhir';
+
+// full: everything; pseudonymised: direct identifiers removed, patients keyed by a stable hash;
+// aggregate: no per-patient key, age bands instead of ages and camps without blocks
+export type DeidentificationProfile = 'full' | 'pseudonymised' | 'aggregate';
+
+export interface PatientExportJob {
+  id: string;
+  format: PatientExportFormat;
+  profile: DeidentificationProfile;
+  filters: PatientListFilters;
+  status: PatientImportStatus;
+  totalRows: number;
+  excludedRows: number; // matched the filters but left out for lack of data sharing consent
+  fileSize?: number; // bytes
+  error?: string;
+  createdBy: string;
+  createdAt: Date;
+  completedAt?: Date;
+}
+
+export interface PatientListFilters {
+  search?: string;
+  status?: PatientStatus;
+  gender?: Gender;
+  age?: { min?: number; max?: number };
+  program?: string;
+  camp?: string;
+  ageBand?: string; // label from AGE_BANDS
+}
+
+// Age bands used for search facets and reporting (upper bound inclusive; null = open-ended)
+export const AGE_BANDS: ReadonlyArray<{ label: string; min: number; max: number | null }> = [
+  { label: '0-4', min: 0, max: 4 },
+  { label: '5-17', min: 5, max: 17 },
+  { label: '18-59', min: 18, max: 59 },
+  { label: '60+', min: 60, max: null },
+];
+
 export interface PatientDemographics {
   name: string;
   age: number;
@@ -22,6 +193,7 @@ export interface PatientDemographics {
   emergencyContact?: string;
   languages: string[];
   documentation?: PatientDocumentation;
+  pregnant?: boolean;
 }
 
 export interface ContactInfo {
@@ -49,7 +221,7 @@ export interface PatientDocumentation {
   unhcrId?: string;
   nationalId?: string;
   birthCertificate?: string;
-  photos?: string[];
+  photos?: string[]; // IDs of the patient's photo attachments
 }
 
 export interface MedicalHistory {
@@ -66,13 +238,18 @@ export interface MedicalHistory {
 }
 
 // Clinical Encounter Types
+export type ConsultationVisitType = 'opd' | 'emergency' | 'follow_up' | 'referral' | 'outreach';
+
+// `active` consultations are drafts; signing completes and locks them, after which the note
+// only changes through addenda
 export interface Consultation {
   id: string;
   patientId: string;
+  encounterId: string;
   providerId: string;
-  facilityId: string;
+  facilityId: string; // facility code of the encounter
   visitDate: Date;
-  visitType: 'opd' | 'emergency' | 'follow_up' | 'referral' | 'outreach';
+  visitType: ConsultationVisitType;
   chiefComplaint: string;
   clinicalNotes: string;
   diagnoses: Diagnosis[];
@@ -81,9 +258,53 @@ export interface Consultation {
   status: 'active' | 'completed' | 'cancelled';
   referral?: Referral;
   followUpDate?: Date;
+  signedAt?: Date;
+  signedBy?: string;
+  addenda: ConsultationAddendum[];
+  version: number;
+  createdAt: Date;
+  updatedAt: Date;
   syncStatus?: SyncStatus;
 }
 
+export interface ConsultationAddendum {
+  id: string;
+  consultationId: string;
+  text: string;
+  reason?: string;
+  createdBy: string;
+  createdAt: Date;
+}
+
+export type DiagnosisRequest = Omit<Diagnosis, 'id' | 'consultationId'>;
+
+export interface CreateConsultationRequest {
+  patientId: string;
+  encounterId: string;
+  visitType: ConsultationVisitType;
+  visitDate?: string;
+  chiefComplaint: string;
+  clinicalNotes?: string;
+  diagnoses?: DiagnosisRequest[];
+  treatmentPlan?: TreatmentPlan;
+  followUpDate?: string;
+}
+
+// Only drafts can be updated; `followUpDate: null` clears it
+export interface UpdateConsultationRequest {
+  visitType?: ConsultationVisitType;
+  chiefComplaint?: string;
+  clinicalNotes?: string;
+  treatmentPlan?: TreatmentPlan;
+  followUpDate?: string | null;
+  version?: number;
+}
+
+export interface AddConsultationAddendumRequest {
+  text: string;
+  reason?: string;
+}
+
 export interface Diagnosis {
   id: string;
   consultationId: string;
@@ -119,19 +340,463 @@ export interface Procedure {
   date: Date;
 }
 
+// Household Types
+export type HouseholdRelationship =
+  | 'head'
+  | 'spouse'
+  | 'child'
+  | 'parent'
+  | 'sibling'
+  | 'grandchild'
+  | 'grandparent'
+  | 'other_relative'
+  | 'non_relative';
+
+export type ImmunizationCoverageStatus = 'complete' | 'partial' | 'none' | 'unknown';
+export type NutritionScreeningStatus = 'normal' | 'mam' | 'sam' | 'unknown';
+
+export interface HouseholdMember {
+  patientId: string;
+  relationship: HouseholdRelationship;
+  joinedAt: Date;
+  immunizationStatus: ImmunizationCoverageStatus;
+  nutritionStatus: NutritionScreeningStatus;
+  statusAssessedAt?: Date;
+  patient?: Patient;
+}
+
+export interface Household {
+  id: string;
+  headPatientId?: string;
+  campLocation: string;
+  blockNumber?: string;
+  shelterId?: string;
+  facilityCode?: string;
+  members: HouseholdMember[];
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy: string;
+}
+
+export interface HouseholdMemberRequest {
+  patientId: string;
+  relationship: HouseholdRelationship;
+  immunizationStatus?: ImmunizationCoverageStatus;
+  nutritionStatus?: NutritionScreeningStatus;
+}
+
+export interface CreateHouseholdRequest {
+  campLocation: string;
+  blockNumber?: string;
+  shelterId?: string;
+  facilityCode?: string;
+  members?: HouseholdMemberRequest[];
+}
+
+export type UpdateHouseholdRequest = Partial<Omit<CreateHouseholdRequest, 'members'>>;
+
+export interface HouseholdIndicators {
+  households: number;
+  members: number;
+  averageSize: number | null;
+  femaleHeaded: number;
+  withUnderFive: number;
+  underFive: number;
+  underFiveFullyImmunized: number;
+  immunizationCoverage: number | null; // share of under-fives fully immunized
+  nutritionScreened: number; // under-fives with a nutrition status other than unknown
+  acuteMalnutrition: number; // MAM + SAM among screened under-fives
+  severeAcuteMalnutrition: number;
+}
+
+// Patient Statistics Types
+export type StatisticsInterval = 'day' | 'week' | 'month';
+
+// Counts cover patients registered within [from, to] at the facility, when given
+export interface PatientStatisticsFilters {
+  from?: Date;
+  to?: Date;
+  facilityCode?: string;
+}
+
+export interface RegistrationPeriod {
+  periodStart: string; // YYYY-MM-DD
+  count: number;
+}
+
+export interface PatientOverviewStatistics {
+  totalPatients: number;
+  active: number;
+  inactive: number; // every status other than active
+  byStatus: Record<PatientStatus, number>;
+  interval: StatisticsInterval;
+  registrations: RegistrationPeriod[];
+  generatedAt: Date;
+}
+
+export interface AgeSexBand {
+  ageBand: string; // label from AGE_BANDS, or 'unknown'
+  male: number;
+  female: number;
+  diverse: number;
+  total: number;
+}
+
+export interface LocationCount {
+  campLocation: string; // 'unknown' when not recorded
+  count: number;
+  blocks: Array<{ blockNumber: string; count: number }>;
+}
+
+export interface PatientDemographicStatistics {
+  totalPatients: number;
+  ageSexPyramid: AgeSexBand[];
+  populationTypes: { rohingya: number; host: number; unknown: number };
+  byLocation: LocationCount[];
+  generatedAt: Date;
+}
+
+// Identifier Registry Types
+export type IdentifierUniquenessScope = 'global' | 'facility' | 'none';
+
+export interface IdentifierType {
+  code: string;
+  name: string;
+  formatRegex?: string;
+  issuingAuthority?: string;
+  uniquenessScope: IdentifierUniquenessScope;
+  printable: boolean; // may appear on cards, labels and other printouts
+  active: boolean;
+}
+
+export type PatientIdentifierStatus = 'active' | 'replaced' | 'revoked';
+
+export interface PatientIdentifier {
+  id: string;
+  patientId: string;
+  type: string;
+  value: string;
+  facilityCode?: string;
+  status: PatientIdentifierStatus;
+  issuedAt?: Date;
+  replacesId?: string;
+  replacedById?: string;
+  createdBy: string;
+  createdAt: Date;
+  endedAt?: Date;
+  endedBy?: string;
+  endReason?: string;
+}
+
+export interface AddPatientIdentifierRequest {
+  type: string;
+  value: string;
+  issuedAt?: string;
+}
+
+export interface ReplacePatientIdentifierRequest {
+  value: string;
+  reason?: string;
+  issuedAt?: string;
+}
+
+// Validation Rule Types
+export type ValidationRuleSeverity = 'error' | 'warning';
+export type ValidationRuleScope = 'global' | 'facility' | 'program';
+
+// Condition on another field of the record; a rule only applies when all its conditions hold
+export interface ValidationCondition {
+  field: string;
+  operator: 'equals' | 'not_equals' | 'in' | 'present' | 'absent';
+  value?: any;
+}
+
+// A rule about one field of a patient registration. `field` is a dotted path into the
+// request (e.g. demographics.age); `age` is the age derived from dateOfBirth, or the
+// recorded estimate. Facility and program rules with the same code replace the global one.
+export interface PatientValidationRule {
+  code: string;
+  field: string;
+  rule: ValidationRule;
+  when?: ValidationCondition[];
+  severity: ValidationRuleSeverity;
+  message: string;
+  scope: ValidationRuleScope;
+  facilityCode?: string;
+  programId?: string;
+  active: boolean;
+  updatedAt: Date;
+  updatedBy: string;
+}
+
+export type SavePatientValidationRuleRequest = Omit<PatientValidationRule, 'code' | 'updatedAt' | 'updatedBy'>;
+
+// The resolved rules for one facility/program; `version` changes whenever any rule does
+export interface PatientValidationRuleSet {
+  version: string;
+  facilityCode?: string;
+  programIds: string[];
+  rules: PatientValidationRule[];
+}
+
+export interface PatientValidationIssue {
+  field: string;
+  message: string;
+  code: string;
+  rule: string;
+  value?: any;
+}
+
+export interface PatientValidationResult {
+  valid: boolean;
+  errors: PatientValidationIssue[];
+  warnings: PatientValidationIssue[];
+}
+
+// Patient Flag Types
+export type PatientFlagType =
+  | 'allergy'
+  | 'protection_concern'
+  | 'infectious_isolation'
+  | 'violent_behaviour'
+  | 'dnr'
+  | 'pregnancy';
+
+export type PatientFlagSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface PatientFlag {
+  id: string;
+  patientId: string;
+  flagType: PatientFlagType;
+  severity: PatientFlagSeverity;
+  description: string;
+  expiresAt?: Date;
+  createdBy: string;
+  createdAt: Date;
+  removedAt?: Date;
+  removedBy?: string;
+  removalReason?: string;
+}
+
+export interface CreatePatientFlagRequest {
+  flagType: PatientFlagType;
+  severity: PatientFlagSeverity;
+  description: string;
+  expiresAt?: string;
+}
+
+// Patient Consent Types
+export type ConsentType = 'data_sharing' | 'sms_reminders' | 'research' | 'photo_capture' | 'mhpss_disclosure';
+
+export type ConsentDecision = 'granted' | 'refused';
+
+export type ConsentGrantor = 'self' | 'guardian';
+
+// Derived: a granted consent is active until it expires or is withdrawn
+export type ConsentStatus = 'active' | 'refused' | 'expired' | 'withdrawn';
+
+// The latest record per type is the patient's current decision; older ones are kept as superseded
+export interface PatientConsent {
+  id: string;
+  patientId: string;
+  consentType: ConsentType;
+  decision: ConsentDecision;
+  status: ConsentStatus;
+  scope: string[]; // e.g. partner organisations for data sharing; empty means unrestricted
+  grantor: ConsentGrantor;
+  guardianName?: string;
+  guardianRelationship?: string;
+  givenAt: Date;
+  expiresAt?: Date;
+  withdrawnAt?: Date;
+  withdrawnBy?: string;
+  withdrawalReason?: string;
+  supersededAt?: Date;
+  recordedBy: string;
+  createdAt: Date;
+}
+
+export interface RecordConsentRequest {
+  consentType: ConsentType;
+  decision: ConsentDecision;
+  scope?: string[];
+  grantor: ConsentGrantor;
+  guardianName?: string;
+  guardianRelationship?: string;
+  givenAt?: string;
+  expiresAt?: string;
+}
+
+export interface WithdrawConsentRequest {
+  reason?: string;
+}
+
+// Patient Attachment Types
+export type AttachmentCategory = 'photo' | 'referral_letter' | 'id_card' | 'other';
+
+// `path` is the storage key relative to the attachment store; contents are encrypted at rest
+// and only served through the download endpoints
+export interface PatientAttachment extends FileInfo {
+  patientId: string;
+  category: AttachmentCategory;
+  description?: string;
+  deletedAt?: Date;
+  deletedBy?: string;
+  deletionReason?: string;
+}
+
+export interface UploadAttachmentRequest {
+  category: AttachmentCategory;
+  description?: string;
+  tags?: string[];
+}
+
+// Visit Queue Types
+// Matches the SATS colour categories: red, orange, yellow, green
+export type TriagePriority = 'emergency' | 'very_urgent' | 'urgent' | 'routine';
+
+export type QueueEntryStatus = 'waiting' | 'called' | 'completed' | 'transferred' | 'left';
+
+export type VisitDisposition =
+  | 'discharged'
+  | 'admitted'
+  | 'referred'
+  | 'follow_up'
+  | 'left_without_being_seen'
+  | 'deceased';
+
+export interface Encounter {
+  id: string;
+  patientId: string;
+  encounterType: string;
+  facilityCode: string;
+  status: 'active' | 'completed' | 'cancelled';
+  checkedInAt: Date;
+  checkedOutAt?: Date;
+  disposition?: VisitDisposition;
+  dispositionNotes?: string;
+  providerId?: string;
+}
+
+export interface QueueEntry {
+  id: string;
+  encounterId: string;
+  patientId: string;
+  facilityCode: string;
+  servicePoint: string;
+  priority: TriagePriority;
+  status: QueueEntryStatus;
+  queueNumber: number; // restarts daily per facility
+  enqueuedAt: Date;
+  calledAt?: Date;
+  calledBy?: string;
+  completedAt?: Date;
+  transferredTo?: string;
+  patient?: Pick<Patient, 'id' | 'mrn' | 'firstName' | 'lastName'>;
+}
+
+export interface CheckInRequest {
+  facilityCode: string;
+  servicePoint: string;
+  priority?: TriagePriority;
+  encounterType?: string;
+  reason?: string;
+}
+
+export interface CheckOutRequest {
+  disposition: VisitDisposition;
+  notes?: string;
+}
+
+export interface ServicePointWaitStats {
+  servicePoint: string;
+  waiting: number;
+  longestCurrentWaitMinutes: number | null;
+  seen: number;
+  averageWaitMinutes: number | null;
+  medianWaitMinutes: number | null;
+  p90WaitMinutes: number | null;
+}
+
+// Program Enrollment Types
+export type ProgramType = 'ncd' | 'mhpss' | 'maternal';
+
+export type EnrollmentStatus =
+  | 'enrolled'
+  | 'defaulted'
+  | 'lost_to_follow_up'
+  | 'transferred_out'
+  | 'completed'
+  | 'died';
+
+export interface ProgramEligibility {
+  minAge?: number;
+  maxAge?: number;
+  genders?: Gender[];
+  diagnosisCodes?: string[]; // ICD-10 prefixes; the patient needs at least one match
+}
+
+export interface ProgramDefinition {
+  id: string;
+  name: string;
+  programType: ProgramType;
+  eligibility: ProgramEligibility;
+  defaulterGraceDays?: number; // overrides the configured default
+  active: boolean;
+}
+
+export type ProgramEnrollmentDetails = Partial<NCDProgram> | Partial<MentalHealthCase> | Partial<MaternalHealth>;
+
+export interface ProgramEnrollment {
+  id: string;
+  patientId: string;
+  programId: string;
+  status: EnrollmentStatus;
+  enrolledAt: Date;
+  enrolledBy: string;
+  facilityCode?: string;
+  diagnosisCodes: string[];
+  lastVisitDate?: Date;
+  nextAppointment?: Date;
+  statusChangedAt: Date;
+  outcomeReason?: string;
+  details?: ProgramEnrollmentDetails;
+}
+
+export interface EnrollPatientRequest {
+  enrollmentDate?: string;
+  facilityCode?: string;
+  diagnosisCodes?: string[];
+  nextAppointment?: string;
+  details?: ProgramEnrollmentDetails;
+}
+
+export interface ExitProgramRequest {
+  status: Exclude<EnrollmentStatus, 'enrolled' | 'defaulted'>;
+  outcomeReason?: string;
+  outcomeDate?: string;
+}
+
+export interface ProgramVisitRequest {
+  visitDate?: string;
+  nextAppointment?: string;
+}
+
 // Specialized Programs
+// Summary of an NCD enrollment built from its follow-up visits
 export interface NCDProgram {
   id: string;
   patientId: string;
-  conditionType: 'hypertension' | 'diabetes' | 'copd' | 'asthma' | 'epilepsy';
+  conditionType: NCDConditionType;
   diagnosisDate: Date;
   currentStatus: 'newly_diagnosed' | 'follow_up' | 'controlled' | 'uncontrolled';
   treatmentProtocol: string;
   lastAssessmentDate: Date;
   nextAppointment?: Date;
+  treatmentStep?: number;
   controlStatus: NCDControlStatus;
   medications: Medication[];
-  lifestyle: LifestyleFactors;
+  riskFactors: Partial<RiskFactorAssessment>; // latest recorded value of each factor
 }
 
 export interface NCDControlStatus {
@@ -146,7 +811,7 @@ export interface NCDControlStatus {
 export interface BloodPressure {
   systolic: number;
   diastolic: number;
-  pulse: number;
+  pulse?: number;
   date: Date;
 }
 
@@ -158,60 +823,265 @@ export interface LifestyleFactors {
   stressLevel: 'low' | 'moderate' | 'high';
 }
 
+// MHPSS Types
+export type MHRiskLevel = 'low' | 'moderate' | 'high' | 'crisis';
+
+export type MHAssessmentTool = 'phq9' | 'gad7' | 'whodas12' | 'mhgap_suicide';
+
+export type MHSeverity =
+  | 'none'
+  | 'minimal'
+  | 'mild'
+  | 'moderate'
+  | 'moderately_severe'
+  | 'severe'
+  | 'complete' // WHODAS only
+  | 'no_risk' // mhGAP screen
+  | 'risk'
+  | 'imminent_risk';
+
+// A case follows one patient through MHPSS care. Risk level is derived from the latest session's
+// assessments; session notes are only visible to staff holding the MHPSS notes permission.
 export interface MentalHealthCase {
   id: string;
   patientId: string;
+  enrollmentId: string;
+  status: 'open' | 'closed';
   caseType: 'new_clinical' | 'follow_up_clinical' | 'counseling';
   providerType: 'psychiatrist' | 'mhgap_doctor' | 'psychologist' | 'counselor';
-  sessionDate: Date;
-  sessionType: 'individual' | 'group' | 'family';
-  assessmentTools: string[];
+  caseworkerId: string;
+  supervisorId: string; // clinician notified of crisis escalations
+  sessionDate?: Date; // latest session
+  sessionType?: 'individual' | 'group' | 'family';
+  sessionCount: number;
+  assessmentTools: MHAssessmentTool[]; // tools used in any session
+  latestAssessments: MHAssessmentResult[]; // latest result per tool
   treatmentPlan: string;
   followUpRequired: boolean;
-  riskLevel: 'low' | 'moderate' | 'high' | 'crisis';
+  riskLevel: MHRiskLevel;
+  riskUpdatedAt: Date;
   interventions: MHIntervention[];
+  openedAt: Date;
+  openedBy: string;
+  closedAt?: Date;
+  closureReason?: string;
 }
 
 export interface MHIntervention {
+  id: string;
   type: 'medication' | 'therapy' | 'counseling' | 'referral';
   description: string;
   provider: string;
-  date: Date;
+  date: Date; // started
+  plannedSessions?: number;
+  sessionsCompleted: number;
+  status: 'active' | 'completed' | 'discontinued';
+  outcome?: string;
+}
+
+// mhGAP self-harm/suicide assessment questions
+export interface MHGapSuicideScreen {
+  medicallySeriousAct: boolean; // a medically serious act of self-harm now
+  currentThoughtsOrPlan: boolean;
+  thoughtsOrPlanPastMonth: boolean;
+  actPastYear: boolean;
+  severeDistress: boolean; // extremely agitated, violent, distressed or not communicating
+}
+
+// Item responses in questionnaire order: PHQ-9 and GAD-7 items 0-3, WHODAS 2.0 (12-item) items 0-4
+export type MHAssessmentInput =
+  | { tool: 'phq9' | 'gad7' | 'whodas12'; responses: number[] }
+  | { tool: 'mhgap_suicide'; responses: MHGapSuicideScreen };
+
+export type MHAssessmentResult = MHAssessmentInput & {
+  score?: number;
+  maxScore?: number;
+  percentage?: number; // WHODAS summary score, 0-100
+  severity: MHSeverity;
+  riskLevel: MHRiskLevel;
+  riskReasons: string[];
+};
+
+export interface MHSession {
+  id: string;
+  caseId: string;
+  sessionNumber: number;
+  sessionDate: Date;
+  sessionType: 'individual' | 'group' | 'family';
+  providerType: MentalHealthCase['providerType'];
+  provider: string;
+  durationMinutes?: number;
+  assessments: MHAssessmentResult[];
+  riskLevel: MHRiskLevel;
+  escalated: boolean; // crisis escalated to the supervising clinician
+  interventionIds: string[];
+  notes?: string;
+  notesRestricted: boolean; // notes exist but the viewer may not read them
+  nextSessionDate?: Date;
+  createdAt: Date;
+}
+
+export interface OpenMentalHealthCaseRequest {
+  caseType: MentalHealthCase['caseType'];
+  providerType: MentalHealthCase['providerType'];
+  supervisorId: string;
+  caseworkerId?: string; // defaults to the user opening the case
+  treatmentPlan?: string;
+  followUpRequired?: boolean;
+}
+
+export interface UpdateMentalHealthCaseRequest {
+  caseworkerId?: string;
+  supervisorId?: string;
+  treatmentPlan?: string;
+  followUpRequired?: boolean;
+}
+
+export interface CloseMentalHealthCaseRequest {
+  reason: string;
+}
+
+export interface AddMHInterventionRequest {
+  type: MHIntervention['type'];
+  description: string;
+  plannedSessions?: number;
+  startDate?: string;
+}
+
+export interface UpdateMHInterventionRequest {
+  status?: MHIntervention['status'];
   outcome?: string;
 }
 
+export interface RecordMHSessionRequest {
+  sessionDate?: string;
+  sessionType: MHSession['sessionType'];
+  providerType?: MentalHealthCase['providerType'];
+  durationMinutes?: number;
+  assessments?: MHAssessmentInput[];
+  interventionIds?: string[];
+  riskLevel?: MHRiskLevel; // clinical judgement can raise the derived level, never lower it
+  notes?: string;
+  nextSessionDate?: string;
+}
+
+export type PregnancyStatus = 'pregnant' | 'postpartum' | 'completed';
+
+export interface GestationalAge {
+  weeks: number;
+  days: number;
+  totalDays: number;
+}
+
+// One WHO ANC model contact (8 contacts, 2016); status is as of today
+export interface ANCContact {
+  contactNumber: number;
+  targetWeek: number;
+  dueDate: Date;
+  status: 'completed' | 'missed' | 'due' | 'upcoming';
+  visitId?: string;
+}
+
+export interface PNCContact {
+  contactNumber: number;
+  targetDay: number; // days after delivery
+  dueDate: Date;
+  status: 'completed' | 'missed' | 'due' | 'upcoming';
+  visitId?: string;
+}
+
+export type MaternalDangerSymptom =
+  | 'vaginal_bleeding'
+  | 'heavy_bleeding'
+  | 'convulsions'
+  | 'severe_headache'
+  | 'blurred_vision'
+  | 'epigastric_pain'
+  | 'severe_abdominal_pain'
+  | 'breathing_difficulty'
+  | 'fever'
+  | 'foul_discharge'
+  | 'reduced_fetal_movement'
+  | 'leaking_fluid'
+  | 'swelling_face_hands';
+
+export type Proteinuria = 'negative' | 'trace' | '1+' | '2+' | '3+' | '4+';
+
+export interface MaternalDangerSign {
+  code: string;
+  severity: 'warning' | 'urgent';
+  message: string;
+}
+
 export interface MaternalHealth {
   id: string;
   patientId: string;
-  pregnancyStatus: 'pregnant' | 'postpartum' | 'family_planning';
+  enrollmentId: string;
+  pregnancyStatus: PregnancyStatus;
+  lmp: Date;
+  estimatedDueDate: Date;
+  eddSource: 'lmp' | 'ultrasound';
+  gestationalAge?: GestationalAge; // today, while pregnant
+  gravida?: number;
+  parity?: number;
+  facilityCode?: string;
+  ancSchedule: ANCContact[];
+  pncSchedule: PNCContact[];
+  nextContactDate?: Date;
   ancVisits: ANCVisit[];
   pncVisits: PNCVisit[];
   familyPlanning?: FamilyPlanningMethod;
-  estimatedDueDate?: Date;
   pregnancyComplications: string[];
+  dangerSigns: MaternalDangerSign[]; // from the latest visit
   deliveryInfo?: DeliveryInfo;
+  registeredAt: Date;
+  registeredBy: string;
+  closedAt?: Date;
+  closureReason?: string;
 }
 
 export interface ANCVisit {
+  id: string;
+  pregnancyId: string;
   visitNumber: number;
+  contactNumber?: number; // the WHO contact the visit fulfilled
   date: Date;
-  gestationalAge: number;
-  weight: number;
-  bloodPressure: BloodPressure;
+  gestationalAge: GestationalAge;
+  weight?: number;
+  bloodPressure?: BloodPressure;
+  hemoglobin?: number; // g/dL
+  proteinuria?: Proteinuria;
+  fundalHeight?: number; // cm
+  fetalHeartRate?: number;
+  symptoms: MaternalDangerSymptom[];
+  dangerSigns: MaternalDangerSign[];
   complications: string[];
   medications: Medication[];
-  nextVisitDate: Date;
+  provider: string;
+  nextVisitDate?: Date;
+  notes?: string;
 }
 
 export interface PNCVisit {
+  id: string;
+  pregnancyId: string;
   visitNumber: number;
+  contactNumber?: number;
   date: Date;
   postpartumDay: number;
-  weight: number;
-  bloodPressure: BloodPressure;
+  weight?: number;
+  bloodPressure?: BloodPressure;
+  hemoglobin?: number;
+  temperature?: number;
+  symptoms: MaternalDangerSymptom[];
+  dangerSigns: MaternalDangerSign[];
   complications: string[];
-  breastfeedingStatus: string;
+  breastfeedingStatus: 'exclusive' | 'partial' | 'none';
   familyPlanningCounseling: boolean;
+  familyPlanning?: FamilyPlanningMethod;
+  provider: string;
+  nextVisitDate?: Date;
+  notes?: string;
 }
 
 export interface FamilyPlanningMethod {
@@ -222,14 +1092,98 @@ export interface FamilyPlanningMethod {
   followUpDate?: Date;
 }
 
+export interface ApgarScore {
+  oneMinute: number;
+  fiveMinute: number;
+  tenMinute?: number;
+}
+
+export interface NewbornOutcome {
+  sex: 'male' | 'female' | 'undetermined';
+  outcome: 'live_birth' | 'fresh_stillbirth' | 'macerated_stillbirth';
+  birthWeight?: number; // grams
+  apgar?: ApgarScore;
+  apgarCategory?: 'normal' | 'moderately_abnormal' | 'low'; // from the 5-minute score
+  lowBirthWeight?: boolean;
+  resuscitated?: boolean;
+}
+
 export interface DeliveryInfo {
   deliveryDate: Date;
   deliveryType: 'normal_vaginal' | 'assisted' | 'cesarean';
   attendant: string;
   facility: string;
+  gestationalAge: GestationalAge;
+  preterm: boolean;
   complications: string[];
-  birthWeight: number;
-  apgarScore?: number;
+  maternalOutcome: 'alive' | 'died';
+  newborns: NewbornOutcome[];
+  recordedBy: string;
+}
+
+export interface RegisterPregnancyRequest {
+  lmp?: string;
+  edd?: string; // ultrasound-dated; takes precedence over the LMP
+  gravida?: number;
+  parity?: number;
+  facilityCode?: string;
+  complications?: string[];
+}
+
+export interface RecordANCVisitRequest {
+  visitDate?: string;
+  weight?: number;
+  bloodPressure?: { systolic: number; diastolic: number };
+  hemoglobin?: number;
+  proteinuria?: Proteinuria;
+  fundalHeight?: number;
+  fetalHeartRate?: number;
+  symptoms?: MaternalDangerSymptom[];
+  complications?: string[];
+  medications?: Array<Pick<Medication, 'name' | 'dosage' | 'frequency'> & Partial<Medication>>;
+  nextVisitDate?: string; // defaults to the next WHO contact
+  notes?: string;
+}
+
+export interface RecordPNCVisitRequest {
+  visitDate?: string;
+  weight?: number;
+  bloodPressure?: { systolic: number; diastolic: number };
+  hemoglobin?: number;
+  temperature?: number;
+  symptoms?: MaternalDangerSymptom[];
+  complications?: string[];
+  breastfeedingStatus: PNCVisit['breastfeedingStatus'];
+  familyPlanningCounseling?: boolean;
+  familyPlanning?: Pick<FamilyPlanningMethod, 'method'> & {
+    startDate?: string; // defaults to the visit
+    counselingProvided?: boolean;
+    followUpDate?: string;
+  };
+  nextVisitDate?: string;
+  notes?: string;
+}
+
+export interface RecordDeliveryRequest {
+  deliveryDate: string;
+  deliveryType: DeliveryInfo['deliveryType'];
+  attendant: string;
+  facility: string;
+  complications?: string[];
+  maternalOutcome?: DeliveryInfo['maternalOutcome'];
+  newborns: Array<Pick<NewbornOutcome, 'sex' | 'outcome' | 'birthWeight' | 'apgar' | 'resuscitated'>>;
+}
+
+export interface ANCOverdueContact {
+  pregnancyId: string;
+  patient: Pick<Patient, 'id' | 'mrn' | 'firstName' | 'lastName'>;
+  facilityCode: string;
+  gestationalAge: GestationalAge;
+  estimatedDueDate: Date;
+  nextContactDate: Date;
+  daysOverdue: number;
+  lastVisitDate?: Date;
+  dangerSigns: MaternalDangerSign[];
 }
 
 // Referral System
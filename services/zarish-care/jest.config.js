@@ -0,0 +1,10 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  moduleNameMapper: {
+    '^@zarishhealthcare/shared-types$': '<rootDir>/../../packages/shared-types/src',
+    '^@/(.*)$': '<rootDir>/src/$1',
+  },
+};
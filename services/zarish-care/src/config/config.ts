@@ -59,6 +59,61 @@ interface Config {
     maxFileSize: number;
     allowedMimeTypes: string[];
     storagePath: string;
+    encryptionKey: string;
+    thumbnailSize: number;
+  };
+  retention: {
+    purgeEnabled: boolean;
+    purgeSchedule: string;
+    deletedPatientRetentionDays: number;
+    auditRetentionDays: number;
+  };
+  mpi: {
+    duplicateThreshold: number;
+    reviewThreshold: number;
+    maxCandidates: number;
+  };
+  mrn: {
+    defaultPattern: string;
+    counterWidth: number;
+    checkDigit: 'luhn_mod_n' | 'none';
+    maxBlockSize: number;
+  };
+  patientImport: {
+    maxFileSize: number;
+    maxRows: number;
+  };
+  patientExport: {
+    storagePath: string;
+    pseudonymSecret: string;
+    batchSize: number;
+  };
+  programs: {
+    defaulterCheckEnabled: boolean;
+    defaulterCheckSchedule: string;
+    defaulterGraceDays: number;
+    defaulterRemindersEnabled: boolean;
+  };
+  statistics: {
+    cacheTtlSeconds: number;
+    maxPeriods: number;
+  };
+  terminology: {
+    dataPath: string;
+    activeVersions: Record<string, string>;
+    strictDiagnosisCodes: boolean;
+  };
+  ncdProtocols: {
+    dataPath: string;
+    active: Record<string, { id: string; version?: string }>;
+  };
+  growthReferences: {
+    dataPath: string;
+  };
+  emergency: {
+    breachCheckEnabled: boolean;
+    breachCheckSchedule: string;
+    targetMinutes: Record<'red' | 'orange' | 'yellow' | 'green', number>;
   };
 }
 
@@ -134,6 +189,112 @@ export const config: Config = {
       'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
     ],
     storagePath: process.env.STORAGE_PATH || './uploads',
+    // Keys attachment encryption at rest; changing it makes existing attachments unreadable
+    encryptionKey: process.env.ATTACHMENT_ENCRYPTION_KEY as string, // required, see validateConfig
+    thumbnailSize: parseInt(process.env.THUMBNAIL_SIZE || '256', 10), // longest edge, pixels
+  },
+
+  retention: {
+    purgeEnabled: process.env.RETENTION_PURGE_ENABLED !== 'false',
+    purgeSchedule: process.env.RETENTION_PURGE_SCHEDULE || '0 2 * * *', // daily at 02:00
+    deletedPatientRetentionDays: parseInt(process.env.DELETED_PATIENT_RETENTION_DAYS || '3650', 10), // 10 years
+    auditRetentionDays: parseInt(process.env.AUDIT_RETENTION_DAYS || '3650', 10),
+  },
+
+  mpi: {
+    // Match probabilities at or above duplicateThreshold are likely duplicates;
+    // between reviewThreshold and duplicateThreshold they are listed for manual review
+    duplicateThreshold: parseFloat(process.env.MPI_DUPLICATE_THRESHOLD || '0.9'),
+    reviewThreshold: parseFloat(process.env.MPI_REVIEW_THRESHOLD || '0.5'),
+    maxCandidates: parseInt(process.env.MPI_MAX_CANDIDATES || '200', 10),
+  },
+
+  mrn: {
+    // Used for facilities without their own row in clinical.mrn_formats
+    defaultPattern: process.env.MRN_PATTERN || '{FACILITY}-{YYYY}-{COUNTER}{CHECK}',
+    counterWidth: parseInt(process.env.MRN_COUNTER_WIDTH || '6', 10),
+    checkDigit: process.env.MRN_CHECK_DIGIT === 'none' ? 'none' : 'luhn_mod_n',
+    maxBlockSize: parseInt(process.env.MRN_MAX_BLOCK_SIZE || '500', 10),
+  },
+
+  patientImport: {
+    maxFileSize: parseInt(process.env.IMPORT_MAX_FILE_SIZE || '20971520', 10), // 20MB
+    maxRows: parseInt(process.env.IMPORT_MAX_ROWS || '20000', 10),
+  },
+
+  patientExport: {
+    storagePath: process.env.EXPORT_STORAGE_PATH || `${process.env.STORAGE_PATH || './uploads'}/exports`,
+    // Keys the pseudonym hashes; changing it breaks linkage with earlier pseudonymised exports
+    pseudonymSecret: process.env.EXPORT_PSEUDONYM_SECRET as string, // required, see validateConfig
+    batchSize: parseInt(process.env.EXPORT_BATCH_SIZE || '500', 10),
+  },
+
+  programs: {
+    defaulterCheckEnabled: process.env.PROGRAM_DEFAULTER_CHECK_ENABLED !== 'false',
+    defaulterCheckSchedule: process.env.PROGRAM_DEFAULTER_CHECK_SCHEDULE || '0 3 * * *', // daily at 03:00
+    // Days past a missed appointment before an enrolled patient counts as a defaulter
+    defaulterGraceDays: parseInt(process.env.PROGRAM_DEFAULTER_GRACE_DAYS || '7', 10),
+    // Queue an SMS reminder for new defaulters who consented to reminders
+    defaulterRemindersEnabled: process.env.PROGRAM_DEFAULTER_REMINDERS_ENABLED === 'true',
+  },
+
+  statistics: {
+    cacheTtlSeconds: parseInt(process.env.STATISTICS_CACHE_TTL || '300', 10),
+    // Upper bound on the registration series, e.g. about a year of daily counts
+    maxPeriods: parseInt(process.env.STATISTICS_MAX_PERIODS || '400', 10),
+  },
+
+  terminology: {
+    dataPath: process.env.TERMINOLOGY_DATA_PATH || './terminology',
+    // Pins a code system to one of its loaded versions, e.g. "icd10:2019,ewars:2023"; otherwise the latest is used
+    activeVersions: Object.fromEntries(
+      (process.env.TERMINOLOGY_VERSIONS || '')
+        .split(',')
+        .map(entry => entry.split(':').map(part => part.trim()))
+        .filter(([system, version]) => system && version)
+    ),
+    // Reject diagnosis codes missing from the loaded ICD-10 code system, not just malformed ones
+    strictDiagnosisCodes: process.env.TERMINOLOGY_STRICT_DIAGNOSIS_CODES === 'true',
+  },
+
+  ncdProtocols: {
+    dataPath: process.env.NCD_PROTOCOLS_DATA_PATH || './protocols',
+    // The protocol each condition follows, e.g. "hypertension:bd-ncdc-hypertension@2023"; without a
+    // version the latest loaded one is used, and without an entry the first protocol for the condition
+    active: Object.fromEntries(
+      (process.env.NCD_PROTOCOLS || '')
+        .split(',')
+        .map(entry => entry.split(':').map(part => part.trim()))
+        .filter(([condition, protocol]) => condition && protocol)
+        .map(([condition, protocol]) => {
+          const [id, version] = protocol!.split('@').map(part => part.trim());
+          return [condition, { id: id!, ...(version && { version }) }];
+        })
+    ),
+  },
+
+  growthReferences: {
+    dataPath: process.env.GROWTH_REFERENCES_DATA_PATH || './growth-references',
+  },
+
+  emergency: {
+    breachCheckEnabled: process.env.EMERGENCY_BREACH_CHECK_ENABLED !== 'false',
+    breachCheckSchedule: process.env.EMERGENCY_BREACH_CHECK_SCHEDULE || '* * * * *', // every minute
+    // Minutes from arrival to the start of treatment per triage category, e.g. "orange:15,yellow:90"
+    targetMinutes: {
+      // SATS targets; red is immediate
+      red: 0,
+      orange: 10,
+      yellow: 60,
+      green: 240,
+      ...Object.fromEntries(
+        (process.env.EMERGENCY_TARGET_MINUTES || '')
+          .split(',')
+          .map(entry => entry.split(':').map(part => part.trim()))
+          .filter(([category, minutes]) => ['red', 'orange', 'yellow', 'green'].includes(category!) && minutes)
+          .map(([category, minutes]) => [category, parseInt(minutes!, 10)])
+      ),
+    },
   },
 };
 
@@ -145,7 +306,9 @@ export function validateConfig(): void {
     'DB_USER',
     'DB_PASSWORD',
     'REDIS_HOST',
-    'JWT_SECRET'
+    'JWT_SECRET',
+    'ATTACHMENT_ENCRYPTION_KEY',
+    'EXPORT_PSEUDONYM_SECRET'
   ];
 
   const missingVars = requiredEnvVars.filter(varName => !process.env[varName]);
@@ -167,6 +330,22 @@ export function validateConfig(): void {
     throw new Error('Invalid service port');
   }
 
+  if (config.retention.deletedPatientRetentionDays < 1) {
+    throw new Error('DELETED_PATIENT_RETENTION_DAYS must be at least 1 day');
+  }
+
+  if (config.mrn.counterWidth < 1 || config.mrn.maxBlockSize < 1) {
+    throw new Error('MRN_COUNTER_WIDTH and MRN_MAX_BLOCK_SIZE must be at least 1');
+  }
+
+  if (config.programs.defaulterGraceDays < 0) {
+    throw new Error('PROGRAM_DEFAULTER_GRACE_DAYS cannot be negative');
+  }
+
+  if (Object.values(config.emergency.targetMinutes).some(minutes => !Number.isInteger(minutes) || minutes < 0)) {
+    throw new Error('EMERGENCY_TARGET_MINUTES must be whole minutes, zero or more');
+  }
+
   if (config.security.bcryptRounds < 10 || config.security.bcryptRounds > 15) {
     throw new Error('BCrypt rounds should be between 10 and 15');
   }
@@ -298,4 +298,9 @@ export class Database {
 export const database = new Database();
 
 // Export types for use in other modules
-export type { PoolClient, QueryResult } from 'pg';
\ No newline at end of file
+export type { PoolClient, QueryResult } from 'pg';
+
+// Anything that can run a query: the shared pool or a client inside a transaction
+export interface Queryable {
+  query(text: string, params?: any[]): Promise<QueryResult<any>>;
+}
\ No newline at end of file
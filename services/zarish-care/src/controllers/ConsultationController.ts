@@ -0,0 +1,368 @@
+import { Request, Response } from 'express';
+import { PatientTypes, CommonTypes, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from '@zarishhealthcare/shared-types';
+import { logger } from '../utils/logger';
+import { BadRequestError } from '../middleware/errorHandler';
+import { getAuditContext } from '../services/AuditService';
+import {
+  consultationService,
+  ConsultationListOptions,
+  CONSULTATION_STATUSES,
+} from '../services/ConsultationService';
+
+// status, from, to and paging shared by the patient and provider lists
+function parseListOptions(query: Request['query']): ConsultationListOptions {
+  const { status, from, to, page = 1, limit = DEFAULT_PAGE_SIZE } = query;
+
+  if (status && !CONSULTATION_STATUSES.includes(status as PatientTypes.Consultation['status'])) {
+    throw new BadRequestError(`status must be one of: ${CONSULTATION_STATUSES.join(', ')}`);
+  }
+
+  const fromDate = from ? new Date(from as string) : undefined;
+  const toDate = to ? new Date(to as string) : undefined;
+
+  if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+    throw new BadRequestError('from and to must be valid dates');
+  }
+
+  return {
+    ...(status && { status: status as PatientTypes.Consultation['status'] }),
+    ...(fromDate && { from: fromDate }),
+    ...(toDate && { to: toDate }),
+    page: Math.max(parseInt(page as string) || 1, 1),
+    limit: Math.min(Math.max(parseInt(limit as string) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE),
+  };
+}
+
+function toPage(
+  consultations: PatientTypes.Consultation[],
+  total: number,
+  options: ConsultationListOptions
+): CommonTypes.PaginationResponse<PatientTypes.Consultation> {
+  const totalPages = Math.ceil(total / options.limit);
+
+  return {
+    items: consultations,
+    totalItems: total,
+    totalPages,
+    currentPage: options.page,
+    pageSize: options.limit,
+    hasNextPage: options.page < totalPages,
+    hasPreviousPage: options.page > 1,
+  };
+}
+
+export class ConsultationController {
+
+  createConsultation = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const request: PatientTypes.CreateConsultationRequest = req.body;
+
+      const consultation = await consultationService.create(request, {
+        ...getAuditContext(req),
+        userId: req.user!.id,
+      });
+
+      const response: CommonTypes.ApiResponse<PatientTypes.Consultation> = {
+        success: true,
+        data: consultation,
+        message: 'Consultation created successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error creating consultation', {
+        userId: req.user?.id,
+        patientId: req.body?.patientId,
+        encounterId: req.body?.encounterId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  getConsultation = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        throw new BadRequestError('Consultation ID is required');
+      }
+
+      const consultation = await consultationService.getConsultation(id);
+
+      const response: CommonTypes.ApiResponse<PatientTypes.Consultation> = {
+        success: true,
+        data: consultation,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving consultation', {
+        userId: req.user?.id,
+        consultationId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  // Draft edits; pass `version` to detect concurrent changes
+  updateConsultation = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const request: PatientTypes.UpdateConsultationRequest = req.body;
+
+      if (!id) {
+        throw new BadRequestError('Consultation ID is required');
+      }
+
+      const consultation = await consultationService.update(id, request, {
+        ...getAuditContext(req),
+        userId: req.user!.id,
+      });
+
+      const response: CommonTypes.ApiResponse<PatientTypes.Consultation> = {
+        success: true,
+        data: consultation,
+        message: 'Consultation updated successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error updating consultation', {
+        userId: req.user?.id,
+        consultationId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  cancelConsultation = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { reason } = req.body || {};
+
+      if (!id) {
+        throw new BadRequestError('Consultation ID is required');
+      }
+
+      const consultation = await consultationService.cancel(id, reason ? String(reason) : undefined, {
+        ...getAuditContext(req),
+        userId: req.user!.id,
+      });
+
+      const response: CommonTypes.ApiResponse<PatientTypes.Consultation> = {
+        success: true,
+        data: consultation,
+        message: 'Consultation cancelled successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error cancelling consultation', {
+        userId: req.user?.id,
+        consultationId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  signConsultation = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        throw new BadRequestError('Consultation ID is required');
+      }
+
+      const consultation = await consultationService.sign(id, {
+        ...getAuditContext(req),
+        userId: req.user!.id,
+      });
+
+      const response: CommonTypes.ApiResponse<PatientTypes.Consultation> = {
+        success: true,
+        data: consultation,
+        message: 'Consultation signed successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error signing consultation', {
+        userId: req.user?.id,
+        consultationId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  addAddendum = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const request: PatientTypes.AddConsultationAddendumRequest = req.body;
+
+      if (!id) {
+        throw new BadRequestError('Consultation ID is required');
+      }
+
+      const consultation = await consultationService.addAddendum(id, request, {
+        ...getAuditContext(req),
+        userId: req.user!.id,
+      });
+
+      const response: CommonTypes.ApiResponse<PatientTypes.Consultation> = {
+        success: true,
+        data: consultation,
+        message: 'Addendum added successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error adding consultation addendum', {
+        userId: req.user?.id,
+        consultationId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  addDiagnosis = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const request: PatientTypes.DiagnosisRequest = req.body;
+
+      if (!id) {
+        throw new BadRequestError('Consultation ID is required');
+      }
+
+      const consultation = await consultationService.addDiagnosis(id, request, {
+        ...getAuditContext(req),
+        userId: req.user!.id,
+      });
+
+      const response: CommonTypes.ApiResponse<PatientTypes.Consultation> = {
+        success: true,
+        data: consultation,
+        message: 'Diagnosis added successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error adding diagnosis', {
+        userId: req.user?.id,
+        consultationId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  removeDiagnosis = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, diagnosisId } = req.params;
+
+      if (!id || !diagnosisId) {
+        throw new BadRequestError('Consultation ID and diagnosis ID are required');
+      }
+
+      const consultation = await consultationService.removeDiagnosis(id, diagnosisId, {
+        ...getAuditContext(req),
+        userId: req.user!.id,
+      });
+
+      const response: CommonTypes.ApiResponse<PatientTypes.Consultation> = {
+        success: true,
+        data: consultation,
+        message: 'Diagnosis removed successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error removing diagnosis', {
+        userId: req.user?.id,
+        consultationId: req.params.id,
+        diagnosisId: req.params.diagnosisId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  getPatientConsultations = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        throw new BadRequestError('Patient ID is required');
+      }
+
+      const options = parseListOptions(req.query);
+      const { consultations, total } = await consultationService.listForPatient(id, options);
+
+      const response: CommonTypes.ApiResponse<CommonTypes.PaginationResponse<PatientTypes.Consultation>> = {
+        success: true,
+        data: toPage(consultations, total, options),
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving patient consultations', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  getProviderConsultations = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { providerId } = req.params;
+
+      if (!providerId) {
+        throw new BadRequestError('Provider ID is required');
+      }
+
+      const options = parseListOptions(req.query);
+      const { consultations, total } = await consultationService.listForProvider(providerId, options);
+
+      const response: CommonTypes.ApiResponse<CommonTypes.PaginationResponse<PatientTypes.Consultation>> = {
+        success: true,
+        data: toPage(consultations, total, options),
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving provider consultations', {
+        userId: req.user?.id,
+        providerId: req.params.providerId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+}
@@ -0,0 +1,293 @@
+import { Request, Response } from 'express';
+import { ClinicalTypes, CommonTypes } from '@zarishhealthcare/shared-types';
+import { logger } from '../utils/logger';
+import { BadRequestError } from '../middleware/errorHandler';
+import { getAuditContext } from '../services/AuditService';
+import { emergencyService } from '../services/EmergencyService';
+
+export class EmergencyController {
+
+  scoreTriage = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const request: ClinicalTypes.ScoreTriageRequest = req.body;
+
+      const result = emergencyService.scoreTriage(request);
+
+      const response: CommonTypes.ApiResponse<ClinicalTypes.TriageResult> = {
+        success: true,
+        data: result,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error scoring triage', {
+        userId: req.user?.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  getBoard = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { facilityCode } = req.params;
+
+      if (!facilityCode) {
+        throw new BadRequestError('Facility code is required');
+      }
+
+      const assessments = await emergencyService.getBoard(facilityCode);
+
+      const response: CommonTypes.ApiResponse<ClinicalTypes.EmergencyAssessment[]> = {
+        success: true,
+        data: assessments,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving emergency board', {
+        userId: req.user?.id,
+        facilityCode: req.params.facilityCode,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  // Time-to-treatment performance per triage category; defaults to today
+  getPerformance = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { facilityCode } = req.params;
+      const { from, to } = req.query;
+
+      if (!facilityCode) {
+        throw new BadRequestError('Facility code is required');
+      }
+
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+      const fromDate = from ? new Date(from as string) : today;
+      const toDate = to ? new Date(to as string) : new Date();
+
+      if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime())) {
+        throw new BadRequestError('from and to must be valid dates');
+      }
+
+      if (fromDate >= toDate) {
+        throw new BadRequestError('from must be earlier than to');
+      }
+
+      const report = await emergencyService.getPerformance(facilityCode, fromDate, toDate);
+
+      const response: CommonTypes.ApiResponse<ClinicalTypes.EmergencyPerformanceReport> = {
+        success: true,
+        data: report,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving emergency performance', {
+        userId: req.user?.id,
+        facilityCode: req.params.facilityCode,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  getPatientAssessments = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        throw new BadRequestError('Patient ID is required');
+      }
+
+      const assessments = await emergencyService.getPatientAssessments(id);
+
+      const response: CommonTypes.ApiResponse<ClinicalTypes.EmergencyAssessment[]> = {
+        success: true,
+        data: assessments,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving emergency assessments', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  triagePatient = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const request: ClinicalTypes.TriageRequest = req.body;
+
+      if (!id) {
+        throw new BadRequestError('Patient ID is required');
+      }
+
+      const assessment = await emergencyService.triagePatient(id, request, {
+        ...getAuditContext(req),
+        userId: req.user!.id,
+      });
+
+      const response: CommonTypes.ApiResponse<ClinicalTypes.EmergencyAssessment> = {
+        success: true,
+        data: assessment,
+        message: `Patient triaged ${assessment.triageCategory}`,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error triaging patient', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  getAssessment = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { assessmentId } = req.params;
+
+      if (!assessmentId) {
+        throw new BadRequestError('Emergency assessment ID is required');
+      }
+
+      const assessment = await emergencyService.getAssessment(assessmentId);
+
+      const response: CommonTypes.ApiResponse<ClinicalTypes.EmergencyAssessment> = {
+        success: true,
+        data: assessment,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving emergency assessment', {
+        userId: req.user?.id,
+        assessmentId: req.params.assessmentId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  startTreatment = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { assessmentId } = req.params;
+      const request: ClinicalTypes.StartEmergencyTreatmentRequest = req.body;
+
+      if (!assessmentId) {
+        throw new BadRequestError('Emergency assessment ID is required');
+      }
+
+      const assessment = await emergencyService.startTreatment(assessmentId, request, {
+        ...getAuditContext(req),
+        userId: req.user!.id,
+      });
+
+      const response: CommonTypes.ApiResponse<ClinicalTypes.EmergencyAssessment> = {
+        success: true,
+        data: assessment,
+        message: assessment.timeToTreatment.breached
+          ? `Treatment started ${assessment.timeToTreatment.waitMinutes} minutes after arrival, past the target`
+          : 'Treatment started within the target',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error starting emergency treatment', {
+        userId: req.user?.id,
+        assessmentId: req.params.assessmentId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  recordIntervention = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { assessmentId } = req.params;
+      const request: ClinicalTypes.RecordEmergencyInterventionRequest = req.body;
+
+      if (!assessmentId) {
+        throw new BadRequestError('Emergency assessment ID is required');
+      }
+
+      const assessment = await emergencyService.recordIntervention(assessmentId, request, {
+        ...getAuditContext(req),
+        userId: req.user!.id,
+      });
+
+      const response: CommonTypes.ApiResponse<ClinicalTypes.EmergencyAssessment> = {
+        success: true,
+        data: assessment,
+        message: 'Intervention recorded successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error recording emergency intervention', {
+        userId: req.user?.id,
+        assessmentId: req.params.assessmentId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  recordDisposition = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { assessmentId } = req.params;
+      const request: ClinicalTypes.EmergencyDisposition = req.body;
+
+      if (!assessmentId) {
+        throw new BadRequestError('Emergency assessment ID is required');
+      }
+
+      const assessment = await emergencyService.recordDisposition(assessmentId, request, {
+        ...getAuditContext(req),
+        userId: req.user!.id,
+      });
+
+      const response: CommonTypes.ApiResponse<ClinicalTypes.EmergencyAssessment> = {
+        success: true,
+        data: assessment,
+        message: 'Disposition recorded successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error recording emergency disposition', {
+        userId: req.user?.id,
+        assessmentId: req.params.assessmentId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+}
@@ -0,0 +1,286 @@
+import { Request, Response } from 'express';
+import { PatientTypes, CommonTypes } from '@zarishhealthcare/shared-types';
+import { logger } from '../utils/logger';
+import { BadRequestError } from '../middleware/errorHandler';
+import { getAuditContext } from '../services/AuditService';
+import { householdService } from '../services/HouseholdService';
+
+export class HouseholdController {
+
+  // Register a household, optionally with its initial members
+  createHousehold = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { campLocation, blockNumber, shelterId, facilityCode, members } = req.body || {};
+
+      if (members !== undefined && !Array.isArray(members)) {
+        throw new BadRequestError('members must be an array');
+      }
+
+      const household = await householdService.createHousehold(
+        {
+          campLocation,
+          ...(blockNumber && { blockNumber }),
+          ...(shelterId && { shelterId }),
+          ...(facilityCode && { facilityCode }),
+          ...(members && { members }),
+        },
+        { ...getAuditContext(req), userId: req.user!.id }
+      );
+
+      const response: CommonTypes.ApiResponse<PatientTypes.Household> = {
+        success: true,
+        data: household,
+        message: 'Household created successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error creating household', {
+        userId: req.user?.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  // Household with all current members and their patient records
+  getHousehold = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { householdId } = req.params;
+
+      if (!householdId) {
+        throw new BadRequestError('Household ID is required');
+      }
+
+      const household = await householdService.getHousehold(householdId);
+
+      const response: CommonTypes.ApiResponse<PatientTypes.Household> = {
+        success: true,
+        data: household,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving household', {
+        userId: req.user?.id,
+        householdId: req.params.householdId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  updateHousehold = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { householdId } = req.params;
+      const { campLocation, blockNumber, shelterId, facilityCode } = req.body || {};
+
+      if (!householdId) {
+        throw new BadRequestError('Household ID is required');
+      }
+
+      const household = await householdService.updateHousehold(
+        householdId,
+        {
+          ...(campLocation !== undefined && { campLocation }),
+          ...(blockNumber !== undefined && { blockNumber }),
+          ...(shelterId !== undefined && { shelterId }),
+          ...(facilityCode !== undefined && { facilityCode }),
+        },
+        { ...getAuditContext(req), userId: req.user!.id }
+      );
+
+      const response: CommonTypes.ApiResponse<PatientTypes.Household> = {
+        success: true,
+        data: household,
+        message: 'Household updated successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error updating household', {
+        userId: req.user?.id,
+        householdId: req.params.householdId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  dissolveHousehold = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { householdId } = req.params;
+
+      if (!householdId) {
+        throw new BadRequestError('Household ID is required');
+      }
+
+      await householdService.dissolveHousehold(householdId, { ...getAuditContext(req), userId: req.user!.id });
+
+      const response: CommonTypes.ApiResponse<null> = {
+        success: true,
+        data: null,
+        message: 'Household dissolved successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error dissolving household', {
+        userId: req.user?.id,
+        householdId: req.params.householdId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  addMember = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { householdId } = req.params;
+      const { patientId, relationship, immunizationStatus, nutritionStatus } = req.body || {};
+
+      if (!householdId) {
+        throw new BadRequestError('Household ID is required');
+      }
+
+      const household = await householdService.addMember(
+        householdId,
+        {
+          patientId,
+          relationship,
+          ...(immunizationStatus && { immunizationStatus }),
+          ...(nutritionStatus && { nutritionStatus }),
+        },
+        { ...getAuditContext(req), userId: req.user!.id }
+      );
+
+      const response: CommonTypes.ApiResponse<PatientTypes.Household> = {
+        success: true,
+        data: household,
+        message: 'Household member added successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error adding household member', {
+        userId: req.user?.id,
+        householdId: req.params.householdId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  // Change a member's relationship or record their immunization/nutrition status
+  updateMember = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { householdId, patientId } = req.params;
+      const { relationship, immunizationStatus, nutritionStatus } = req.body || {};
+
+      if (!householdId || !patientId) {
+        throw new BadRequestError('Household ID and patient ID are required');
+      }
+
+      const household = await householdService.updateMember(
+        householdId,
+        patientId,
+        {
+          ...(relationship && { relationship }),
+          ...(immunizationStatus && { immunizationStatus }),
+          ...(nutritionStatus && { nutritionStatus }),
+        },
+        { ...getAuditContext(req), userId: req.user!.id }
+      );
+
+      const response: CommonTypes.ApiResponse<PatientTypes.Household> = {
+        success: true,
+        data: household,
+        message: 'Household member updated successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error updating household member', {
+        userId: req.user?.id,
+        householdId: req.params.householdId,
+        patientId: req.params.patientId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  removeMember = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { householdId, patientId } = req.params;
+
+      if (!householdId || !patientId) {
+        throw new BadRequestError('Household ID and patient ID are required');
+      }
+
+      const household = await householdService.removeMember(
+        householdId,
+        patientId,
+        { ...getAuditContext(req), userId: req.user!.id }
+      );
+
+      const response: CommonTypes.ApiResponse<PatientTypes.Household> = {
+        success: true,
+        data: household,
+        message: 'Household member removed successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error removing household member', {
+        userId: req.user?.id,
+        householdId: req.params.householdId,
+        patientId: req.params.patientId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  // Household indicators, narrowed by camp, block or facility
+  getIndicators = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { campLocation, blockNumber, facilityCode } = req.query;
+
+      const indicators = await householdService.getIndicators({
+        ...(campLocation && { campLocation: String(campLocation) }),
+        ...(blockNumber && { blockNumber: String(blockNumber) }),
+        ...(facilityCode && { facilityCode: String(facilityCode) }),
+      });
+
+      const response: CommonTypes.ApiResponse<PatientTypes.HouseholdIndicators> = {
+        success: true,
+        data: indicators,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving household indicators', {
+        userId: req.user?.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+}
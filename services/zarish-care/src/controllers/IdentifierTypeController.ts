@@ -0,0 +1,69 @@
+import { Request, Response } from 'express';
+import { PatientTypes, CommonTypes } from '@zarishhealthcare/shared-types';
+import { logger } from '../utils/logger';
+import { BadRequestError } from '../middleware/errorHandler';
+import { identifierService } from '../services/IdentifierService';
+
+export class IdentifierTypeController {
+
+  // Registered identifier types with their format and uniqueness rules
+  getTypes = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const types = await identifierService.listTypes();
+
+      const response: CommonTypes.ApiResponse<PatientTypes.IdentifierType[]> = {
+        success: true,
+        data: types,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving identifier types', {
+        userId: req.user?.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  // Create or change an identifier type. Format changes apply to new identifiers only.
+  saveType = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { code } = req.params;
+      const { name, formatRegex, issuingAuthority, uniquenessScope, printable, active } = req.body || {};
+
+      if (!code) {
+        throw new BadRequestError('Identifier type code is required');
+      }
+
+      const type = await identifierService.saveType({
+        code,
+        name,
+        formatRegex,
+        issuingAuthority,
+        uniquenessScope,
+        printable,
+        active,
+      }, req.user!.id);
+
+      const response: CommonTypes.ApiResponse<PatientTypes.IdentifierType> = {
+        success: true,
+        data: type,
+        message: 'Identifier type saved successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error saving identifier type', {
+        userId: req.user?.id,
+        code: req.params.code,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+}
@@ -0,0 +1,243 @@
+import { Request, Response } from 'express';
+import { CommonTypes, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, PatientTypes } from '@zarishhealthcare/shared-types';
+import { logger } from '../utils/logger';
+import { BadRequestError } from '../middleware/errorHandler';
+import { getAuditContext } from '../services/AuditService';
+import { maternalService } from '../services/MaternalService';
+
+const dangerSignMessage = (dangerSigns: PatientTypes.MaternalDangerSign[], recorded: string): string =>
+  dangerSigns.length > 0
+    ? `${recorded}; danger signs: ${dangerSigns.map(sign => sign.message).join('; ')}`
+    : `${recorded} successfully`;
+
+export class MaternalController {
+
+  getOverdueContacts = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { facilityCode, page = 1, limit = DEFAULT_PAGE_SIZE } = req.query;
+
+      const currentPage = Math.max(parseInt(page as string) || 1, 1);
+      const pageSize = Math.min(Math.max(parseInt(limit as string) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+      const { contacts, total } = await maternalService.getOverdueContacts({
+        ...(facilityCode && { facilityCode: facilityCode as string }),
+        page: currentPage,
+        limit: pageSize,
+      });
+
+      const totalPages = Math.ceil(total / pageSize);
+
+      const response: CommonTypes.ApiResponse<CommonTypes.PaginationResponse<PatientTypes.ANCOverdueContact>> = {
+        success: true,
+        data: {
+          items: contacts,
+          totalItems: total,
+          totalPages,
+          currentPage,
+          pageSize,
+          hasNextPage: currentPage < totalPages,
+          hasPreviousPage: currentPage > 1,
+        },
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving overdue ANC contacts', {
+        userId: req.user?.id,
+        facilityCode: req.query.facilityCode,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  getPatientPregnancies = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        throw new BadRequestError('Patient ID is required');
+      }
+
+      const pregnancies = await maternalService.getPatientPregnancies(id);
+
+      const response: CommonTypes.ApiResponse<PatientTypes.MaternalHealth[]> = {
+        success: true,
+        data: pregnancies,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving pregnancies', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  registerPregnancy = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const request: PatientTypes.RegisterPregnancyRequest = req.body;
+
+      if (!id) {
+        throw new BadRequestError('Patient ID is required');
+      }
+
+      const pregnancy = await maternalService.registerPregnancy(id, request, {
+        ...getAuditContext(req),
+        userId: req.user!.id,
+      });
+
+      const response: CommonTypes.ApiResponse<PatientTypes.MaternalHealth> = {
+        success: true,
+        data: pregnancy,
+        message: 'Pregnancy registered successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error registering pregnancy', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  getPregnancy = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { pregnancyId } = req.params;
+
+      if (!pregnancyId) {
+        throw new BadRequestError('Pregnancy ID is required');
+      }
+
+      const pregnancy = await maternalService.getPregnancy(pregnancyId);
+
+      const response: CommonTypes.ApiResponse<PatientTypes.MaternalHealth> = {
+        success: true,
+        data: pregnancy,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving pregnancy', {
+        userId: req.user?.id,
+        pregnancyId: req.params.pregnancyId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  recordAncVisit = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { pregnancyId } = req.params;
+      const request: PatientTypes.RecordANCVisitRequest = req.body;
+
+      if (!pregnancyId) {
+        throw new BadRequestError('Pregnancy ID is required');
+      }
+
+      const visit = await maternalService.recordAncVisit(pregnancyId, request, {
+        ...getAuditContext(req),
+        userId: req.user!.id,
+      });
+
+      const response: CommonTypes.ApiResponse<PatientTypes.ANCVisit> = {
+        success: true,
+        data: visit,
+        message: dangerSignMessage(visit.dangerSigns, 'ANC visit recorded'),
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error recording ANC visit', {
+        userId: req.user?.id,
+        pregnancyId: req.params.pregnancyId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  recordDelivery = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { pregnancyId } = req.params;
+      const request: PatientTypes.RecordDeliveryRequest = req.body;
+
+      if (!pregnancyId) {
+        throw new BadRequestError('Pregnancy ID is required');
+      }
+
+      const pregnancy = await maternalService.recordDelivery(pregnancyId, request, {
+        ...getAuditContext(req),
+        userId: req.user!.id,
+      });
+
+      const response: CommonTypes.ApiResponse<PatientTypes.MaternalHealth> = {
+        success: true,
+        data: pregnancy,
+        message: 'Delivery recorded successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error recording delivery', {
+        userId: req.user?.id,
+        pregnancyId: req.params.pregnancyId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  recordPncVisit = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { pregnancyId } = req.params;
+      const request: PatientTypes.RecordPNCVisitRequest = req.body;
+
+      if (!pregnancyId) {
+        throw new BadRequestError('Pregnancy ID is required');
+      }
+
+      const visit = await maternalService.recordPncVisit(pregnancyId, request, {
+        ...getAuditContext(req),
+        userId: req.user!.id,
+      });
+
+      const response: CommonTypes.ApiResponse<PatientTypes.PNCVisit> = {
+        success: true,
+        data: visit,
+        message: dangerSignMessage(visit.dangerSigns, 'PNC visit recorded'),
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error recording PNC visit', {
+        userId: req.user?.id,
+        pregnancyId: req.params.pregnancyId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+}
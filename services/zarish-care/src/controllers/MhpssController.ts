@@ -0,0 +1,336 @@
+import { Request, Response } from 'express';
+import { CommonTypes, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, PatientTypes } from '@zarishhealthcare/shared-types';
+import { logger } from '../utils/logger';
+import { BadRequestError } from '../middleware/errorHandler';
+import { getAuditContext } from '../services/AuditService';
+import { mhpssService } from '../services/MhpssService';
+
+export class MhpssController {
+
+  openCase = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const request: PatientTypes.OpenMentalHealthCaseRequest = req.body;
+
+      if (!id) {
+        throw new BadRequestError('Patient ID is required');
+      }
+
+      const mentalHealthCase = await mhpssService.openCase(id, request, {
+        ...getAuditContext(req),
+        userId: req.user!.id,
+      });
+
+      const response: CommonTypes.ApiResponse<PatientTypes.MentalHealthCase> = {
+        success: true,
+        data: mentalHealthCase,
+        message: 'MHPSS case opened successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error opening MHPSS case', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  getPatientCases = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        throw new BadRequestError('Patient ID is required');
+      }
+
+      const cases = await mhpssService.getPatientCases(id);
+
+      const response: CommonTypes.ApiResponse<PatientTypes.MentalHealthCase[]> = {
+        success: true,
+        data: cases,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving MHPSS cases', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  getCase = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { caseId } = req.params;
+
+      if (!caseId) {
+        throw new BadRequestError('Case ID is required');
+      }
+
+      const mentalHealthCase = await mhpssService.getCase(caseId);
+
+      const response: CommonTypes.ApiResponse<PatientTypes.MentalHealthCase> = {
+        success: true,
+        data: mentalHealthCase,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving MHPSS case', {
+        userId: req.user?.id,
+        caseId: req.params.caseId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  updateCase = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { caseId } = req.params;
+      const request: PatientTypes.UpdateMentalHealthCaseRequest = req.body;
+
+      if (!caseId) {
+        throw new BadRequestError('Case ID is required');
+      }
+
+      const mentalHealthCase = await mhpssService.updateCase(caseId, request, {
+        ...getAuditContext(req),
+        userId: req.user!.id,
+      });
+
+      const response: CommonTypes.ApiResponse<PatientTypes.MentalHealthCase> = {
+        success: true,
+        data: mentalHealthCase,
+        message: 'MHPSS case updated successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error updating MHPSS case', {
+        userId: req.user?.id,
+        caseId: req.params.caseId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  closeCase = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { caseId } = req.params;
+      const request: PatientTypes.CloseMentalHealthCaseRequest = req.body;
+
+      if (!caseId) {
+        throw new BadRequestError('Case ID is required');
+      }
+
+      const mentalHealthCase = await mhpssService.closeCase(caseId, request, {
+        ...getAuditContext(req),
+        userId: req.user!.id,
+      });
+
+      const response: CommonTypes.ApiResponse<PatientTypes.MentalHealthCase> = {
+        success: true,
+        data: mentalHealthCase,
+        message: 'MHPSS case closed successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error closing MHPSS case', {
+        userId: req.user?.id,
+        caseId: req.params.caseId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  addIntervention = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { caseId } = req.params;
+      const request: PatientTypes.AddMHInterventionRequest = req.body;
+
+      if (!caseId) {
+        throw new BadRequestError('Case ID is required');
+      }
+
+      const intervention = await mhpssService.addIntervention(caseId, request, {
+        ...getAuditContext(req),
+        userId: req.user!.id,
+      });
+
+      const response: CommonTypes.ApiResponse<PatientTypes.MHIntervention> = {
+        success: true,
+        data: intervention,
+        message: 'MHPSS intervention added successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error adding MHPSS intervention', {
+        userId: req.user?.id,
+        caseId: req.params.caseId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  updateIntervention = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { caseId, interventionId } = req.params;
+      const request: PatientTypes.UpdateMHInterventionRequest = req.body;
+
+      if (!caseId || !interventionId) {
+        throw new BadRequestError('Case ID and intervention ID are required');
+      }
+
+      const intervention = await mhpssService.updateIntervention(caseId, interventionId, request, {
+        ...getAuditContext(req),
+        userId: req.user!.id,
+      });
+
+      const response: CommonTypes.ApiResponse<PatientTypes.MHIntervention> = {
+        success: true,
+        data: intervention,
+        message: 'MHPSS intervention updated successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error updating MHPSS intervention', {
+        userId: req.user?.id,
+        caseId: req.params.caseId,
+        interventionId: req.params.interventionId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  getSessions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { caseId } = req.params;
+      const { page = 1, limit = DEFAULT_PAGE_SIZE } = req.query;
+
+      if (!caseId) {
+        throw new BadRequestError('Case ID is required');
+      }
+
+      const currentPage = Math.max(parseInt(page as string) || 1, 1);
+      const pageSize = Math.min(Math.max(parseInt(limit as string) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+      const { sessions, total } = await mhpssService.listSessions(
+        caseId,
+        { page: currentPage, limit: pageSize },
+        req.user,
+        { ...getAuditContext(req), userId: req.user!.id }
+      );
+
+      const totalPages = Math.ceil(total / pageSize);
+
+      const response: CommonTypes.ApiResponse<CommonTypes.PaginationResponse<PatientTypes.MHSession>> = {
+        success: true,
+        data: {
+          items: sessions,
+          totalItems: total,
+          totalPages,
+          currentPage,
+          pageSize,
+          hasNextPage: currentPage < totalPages,
+          hasPreviousPage: currentPage > 1,
+        },
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving MHPSS sessions', {
+        userId: req.user?.id,
+        caseId: req.params.caseId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  recordSession = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { caseId } = req.params;
+      const request: PatientTypes.RecordMHSessionRequest = req.body;
+
+      if (!caseId) {
+        throw new BadRequestError('Case ID is required');
+      }
+
+      const session = await mhpssService.recordSession(caseId, request, req.user, {
+        ...getAuditContext(req),
+        userId: req.user!.id,
+      });
+
+      const response: CommonTypes.ApiResponse<PatientTypes.MHSession> = {
+        success: true,
+        data: session,
+        message: session.escalated
+          ? 'MHPSS session recorded; crisis risk escalated to the supervising clinician'
+          : 'MHPSS session recorded successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error recording MHPSS session', {
+        userId: req.user?.id,
+        caseId: req.params.caseId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  scoreAssessments = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { assessments } = req.body as { assessments: PatientTypes.MHAssessmentInput[] };
+
+      const results = mhpssService.scoreAssessments(assessments);
+
+      const response: CommonTypes.ApiResponse<PatientTypes.MHAssessmentResult[]> = {
+        success: true,
+        data: results,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error scoring MHPSS assessments', {
+        userId: req.user?.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+}
@@ -0,0 +1,95 @@
+import { Request, Response } from 'express';
+import { PatientTypes, CommonTypes } from '@zarishhealthcare/shared-types';
+import { logger } from '../utils/logger';
+import { BadRequestError } from '../middleware/errorHandler';
+import { mrnService } from '../services/MrnService';
+
+export class MrnController {
+
+  // Get the MRN format used by a facility (the configured default if it has none of its own)
+  getFormat = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { facilityCode } = req.params;
+
+      if (!facilityCode) {
+        throw new BadRequestError('Facility code is required');
+      }
+
+      const format = await mrnService.getFormat(facilityCode);
+
+      const response: CommonTypes.ApiResponse<PatientTypes.MrnFormat> = {
+        success: true,
+        data: format,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving MRN format', {
+        userId: req.user?.id,
+        facilityCode: req.params.facilityCode,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  // Set a facility's MRN format. Existing MRNs keep their old format; only new ones change.
+  updateFormat = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { facilityCode } = req.params;
+      const { pattern, counterWidth, checkDigit } = req.body || {};
+
+      if (!facilityCode) {
+        throw new BadRequestError('Facility code is required');
+      }
+
+      const format = await mrnService.saveFormat({ facilityCode, pattern, counterWidth, checkDigit }, req.user!.id);
+
+      const response: CommonTypes.ApiResponse<PatientTypes.MrnFormat> = {
+        success: true,
+        data: format,
+        message: 'MRN format updated successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error updating MRN format', {
+        userId: req.user?.id,
+        facilityCode: req.params.facilityCode,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  // Reserve a block of MRNs for offline registration on a device
+  reserveBlock = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const request = req.body as PatientTypes.MrnReservationRequest;
+
+      const reservation = await mrnService.reserveBlock(request, req.user!.id);
+
+      const response: CommonTypes.ApiResponse<PatientTypes.MrnReservation> = {
+        success: true,
+        data: reservation,
+        message: 'MRN block reserved successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error reserving MRN block', {
+        userId: req.user?.id,
+        facilityCode: req.body?.facilityCode,
+        deviceId: req.body?.deviceId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+}
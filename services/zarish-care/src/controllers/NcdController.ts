@@ -0,0 +1,257 @@
+import { Request, Response } from 'express';
+import {
+  ClinicalTypes,
+  CommonTypes,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  PatientTypes,
+} from '@zarishhealthcare/shared-types';
+import { logger } from '../utils/logger';
+import { BadRequestError } from '../middleware/errorHandler';
+import { getAuditContext } from '../services/AuditService';
+import { ncdService } from '../services/NcdService';
+import { treatmentProtocolService } from '../services/TreatmentProtocolService';
+
+export class NcdController {
+
+  getPatientPrograms = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        throw new BadRequestError('Patient ID is required');
+      }
+
+      const programs = await ncdService.getPatientPrograms(id);
+
+      const response: CommonTypes.ApiResponse<PatientTypes.NCDProgram[]> = {
+        success: true,
+        data: programs,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving NCD programs', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  getVisits = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, condition } = req.params;
+      const { page = 1, limit = DEFAULT_PAGE_SIZE } = req.query;
+
+      if (!id || !condition) {
+        throw new BadRequestError('Patient ID and condition are required');
+      }
+
+      const currentPage = Math.max(parseInt(page as string) || 1, 1);
+      const pageSize = Math.min(Math.max(parseInt(limit as string) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+      const { visits, total } = await ncdService.listVisits(id, condition, {
+        page: currentPage,
+        limit: pageSize,
+      });
+
+      const totalPages = Math.ceil(total / pageSize);
+
+      const response: CommonTypes.ApiResponse<CommonTypes.PaginationResponse<ClinicalTypes.NCDAssessment>> = {
+        success: true,
+        data: {
+          items: visits,
+          totalItems: total,
+          totalPages,
+          currentPage,
+          pageSize,
+          hasNextPage: currentPage < totalPages,
+          hasPreviousPage: currentPage > 1,
+        },
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving NCD visits', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        condition: req.params.condition,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  recordVisit = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, condition } = req.params;
+      const request: ClinicalTypes.RecordNCDVisitRequest = req.body;
+
+      if (!id || !condition) {
+        throw new BadRequestError('Patient ID and condition are required');
+      }
+
+      const visit = await ncdService.recordVisit(id, condition, request, {
+        ...getAuditContext(req),
+        userId: req.user!.id,
+      });
+
+      const response: CommonTypes.ApiResponse<ClinicalTypes.NCDAssessment> = {
+        success: true,
+        data: visit,
+        message: visit.controlStatus.targetsNotMet.length > 0
+          ? `NCD visit recorded; targets not met: ${visit.controlStatus.targetsNotMet.join(', ')}`
+          : 'NCD visit recorded successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error recording NCD visit', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        condition: req.params.condition,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  // Next protocol step from the latest visit, or from a reading taken now: ?systolic=162&diastolic=98
+  getTreatmentRecommendation = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, condition } = req.params;
+      const { systolic, diastolic } = req.query;
+
+      if (!id || !condition) {
+        throw new BadRequestError('Patient ID and condition are required');
+      }
+
+      if (Boolean(systolic) !== Boolean(diastolic)) {
+        throw new BadRequestError('systolic and diastolic must be given together');
+      }
+
+      const recommendation = await ncdService.recommendTreatment(
+        id,
+        condition,
+        systolic && diastolic ? { systolic: Number(systolic), diastolic: Number(diastolic) } : undefined
+      );
+
+      const response: CommonTypes.ApiResponse<ClinicalTypes.TreatmentRecommendation> = {
+        success: true,
+        data: recommendation,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error recommending NCD treatment', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        condition: req.params.condition,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  getProtocols = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const response: CommonTypes.ApiResponse<ClinicalTypes.TreatmentProtocolSummary[]> = {
+        success: true,
+        data: treatmentProtocolService.listProtocols(),
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving treatment protocols', {
+        userId: req.user?.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  getProtocol = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { protocolId } = req.params;
+      const { version } = req.query;
+
+      if (!protocolId) {
+        throw new BadRequestError('Protocol ID is required');
+      }
+
+      const protocol = treatmentProtocolService.getProtocol(protocolId, version ? String(version) : undefined);
+
+      const response: CommonTypes.ApiResponse<ClinicalTypes.TreatmentProtocol> = {
+        success: true,
+        data: protocol,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving treatment protocol', {
+        userId: req.user?.id,
+        protocolId: req.params.protocolId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  // e.g. /ncd/cohorts?condition=hypertension&from=2024-01-01&to=2024-03-31&facilityCode=CXB-01
+  getCohortReport = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { condition, from, to, facilityCode } = req.query;
+
+      if (!condition || !from || !to) {
+        throw new BadRequestError('condition, from and to are required');
+      }
+
+      const fromDate = new Date(from as string);
+      const toDate = new Date(to as string);
+
+      if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime())) {
+        throw new BadRequestError('from and to must be valid dates');
+      }
+
+      if (fromDate > toDate) {
+        throw new BadRequestError('from must not be after to');
+      }
+
+      const report = await ncdService.getCohortReport(String(condition), {
+        from: fromDate,
+        to: toDate,
+        ...(facilityCode && { facilityCode: String(facilityCode) }),
+      });
+
+      const response: CommonTypes.ApiResponse<ClinicalTypes.NCDCohortReport> = {
+        success: true,
+        data: report,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error generating NCD cohort report', {
+        userId: req.user?.id,
+        condition: req.query.condition,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+}
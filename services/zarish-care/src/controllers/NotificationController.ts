@@ -0,0 +1,66 @@
+import { Request, Response } from 'express';
+import { CommonTypes, MAX_PAGE_SIZE } from '@zarishhealthcare/shared-types';
+import { logger } from '../utils/logger';
+import { BadRequestError } from '../middleware/errorHandler';
+import { notificationService } from '../services/NotificationService';
+
+export class NotificationController {
+
+  // The signed-in user's in-app notifications, newest first
+  getNotifications = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { unread, limit = MAX_PAGE_SIZE } = req.query;
+
+      const pageSize = Math.min(Math.max(parseInt(limit as string) || MAX_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+      const notifications = await notificationService.getStaffNotifications(
+        req.user!.id,
+        unread === 'true',
+        pageSize
+      );
+
+      const response: CommonTypes.ApiResponse<CommonTypes.Notification[]> = {
+        success: true,
+        data: notifications,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving notifications', {
+        userId: req.user?.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  markRead = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        throw new BadRequestError('Notification ID is required');
+      }
+
+      const notification = await notificationService.markRead(id, req.user!.id);
+
+      const response: CommonTypes.ApiResponse<CommonTypes.Notification> = {
+        success: true,
+        data: notification,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error marking notification read', {
+        userId: req.user?.id,
+        notificationId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+}
@@ -1,68 +1,65 @@
 import { Request, Response } from 'express';
-import { PatientTypes, CommonTypes } from '@zarishhealthcare/shared-types';
+import { PatientTypes, CommonTypes, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from '@zarishhealthcare/shared-types';
 import { logger } from '../utils/logger';
-import { ValidationError, NotFoundError, BadRequestError } from '../middleware/errorHandler';
+import { database } from '../config/database';
+import { ValidationError, NotFoundError, BadRequestError, ForbiddenError } from '../middleware/errorHandler';
+import { hasPermission } from '../middleware/auth';
+import { patientRepository, PatientWriteContext } from '../repositories/PatientRepository';
+import { auditService, getAuditContext } from '../services/AuditService';
+import { duplicateDetectionService } from '../services/DuplicateDetectionService';
+import { patientMergeService } from '../services/PatientMergeService';
+import { patientSearchService } from '../services/PatientSearchService';
+import { mrnService } from '../services/MrnService';
+import { patientImportService, PatientImportOptions } from '../services/PatientImportService';
+import { patientExportService } from '../services/PatientExportService';
+import { queueService } from '../services/QueueService';
+import { programService } from '../services/ProgramService';
+import { patientFlagService } from '../services/PatientFlagService';
+import { consentService } from '../services/ConsentService';
+import { attachmentService } from '../services/AttachmentService';
+import { patientStatisticsService } from '../services/PatientStatisticsService';
+import { identifierService } from '../services/IdentifierService';
+import { householdService } from '../services/HouseholdService';
+import { patientHistoryService } from '../services/PatientHistoryService';
+import { validationRuleService } from '../services/ValidationRuleService';
+import { FieldError, parseProgramIds } from '../utils/patientValidation';
 
 export class PatientController {
   
   // Get patients with filtering, pagination, and sorting
-  async getPatients(req: Request, res: Response): Promise<void> {
+  getPatients = async (req: Request, res: Response): Promise<void> => {
     try {
       const {
         page = 1,
-        limit = 20,
-        search,
-        status,
-        gender,
-        ageMin,
-        ageMax,
-        program,
-        camp,
+        limit = DEFAULT_PAGE_SIZE,
         sortBy = 'createdAt',
         sortOrder = 'desc'
       } = req.query;
 
-      const filters: any = {};
-      
-      if (search) {
-        filters.search = search as string;
-      }
-      
-      if (status) {
-        filters.status = status as PatientTypes.PatientStatus;
-      }
-      
-      if (gender) {
-        filters.gender = gender as PatientTypes.Gender;
-      }
-      
-      if (ageMin || ageMax) {
-        filters.age = {};
-        if (ageMin) filters.age.min = parseInt(ageMin as string);
-        if (ageMax) filters.age.max = parseInt(ageMax as string);
-      }
-      
-      if (program) {
-        filters.program = program as string;
-      }
-      
-      if (camp) {
-        filters.camp = camp as string;
-      }
+      const filters = this.parseFilters(req.query);
+      const currentPage = Math.max(parseInt(page as string) || 1, 1);
+      const pageSize = Math.min(Math.max(parseInt(limit as string) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
 
-      // TODO: Implement actual database query
-      const mockPatients: PatientTypes.Patient[] = [];
+      const { patients, total } = await patientRepository.findMany({
+        filters,
+        page: currentPage,
+        limit: pageSize,
+        sortBy: sortBy as string,
+        sortOrder: sortOrder === 'asc' ? 'asc' : 'desc',
+      });
+
+      const totalPages = Math.ceil(total / pageSize);
       
-      const response: CommonTypes.ApiResponse<CommonTypes.PaginatedResponse<PatientTypes.Patient>> = {
+      const response: CommonTypes.ApiResponse<CommonTypes.PaginationResponse<PatientTypes.Patient>> = {
         success: true,
         data: {
-          items: mockPatients,
-          pagination: {
-            page: parseInt(page as string),
-            limit: parseInt(limit as string),
-            total: 0,
-            totalPages: 0,
-          },
+          items: patients,
+          totalItems: total,
+          totalPages,
+          currentPage,
+          pageSize,
+          hasNextPage: currentPage < totalPages,
+          hasPreviousPage: currentPage > 1,
         },
         timestamp: new Date(),
         requestId: req.headers['x-request-id'] as string,
@@ -71,9 +68,12 @@ export class PatientController {
       logger.info('Retrieved patients list', {
         userId: req.user?.id,
         filters,
-        count: mockPatients.length,
+        count: patients.length,
+        total,
       });
 
+      res.setHeader('X-Total-Count', total.toString());
+      res.setHeader('X-Page-Count', totalPages.toString());
       res.json(response);
     } catch (error) {
       logger.error('Error retrieving patients', {
@@ -82,27 +82,62 @@ export class PatientController {
       });
       throw error;
     }
-  }
+  };
 
   // Get patient by ID
-  async getPatientById(req: Request, res: Response): Promise<void> {
+  getPatientById = async (req: Request, res: Response): Promise<void> => {
     try {
       const { id } = req.params;
+      const { asOf } = req.query;
 
       if (!id) {
         throw new BadRequestError('Patient ID is required');
       }
 
-      // TODO: Implement actual database query
-      const patient: PatientTypes.Patient | null = null;
+      if (asOf !== undefined) {
+        const asOfDate = new Date(String(asOf));
+        if (isNaN(asOfDate.getTime())) {
+          throw new BadRequestError('asOf must be a valid timestamp');
+        }
+
+        // Point-in-time view for clinical and legal review; flags are not reconstructed
+        const { patient, warnings } = await patientHistoryService.getPatientAsOf(id, asOfDate);
+
+        await auditService.record({
+          entityType: 'patient',
+          entityId: id,
+          action: 'read',
+          ...getAuditContext(req),
+          metadata: {
+            businessContext: { asOf: asOfDate },
+          },
+        });
+
+        const response: CommonTypes.ApiResponse<PatientTypes.Patient> = {
+          success: true,
+          data: patient,
+          message: `Patient record as of ${asOfDate.toISOString()}`,
+          ...(warnings.length > 0 && { metadata: { warnings } }),
+          timestamp: new Date(),
+          requestId: req.headers['x-request-id'] as string,
+        };
+
+        res.json(response);
+        return;
+      }
+
+      const patient = await patientRepository.findById(id);
 
       if (!patient) {
         throw new NotFoundError('Patient', id);
       }
 
+      // Active alerts travel with the record so every screen that opens it shows them
+      const flags = await patientFlagService.getActiveFlags(id, req.user);
+
       const response: CommonTypes.ApiResponse<PatientTypes.Patient> = {
         success: true,
-        data: patient,
+        data: { ...patient, flags },
         timestamp: new Date(),
         requestId: req.headers['x-request-id'] as string,
       };
@@ -121,35 +156,62 @@ export class PatientController {
       });
       throw error;
     }
-  }
+  };
 
   // Create new patient
-  async createPatient(req: Request, res: Response): Promise<void> {
+  createPatient = async (req: Request, res: Response): Promise<void> => {
     try {
       const patientData = req.body as PatientTypes.CreatePatientRequest;
 
-      // Validate required fields
-      const validationErrors = this.validatePatientData(patientData);
+      // Validate against the facility's rule set
+      const validation = await validationRuleService.validate(patientData, { facilityCode: patientData.facilityCode });
+      const validationErrors: FieldError[] = [...validation.errors];
+      if (!patientData.facilityCode) {
+        // The MRN is allocated from the facility's sequence
+        validationErrors.push({
+          field: 'facilityCode',
+          message: 'Facility code is required',
+          code: 'REQUIRED_FIELD',
+          value: patientData.facilityCode,
+        });
+      }
       if (validationErrors.length > 0) {
         throw new ValidationError('Invalid patient data', validationErrors);
       }
 
-      // TODO: Implement actual database insertion
-      const newPatient: PatientTypes.Patient = {
-        id: `patient_${Date.now()}`,
-        mrn: this.generateMRN(),
-        ...patientData,
-        status: PatientTypes.PatientStatus.ACTIVE,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        createdBy: req.user!.id,
-        updatedBy: req.user!.id,
-      };
+      // Registration still goes ahead; likely duplicates are flagged for review/merge
+      const duplicates = (await duplicateDetectionService.findPotentialDuplicates(patientData))
+        .filter(match => match.likelyDuplicate);
+      const warnings = [
+        ...validation.warnings.map(warning => warning.message),
+        ...duplicates.map(match =>
+          `Possible duplicate of patient ${match.patient.mrn} (match ${match.score.toFixed(2)})`
+        ),
+      ];
+
+      // MRNs from an offline device's reserved block are kept; otherwise the facility's next one is allocated
+      const newPatient = await database.transaction(async (client) => {
+        const mrn = patientData.mrn
+          ? await mrnService.claimReserved(patientData.mrn, patientData.facilityCode, client)
+          : await mrnService.allocate(patientData.facilityCode, client);
+
+        const created = await patientRepository.create(mrn, patientData, this.getWriteContext(req), client);
+        await identifierService.syncDocumentation(created, req.user!.id, client);
+        await patientHistoryService.recordCreation(created.id, {
+          ...getAuditContext(req),
+          action: 'create',
+          metadata: {
+            businessContext: { mrn },
+          },
+        }, client);
+        return created;
+      });
 
       const response: CommonTypes.ApiResponse<PatientTypes.Patient> = {
         success: true,
         data: newPatient,
         message: 'Patient created successfully',
+        ...(warnings.length > 0 && { metadata: { warnings } }),
         timestamp: new Date(),
         requestId: req.headers['x-request-id'] as string,
       };
@@ -158,6 +220,7 @@ export class PatientController {
         userId: req.user?.id,
         patientId: newPatient.id,
         mrn: newPatient.mrn,
+        possibleDuplicates: duplicates.map(match => match.patient.id),
       });
 
       res.status(201).json(response);
@@ -168,37 +231,55 @@ export class PatientController {
       });
       throw error;
     }
-  }
+  };
 
   // Update patient
-  async updatePatient(req: Request, res: Response): Promise<void> {
+  updatePatient = async (req: Request, res: Response): Promise<void> => {
     try {
       const { id } = req.params;
-      const updateData = req.body as Partial<PatientTypes.Patient>;
+      const updateData = req.body as PatientTypes.UpdatePatientRequest;
 
       if (!id) {
         throw new BadRequestError('Patient ID is required');
       }
 
-      // TODO: Check if patient exists
-      const existingPatient: PatientTypes.Patient | null = null;
+      const existingPatient = await patientRepository.findById(id);
       
       if (!existingPatient) {
         throw new NotFoundError('Patient', id);
       }
 
-      // TODO: Implement actual database update
-      const updatedPatient: PatientTypes.Patient = {
-        ...existingPatient,
-        ...updateData,
-        updatedAt: new Date(),
-        updatedBy: req.user!.id,
-      };
+      // Rules see the record as it will be after the update, so cross-field rules hold
+      const validation = await validationRuleService.validate(
+        {
+          ...existingPatient,
+          ...updateData,
+          demographics: { ...existingPatient.demographics, ...updateData.demographics },
+        },
+        {
+          facilityCode: updateData.facilityCode || existingPatient.facilityCode,
+          programIds: existingPatient.programs,
+        }
+      );
+      if (!validation.valid) {
+        throw new ValidationError('Invalid patient data', validation.errors);
+      }
+
+      const updatedPatient = await database.transaction((client) =>
+        patientHistoryService.track(id, { ...getAuditContext(req), action: 'update' }, client, async () => {
+          const updated = await patientRepository.update(id, updateData, this.getWriteContext(req), client);
+          await identifierService.syncDocumentation(updated, req.user!.id, client);
+          return updated;
+        })
+      );
 
       const response: CommonTypes.ApiResponse<PatientTypes.Patient> = {
         success: true,
         data: updatedPatient,
         message: 'Patient updated successfully',
+        ...(validation.warnings.length > 0 && {
+          metadata: { warnings: validation.warnings.map(warning => warning.message) },
+        }),
         timestamp: new Date(),
         requestId: req.headers['x-request-id'] as string,
       };
@@ -206,6 +287,7 @@ export class PatientController {
       logger.info('Patient updated', {
         userId: req.user?.id,
         patientId: id,
+        version: updatedPatient.version,
       });
 
       res.json(response);
@@ -217,25 +299,42 @@ export class PatientController {
       });
       throw error;
     }
-  }
+  };
 
-  // Delete patient
-  async deletePatient(req: Request, res: Response): Promise<void> {
+  // Delete patient (soft delete; the tombstone is kept until the retention purge)
+  deletePatient = async (req: Request, res: Response): Promise<void> => {
     try {
       const { id } = req.params;
+      const { reason } = req.body || {};
 
       if (!id) {
         throw new BadRequestError('Patient ID is required');
       }
 
-      // TODO: Check if patient exists and can be deleted
-      const existingPatient: PatientTypes.Patient | null = null;
+      if (!reason || typeof reason !== 'string' || !reason.trim()) {
+        throw new ValidationError('Deletion reason is required', [{
+          field: 'reason',
+          message: 'A reason is required when deleting a patient record',
+          code: 'REQUIRED_FIELD',
+          value: reason,
+        }]);
+      }
+
+      const existingPatient = await patientRepository.findById(id);
       
       if (!existingPatient) {
         throw new NotFoundError('Patient', id);
       }
 
-      // TODO: Implement soft delete
+      await database.transaction((client) =>
+        patientHistoryService.track(id, {
+          action: 'delete',
+          ...getAuditContext(req),
+          metadata: {
+            businessContext: { mrn: existingPatient.mrn, reason: reason.trim() },
+          },
+        }, client, () => patientRepository.delete(id, reason.trim(), this.getWriteContext(req), client))
+      );
       
       const response: CommonTypes.ApiResponse<void> = {
         success: true,
@@ -247,6 +346,7 @@ export class PatientController {
       logger.info('Patient deleted', {
         userId: req.user?.id,
         patientId: id,
+        reason: reason.trim(),
       });
 
       res.json(response);
@@ -258,24 +358,178 @@ export class PatientController {
       });
       throw error;
     }
-  }
+  };
+
+  // Restore a soft-deleted patient
+  restorePatient = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        throw new BadRequestError('Patient ID is required');
+      }
+
+      const restoredPatient = await database.transaction((client) =>
+        patientHistoryService.track(
+          id,
+          { action: 'restore', ...getAuditContext(req) },
+          client,
+          () => patientRepository.restore(id, this.getWriteContext(req), client)
+        )
+      );
+
+      const response: CommonTypes.ApiResponse<PatientTypes.Patient> = {
+        success: true,
+        data: restoredPatient,
+        message: 'Patient restored successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      logger.info('Patient restored', {
+        userId: req.user?.id,
+        patientId: id,
+      });
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error restoring patient', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  // Get records that probably describe the same person as this patient
+  getPotentialDuplicates = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        throw new BadRequestError('Patient ID is required');
+      }
+
+      const patient = await patientRepository.findById(id);
+
+      if (!patient) {
+        throw new NotFoundError('Patient', id);
+      }
+
+      const duplicates = await duplicateDetectionService.findPotentialDuplicates(patient, patient.id);
+
+      const response: CommonTypes.ApiResponse<PatientTypes.PotentialDuplicate[]> = {
+        success: true,
+        data: duplicates,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      logger.info('Retrieved potential duplicates', {
+        userId: req.user?.id,
+        patientId: id,
+        count: duplicates.length,
+      });
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving potential duplicates', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  // Merge a duplicate registration into the surviving patient record
+  mergePatients = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const mergeRequest = req.body as PatientTypes.MergePatientsRequest;
+
+      const merge = await patientMergeService.merge(mergeRequest, {
+        ...getAuditContext(req),
+        userId: req.user!.id,
+      });
+
+      const response: CommonTypes.ApiResponse<PatientTypes.PatientMerge> = {
+        success: true,
+        data: merge,
+        message: 'Patients merged successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error merging patients', {
+        userId: req.user?.id,
+        survivorId: req.body?.survivorId,
+        mergedId: req.body?.mergedId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  // Reverse a previous merge using its merge log
+  unmergePatients = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { mergeId } = req.params;
+
+      if (!mergeId) {
+        throw new BadRequestError('Merge ID is required');
+      }
+
+      const merge = await patientMergeService.unmerge(mergeId, {
+        ...getAuditContext(req),
+        userId: req.user!.id,
+      });
+
+      const response: CommonTypes.ApiResponse<PatientTypes.PatientMerge> = {
+        success: true,
+        data: merge,
+        message: 'Patient merge reversed successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error reversing patient merge', {
+        userId: req.user?.id,
+        mergeId: req.params.mergeId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
 
-  // Search patients
-  async searchPatients(req: Request, res: Response): Promise<void> {
+  // Search patients by name, MRN, identifiers, phone or shelter ID, tolerating spelling variants
+  searchPatients = async (req: Request, res: Response): Promise<void> => {
     try {
       const { query } = req.params;
-      const { limit = 10 } = req.query;
+      const { page = 1, limit = 10 } = req.query;
 
-      if (!query) {
+      if (!query || !query.trim()) {
         throw new BadRequestError('Search query is required');
       }
 
-      // TODO: Implement full-text search
-      const patients: PatientTypes.Patient[] = [];
+      const filters = this.parseFilters(req.query);
+      const currentPage = Math.max(parseInt(page as string) || 1, 1);
+      const pageSize = Math.min(Math.max(parseInt(limit as string) || 10, 1), MAX_PAGE_SIZE);
+
+      const results = await patientSearchService.search({
+        query,
+        filters,
+        page: currentPage,
+        limit: pageSize,
+      });
 
-      const response: CommonTypes.ApiResponse<PatientTypes.Patient[]> = {
+      const response: CommonTypes.ApiResponse<CommonTypes.SearchResponse<PatientTypes.Patient>> = {
         success: true,
-        data: patients,
+        data: results,
         timestamp: new Date(),
         requestId: req.headers['x-request-id'] as string,
       };
@@ -283,9 +537,13 @@ export class PatientController {
       logger.info('Patient search performed', {
         userId: req.user?.id,
         query,
-        resultCount: patients.length,
+        filters,
+        resultCount: results.results.length,
+        totalResults: results.totalResults,
+        executionTime: results.executionTime,
       });
 
+      res.setHeader('X-Total-Count', results.totalResults.toString());
       res.json(response);
     } catch (error) {
       logger.error('Error searching patients', {
@@ -295,10 +553,10 @@ export class PatientController {
       });
       throw error;
     }
-  }
+  };
 
   // Get patient by MRN
-  async getPatientByMRN(req: Request, res: Response): Promise<void> {
+  getPatientByMRN = async (req: Request, res: Response): Promise<void> => {
     try {
       const { mrn } = req.params;
 
@@ -306,8 +564,7 @@ export class PatientController {
         throw new BadRequestError('MRN is required');
       }
 
-      // TODO: Implement MRN lookup
-      const patient: PatientTypes.Patient | null = null;
+      const patient = await patientRepository.findByMRN(mrn);
 
       if (!patient) {
         throw new NotFoundError('Patient with MRN', mrn);
@@ -335,10 +592,55 @@ export class PatientController {
       });
       throw error;
     }
-  }
+  };
+
+  // Find a patient by any registered identifier, e.g. a scanned smart card
+  getPatientByIdentifier = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { type, value } = req.params;
+      const { facilityCode } = req.query;
+
+      if (!type || !value) {
+        throw new BadRequestError('Identifier type and value are required');
+      }
+
+      const { patient, identifier } = await identifierService.findPatient(
+        type,
+        value,
+        facilityCode ? String(facilityCode) : undefined
+      );
+      const flags = await patientFlagService.getActiveFlags(patient.id, req.user);
+      const warnings = identifier.status === 'replaced'
+        ? [`This ${type} identifier has been replaced; the patient has a newer one`]
+        : [];
+
+      const response: CommonTypes.ApiResponse<PatientTypes.Patient> = {
+        success: true,
+        data: { ...patient, flags },
+        ...(warnings.length > 0 && { metadata: { warnings } }),
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      logger.info('Retrieved patient by identifier', {
+        userId: req.user?.id,
+        identifierType: type,
+        patientId: patient.id,
+      });
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving patient by identifier', {
+        userId: req.user?.id,
+        identifierType: req.params.type,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
 
   // Patient registration operations
-  async registerPatient(req: Request, res: Response): Promise<void> {
+  registerPatient = async (req: Request, res: Response): Promise<void> => {
     try {
       const { id } = req.params;
       
@@ -355,237 +657,1205 @@ export class PatientController {
     } catch (error) {
       throw error;
     }
-  }
+  };
 
-  async checkInPatient(req: Request, res: Response): Promise<void> {
-    // TODO: Implement check-in logic
-    res.json({ success: true, message: 'Patient checked in' });
-  }
+  // Open a visit and place the patient in a service point's queue
+  checkInPatient = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
 
-  async checkOutPatient(req: Request, res: Response): Promise<void> {
-    // TODO: Implement check-out logic
-    res.json({ success: true, message: 'Patient checked out' });
-  }
+      if (!id) {
+        throw new BadRequestError('Patient ID is required');
+      }
+
+      const { facilityCode, servicePoint, priority, encounterType, reason } = req.body || {};
+
+      const entry = await queueService.checkIn(id, {
+        facilityCode,
+        servicePoint,
+        ...(priority && { priority }),
+        ...(encounterType && { encounterType }),
+        ...(reason && { reason }),
+      }, {
+        ...getAuditContext(req),
+        userId: req.user!.id,
+      });
+
+      const response: CommonTypes.ApiResponse<PatientTypes.QueueEntry> = {
+        success: true,
+        data: entry,
+        message: 'Patient checked in successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error checking in patient', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        facilityCode: req.body?.facilityCode,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  // Close the patient's open visit with a disposition
+  checkOutPatient = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        throw new BadRequestError('Patient ID is required');
+      }
+
+      const { disposition, notes } = req.body || {};
+
+      const encounter = await queueService.checkOut(id, {
+        disposition,
+        ...(notes && { notes }),
+      }, {
+        ...getAuditContext(req),
+        userId: req.user!.id,
+      });
+
+      const response: CommonTypes.ApiResponse<PatientTypes.Encounter> = {
+        success: true,
+        data: encounter,
+        message: 'Patient checked out successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error checking out patient', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
 
   // Demographics operations
-  async getPatientDemographics(req: Request, res: Response): Promise<void> {
+  getPatientDemographics = async (req: Request, res: Response): Promise<void> => {
     // TODO: Implement demographics retrieval
     res.json({ success: true, data: {} });
-  }
+  };
 
-  async updatePatientDemographics(req: Request, res: Response): Promise<void> {
+  updatePatientDemographics = async (req: Request, res: Response): Promise<void> => {
     // TODO: Implement demographics update
     res.json({ success: true, message: 'Demographics updated' });
-  }
+  };
 
   // Contact operations
-  async getPatientContacts(req: Request, res: Response): Promise<void> {
+  getPatientContacts = async (req: Request, res: Response): Promise<void> => {
     // TODO: Implement contacts retrieval
     res.json({ success: true, data: [] });
-  }
+  };
 
-  async addPatientContact(req: Request, res: Response): Promise<void> {
+  addPatientContact = async (req: Request, res: Response): Promise<void> => {
     // TODO: Implement contact addition
     res.json({ success: true, message: 'Contact added' });
-  }
+  };
 
-  async updatePatientContact(req: Request, res: Response): Promise<void> {
+  updatePatientContact = async (req: Request, res: Response): Promise<void> => {
     // TODO: Implement contact update
     res.json({ success: true, message: 'Contact updated' });
-  }
+  };
 
-  async removePatientContact(req: Request, res: Response): Promise<void> {
+  removePatientContact = async (req: Request, res: Response): Promise<void> => {
     // TODO: Implement contact removal
     res.json({ success: true, message: 'Contact removed' });
-  }
+  };
 
   // Identifier operations
-  async getPatientIdentifiers(req: Request, res: Response): Promise<void> {
-    // TODO: Implement identifiers retrieval
-    res.json({ success: true, data: [] });
-  }
+  // Identifiers with their history (replaced and revoked entries)
+  getPatientIdentifiers = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
 
-  async addPatientIdentifier(req: Request, res: Response): Promise<void> {
-    // TODO: Implement identifier addition
-    res.json({ success: true, message: 'Identifier added' });
-  }
+      if (!id) {
+        throw new BadRequestError('Patient ID is required');
+      }
 
-  async updatePatientIdentifier(req: Request, res: Response): Promise<void> {
-    // TODO: Implement identifier update
-    res.json({ success: true, message: 'Identifier updated' });
-  }
+      const patient = await patientRepository.findById(id);
+      if (!patient) {
+        throw new NotFoundError('Patient', id);
+      }
 
-  async removePatientIdentifier(req: Request, res: Response): Promise<void> {
-    // TODO: Implement identifier removal
-    res.json({ success: true, message: 'Identifier removed' });
-  }
+      const identifiers = await identifierService.getPatientIdentifiers(id);
 
-  // Visit operations
-  async getPatientVisits(req: Request, res: Response): Promise<void> {
-    // TODO: Implement visits retrieval
-    res.json({ success: true, data: [] });
-  }
+      const response: CommonTypes.ApiResponse<PatientTypes.PatientIdentifier[]> = {
+        success: true,
+        data: identifiers,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
 
-  async createPatientVisit(req: Request, res: Response): Promise<void> {
-    // TODO: Implement visit creation
-    res.json({ success: true, message: 'Visit created' });
-  }
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving patient identifiers', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
 
-  // Program operations
-  async getPatientPrograms(req: Request, res: Response): Promise<void> {
-    // TODO: Implement programs retrieval
-    res.json({ success: true, data: [] });
-  }
+  addPatientIdentifier = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
 
-  async enrollPatientInProgram(req: Request, res: Response): Promise<void> {
-    // TODO: Implement program enrollment
-    res.json({ success: true, message: 'Patient enrolled in program' });
-  }
+      if (!id) {
+        throw new BadRequestError('Patient ID is required');
+      }
+
+      const identifier = await identifierService.addIdentifier(
+        id,
+        (req.body || {}) as PatientTypes.AddPatientIdentifierRequest,
+        { ...getAuditContext(req), userId: req.user!.id }
+      );
+
+      const response: CommonTypes.ApiResponse<PatientTypes.PatientIdentifier> = {
+        success: true,
+        data: identifier,
+        message: 'Identifier added successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error adding patient identifier', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        identifierType: req.body?.type,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  // Replacing an identifier (e.g. a lost card) keeps the old one as history
+  updatePatientIdentifier = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, identifierId } = req.params;
+
+      if (!id || !identifierId) {
+        throw new BadRequestError('Patient ID and identifier ID are required');
+      }
+
+      const identifier = await identifierService.replaceIdentifier(
+        id,
+        identifierId,
+        (req.body || {}) as PatientTypes.ReplacePatientIdentifierRequest,
+        { ...getAuditContext(req), userId: req.user!.id }
+      );
+
+      const response: CommonTypes.ApiResponse<PatientTypes.PatientIdentifier> = {
+        success: true,
+        data: identifier,
+        message: 'Identifier replaced successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error replacing patient identifier', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        identifierId: req.params.identifierId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  removePatientIdentifier = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, identifierId } = req.params;
+
+      if (!id || !identifierId) {
+        throw new BadRequestError('Patient ID and identifier ID are required');
+      }
+
+      const identifier = await identifierService.revokeIdentifier(id, identifierId, req.body?.reason, {
+        ...getAuditContext(req),
+        userId: req.user!.id,
+      });
+
+      const response: CommonTypes.ApiResponse<PatientTypes.PatientIdentifier> = {
+        success: true,
+        data: identifier,
+        message: 'Identifier removed successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error removing patient identifier', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        identifierId: req.params.identifierId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  // Visit operations
+  getPatientVisits = async (req: Request, res: Response): Promise<void> => {
+    // TODO: Implement visits retrieval
+    res.json({ success: true, data: [] });
+  };
+
+  createPatientVisit = async (req: Request, res: Response): Promise<void> => {
+    // TODO: Implement visit creation
+    res.json({ success: true, message: 'Visit created' });
+  };
+
+  // Program operations
+  // Current and past program enrollments, newest first
+  getPatientPrograms = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        throw new BadRequestError('Patient ID is required');
+      }
+
+      const patient = await patientRepository.findById(id);
+      if (!patient) {
+        throw new NotFoundError('Patient', id);
+      }
+
+      const enrollments = await programService.getPatientEnrollments(id);
+
+      const response: CommonTypes.ApiResponse<PatientTypes.ProgramEnrollment[]> = {
+        success: true,
+        data: enrollments,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving patient programs', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  // Enroll after checking the program's eligibility rules
+  enrollPatientInProgram = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, programId } = req.params;
+
+      if (!id || !programId) {
+        throw new BadRequestError('Patient ID and program ID are required');
+      }
+
+      const enrollment = await programService.enroll(
+        id,
+        programId,
+        (req.body || {}) as PatientTypes.EnrollPatientRequest,
+        { ...getAuditContext(req), userId: req.user!.id }
+      );
+
+      const response: CommonTypes.ApiResponse<PatientTypes.ProgramEnrollment> = {
+        success: true,
+        data: enrollment,
+        message: 'Patient enrolled in program successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error enrolling patient in program', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        programId: req.params.programId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  // Close the open enrollment with an outcome (completed, transferred out, died, ...)
+  unenrollPatientFromProgram = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, programId } = req.params;
+
+      if (!id || !programId) {
+        throw new BadRequestError('Patient ID and program ID are required');
+      }
+
+      const enrollment = await programService.exit(
+        id,
+        programId,
+        (req.body || {}) as PatientTypes.ExitProgramRequest,
+        { ...getAuditContext(req), userId: req.user!.id }
+      );
+
+      const response: CommonTypes.ApiResponse<PatientTypes.ProgramEnrollment> = {
+        success: true,
+        data: enrollment,
+        message: 'Patient unenrolled from program successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error unenrolling patient from program', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        programId: req.params.programId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  // Record a program follow-up contact and the next appointment
+  recordProgramVisit = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, programId } = req.params;
+
+      if (!id || !programId) {
+        throw new BadRequestError('Patient ID and program ID are required');
+      }
+
+      const enrollment = await programService.recordVisit(
+        id,
+        programId,
+        (req.body || {}) as PatientTypes.ProgramVisitRequest,
+        { ...getAuditContext(req), userId: req.user!.id }
+      );
+
+      const response: CommonTypes.ApiResponse<PatientTypes.ProgramEnrollment> = {
+        success: true,
+        data: enrollment,
+        message: 'Program visit recorded successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error recording program visit', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        programId: req.params.programId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  // History operations
+  // Who changed which fields of the record and when, newest first
+  getPatientHistory = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { page = 1, limit = DEFAULT_PAGE_SIZE } = req.query;
+
+      if (!id) {
+        throw new BadRequestError('Patient ID is required');
+      }
+
+      const pageNum = Math.max(parseInt(page as string) || 1, 1);
+      const limitNum = Math.min(Math.max(parseInt(limit as string) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+      const { entries, total } = await patientHistoryService.getHistory(id, pageNum, limitNum);
+      const totalPages = Math.ceil(total / limitNum);
+
+      const response: CommonTypes.ApiResponse<CommonTypes.PaginationResponse<CommonTypes.AuditTrail>> = {
+        success: true,
+        data: {
+          items: entries,
+          totalItems: total,
+          totalPages,
+          currentPage: pageNum,
+          pageSize: limitNum,
+          hasNextPage: pageNum < totalPages,
+          hasPreviousPage: pageNum > 1,
+        },
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving patient history', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  // Household operations
+  // The patient's current household with the other members' records
+  getPatientHousehold = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        throw new BadRequestError('Patient ID is required');
+      }
+
+      const patient = await patientRepository.findById(id);
+      if (!patient) {
+        throw new NotFoundError('Patient', id);
+      }
+
+      const household = await householdService.getPatientHousehold(id);
+
+      const response: CommonTypes.ApiResponse<PatientTypes.Household> = {
+        success: true,
+        data: household,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving patient household', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  // Flag operations
+  // Active flags the caller may see; ?includeInactive=true adds removed and expired ones
+  getPatientFlags = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        throw new BadRequestError('Patient ID is required');
+      }
+
+      const patient = await patientRepository.findById(id);
+      if (!patient) {
+        throw new NotFoundError('Patient', id);
+      }
+
+      const flags = await patientFlagService.getFlags(id, req.user, req.query.includeInactive === 'true');
+
+      const response: CommonTypes.ApiResponse<PatientTypes.PatientFlag[]> = {
+        success: true,
+        data: flags,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving patient flags', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  addPatientFlag = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        throw new BadRequestError('Patient ID is required');
+      }
+
+      const flag = await patientFlagService.addFlag(
+        id,
+        (req.body || {}) as PatientTypes.CreatePatientFlagRequest,
+        req.user,
+        { ...getAuditContext(req), userId: req.user!.id }
+      );
+
+      const response: CommonTypes.ApiResponse<PatientTypes.PatientFlag> = {
+        success: true,
+        data: flag,
+        message: 'Flag added successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error adding patient flag', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        flagType: req.body?.flagType,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  removePatientFlag = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, flagId } = req.params;
+
+      if (!id || !flagId) {
+        throw new BadRequestError('Patient ID and flag ID are required');
+      }
+
+      const flag = await patientFlagService.removeFlag(id, flagId, req.body?.reason, req.user, {
+        ...getAuditContext(req),
+        userId: req.user!.id,
+      });
+
+      const response: CommonTypes.ApiResponse<PatientTypes.PatientFlag> = {
+        success: true,
+        data: flag,
+        message: 'Flag removed successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error removing patient flag', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        flagId: req.params.flagId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  // Consent operations
+  // Current decision per consent type; ?includeHistory=true adds superseded records
+  getPatientConsents = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        throw new BadRequestError('Patient ID is required');
+      }
+
+      const patient = await patientRepository.findById(id);
+      if (!patient) {
+        throw new NotFoundError('Patient', id);
+      }
+
+      const consents = await consentService.getConsents(id, req.query.includeHistory === 'true');
+
+      const response: CommonTypes.ApiResponse<PatientTypes.PatientConsent[]> = {
+        success: true,
+        data: consents,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving patient consents', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  recordPatientConsent = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        throw new BadRequestError('Patient ID is required');
+      }
+
+      const consent = await consentService.recordConsent(
+        id,
+        (req.body || {}) as PatientTypes.RecordConsentRequest,
+        { ...getAuditContext(req), userId: req.user!.id }
+      );
+
+      const response: CommonTypes.ApiResponse<PatientTypes.PatientConsent> = {
+        success: true,
+        data: consent,
+        message: 'Consent recorded successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error recording patient consent', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        consentType: req.body?.consentType,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  withdrawPatientConsent = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, consentId } = req.params;
+
+      if (!id || !consentId) {
+        throw new BadRequestError('Patient ID and consent ID are required');
+      }
+
+      const consent = await consentService.withdrawConsent(
+        id,
+        consentId,
+        { ...(req.body?.reason && { reason: String(req.body.reason) }) },
+        { ...getAuditContext(req), userId: req.user!.id }
+      );
+
+      const response: CommonTypes.ApiResponse<PatientTypes.PatientConsent> = {
+        success: true,
+        data: consent,
+        message: 'Consent withdrawn successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error withdrawing patient consent', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        consentId: req.params.consentId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
 
-  async unenrollPatientFromProgram(req: Request, res: Response): Promise<void> {
-    // TODO: Implement program unenrollment
-    res.json({ success: true, message: 'Patient unenrolled from program' });
-  }
+  // Attachment operations
+  // Attachment metadata; ?includeDeleted=true adds deleted attachments
+  getPatientAttachments = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
 
-  // Flag operations
-  async getPatientFlags(req: Request, res: Response): Promise<void> {
-    // TODO: Implement flags retrieval
-    res.json({ success: true, data: [] });
-  }
+      if (!id) {
+        throw new BadRequestError('Patient ID is required');
+      }
 
-  async addPatientFlag(req: Request, res: Response): Promise<void> {
-    // TODO: Implement flag addition
-    res.json({ success: true, message: 'Flag added' });
-  }
+      const patient = await patientRepository.findById(id);
+      if (!patient) {
+        throw new NotFoundError('Patient', id);
+      }
 
-  async removePatientFlag(req: Request, res: Response): Promise<void> {
-    // TODO: Implement flag removal
-    res.json({ success: true, message: 'Flag removed' });
-  }
+      const attachments = await attachmentService.getAttachments(id, req.query.includeDeleted === 'true');
+
+      const response: CommonTypes.ApiResponse<PatientTypes.PatientAttachment[]> = {
+        success: true,
+        data: attachments,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving patient attachments', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  // Multipart upload: field "file", plus category, description and comma-separated tags
+  uploadPatientAttachment = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        throw new BadRequestError('Patient ID is required');
+      }
+
+      if (!req.file) {
+        throw new BadRequestError('A file is required');
+      }
+
+      const { category, description, tags } = req.body || {};
+
+      const attachment = await attachmentService.upload(
+        id,
+        req.file,
+        {
+          category,
+          ...(description && { description: String(description) }),
+          ...(tags && { tags: String(tags).split(',').map(tag => tag.trim()).filter(Boolean) }),
+        },
+        { ...getAuditContext(req), userId: req.user!.id }
+      );
+
+      const response: CommonTypes.ApiResponse<PatientTypes.PatientAttachment> = {
+        success: true,
+        data: attachment,
+        message: 'Attachment uploaded successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error uploading patient attachment', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        fileName: req.file?.originalname,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  downloadPatientAttachment = async (req: Request, res: Response): Promise<void> => {
+    await this.sendAttachment(req, res, 'original');
+  };
+
+  downloadAttachmentThumbnail = async (req: Request, res: Response): Promise<void> => {
+    await this.sendAttachment(req, res, 'thumbnail');
+  };
+
+  deletePatientAttachment = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, attachmentId } = req.params;
+
+      if (!id || !attachmentId) {
+        throw new BadRequestError('Patient ID and attachment ID are required');
+      }
+
+      const attachment = await attachmentService.deleteAttachment(id, attachmentId, req.body?.reason, {
+        ...getAuditContext(req),
+        userId: req.user!.id,
+      });
+
+      const response: CommonTypes.ApiResponse<PatientTypes.PatientAttachment> = {
+        success: true,
+        data: attachment,
+        message: 'Attachment deleted successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error deleting patient attachment', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        attachmentId: req.params.attachmentId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
 
   // Statistics operations
-  async getPatientStatistics(req: Request, res: Response): Promise<void> {
-    // TODO: Implement statistics calculation
-    res.json({ success: true, data: {} });
-  }
+  // Status totals and registrations per ?interval=day|week|month; ?from, ?to and ?facilityCode filter
+  getPatientStatistics = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const statistics = await patientStatisticsService.getOverview(
+        this.parseStatisticsFilters(req.query),
+        String(req.query.interval || 'month') as PatientTypes.StatisticsInterval
+      );
 
-  async getDemographicStatistics(req: Request, res: Response): Promise<void> {
-    // TODO: Implement demographic statistics
-    res.json({ success: true, data: {} });
-  }
+      const response: CommonTypes.ApiResponse<PatientTypes.PatientOverviewStatistics> = {
+        success: true,
+        data: statistics,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving patient statistics', {
+        userId: req.user?.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  // Age-sex pyramid, population type and camp/block breakdown, with the same filters as the overview
+  getDemographicStatistics = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const statistics = await patientStatisticsService.getDemographics(this.parseStatisticsFilters(req.query));
+
+      const response: CommonTypes.ApiResponse<PatientTypes.PatientDemographicStatistics> = {
+        success: true,
+        data: statistics,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving demographic statistics', {
+        userId: req.user?.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
 
   // Bulk operations
-  async bulkImportPatients(req: Request, res: Response): Promise<void> {
-    // TODO: Implement bulk import
-    res.json({ success: true, message: 'Bulk import started' });
-  }
+  // Start an import of a CSV/XLSX register (multipart field "file"). Rows are processed in the
+  // background; poll the job for progress and download the error report when it completes.
+  bulkImportPatients = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.file) {
+        throw new BadRequestError('A CSV or XLSX file is required');
+      }
 
-  async bulkExportPatients(req: Request, res: Response): Promise<void> {
-    // TODO: Implement bulk export
-    res.json({ success: true, message: 'Bulk export started' });
-  }
+      const { dryRun, allowDuplicates, facilityCode, mapping } = req.body || {};
+      let columnMapping: Record<string, string> | undefined;
+
+      if (mapping) {
+        try {
+          columnMapping = typeof mapping === 'string' ? JSON.parse(mapping) : mapping;
+        } catch {
+          throw new BadRequestError('mapping must be a JSON object of field to column header');
+        }
+      }
+
+      const options: PatientImportOptions = {
+        dryRun: dryRun === true || dryRun === 'true',
+        allowDuplicates: allowDuplicates === true || allowDuplicates === 'true',
+        ...(facilityCode && { facilityCode }),
+        ...(columnMapping && { mapping: columnMapping }),
+      };
+
+      const job = await patientImportService.startImport(
+        req.file,
+        options,
+        this.getWriteContext(req),
+        getAuditContext(req)
+      );
+
+      const response: CommonTypes.ApiResponse<PatientTypes.PatientImportJob> = {
+        success: true,
+        data: job,
+        message: options.dryRun ? 'Bulk import dry run started' : 'Bulk import started',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.status(202).json(response);
+    } catch (error) {
+      logger.error('Error starting bulk import', {
+        userId: req.user?.id,
+        fileName: req.file?.originalname,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
 
-  // Validation endpoint
-  async validatePatientDataEndpoint(req: Request, res: Response): Promise<void> {
+  // Get the status and counters of an import job
+  getImportJob = async (req: Request, res: Response): Promise<void> => {
     try {
-      const patientData = req.body;
-      const errors = this.validatePatientData(patientData);
-      
-      const response: CommonTypes.ApiResponse<{ valid: boolean; errors: any[] }> = {
+      const { jobId } = req.params;
+
+      if (!jobId) {
+        throw new BadRequestError('Import job ID is required');
+      }
+
+      const job = await patientImportService.getJob(jobId);
+
+      const response: CommonTypes.ApiResponse<PatientTypes.PatientImportJob> = {
         success: true,
-        data: {
-          valid: errors.length === 0,
-          errors,
-        },
+        data: job,
         timestamp: new Date(),
         requestId: req.headers['x-request-id'] as string,
       };
 
       res.json(response);
     } catch (error) {
+      logger.error('Error retrieving import job', {
+        userId: req.user?.id,
+        jobId: req.params.jobId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  // Download the rows that failed or were held back as duplicates, as CSV
+  getImportErrorReport = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { jobId } = req.params;
+
+      if (!jobId) {
+        throw new BadRequestError('Import job ID is required');
+      }
+
+      const report = await patientImportService.buildErrorReport(jobId);
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="import-${jobId}-errors.csv"`);
+      res.send(report);
+    } catch (error) {
+      logger.error('Error building import error report', {
+        userId: req.user?.id,
+        jobId: req.params.jobId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
       throw error;
     }
-  }
+  };
 
-  // Helper methods
-  private generateMRN(): string {
-    const prefix = 'MRN';
-    const timestamp = Date.now().toString().slice(-8);
-    const random = Math.floor(Math.random() * 1000).toString().padStart(3, '0');
-    return `${prefix}${timestamp}${random}`;
-  }
+  // Start an export of the patients matching the getPatients query params. The body (or query)
+  // picks the format and the de-identification profile.
+  bulkExportPatients = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const format = (req.body?.format || req.query.format || 'csv') as PatientTypes.PatientExportFormat;
+      const profile = (req.body?.profile || req.query.profile || 'pseudonymised') as PatientTypes.DeidentificationProfile;
+      const filters = this.parseFilters(req.query);
 
-  private validatePatientData(data: any): Array<{ field: string; message: string; code: string; value?: any }> {
-    const errors: Array<{ field: string; message: string; code: string; value?: any }> = [];
+      // Identifiable exports need more than the general export permission
+      if (profile === 'full' && !hasPermission(req.user, 'patients.export_identifiable')) {
+        throw new ForbiddenError('Exporting identifiable patient data requires the patients.export_identifiable permission');
+      }
+
+      const job = await patientExportService.startExport(format, profile, filters, {
+        ...getAuditContext(req),
+        userId: req.user!.id,
+      });
+
+      const response: CommonTypes.ApiResponse<PatientTypes.PatientExportJob> = {
+        success: true,
+        data: job,
+        message: 'Bulk export started',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
 
-    if (!data.firstName) {
-      errors.push({
-        field: 'firstName',
-        message: 'First name is required',
-        code: 'REQUIRED_FIELD',
-        value: data.firstName,
+      res.status(202).json(response);
+    } catch (error) {
+      logger.error('Error starting bulk export', {
+        userId: req.user?.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
       });
+      throw error;
     }
+  };
+
+  // Get the status of an export job
+  getExportJob = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { jobId } = req.params;
+
+      if (!jobId) {
+        throw new BadRequestError('Export job ID is required');
+      }
 
-    if (!data.lastName) {
-      errors.push({
-        field: 'lastName',
-        message: 'Last name is required',
-        code: 'REQUIRED_FIELD',
-        value: data.lastName,
+      const job = await patientExportService.getJob(jobId);
+
+      const response: CommonTypes.ApiResponse<PatientTypes.PatientExportJob> = {
+        success: true,
+        data: job,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving export job', {
+        userId: req.user?.id,
+        jobId: req.params.jobId,
+        error: error instanceof Error ? error.message : 'Unknown error',
       });
+      throw error;
     }
+  };
+
+  // Download a completed export
+  downloadExport = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { jobId } = req.params;
+
+      if (!jobId) {
+        throw new BadRequestError('Export job ID is required');
+      }
+
+      const job = await patientExportService.getJob(jobId);
+      if (job.profile === 'full' && !hasPermission(req.user, 'patients.export_identifiable')) {
+        throw new ForbiddenError('Downloading identifiable patient data requires the patients.export_identifiable permission');
+      }
+
+      const download = await patientExportService.openDownload(jobId, {
+        ...getAuditContext(req),
+        userId: req.user!.id,
+      });
 
-    if (!data.dateOfBirth) {
-      errors.push({
-        field: 'dateOfBirth',
-        message: 'Date of birth is required',
-        code: 'REQUIRED_FIELD',
-        value: data.dateOfBirth,
+      res.setHeader('Content-Type', download.contentType);
+      res.download(download.filePath, download.fileName);
+    } catch (error) {
+      logger.error('Error downloading export', {
+        userId: req.user?.id,
+        jobId: req.params.jobId,
+        error: error instanceof Error ? error.message : 'Unknown error',
       });
+      throw error;
     }
+  };
+
+  // Validation endpoint; applies the same rule set the mobile app downloads
+  validatePatientDataEndpoint = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const patientData = req.body || {};
+      const programIds = parseProgramIds(req.query.programId);
+
+      const result = await validationRuleService.validate(patientData, {
+        ...(patientData.facilityCode && { facilityCode: patientData.facilityCode }),
+        programIds,
+      });
+
+      const response: CommonTypes.ApiResponse<PatientTypes.PatientValidationResult> = {
+        success: true,
+        data: result,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
 
-    if (!data.gender) {
-      errors.push({
-        field: 'gender',
-        message: 'Gender is required',
-        code: 'REQUIRED_FIELD',
-        value: data.gender,
+      res.json(response);
+    } catch (error) {
+      logger.error('Error validating patient data', {
+        userId: req.user?.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
       });
+      throw error;
     }
+  };
 
-    // Validate date of birth format and range
-    if (data.dateOfBirth) {
-      const dob = new Date(data.dateOfBirth);
-      const now = new Date();
-      
-      if (isNaN(dob.getTime())) {
-        errors.push({
-          field: 'dateOfBirth',
-          message: 'Invalid date format',
-          code: 'INVALID_FORMAT',
-          value: data.dateOfBirth,
-        });
-      } else if (dob > now) {
-        errors.push({
-          field: 'dateOfBirth',
-          message: 'Date of birth cannot be in the future',
-          code: 'INVALID_VALUE',
-          value: data.dateOfBirth,
-        });
+  // Helper methods
+  private parseFilters(query: Request['query']): PatientTypes.PatientListFilters {
+    const { search, status, gender, ageMin, ageMax, ageBand, program, camp } = query;
+    const filters: PatientTypes.PatientListFilters = {};
+
+    if (search) {
+      filters.search = search as string;
+    }
+
+    if (status) {
+      filters.status = status as PatientTypes.PatientStatus;
+    }
+
+    if (gender) {
+      filters.gender = gender as PatientTypes.Gender;
+    }
+
+    if (ageMin || ageMax) {
+      const min = parseInt(ageMin as string);
+      const max = parseInt(ageMax as string);
+
+      if ((ageMin && isNaN(min)) || (ageMax && isNaN(max))) {
+        throw new BadRequestError('ageMin and ageMax must be numbers');
+      }
+
+      filters.age = {
+        ...(ageMin && { min }),
+        ...(ageMax && { max }),
+      };
+    }
+
+    if (ageBand) {
+      if (!PatientTypes.AGE_BANDS.some(band => band.label === ageBand)) {
+        throw new BadRequestError(
+          `ageBand must be one of: ${PatientTypes.AGE_BANDS.map(band => band.label).join(', ')}`
+        );
+      }
+      filters.ageBand = ageBand as string;
+    }
+
+    if (program) {
+      filters.program = program as string;
+    }
+
+    if (camp) {
+      filters.camp = camp as string;
+    }
+
+    return filters;
+  }
+
+  private parseStatisticsFilters(query: Request['query']): PatientTypes.PatientStatisticsFilters {
+    const { from, to, facilityCode } = query;
+    const filters: PatientTypes.PatientStatisticsFilters = {};
+
+    for (const [name, value] of [['from', from], ['to', to]] as const) {
+      if (value) {
+        const date = new Date(String(value));
+        if (isNaN(date.getTime())) {
+          throw new BadRequestError(`${name} must be a valid date`);
+        }
+        filters[name] = date;
       }
     }
 
-    // Validate gender
-    if (data.gender && !Object.values(PatientTypes.Gender).includes(data.gender)) {
-      errors.push({
-        field: 'gender',
-        message: 'Invalid gender value',
-        code: 'INVALID_VALUE',
-        value: data.gender,
+    if (facilityCode) {
+      filters.facilityCode = String(facilityCode);
+    }
+
+    return filters;
+  }
+
+  private async sendAttachment(req: Request, res: Response, variant: 'original' | 'thumbnail'): Promise<void> {
+    try {
+      const { id, attachmentId } = req.params;
+
+      if (!id || !attachmentId) {
+        throw new BadRequestError('Patient ID and attachment ID are required');
+      }
+
+      const content = await attachmentService.getContent(id, attachmentId, variant, {
+        ...getAuditContext(req),
+        userId: req.user!.id,
+      });
+
+      res.setHeader('Content-Type', content.mimeType);
+      res.setHeader('Content-Disposition', `inline; filename="${content.fileName.replace(/["\\\r\n]/g, '_')}"`);
+      res.setHeader('Cache-Control', 'private, no-store');
+      res.send(content.data);
+    } catch (error) {
+      logger.error('Error downloading patient attachment', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        attachmentId: req.params.attachmentId,
+        variant,
+        error: error instanceof Error ? error.message : 'Unknown error',
       });
+      throw error;
     }
+  }
+
+  private getWriteContext(req: Request): PatientWriteContext {
+    const projectId = req.body?.projectId || req.user?.projectId;
 
-    return errors;
+    return {
+      userId: req.user!.id,
+      ...(req.user?.organizationId && { organizationId: req.user.organizationId }),
+      ...(projectId && { projectId }),
+    };
   }
-}
\ No newline at end of file
+}
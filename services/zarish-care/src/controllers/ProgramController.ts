@@ -0,0 +1,91 @@
+import { Request, Response } from 'express';
+import { PatientTypes, CommonTypes, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from '@zarishhealthcare/shared-types';
+import { logger } from '../utils/logger';
+import { BadRequestError } from '../middleware/errorHandler';
+import { programService } from '../services/ProgramService';
+
+const ENROLLMENT_STATUSES: PatientTypes.EnrollmentStatus[] = [
+  'enrolled',
+  'defaulted',
+  'lost_to_follow_up',
+  'transferred_out',
+  'completed',
+  'died',
+];
+
+export class ProgramController {
+
+  // Program definitions with their eligibility rules
+  getPrograms = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const programs = await programService.listPrograms();
+
+      const response: CommonTypes.ApiResponse<PatientTypes.ProgramDefinition[]> = {
+        success: true,
+        data: programs,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving programs', {
+        userId: req.user?.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  // Enrollments of one program, e.g. ?status=defaulted for a tracing list
+  getProgramEnrollments = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { programId } = req.params;
+      const { status, facilityCode, page = 1, limit = DEFAULT_PAGE_SIZE } = req.query;
+
+      if (!programId) {
+        throw new BadRequestError('Program ID is required');
+      }
+
+      if (status && !ENROLLMENT_STATUSES.includes(status as PatientTypes.EnrollmentStatus)) {
+        throw new BadRequestError(`status must be one of: ${ENROLLMENT_STATUSES.join(', ')}`);
+      }
+
+      const currentPage = Math.max(parseInt(page as string) || 1, 1);
+      const pageSize = Math.min(Math.max(parseInt(limit as string) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+      const { enrollments, total } = await programService.getProgramEnrollments(programId, {
+        ...(status && { status: status as PatientTypes.EnrollmentStatus }),
+        ...(facilityCode && { facilityCode: String(facilityCode) }),
+        page: currentPage,
+        limit: pageSize,
+      });
+
+      const totalPages = Math.ceil(total / pageSize);
+
+      const response: CommonTypes.ApiResponse<CommonTypes.PaginationResponse<PatientTypes.ProgramEnrollment>> = {
+        success: true,
+        data: {
+          items: enrollments,
+          totalItems: total,
+          totalPages,
+          currentPage,
+          pageSize,
+          hasNextPage: currentPage < totalPages,
+          hasPreviousPage: currentPage > 1,
+        },
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving program enrollments', {
+        userId: req.user?.id,
+        programId: req.params.programId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+}
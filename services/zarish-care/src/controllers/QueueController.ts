@@ -0,0 +1,174 @@
+import { Request, Response } from 'express';
+import { PatientTypes, CommonTypes } from '@zarishhealthcare/shared-types';
+import { logger } from '../utils/logger';
+import { BadRequestError } from '../middleware/errorHandler';
+import { getAuditContext } from '../services/AuditService';
+import { queueService } from '../services/QueueService';
+
+export class QueueController {
+
+  // Waiting-room board for a facility, optionally narrowed to one service point
+  getQueue = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { facilityCode } = req.params;
+      const { servicePoint } = req.query;
+
+      if (!facilityCode) {
+        throw new BadRequestError('Facility code is required');
+      }
+
+      const entries = await queueService.getQueue(facilityCode, servicePoint ? String(servicePoint) : undefined);
+
+      const response: CommonTypes.ApiResponse<PatientTypes.QueueEntry[]> = {
+        success: true,
+        data: entries,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving facility queue', {
+        userId: req.user?.id,
+        facilityCode: req.params.facilityCode,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  // Waiting times per service point; defaults to today
+  getStatistics = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { facilityCode } = req.params;
+      const { from, to } = req.query;
+
+      if (!facilityCode) {
+        throw new BadRequestError('Facility code is required');
+      }
+
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+      const fromDate = from ? new Date(from as string) : today;
+      const toDate = to ? new Date(to as string) : new Date();
+
+      if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime())) {
+        throw new BadRequestError('from and to must be valid dates');
+      }
+
+      if (fromDate >= toDate) {
+        throw new BadRequestError('from must be earlier than to');
+      }
+
+      const statistics = await queueService.getWaitingStatistics(facilityCode, fromDate, toDate);
+
+      const response: CommonTypes.ApiResponse<PatientTypes.ServicePointWaitStats[]> = {
+        success: true,
+        data: statistics,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving queue statistics', {
+        userId: req.user?.id,
+        facilityCode: req.params.facilityCode,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  callPatient = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { entryId } = req.params;
+
+      if (!entryId) {
+        throw new BadRequestError('Queue entry ID is required');
+      }
+
+      const entry = await queueService.call(entryId, { ...getAuditContext(req), userId: req.user!.id });
+
+      const response: CommonTypes.ApiResponse<PatientTypes.QueueEntry> = {
+        success: true,
+        data: entry,
+        message: 'Patient called successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error calling patient from queue', {
+        userId: req.user?.id,
+        entryId: req.params.entryId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  transferPatient = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { entryId } = req.params;
+      const { servicePoint, priority } = req.body || {};
+
+      if (!entryId) {
+        throw new BadRequestError('Queue entry ID is required');
+      }
+
+      const entry = await queueService.transfer(entryId, servicePoint, priority, {
+        ...getAuditContext(req),
+        userId: req.user!.id,
+      });
+
+      const response: CommonTypes.ApiResponse<PatientTypes.QueueEntry> = {
+        success: true,
+        data: entry,
+        message: 'Patient transferred successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error transferring patient in queue', {
+        userId: req.user?.id,
+        entryId: req.params.entryId,
+        servicePoint: req.body?.servicePoint,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  completePatient = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { entryId } = req.params;
+
+      if (!entryId) {
+        throw new BadRequestError('Queue entry ID is required');
+      }
+
+      const entry = await queueService.complete(entryId, { ...getAuditContext(req), userId: req.user!.id });
+
+      const response: CommonTypes.ApiResponse<PatientTypes.QueueEntry> = {
+        success: true,
+        data: entry,
+        message: 'Queue entry completed successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error completing queue entry', {
+        userId: req.user?.id,
+        entryId: req.params.entryId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+}
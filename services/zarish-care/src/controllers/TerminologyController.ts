@@ -0,0 +1,175 @@
+import { Request, Response } from 'express';
+import { ClinicalTypes, CommonTypes } from '@zarishhealthcare/shared-types';
+import { logger } from '../utils/logger';
+import { BadRequestError } from '../middleware/errorHandler';
+import { terminologyService } from '../services/TerminologyService';
+
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 100;
+
+export class TerminologyController {
+
+  // Loaded code systems with their versions and checksums, for devices deciding what to sync
+  getCodeSystems = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const response: CommonTypes.ApiResponse<ClinicalTypes.CodeSystemSummary[]> = {
+        success: true,
+        data: terminologyService.listCodeSystems(),
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving code systems', {
+        userId: req.user?.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  // e.g. /terminology/icd10/search?q=diarrhoea or ?q=A09
+  searchCodeSystem = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { system } = req.params;
+      const { q, version, limit, includeInactive } = req.query;
+
+      if (!system) {
+        throw new BadRequestError('Code system is required');
+      }
+
+      if (!q || typeof q !== 'string') {
+        throw new BadRequestError('Search query (q) is required');
+      }
+
+      const results = terminologyService.search(system, q, {
+        ...(version && { version: String(version) }),
+        limit: Math.min(Math.max(parseInt(limit as string) || DEFAULT_SEARCH_LIMIT, 1), MAX_SEARCH_LIMIT),
+        includeInactive: includeInactive === 'true',
+      });
+
+      const response: CommonTypes.ApiResponse<ClinicalTypes.TerminologySearchResult[]> = {
+        success: true,
+        data: results,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error searching code system', {
+        userId: req.user?.id,
+        system: req.params.system,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  getConcept = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { system, code } = req.params;
+      const { version } = req.query;
+
+      if (!system || !code) {
+        throw new BadRequestError('Code system and code are required');
+      }
+
+      const concept = terminologyService.getConcept(system, code, version ? String(version) : undefined);
+
+      const response: CommonTypes.ApiResponse<ClinicalTypes.TerminologyConcept> = {
+        success: true,
+        data: concept,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving concept', {
+        userId: req.user?.id,
+        system: req.params.system,
+        code: req.params.code,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  // Concepts mapped from another system's code, e.g. /terminology/ewars/map?from=icd10&code=A09.0
+  mapCode = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { system } = req.params;
+      const { from, code, version } = req.query;
+
+      if (!system) {
+        throw new BadRequestError('Code system is required');
+      }
+
+      if (!from || !code) {
+        throw new BadRequestError('from and code are required');
+      }
+
+      const concepts = terminologyService.map(
+        system,
+        String(from),
+        String(code),
+        version ? String(version) : undefined
+      );
+
+      const response: CommonTypes.ApiResponse<ClinicalTypes.TerminologyConcept[]> = {
+        success: true,
+        data: concepts,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error mapping code', {
+        userId: req.user?.id,
+        system: req.params.system,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  // Whole code set for offline devices; the checksum is the ETag, so unchanged sets return 304
+  exportCodeSystem = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { system } = req.params;
+      const { version } = req.query;
+
+      if (!system) {
+        throw new BadRequestError('Code system is required');
+      }
+
+      const codeSystem = terminologyService.exportCodeSystem(system, version ? String(version) : undefined);
+      const etag = `"${codeSystem.checksum}"`;
+
+      res.set('ETag', etag);
+      if (req.headers['if-none-match'] === etag) {
+        res.status(304).end();
+        return;
+      }
+
+      const response: CommonTypes.ApiResponse<ClinicalTypes.CodeSystemExport> = {
+        success: true,
+        data: codeSystem,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error exporting code system', {
+        userId: req.user?.id,
+        system: req.params.system,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+}
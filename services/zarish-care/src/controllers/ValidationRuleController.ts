@@ -0,0 +1,99 @@
+import { Request, Response } from 'express';
+import { PatientTypes, CommonTypes } from '@zarishhealthcare/shared-types';
+import { logger } from '../utils/logger';
+import { BadRequestError } from '../middleware/errorHandler';
+import { validationRuleService } from '../services/ValidationRuleService';
+import { parseProgramIds } from '../utils/patientValidation';
+
+export class ValidationRuleController {
+
+  // Resolved rule set for a facility and programs; this is what the mobile app downloads
+  getRuleSet = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { facilityCode } = req.query;
+
+      const ruleSet = await validationRuleService.getRuleSet({
+        ...(facilityCode && { facilityCode: String(facilityCode) }),
+        programIds: parseProgramIds(req.query.programId),
+      });
+
+      const response: CommonTypes.ApiResponse<PatientTypes.PatientValidationRuleSet> = {
+        success: true,
+        data: ruleSet,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving validation rule set', {
+        userId: req.user?.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  // Every rule definition across scopes, for administration
+  getRules = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const rules = await validationRuleService.listRules();
+
+      const response: CommonTypes.ApiResponse<PatientTypes.PatientValidationRule[]> = {
+        success: true,
+        data: rules,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving validation rules', {
+        userId: req.user?.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  // Create or change a rule in one scope; `active: false` switches a global rule off there
+  saveRule = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { code } = req.params;
+      const { field, rule, when, severity, message, scope, facilityCode, programId, active } = req.body || {};
+
+      if (!code) {
+        throw new BadRequestError('Validation rule code is required');
+      }
+
+      const saved = await validationRuleService.saveRule(code, {
+        field,
+        rule,
+        ...(when && { when }),
+        severity: severity || 'error',
+        message,
+        scope: scope || 'global',
+        ...(facilityCode && { facilityCode }),
+        ...(programId && { programId }),
+        active: active !== false,
+      }, req.user!.id);
+
+      const response: CommonTypes.ApiResponse<PatientTypes.PatientValidationRule> = {
+        success: true,
+        data: saved,
+        message: 'Validation rule saved successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error saving validation rule', {
+        userId: req.user?.id,
+        code: req.params.code,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+}
@@ -0,0 +1,147 @@
+import { Request, Response } from 'express';
+import { ClinicalTypes, CommonTypes, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from '@zarishhealthcare/shared-types';
+import { logger } from '../utils/logger';
+import { BadRequestError } from '../middleware/errorHandler';
+import { getAuditContext } from '../services/AuditService';
+import { vitalSignsService, VITAL_MEASURES } from '../services/VitalSignsService';
+
+// Charts default to the measures taken at most visits
+const DEFAULT_TREND_MEASURES: ClinicalTypes.VitalMeasure[] = ['systolic', 'diastolic', 'heartRate', 'weight'];
+
+function parseRange(query: Request['query']): { from?: Date; to?: Date } {
+  const from = query.from ? new Date(query.from as string) : undefined;
+  const to = query.to ? new Date(query.to as string) : undefined;
+
+  if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+    throw new BadRequestError('from and to must be valid dates');
+  }
+
+  if (from && to && from > to) {
+    throw new BadRequestError('from must not be after to');
+  }
+
+  return { ...(from && { from }), ...(to && { to }) };
+}
+
+export class VitalSignsController {
+
+  recordVitalSigns = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const request: ClinicalTypes.RecordVitalSignsRequest = req.body;
+
+      if (!id) {
+        throw new BadRequestError('Patient ID is required');
+      }
+
+      const vitalSigns = await vitalSignsService.record(id, request, {
+        ...getAuditContext(req),
+        userId: req.user!.id,
+      });
+
+      const response: CommonTypes.ApiResponse<ClinicalTypes.VitalSigns> = {
+        success: true,
+        data: vitalSigns,
+        message: vitalSigns.flags.length > 0
+          ? `Vital signs recorded with ${vitalSigns.flags.length} abnormal value(s)`
+          : 'Vital signs recorded successfully',
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Error recording vital signs', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  getVitalSigns = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { page = 1, limit = DEFAULT_PAGE_SIZE } = req.query;
+
+      if (!id) {
+        throw new BadRequestError('Patient ID is required');
+      }
+
+      const currentPage = Math.max(parseInt(page as string) || 1, 1);
+      const pageSize = Math.min(Math.max(parseInt(limit as string) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+      const { vitalSigns, total } = await vitalSignsService.list(id, {
+        ...parseRange(req.query),
+        page: currentPage,
+        limit: pageSize,
+      });
+
+      const totalPages = Math.ceil(total / pageSize);
+
+      const response: CommonTypes.ApiResponse<CommonTypes.PaginationResponse<ClinicalTypes.VitalSigns>> = {
+        success: true,
+        data: {
+          items: vitalSigns,
+          totalItems: total,
+          totalPages,
+          currentPage,
+          pageSize,
+          hasNextPage: currentPage < totalPages,
+          hasPreviousPage: currentPage > 1,
+        },
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving vital signs', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+
+  // Chart series, e.g. ?measures=weight,muac&from=2024-01-01
+  getVitalSignsTrend = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { measures } = req.query;
+
+      if (!id) {
+        throw new BadRequestError('Patient ID is required');
+      }
+
+      const requested = measures
+        ? String(measures).split(',').map(measure => measure.trim()).filter(Boolean)
+        : DEFAULT_TREND_MEASURES;
+
+      if (requested.length === 0) {
+        throw new BadRequestError(`measures must list one or more of: ${VITAL_MEASURES.join(', ')}`);
+      }
+
+      const { from, to } = parseRange(req.query);
+      const trend = await vitalSignsService.getTrend(id, requested as ClinicalTypes.VitalMeasure[], from, to);
+
+      const response: CommonTypes.ApiResponse<ClinicalTypes.VitalTrendSeries[]> = {
+        success: true,
+        data: trend,
+        timestamp: new Date(),
+        requestId: req.headers['x-request-id'] as string,
+      };
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Error retrieving vital signs trend', {
+        userId: req.user?.id,
+        patientId: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  };
+}
@@ -1,4 +1,5 @@
 import express from 'express';
+import { createServer } from 'http';
 import cors from 'cors';
 import helmet from 'helmet';
 import compression from 'compression';
@@ -7,11 +8,18 @@ import dotenv from 'dotenv';
 
 import { logger } from './utils/logger';
 import { config } from './config/config';
-import { Database } from './config/database';
-import { Redis } from './config/redis';
+import { Database, database } from './config/database';
+import { Redis, redis } from './config/redis';
 import { errorHandler } from './middleware/errorHandler';
 import { authMiddleware } from './middleware/auth';
 import { routes } from './routes';
+import { startPatientRetentionJob } from './jobs/patientRetentionJob';
+import { startProgramDefaulterJob } from './jobs/programDefaulterJob';
+import { startEmergencyBreachJob } from './jobs/emergencyBreachJob';
+import { realtimeService } from './services/RealtimeService';
+import { terminologyService } from './services/TerminologyService';
+import { treatmentProtocolService } from './services/TreatmentProtocolService';
+import { vitalSignsService } from './services/VitalSignsService';
 
 // Load environment variables
 dotenv.config();
@@ -23,8 +31,9 @@ class ZarishCareService {
 
   constructor() {
     this.app = express();
-    this.database = new Database();
-    this.redis = new Redis();
+    // Use the shared instances so repositories see the same connected pool
+    this.database = database;
+    this.redis = redis;
   }
 
   public async initialize(): Promise<void> {
@@ -37,6 +46,20 @@ class ZarishCareService {
       await this.redis.connect();
       logger.info('✅ Redis connected successfully');
 
+      // Load code systems used for diagnosis lookup and device sync
+      await terminologyService.load();
+
+      // Load the NCD treatment protocols behind step recommendations
+      await treatmentProtocolService.load();
+
+      // Load the WHO growth standard tables behind nutrition z-scores
+      await vitalSignsService.loadGrowthReferences();
+
+      // Schedule background jobs
+      startPatientRetentionJob();
+      startProgramDefaulterJob();
+      startEmergencyBreachJob();
+
       // Setup middleware
       this.setupMiddleware();
 
@@ -154,7 +177,12 @@ class ZarishCareService {
 
   private startServer(): void {
     const port = config.port;
-    this.app.listen(port, () => {
+    const server = createServer(this.app);
+
+    // Socket.IO shares the HTTP server for queue and dashboard updates
+    realtimeService.attach(server);
+
+    server.listen(port, () => {
       logger.info(`🚀 ZarishCare service started on port ${port}`);
       logger.info(`📱 Environment: ${config.env}`);
       logger.info(`🏥 Service ready to handle clinical management requests`);
@@ -165,6 +193,9 @@ class ZarishCareService {
     logger.info(`📴 Received ${signal}, starting graceful shutdown...`);
 
     try {
+      // Disconnect realtime clients
+      await realtimeService.close();
+
       // Close database connection
       await this.database.disconnect();
       logger.info('✅ Database connection closed');
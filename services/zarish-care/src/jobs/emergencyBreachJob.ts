@@ -0,0 +1,39 @@
+import cron, { ScheduledTask } from 'node-cron';
+import { config } from '../config/config';
+import { emergencyService } from '../services/EmergencyService';
+import { logger } from '../utils/logger';
+
+// Alerts emergency staff about waiting patients who have passed their time-to-treatment target
+export async function alertEmergencyBreaches(): Promise<number> {
+  const breaches = await emergencyService.alertBreaches();
+
+  if (breaches.length > 0) {
+    logger.info('Emergency breach check completed', {
+      action: 'emergency_breach_check',
+      breachCount: breaches.length,
+    });
+  }
+
+  return breaches.length;
+}
+
+export function startEmergencyBreachJob(): ScheduledTask | null {
+  if (!config.emergency.breachCheckEnabled) {
+    logger.info('Emergency breach check disabled');
+    return null;
+  }
+
+  logger.info('Scheduling emergency breach check', {
+    schedule: config.emergency.breachCheckSchedule,
+    targetMinutes: config.emergency.targetMinutes,
+  });
+
+  return cron.schedule(config.emergency.breachCheckSchedule, () => {
+    alertEmergencyBreaches().catch((error) => {
+      logger.error('Emergency breach check failed', {
+        error: error instanceof Error ? error.message : error,
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+    });
+  });
+}
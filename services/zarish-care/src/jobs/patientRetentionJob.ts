@@ -0,0 +1,72 @@
+import cron, { ScheduledTask } from 'node-cron';
+import { SYSTEM_USER_ID } from '@zarishhealthcare/shared-types';
+import { config } from '../config/config';
+import { database } from '../config/database';
+import { patientRepository, PurgedPatient } from '../repositories/PatientRepository';
+import { attachmentService } from '../services/AttachmentService';
+import { auditService } from '../services/AuditService';
+import { logger } from '../utils/logger';
+
+// Hard-deletes soft-deleted patients once they are older than the retention window.
+// Every purged record leaves an audit entry behind, written in the same transaction.
+export async function purgeExpiredPatients(
+  retentionDays: number = config.retention.deletedPatientRetentionDays
+): Promise<PurgedPatient[]> {
+  const { purged, files } = await database.transaction(async (client) => {
+    // Attachment files are only removed from disk once the purge has committed
+    const attachmentFiles = await attachmentService.releaseForPurge(retentionDays, client);
+    const removed = await patientRepository.purgeDeleted(retentionDays, client);
+
+    for (const patient of removed) {
+      await auditService.record({
+        entityType: 'patient',
+        entityId: patient.id,
+        action: 'purge',
+        userId: SYSTEM_USER_ID,
+        metadata: {
+          businessContext: {
+            mrn: patient.mrn,
+            deletedAt: patient.deletedAt,
+            deletedBy: patient.deletedBy,
+            deletionReason: patient.deletionReason,
+            retentionDays,
+          },
+        },
+      }, client);
+    }
+
+    return { purged: removed, files: attachmentFiles };
+  });
+
+  await attachmentService.removeFiles(files);
+
+  logger.info('Patient retention purge completed', {
+    action: 'patient_retention_purge',
+    retentionDays,
+    purgedCount: purged.length,
+    attachmentFilesRemoved: files.length,
+  });
+
+  return purged;
+}
+
+export function startPatientRetentionJob(): ScheduledTask | null {
+  if (!config.retention.purgeEnabled) {
+    logger.info('Patient retention purge disabled');
+    return null;
+  }
+
+  logger.info('Scheduling patient retention purge', {
+    schedule: config.retention.purgeSchedule,
+    retentionDays: config.retention.deletedPatientRetentionDays,
+  });
+
+  return cron.schedule(config.retention.purgeSchedule, () => {
+    purgeExpiredPatients().catch((error) => {
+      logger.error('Patient retention purge failed', {
+        error: error instanceof Error ? error.message : error,
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+    });
+  });
+}
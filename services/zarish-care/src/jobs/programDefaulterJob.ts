@@ -0,0 +1,54 @@
+import cron, { ScheduledTask } from 'node-cron';
+import { SYSTEM_USER_ID } from '@zarishhealthcare/shared-types';
+import { config } from '../config/config';
+import { notificationService } from '../services/NotificationService';
+import { programService } from '../services/ProgramService';
+import { logger } from '../utils/logger';
+
+// Deliberately does not name the program: an SMS mentioning e.g. mental health care would
+// disclose it to anyone who sees the phone
+const DEFAULTER_REMINDER = 'You have missed a follow-up appointment. Please visit your health facility.';
+
+// Flags program patients whose follow-up appointment has passed by more than the grace period
+export async function markProgramDefaulters(): Promise<number> {
+  const defaulted = await programService.detectDefaulters();
+  let remindersQueued = 0;
+
+  if (config.programs.defaulterRemindersEnabled) {
+    for (const patientId of new Set(defaulted.map(enrollment => enrollment.patientId))) {
+      if (await notificationService.queueSms(patientId, 'sms_reminders', DEFAULTER_REMINDER, SYSTEM_USER_ID)) {
+        remindersQueued++;
+      }
+    }
+  }
+
+  logger.info('Program defaulter check completed', {
+    action: 'program_defaulter_check',
+    defaultedCount: defaulted.length,
+    remindersQueued,
+    graceDays: config.programs.defaulterGraceDays,
+  });
+
+  return defaulted.length;
+}
+
+export function startProgramDefaulterJob(): ScheduledTask | null {
+  if (!config.programs.defaulterCheckEnabled) {
+    logger.info('Program defaulter check disabled');
+    return null;
+  }
+
+  logger.info('Scheduling program defaulter check', {
+    schedule: config.programs.defaulterCheckSchedule,
+    graceDays: config.programs.defaulterGraceDays,
+  });
+
+  return cron.schedule(config.programs.defaulterCheckSchedule, () => {
+    markProgramDefaulters().catch((error) => {
+      logger.error('Program defaulter check failed', {
+        error: error instanceof Error ? error.message : error,
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+    });
+  });
+}
@@ -405,4 +405,12 @@ export const rateLimitPerUser = (maxRequests?: number, windowMs?: number) => {
   return getAuthMiddleware().rateLimitPerUser(maxRequests, windowMs);
 };
 
+// For checks inside a handler, where access depends on the request (e.g. the export profile)
+export const hasPermission = (user: Request['user'], permission: string): boolean => {
+  if (!user) {
+    return false;
+  }
+  return (user.roles || []).includes('super_admin') || (user.permissions || []).includes(permission);
+};
+
 export default AuthMiddleware;
\ No newline at end of file
@@ -160,6 +160,15 @@ export const errorHandler = (
     message = 'Authentication token has expired';
   }
 
+  // Handle upload errors
+  if (error.name === 'MulterError') {
+    const multerError = error as any;
+    statusCode = multerError.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+    errorCode = multerError.code === 'LIMIT_FILE_SIZE' ? 'FILE_TOO_LARGE' : 'UPLOAD_ERROR';
+    message = error.message;
+    field = multerError.field;
+  }
+
   // Handle MongoDB/Mongoose errors
   if (error.name === 'ValidationError') {
     statusCode = 400;
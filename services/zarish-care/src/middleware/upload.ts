@@ -0,0 +1,20 @@
+import multer from 'multer';
+import { config } from '../config/config';
+
+// Bulk import spreadsheets are parsed in memory and never written to disk
+export const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: config.patientImport.maxFileSize,
+    files: 1,
+  },
+});
+
+// Attachments are held in memory so they can be checked and encrypted before touching disk
+export const attachmentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: config.fileUpload.maxFileSize,
+    files: 1,
+  },
+});
@@ -0,0 +1,33 @@
+import { Migration } from './types';
+
+// Extends the bootstrap clinical.patients table from infrastructure/database/init/init.sql
+// with the columns the patient registry needs. patient_id holds the MRN.
+export const migration: Migration = {
+  id: '001_patient_registry',
+  description: 'Patient registry columns and list/filter indexes',
+  up: `
+    ALTER TABLE clinical.patients
+      ADD COLUMN IF NOT EXISTS facility_code VARCHAR(50),
+      ADD COLUMN IF NOT EXISTS organization_id VARCHAR(100),
+      ADD COLUMN IF NOT EXISTS project_id VARCHAR(100),
+      ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'active',
+      ADD COLUMN IF NOT EXISTS population_type VARCHAR(20),
+      ADD COLUMN IF NOT EXISTS camp_location VARCHAR(100),
+      ADD COLUMN IF NOT EXISTS block_number VARCHAR(50),
+      ADD COLUMN IF NOT EXISTS demographics JSONB NOT NULL DEFAULT '{}'::jsonb,
+      ADD COLUMN IF NOT EXISTS programs TEXT[] NOT NULL DEFAULT '{}',
+      ADD COLUMN IF NOT EXISTS registration_date TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      ADD COLUMN IF NOT EXISTS created_by VARCHAR(100),
+      ADD COLUMN IF NOT EXISTS updated_by VARCHAR(100),
+      ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1,
+      ADD COLUMN IF NOT EXISTS deleted BOOLEAN NOT NULL DEFAULT FALSE;
+
+    CREATE INDEX IF NOT EXISTS idx_patients_status ON clinical.patients(status) WHERE deleted = FALSE;
+    CREATE INDEX IF NOT EXISTS idx_patients_gender ON clinical.patients(gender);
+    CREATE INDEX IF NOT EXISTS idx_patients_camp_location ON clinical.patients(camp_location);
+    CREATE INDEX IF NOT EXISTS idx_patients_facility_code ON clinical.patients(facility_code);
+    CREATE INDEX IF NOT EXISTS idx_patients_date_of_birth ON clinical.patients(date_of_birth);
+    CREATE INDEX IF NOT EXISTS idx_patients_created_at ON clinical.patients(created_at);
+    CREATE INDEX IF NOT EXISTS idx_patients_programs ON clinical.patients USING GIN (programs);
+  `,
+};
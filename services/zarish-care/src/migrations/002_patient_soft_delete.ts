@@ -0,0 +1,31 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  id: '002_patient_soft_delete',
+  description: 'Patient tombstones and the clinical audit log',
+  up: `
+    ALTER TABLE clinical.patients
+      ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP,
+      ADD COLUMN IF NOT EXISTS deleted_by VARCHAR(100),
+      ADD COLUMN IF NOT EXISTS deletion_reason TEXT;
+
+    CREATE INDEX IF NOT EXISTS idx_patients_deleted_at ON clinical.patients(deleted_at) WHERE deleted = TRUE;
+
+    CREATE TABLE IF NOT EXISTS clinical.audit_log (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      entity_type VARCHAR(50) NOT NULL,
+      entity_id VARCHAR(100) NOT NULL,
+      action VARCHAR(20) NOT NULL,
+      user_id VARCHAR(100),
+      session_id VARCHAR(100),
+      ip_address VARCHAR(64),
+      user_agent TEXT,
+      changes JSONB,
+      metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+      timestamp TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON clinical.audit_log(entity_type, entity_id, timestamp);
+    CREATE INDEX IF NOT EXISTS idx_audit_log_user ON clinical.audit_log(user_id, timestamp);
+  `,
+};
@@ -0,0 +1,48 @@
+import { Migration } from './types';
+import { phoneticKey } from '../utils/phonetics';
+
+export const migration: Migration = {
+  id: '003_master_patient_index',
+  description: 'Phonetic name keys for duplicate detection and the patient merge log',
+  up: `
+    ALTER TABLE clinical.patients
+      ADD COLUMN IF NOT EXISTS first_name_phonetic VARCHAR(100),
+      ADD COLUMN IF NOT EXISTS last_name_phonetic VARCHAR(100),
+      ADD COLUMN IF NOT EXISTS merged_into UUID REFERENCES clinical.patients(id) ON DELETE SET NULL;
+
+    CREATE INDEX IF NOT EXISTS idx_patients_name_phonetic
+      ON clinical.patients(last_name_phonetic, first_name_phonetic) WHERE deleted = FALSE;
+    CREATE INDEX IF NOT EXISTS idx_patients_unhcr_id
+      ON clinical.patients((demographics->'documentation'->>'unhcrId')) WHERE deleted = FALSE;
+    CREATE INDEX IF NOT EXISTS idx_patients_smart_card_id
+      ON clinical.patients((demographics->'documentation'->>'smartCardId')) WHERE deleted = FALSE;
+
+    -- A merge can only be reversed while both records exist, and its undo data holds patient details,
+    -- so the retention purge of either patient takes the log entry with it
+    CREATE TABLE IF NOT EXISTS clinical.patient_merges (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      survivor_id UUID NOT NULL REFERENCES clinical.patients(id) ON DELETE CASCADE,
+      merged_id UUID NOT NULL REFERENCES clinical.patients(id) ON DELETE CASCADE,
+      reason TEXT,
+      match_score NUMERIC(5, 4),
+      steps JSONB NOT NULL DEFAULT '[]'::jsonb,
+      merged_by VARCHAR(100) NOT NULL,
+      merged_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      unmerged_by VARCHAR(100),
+      unmerged_at TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_patient_merges_survivor ON clinical.patient_merges(survivor_id);
+    CREATE INDEX IF NOT EXISTS idx_patient_merges_merged ON clinical.patient_merges(merged_id);
+  `,
+  after: async (client) => {
+    const result = await client.query('SELECT id, first_name, last_name FROM clinical.patients');
+
+    for (const row of result.rows) {
+      await client.query(
+        'UPDATE clinical.patients SET first_name_phonetic = $2, last_name_phonetic = $3 WHERE id = $1',
+        [row.id, phoneticKey(row.first_name), phoneticKey(row.last_name)]
+      );
+    }
+  },
+};
@@ -0,0 +1,57 @@
+import { Migration } from './types';
+
+// search_text feeds the trigram index (partial and misspelt input); search_vector feeds
+// full-text matching. Both cover names, MRN, document numbers, phones and shelter ID.
+// name_phonetic_tokens holds one phonetic key per name word for transliteration-tolerant matching.
+// Phone numbers are kept as bare digits and indexed reversed, so a trailing-digit match is a prefix scan.
+const SEARCH_TEXT = `
+  lower(
+    coalesce(first_name, '') || ' ' ||
+    coalesce(last_name, '') || ' ' ||
+    coalesce(patient_id, '') || ' ' ||
+    coalesce(demographics->'documentation'->>'unhcrId', '') || ' ' ||
+    coalesce(demographics->'documentation'->>'smartCardId', '') || ' ' ||
+    coalesce(demographics->'documentation'->>'nationalId', '') || ' ' ||
+    coalesce(contact_info->>'primaryPhone', '') || ' ' ||
+    coalesce(contact_info->>'secondaryPhone', '') || ' ' ||
+    coalesce(contact_info->'address'->>'shelterId', '')
+  )
+`;
+
+export const migration: Migration = {
+  id: '004_patient_search',
+  description: 'Full-text and trigram search columns for patient search',
+  up: `
+    CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+    ALTER TABLE clinical.patients
+      ADD COLUMN IF NOT EXISTS search_text TEXT GENERATED ALWAYS AS (${SEARCH_TEXT}) STORED,
+      ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+        to_tsvector('simple'::regconfig, ${SEARCH_TEXT})
+      ) STORED,
+      ADD COLUMN IF NOT EXISTS name_phonetic_tokens TEXT[] GENERATED ALWAYS AS (
+        string_to_array(trim(coalesce(first_name_phonetic, '') || ' ' || coalesce(last_name_phonetic, '')), ' ')
+      ) STORED,
+      ADD COLUMN IF NOT EXISTS primary_phone_digits TEXT GENERATED ALWAYS AS (
+        nullif(regexp_replace(coalesce(contact_info->>'primaryPhone', ''), '\\D', '', 'g'), '')
+      ) STORED,
+      ADD COLUMN IF NOT EXISTS secondary_phone_digits TEXT GENERATED ALWAYS AS (
+        nullif(regexp_replace(coalesce(contact_info->>'secondaryPhone', ''), '\\D', '', 'g'), '')
+      ) STORED;
+
+    CREATE INDEX IF NOT EXISTS idx_patients_search_text_trgm
+      ON clinical.patients USING GIN (search_text gin_trgm_ops) WHERE deleted = FALSE;
+    CREATE INDEX IF NOT EXISTS idx_patients_search_vector
+      ON clinical.patients USING GIN (search_vector) WHERE deleted = FALSE;
+    CREATE INDEX IF NOT EXISTS idx_patients_name_phonetic_tokens
+      ON clinical.patients USING GIN (name_phonetic_tokens) WHERE deleted = FALSE;
+    CREATE INDEX IF NOT EXISTS idx_patients_primary_phone_digits
+      ON clinical.patients (reverse(primary_phone_digits) text_pattern_ops) WHERE deleted = FALSE;
+    CREATE INDEX IF NOT EXISTS idx_patients_secondary_phone_digits
+      ON clinical.patients (reverse(secondary_phone_digits) text_pattern_ops) WHERE deleted = FALSE;
+    CREATE INDEX IF NOT EXISTS idx_patients_mrn_upper
+      ON clinical.patients (upper(patient_id)) WHERE deleted = FALSE;
+    CREATE INDEX IF NOT EXISTS idx_patients_shelter_id
+      ON clinical.patients ((contact_info->'address'->>'shelterId')) WHERE deleted = FALSE;
+  `,
+};
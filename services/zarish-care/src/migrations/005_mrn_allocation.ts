@@ -0,0 +1,38 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  id: '005_mrn_allocation',
+  description: 'Per-facility MRN formats, counters and offline reservation blocks',
+  up: `
+    CREATE TABLE IF NOT EXISTS clinical.mrn_formats (
+      facility_code VARCHAR(50) PRIMARY KEY,
+      pattern VARCHAR(100) NOT NULL,
+      counter_width INTEGER NOT NULL DEFAULT 6,
+      check_digit VARCHAR(20) NOT NULL DEFAULT 'luhn_mod_n',
+      updated_by VARCHAR(100),
+      updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- year is 0 for formats without a year token, so their counters never reset
+    CREATE TABLE IF NOT EXISTS clinical.mrn_counters (
+      facility_code VARCHAR(50) NOT NULL,
+      year INTEGER NOT NULL,
+      last_value BIGINT NOT NULL DEFAULT 0,
+      PRIMARY KEY (facility_code, year)
+    );
+
+    CREATE TABLE IF NOT EXISTS clinical.mrn_reservations (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      facility_code VARCHAR(50) NOT NULL,
+      year INTEGER NOT NULL,
+      device_id VARCHAR(100) NOT NULL,
+      start_value BIGINT NOT NULL,
+      end_value BIGINT NOT NULL,
+      reserved_by VARCHAR(100) NOT NULL,
+      reserved_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_mrn_reservations_range
+      ON clinical.mrn_reservations(facility_code, year, start_value, end_value);
+  `,
+};
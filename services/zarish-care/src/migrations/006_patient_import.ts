@@ -0,0 +1,39 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  id: '006_patient_import',
+  description: 'Bulk patient import jobs and their per-row results',
+  up: `
+    CREATE TABLE IF NOT EXISTS clinical.patient_import_jobs (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      file_name VARCHAR(255) NOT NULL,
+      format VARCHAR(10) NOT NULL,
+      dry_run BOOLEAN NOT NULL DEFAULT FALSE,
+      status VARCHAR(20) NOT NULL DEFAULT 'queued',
+      total_rows INTEGER NOT NULL DEFAULT 0,
+      processed_rows INTEGER NOT NULL DEFAULT 0,
+      imported_rows INTEGER NOT NULL DEFAULT 0,
+      failed_rows INTEGER NOT NULL DEFAULT 0,
+      duplicate_rows INTEGER NOT NULL DEFAULT 0,
+      error TEXT,
+      created_by VARCHAR(100) NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      started_at TIMESTAMP,
+      completed_at TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS clinical.patient_import_rows (
+      job_id UUID NOT NULL REFERENCES clinical.patient_import_jobs(id) ON DELETE CASCADE,
+      row_number INTEGER NOT NULL,
+      status VARCHAR(20) NOT NULL,
+      patient_id UUID,
+      mrn VARCHAR(50),
+      errors JSONB NOT NULL DEFAULT '[]'::jsonb,
+      warnings JSONB NOT NULL DEFAULT '[]'::jsonb,
+      source JSONB NOT NULL,
+      PRIMARY KEY (job_id, row_number)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_patient_import_jobs_created_by ON clinical.patient_import_jobs(created_by);
+  `,
+};
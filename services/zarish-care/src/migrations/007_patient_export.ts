@@ -0,0 +1,24 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  id: '007_patient_export',
+  description: 'Bulk patient export jobs',
+  up: `
+    CREATE TABLE IF NOT EXISTS clinical.patient_export_jobs (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      format VARCHAR(10) NOT NULL,
+      profile VARCHAR(20) NOT NULL,
+      filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+      status VARCHAR(20) NOT NULL DEFAULT 'queued',
+      total_rows INTEGER NOT NULL DEFAULT 0,
+      file_path TEXT,
+      file_size BIGINT,
+      error TEXT,
+      created_by VARCHAR(100) NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      completed_at TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_patient_export_jobs_created_by ON clinical.patient_export_jobs(created_by);
+  `,
+};
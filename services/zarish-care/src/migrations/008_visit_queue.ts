@@ -0,0 +1,41 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  id: '008_visit_queue',
+  description: 'Facility visit queue with encounter check-in/check-out',
+  up: `
+    ALTER TABLE clinical.encounters
+      ADD COLUMN IF NOT EXISTS facility_code VARCHAR(20),
+      ADD COLUMN IF NOT EXISTS checked_in_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      ADD COLUMN IF NOT EXISTS checked_out_at TIMESTAMP,
+      ADD COLUMN IF NOT EXISTS disposition VARCHAR(30),
+      ADD COLUMN IF NOT EXISTS disposition_notes TEXT,
+      ADD COLUMN IF NOT EXISTS created_by VARCHAR(100),
+      ADD COLUMN IF NOT EXISTS updated_by VARCHAR(100);
+
+    CREATE INDEX IF NOT EXISTS idx_encounters_facility_status ON clinical.encounters(facility_code, status);
+
+    CREATE TABLE IF NOT EXISTS clinical.queue_entries (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      encounter_id UUID NOT NULL REFERENCES clinical.encounters(id) ON DELETE CASCADE,
+      patient_id UUID NOT NULL REFERENCES clinical.patients(id) ON DELETE CASCADE,
+      facility_code VARCHAR(20) NOT NULL,
+      service_point VARCHAR(50) NOT NULL,
+      priority VARCHAR(20) NOT NULL DEFAULT 'routine',
+      status VARCHAR(20) NOT NULL DEFAULT 'waiting',
+      queue_number INTEGER NOT NULL,
+      enqueued_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      called_at TIMESTAMP,
+      called_by VARCHAR(100),
+      completed_at TIMESTAMP,
+      completed_by VARCHAR(100),
+      transferred_to VARCHAR(50),
+      created_by VARCHAR(100) NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_queue_entries_board
+      ON clinical.queue_entries(facility_code, service_point, status);
+    CREATE INDEX IF NOT EXISTS idx_queue_entries_encounter ON clinical.queue_entries(encounter_id);
+    CREATE INDEX IF NOT EXISTS idx_queue_entries_enqueued ON clinical.queue_entries(facility_code, enqueued_at);
+  `,
+};
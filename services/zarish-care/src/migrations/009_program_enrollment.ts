@@ -0,0 +1,52 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  id: '009_program_enrollment',
+  description: 'Program definitions with eligibility rules and patient enrollments',
+  up: `
+    CREATE TABLE IF NOT EXISTS clinical.programs (
+      id VARCHAR(50) PRIMARY KEY,
+      name VARCHAR(200) NOT NULL,
+      program_type VARCHAR(20) NOT NULL,
+      eligibility JSONB NOT NULL DEFAULT '{}'::jsonb,
+      defaulter_grace_days INTEGER,
+      active BOOLEAN NOT NULL DEFAULT true,
+      created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+
+    INSERT INTO clinical.programs (id, name, program_type, eligibility) VALUES
+      ('ncd_hypertension', 'Hypertension care', 'ncd', '{"minAge": 18, "diagnosisCodes": ["I10", "I11", "I12", "I13", "I15"]}'),
+      ('ncd_diabetes', 'Diabetes care', 'ncd', '{"diagnosisCodes": ["E10", "E11", "E13", "E14"]}'),
+      ('ncd_copd', 'COPD care', 'ncd', '{"minAge": 18, "diagnosisCodes": ["J44"]}'),
+      ('ncd_asthma', 'Asthma care', 'ncd', '{"diagnosisCodes": ["J45", "J46"]}'),
+      ('ncd_epilepsy', 'Epilepsy care', 'ncd', '{"diagnosisCodes": ["G40", "G41"]}'),
+      ('mhpss', 'Mental health and psychosocial support', 'mhpss', '{}'),
+      ('maternal', 'Maternal and newborn health', 'maternal', '{"minAge": 10, "maxAge": 55, "genders": ["female"]}')
+    ON CONFLICT (id) DO NOTHING;
+
+    CREATE TABLE IF NOT EXISTS clinical.program_enrollments (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      patient_id UUID NOT NULL REFERENCES clinical.patients(id) ON DELETE CASCADE,
+      program_id VARCHAR(50) NOT NULL REFERENCES clinical.programs(id),
+      status VARCHAR(30) NOT NULL DEFAULT 'enrolled',
+      enrolled_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      enrolled_by VARCHAR(100) NOT NULL,
+      facility_code VARCHAR(20),
+      diagnosis_codes TEXT[] NOT NULL DEFAULT '{}',
+      last_visit_date TIMESTAMP,
+      next_appointment TIMESTAMP,
+      status_changed_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      status_changed_by VARCHAR(100),
+      outcome_reason TEXT,
+      details JSONB NOT NULL DEFAULT '{}'::jsonb
+    );
+
+    -- A patient has at most one open enrollment per program
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_program_enrollments_open
+      ON clinical.program_enrollments(patient_id, program_id) WHERE status IN ('enrolled', 'defaulted');
+    CREATE INDEX IF NOT EXISTS idx_program_enrollments_patient ON clinical.program_enrollments(patient_id);
+    CREATE INDEX IF NOT EXISTS idx_program_enrollments_appointment
+      ON clinical.program_enrollments(next_appointment) WHERE status = 'enrolled';
+  `,
+};
@@ -0,0 +1,24 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  id: '010_patient_flags',
+  description: 'Clinical and safety flags on patients',
+  up: `
+    CREATE TABLE IF NOT EXISTS clinical.patient_flags (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      patient_id UUID NOT NULL REFERENCES clinical.patients(id) ON DELETE CASCADE,
+      flag_type VARCHAR(30) NOT NULL,
+      severity VARCHAR(10) NOT NULL,
+      description TEXT NOT NULL,
+      expires_at TIMESTAMP,
+      created_by VARCHAR(100) NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      removed_at TIMESTAMP,
+      removed_by VARCHAR(100),
+      removal_reason TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_patient_flags_active
+      ON clinical.patient_flags(patient_id) WHERE removed_at IS NULL;
+  `,
+};
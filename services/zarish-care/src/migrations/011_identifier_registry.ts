@@ -0,0 +1,65 @@
+import { SYSTEM_USER_ID } from '@zarishhealthcare/shared-types';
+import { Migration } from './types';
+
+export const migration: Migration = {
+  id: '011_identifier_registry',
+  description: 'Identifier type registry and patient identifiers with history',
+  up: `
+    CREATE TABLE IF NOT EXISTS clinical.identifier_types (
+      code VARCHAR(50) PRIMARY KEY,
+      name VARCHAR(200) NOT NULL,
+      format_regex TEXT,
+      issuing_authority VARCHAR(200),
+      uniqueness_scope VARCHAR(20) NOT NULL DEFAULT 'global',
+      printable BOOLEAN NOT NULL DEFAULT true,
+      active BOOLEAN NOT NULL DEFAULT true,
+      created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updated_by VARCHAR(100)
+    );
+
+    INSERT INTO clinical.identifier_types (code, name, format_regex, issuing_authority, uniqueness_scope, printable) VALUES
+      ('smart_card', 'Smart card', NULL, 'UNHCR / RRRC', 'global', true),
+      ('unhcr_id', 'UNHCR individual ID', NULL, 'UNHCR', 'global', true),
+      ('national_id', 'National ID', '^([0-9]{10}|[0-9]{13}|[0-9]{17})$', 'Election Commission', 'global', false),
+      ('birth_certificate', 'Birth registration number', '^[0-9]{17}$', 'Office of the Registrar General', 'global', false)
+    ON CONFLICT (code) DO NOTHING;
+
+    CREATE TABLE IF NOT EXISTS clinical.patient_identifiers (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      patient_id UUID NOT NULL REFERENCES clinical.patients(id) ON DELETE CASCADE,
+      type_code VARCHAR(50) NOT NULL REFERENCES clinical.identifier_types(code),
+      value VARCHAR(100) NOT NULL,
+      facility_code VARCHAR(20),
+      status VARCHAR(20) NOT NULL DEFAULT 'active',
+      issued_at DATE,
+      replaces_id UUID REFERENCES clinical.patient_identifiers(id),
+      replaced_by_id UUID REFERENCES clinical.patient_identifiers(id),
+      created_by VARCHAR(100) NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      ended_at TIMESTAMP,
+      ended_by VARCHAR(100),
+      end_reason TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_patient_identifiers_lookup
+      ON clinical.patient_identifiers(type_code, upper(value));
+    CREATE INDEX IF NOT EXISTS idx_patient_identifiers_patient ON clinical.patient_identifiers(patient_id);
+    CREATE INDEX IF NOT EXISTS idx_patient_identifiers_value ON clinical.patient_identifiers(upper(value));
+
+    -- Existing document numbers become registry entries; uniqueness applies to new writes only
+    INSERT INTO clinical.patient_identifiers (patient_id, type_code, value, facility_code, created_by)
+    SELECT p.id, t.code, btrim(p.demographics->'documentation'->>t.field), p.facility_code, '${SYSTEM_USER_ID}'
+    FROM clinical.patients p
+    CROSS JOIN (VALUES
+      ('smart_card', 'smartCardId'),
+      ('unhcr_id', 'unhcrId'),
+      ('national_id', 'nationalId'),
+      ('birth_certificate', 'birthCertificate')
+    ) AS t(code, field)
+    WHERE COALESCE(btrim(p.demographics->'documentation'->>t.field), '') <> ''
+      AND NOT EXISTS (
+        SELECT 1 FROM clinical.patient_identifiers i WHERE i.patient_id = p.id AND i.type_code = t.code
+      );
+  `,
+};
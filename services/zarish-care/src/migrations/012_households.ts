@@ -0,0 +1,46 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  id: '012_households',
+  description: 'Households with member relationships and child coverage status',
+  up: `
+    CREATE TABLE IF NOT EXISTS clinical.households (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      camp_location VARCHAR(100) NOT NULL,
+      block_number VARCHAR(50),
+      shelter_id VARCHAR(50),
+      facility_code VARCHAR(20),
+      created_by VARCHAR(100) NOT NULL,
+      updated_by VARCHAR(100),
+      created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      dissolved_at TIMESTAMP,
+      dissolved_by VARCHAR(100)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_households_location
+      ON clinical.households(camp_location, block_number) WHERE dissolved_at IS NULL;
+    CREATE INDEX IF NOT EXISTS idx_households_shelter ON clinical.households(shelter_id) WHERE dissolved_at IS NULL;
+
+    CREATE TABLE IF NOT EXISTS clinical.household_members (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      household_id UUID NOT NULL REFERENCES clinical.households(id) ON DELETE CASCADE,
+      patient_id UUID NOT NULL REFERENCES clinical.patients(id) ON DELETE CASCADE,
+      relationship VARCHAR(30) NOT NULL,
+      immunization_status VARCHAR(20) NOT NULL DEFAULT 'unknown',
+      nutrition_status VARCHAR(20) NOT NULL DEFAULT 'unknown',
+      status_assessed_at TIMESTAMP,
+      joined_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      left_at TIMESTAMP,
+      added_by VARCHAR(100) NOT NULL,
+      removed_by VARCHAR(100)
+    );
+
+    -- A patient belongs to one household at a time, and a household has one head
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_household_members_patient
+      ON clinical.household_members(patient_id) WHERE left_at IS NULL;
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_household_members_head
+      ON clinical.household_members(household_id) WHERE relationship = 'head' AND left_at IS NULL;
+    CREATE INDEX IF NOT EXISTS idx_household_members_household ON clinical.household_members(household_id);
+  `,
+};
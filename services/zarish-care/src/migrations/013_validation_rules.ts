@@ -0,0 +1,57 @@
+import { SYSTEM_USER_ID } from '@zarishhealthcare/shared-types';
+import { Migration } from './types';
+
+export const migration: Migration = {
+  id: '013_validation_rules',
+  description: 'Declarative patient validation rules per facility and program',
+  up: `
+    CREATE TABLE IF NOT EXISTS clinical.patient_validation_rules (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      code VARCHAR(100) NOT NULL,
+      field VARCHAR(200) NOT NULL,
+      rule JSONB NOT NULL,
+      conditions JSONB NOT NULL DEFAULT '[]'::jsonb,
+      severity VARCHAR(10) NOT NULL DEFAULT 'error',
+      message TEXT NOT NULL,
+      scope VARCHAR(20) NOT NULL DEFAULT 'global',
+      facility_code VARCHAR(20),
+      program_id VARCHAR(50) REFERENCES clinical.programs(id),
+      active BOOLEAN NOT NULL DEFAULT true,
+      updated_by VARCHAR(100) NOT NULL,
+      updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- One rule per code within each scope
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_patient_validation_rules_scope
+      ON clinical.patient_validation_rules(code, scope, COALESCE(facility_code, ''), COALESCE(program_id, ''));
+
+    -- The checks validatePatientData used to hard-code, plus the cross-field rules
+    INSERT INTO clinical.patient_validation_rules (code, field, rule, conditions, severity, message, updated_by) VALUES
+      ('first_name_required', 'firstName', '{"required": true}', '[]', 'error',
+        'First name is required', '${SYSTEM_USER_ID}'),
+      ('last_name_required', 'lastName', '{"required": true}', '[]', 'error',
+        'Last name is required', '${SYSTEM_USER_ID}'),
+      ('date_of_birth_required', 'dateOfBirth', '{"required": true}', '[]', 'error',
+        'Date of birth is required', '${SYSTEM_USER_ID}'),
+      ('gender_required', 'gender', '{"required": true}', '[]', 'error',
+        'Gender is required', '${SYSTEM_USER_ID}'),
+      ('date_of_birth_format', 'dateOfBirth', '{"customValidator": "date"}', '[]', 'error',
+        'Invalid date format', '${SYSTEM_USER_ID}'),
+      ('date_of_birth_not_future', 'dateOfBirth', '{"customValidator": "not_future"}', '[]', 'error',
+        'Date of birth cannot be in the future', '${SYSTEM_USER_ID}'),
+      ('gender_allowed', 'gender', '{"allowedValues": ["male", "female", "diverse"]}', '[]', 'error',
+        'Invalid gender value', '${SYSTEM_USER_ID}'),
+      ('age_range', 'demographics.age', '{"minValue": 0, "maxValue": 120}', '[]', 'error',
+        'Age must be between 0 and 120', '${SYSTEM_USER_ID}'),
+      ('age_matches_date_of_birth', 'demographics.age', '{"customValidator": "matches_date_of_birth"}',
+        '[{"field": "dateOfBirth", "operator": "present"}]', 'warning',
+        'Recorded age does not match the date of birth', '${SYSTEM_USER_ID}'),
+      ('pregnancy_female_only', 'gender', '{"allowedValues": ["female"]}',
+        '[{"field": "demographics.pregnant", "operator": "equals", "value": true}]', 'error',
+        'Pregnancy can only be recorded for female patients', '${SYSTEM_USER_ID}'),
+      ('pregnancy_reproductive_age', 'age', '{"minValue": 10, "maxValue": 49}',
+        '[{"field": "demographics.pregnant", "operator": "equals", "value": true}]', 'warning',
+        'Pregnancy recorded outside reproductive age (10-49)', '${SYSTEM_USER_ID}')
+    ON CONFLICT DO NOTHING;
+  `,
+};
@@ -0,0 +1,53 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  id: '014_patient_consents',
+  description: 'Patient consent records and a consent-gated notification outbox',
+  up: `
+    CREATE TABLE IF NOT EXISTS clinical.patient_consents (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      patient_id UUID NOT NULL REFERENCES clinical.patients(id) ON DELETE CASCADE,
+      consent_type VARCHAR(30) NOT NULL,
+      decision VARCHAR(10) NOT NULL,
+      scope TEXT[] NOT NULL DEFAULT '{}',
+      grantor VARCHAR(10) NOT NULL,
+      guardian_name VARCHAR(200),
+      guardian_relationship VARCHAR(50),
+      given_at TIMESTAMP NOT NULL,
+      expires_at TIMESTAMP,
+      withdrawn_at TIMESTAMP,
+      withdrawn_by VARCHAR(100),
+      withdrawal_reason TEXT,
+      superseded_at TIMESTAMP,
+      recorded_by VARCHAR(100) NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- One current decision per patient and consent type; older records are superseded
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_patient_consents_current
+      ON clinical.patient_consents(patient_id, consent_type) WHERE superseded_at IS NULL;
+    CREATE INDEX IF NOT EXISTS idx_patient_consents_patient ON clinical.patient_consents(patient_id);
+
+    -- Outgoing patient messages, picked up by the SMS gateway integration
+    CREATE TABLE IF NOT EXISTS clinical.notification_outbox (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      patient_id UUID NOT NULL REFERENCES clinical.patients(id) ON DELETE CASCADE,
+      channel VARCHAR(10) NOT NULL DEFAULT 'sms',
+      consent_type VARCHAR(30) NOT NULL,
+      recipient VARCHAR(30) NOT NULL,
+      message TEXT NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'pending',
+      created_by VARCHAR(100) NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      sent_at TIMESTAMP,
+      cancelled_at TIMESTAMP,
+      cancellation_reason TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_notification_outbox_pending
+      ON clinical.notification_outbox(created_at) WHERE status = 'pending';
+    CREATE INDEX IF NOT EXISTS idx_notification_outbox_patient ON clinical.notification_outbox(patient_id);
+
+    ALTER TABLE clinical.patient_export_jobs ADD COLUMN IF NOT EXISTS excluded_rows INTEGER NOT NULL DEFAULT 0;
+  `,
+};
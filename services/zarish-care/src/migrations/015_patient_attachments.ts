@@ -0,0 +1,31 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  id: '015_patient_attachments',
+  description: 'Patient photo and document attachments, encrypted on disk',
+  up: `
+    CREATE TABLE IF NOT EXISTS clinical.patient_attachments (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      patient_id UUID NOT NULL REFERENCES clinical.patients(id) ON DELETE CASCADE,
+      category VARCHAR(30) NOT NULL,
+      description TEXT,
+      original_name VARCHAR(255) NOT NULL,
+      mime_type VARCHAR(100) NOT NULL,
+      size BIGINT NOT NULL,
+      checksum CHAR(64) NOT NULL, -- SHA-256 of the plaintext
+      storage_path TEXT NOT NULL,
+      thumbnail_path TEXT,
+      metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+      tags TEXT[] NOT NULL DEFAULT '{}',
+      uploaded_by VARCHAR(100) NOT NULL,
+      uploaded_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      deleted_at TIMESTAMP,
+      deleted_by VARCHAR(100),
+      deletion_reason TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_patient_attachments_patient
+      ON clinical.patient_attachments(patient_id, uploaded_at DESC) WHERE deleted_at IS NULL;
+    CREATE INDEX IF NOT EXISTS idx_patient_attachments_checksum ON clinical.patient_attachments(patient_id, checksum);
+  `,
+};
@@ -0,0 +1,62 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  id: '016_consultations',
+  description: 'Consultation notes with ICD-10 diagnoses, signing and addenda',
+  up: `
+    CREATE TABLE IF NOT EXISTS clinical.consultations (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      encounter_id UUID NOT NULL REFERENCES clinical.encounters(id) ON DELETE CASCADE,
+      patient_id UUID NOT NULL REFERENCES clinical.patients(id) ON DELETE CASCADE,
+      provider_id VARCHAR(100) NOT NULL,
+      facility_code VARCHAR(20) NOT NULL,
+      visit_date TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      visit_type VARCHAR(20) NOT NULL,
+      chief_complaint TEXT NOT NULL,
+      clinical_notes TEXT NOT NULL DEFAULT '',
+      treatment_plan JSONB,
+      follow_up_date DATE,
+      status VARCHAR(20) NOT NULL DEFAULT 'active',
+      signed_at TIMESTAMP,
+      signed_by VARCHAR(100),
+      version INTEGER NOT NULL DEFAULT 1,
+      created_by VARCHAR(100) NOT NULL,
+      updated_by VARCHAR(100),
+      created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_consultations_patient ON clinical.consultations(patient_id, visit_date DESC);
+    CREATE INDEX IF NOT EXISTS idx_consultations_provider ON clinical.consultations(provider_id, visit_date DESC);
+    CREATE INDEX IF NOT EXISTS idx_consultations_encounter ON clinical.consultations(encounter_id);
+
+    CREATE TABLE IF NOT EXISTS clinical.consultation_diagnoses (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      consultation_id UUID NOT NULL REFERENCES clinical.consultations(id) ON DELETE CASCADE,
+      icd_code VARCHAR(10) NOT NULL,
+      diagnosis_text TEXT NOT NULL,
+      diagnosis_type VARCHAR(20) NOT NULL DEFAULT 'primary',
+      certainty VARCHAR(20) NOT NULL DEFAULT 'confirmed',
+      provider_notes TEXT,
+      created_by VARCHAR(100) NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_consultation_diagnoses_consultation
+      ON clinical.consultation_diagnoses(consultation_id);
+    CREATE INDEX IF NOT EXISTS idx_consultation_diagnoses_code ON clinical.consultation_diagnoses(icd_code);
+
+    -- Signed notes are never edited; corrections and late findings are appended
+    CREATE TABLE IF NOT EXISTS clinical.consultation_addenda (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      consultation_id UUID NOT NULL REFERENCES clinical.consultations(id) ON DELETE CASCADE,
+      text TEXT NOT NULL,
+      reason TEXT,
+      created_by VARCHAR(100) NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_consultation_addenda_consultation
+      ON clinical.consultation_addenda(consultation_id, created_at);
+  `,
+};
@@ -0,0 +1,50 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  id: '017_vital_signs',
+  description: 'Vital signs with derived BMI, z-scores and abnormal flags; WHO growth reference tables',
+  up: `
+    CREATE TABLE IF NOT EXISTS clinical.vital_signs (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      patient_id UUID NOT NULL REFERENCES clinical.patients(id) ON DELETE CASCADE,
+      encounter_id UUID REFERENCES clinical.encounters(id) ON DELETE SET NULL,
+      consultation_id UUID REFERENCES clinical.consultations(id) ON DELETE SET NULL,
+      systolic SMALLINT,
+      diastolic SMALLINT,
+      heart_rate SMALLINT,
+      respiratory_rate SMALLINT,
+      temperature REAL,
+      weight REAL,
+      height REAL,
+      muac SMALLINT,
+      bmi REAL,
+      blood_glucose REAL,
+      oxygen_saturation SMALLINT,
+      pain_score SMALLINT,
+      age_months INTEGER,
+      anthropometry JSONB,
+      flags JSONB NOT NULL DEFAULT '[]'::jsonb,
+      notes TEXT,
+      recorded_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      recorded_by VARCHAR(100) NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_vital_signs_patient ON clinical.vital_signs(patient_id, recorded_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_vital_signs_consultation ON clinical.vital_signs(consultation_id)
+      WHERE consultation_id IS NOT NULL;
+
+    -- LMS parameters of the WHO Child Growth Standards, loaded at startup from growth-references/:
+    -- wfl (weight-for-length, by length in cm), wfh (weight-for-height, by height in cm) and
+    -- mfa (MUAC-for-age, by age in months). Z-scores are skipped while a table is empty.
+    CREATE TABLE IF NOT EXISTS clinical.growth_references (
+      indicator VARCHAR(10) NOT NULL,
+      sex VARCHAR(10) NOT NULL,
+      x REAL NOT NULL,
+      l DOUBLE PRECISION NOT NULL,
+      m DOUBLE PRECISION NOT NULL,
+      s DOUBLE PRECISION NOT NULL,
+      PRIMARY KEY (indicator, sex, x)
+    );
+  `,
+};
@@ -0,0 +1,41 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  id: '018_ncd_follow_up',
+  description: 'NCD follow-up visits with HEARTS control status and treatment steps',
+  up: `
+    CREATE TABLE IF NOT EXISTS clinical.ncd_visits (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      patient_id UUID NOT NULL REFERENCES clinical.patients(id) ON DELETE CASCADE,
+      enrollment_id UUID NOT NULL REFERENCES clinical.program_enrollments(id) ON DELETE CASCADE,
+      condition_type VARCHAR(20) NOT NULL,
+      visit_date TIMESTAMP NOT NULL,
+      facility_code VARCHAR(20),
+      systolic SMALLINT,
+      diastolic SMALLINT,
+      pulse SMALLINT,
+      fasting_glucose REAL,
+      random_glucose REAL,
+      hba1c REAL,
+      control JSONB NOT NULL,
+      -- Controlled for the condition followed up; NULL when its measure was not taken
+      controlled BOOLEAN,
+      protocol VARCHAR(50) NOT NULL,
+      treatment_step SMALLINT NOT NULL,
+      previous_step SMALLINT,
+      treatment_change VARCHAR(20) NOT NULL,
+      medications JSONB NOT NULL DEFAULT '[]'::jsonb,
+      complications JSONB NOT NULL DEFAULT '[]'::jsonb,
+      risk_factors JSONB,
+      adherence JSONB,
+      next_appointment TIMESTAMP,
+      notes TEXT,
+      recorded_by VARCHAR(100) NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_ncd_visits_enrollment ON clinical.ncd_visits(enrollment_id, visit_date DESC);
+    CREATE INDEX IF NOT EXISTS idx_ncd_visits_patient
+      ON clinical.ncd_visits(patient_id, condition_type, visit_date DESC);
+  `,
+};
@@ -0,0 +1,87 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  id: '019_mhpss_cases',
+  description: 'MHPSS cases with scored assessment sessions, interventions and in-app staff notifications',
+  up: `
+    CREATE TABLE IF NOT EXISTS clinical.mhpss_cases (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      patient_id UUID NOT NULL REFERENCES clinical.patients(id) ON DELETE CASCADE,
+      enrollment_id UUID NOT NULL REFERENCES clinical.program_enrollments(id) ON DELETE CASCADE,
+      status VARCHAR(10) NOT NULL DEFAULT 'open',
+      case_type VARCHAR(30) NOT NULL,
+      provider_type VARCHAR(30) NOT NULL,
+      caseworker_id VARCHAR(100) NOT NULL,
+      supervisor_id VARCHAR(100) NOT NULL,
+      treatment_plan TEXT NOT NULL DEFAULT '',
+      follow_up_required BOOLEAN NOT NULL DEFAULT TRUE,
+      risk_level VARCHAR(10) NOT NULL DEFAULT 'low',
+      risk_updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      opened_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      opened_by VARCHAR(100) NOT NULL,
+      closed_at TIMESTAMP,
+      closed_by VARCHAR(100),
+      closure_reason TEXT,
+      updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- A patient has at most one open MHPSS case
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_mhpss_cases_open ON clinical.mhpss_cases(patient_id) WHERE status = 'open';
+    CREATE INDEX IF NOT EXISTS idx_mhpss_cases_patient ON clinical.mhpss_cases(patient_id, opened_at DESC);
+
+    CREATE TABLE IF NOT EXISTS clinical.mhpss_interventions (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      case_id UUID NOT NULL REFERENCES clinical.mhpss_cases(id) ON DELETE CASCADE,
+      intervention_type VARCHAR(20) NOT NULL,
+      description TEXT NOT NULL,
+      provider VARCHAR(100) NOT NULL,
+      started_at TIMESTAMP NOT NULL,
+      planned_sessions SMALLINT,
+      sessions_completed SMALLINT NOT NULL DEFAULT 0,
+      status VARCHAR(20) NOT NULL DEFAULT 'active',
+      outcome TEXT,
+      created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_mhpss_interventions_case ON clinical.mhpss_interventions(case_id);
+
+    -- Notes are returned only to holders of the MHPSS notes permission
+    CREATE TABLE IF NOT EXISTS clinical.mhpss_sessions (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      case_id UUID NOT NULL REFERENCES clinical.mhpss_cases(id) ON DELETE CASCADE,
+      session_number INTEGER NOT NULL,
+      session_date TIMESTAMP NOT NULL,
+      session_type VARCHAR(20) NOT NULL,
+      provider_type VARCHAR(30) NOT NULL,
+      provider VARCHAR(100) NOT NULL,
+      duration_minutes SMALLINT,
+      assessments JSONB NOT NULL DEFAULT '[]'::jsonb,
+      risk_level VARCHAR(10) NOT NULL,
+      escalated BOOLEAN NOT NULL DEFAULT FALSE,
+      intervention_ids UUID[] NOT NULL DEFAULT '{}',
+      notes TEXT,
+      next_session_date TIMESTAMP,
+      created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (case_id, session_number)
+    );
+
+    -- In-app notifications to staff, e.g. crisis escalations to the supervising clinician
+    CREATE TABLE IF NOT EXISTS clinical.staff_notifications (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      recipient_id VARCHAR(100) NOT NULL,
+      type VARCHAR(20) NOT NULL,
+      priority VARCHAR(10) NOT NULL,
+      title VARCHAR(200) NOT NULL,
+      message TEXT NOT NULL,
+      action_url VARCHAR(500),
+      metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+      created_by VARCHAR(100) NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      read_at TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_staff_notifications_recipient
+      ON clinical.staff_notifications(recipient_id, created_at DESC);
+  `,
+};
@@ -0,0 +1,87 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  id: '020_maternal_care',
+  description: 'Pregnancies with ANC and PNC visits, danger signs and delivery outcomes',
+  up: `
+    CREATE TABLE IF NOT EXISTS clinical.pregnancies (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      patient_id UUID NOT NULL REFERENCES clinical.patients(id) ON DELETE CASCADE,
+      enrollment_id UUID NOT NULL REFERENCES clinical.program_enrollments(id) ON DELETE CASCADE,
+      status VARCHAR(20) NOT NULL DEFAULT 'pregnant',
+      lmp DATE NOT NULL,
+      edd DATE NOT NULL,
+      edd_source VARCHAR(20) NOT NULL,
+      gravida SMALLINT,
+      parity SMALLINT,
+      facility_code VARCHAR(20),
+      complications JSONB NOT NULL DEFAULT '[]'::jsonb,
+      -- Booked date of the next ANC or PNC contact; past it the woman is overdue
+      next_contact_date DATE,
+      delivery JSONB,
+      delivered_at TIMESTAMP,
+      registered_by VARCHAR(100) NOT NULL,
+      registered_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      closed_at TIMESTAMP,
+      closure_reason TEXT,
+      updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- A woman has at most one ongoing pregnancy
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_pregnancies_ongoing
+      ON clinical.pregnancies(patient_id) WHERE status = 'pregnant';
+    CREATE INDEX IF NOT EXISTS idx_pregnancies_patient ON clinical.pregnancies(patient_id, registered_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_pregnancies_next_contact
+      ON clinical.pregnancies(facility_code, next_contact_date) WHERE status = 'pregnant';
+
+    CREATE TABLE IF NOT EXISTS clinical.anc_visits (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      pregnancy_id UUID NOT NULL REFERENCES clinical.pregnancies(id) ON DELETE CASCADE,
+      visit_number SMALLINT NOT NULL,
+      contact_number SMALLINT,
+      visit_date TIMESTAMP NOT NULL,
+      gestational_age_days SMALLINT NOT NULL,
+      weight REAL,
+      systolic SMALLINT,
+      diastolic SMALLINT,
+      hemoglobin REAL,
+      proteinuria VARCHAR(10),
+      fundal_height REAL,
+      fetal_heart_rate SMALLINT,
+      symptoms JSONB NOT NULL DEFAULT '[]'::jsonb,
+      danger_signs JSONB NOT NULL DEFAULT '[]'::jsonb,
+      complications JSONB NOT NULL DEFAULT '[]'::jsonb,
+      medications JSONB NOT NULL DEFAULT '[]'::jsonb,
+      next_visit_date DATE,
+      notes TEXT,
+      recorded_by VARCHAR(100) NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (pregnancy_id, visit_number)
+    );
+
+    CREATE TABLE IF NOT EXISTS clinical.pnc_visits (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      pregnancy_id UUID NOT NULL REFERENCES clinical.pregnancies(id) ON DELETE CASCADE,
+      visit_number SMALLINT NOT NULL,
+      contact_number SMALLINT,
+      visit_date TIMESTAMP NOT NULL,
+      postpartum_day SMALLINT NOT NULL,
+      weight REAL,
+      systolic SMALLINT,
+      diastolic SMALLINT,
+      hemoglobin REAL,
+      temperature REAL,
+      symptoms JSONB NOT NULL DEFAULT '[]'::jsonb,
+      danger_signs JSONB NOT NULL DEFAULT '[]'::jsonb,
+      complications JSONB NOT NULL DEFAULT '[]'::jsonb,
+      breastfeeding_status VARCHAR(20) NOT NULL,
+      family_planning_counseling BOOLEAN NOT NULL DEFAULT FALSE,
+      family_planning JSONB,
+      next_visit_date DATE,
+      notes TEXT,
+      recorded_by VARCHAR(100) NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (pregnancy_id, visit_number)
+    );
+  `,
+};
@@ -0,0 +1,52 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  id: '021_emergency_triage',
+  description: 'Emergency department triage with time-to-treatment targets and breach alerts',
+  up: `
+    CREATE TABLE IF NOT EXISTS clinical.emergency_assessments (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      patient_id UUID NOT NULL REFERENCES clinical.patients(id) ON DELETE CASCADE,
+      encounter_id UUID REFERENCES clinical.encounters(id) ON DELETE SET NULL,
+      facility_code VARCHAR(20) NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'waiting',
+      triage_scale VARCHAR(10) NOT NULL,
+      triage_category VARCHAR(10) NOT NULL,
+      tews JSONB,
+      triage_reasons JSONB NOT NULL DEFAULT '[]'::jsonb,
+      chief_complaint TEXT NOT NULL,
+      emergency_type VARCHAR(20) NOT NULL,
+      vital_signs JSONB NOT NULL DEFAULT '{}'::jsonb,
+      mobility VARCHAR(20),
+      consciousness JSONB NOT NULL,
+      signs JSONB NOT NULL DEFAULT '[]'::jsonb,
+      injury_assessment JSONB,
+      interventions JSONB NOT NULL DEFAULT '[]'::jsonb,
+      disposition JSONB,
+      notes TEXT,
+      arrival_time TIMESTAMP NOT NULL,
+      assessment_time TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      triaged_by VARCHAR(100) NOT NULL,
+      -- Target in minutes from arrival to the start of treatment; NULL when dead on arrival
+      target_minutes SMALLINT,
+      treatment_due_at TIMESTAMP,
+      treatment_started_at TIMESTAMP,
+      treatment_started_by VARCHAR(100),
+      -- Set once when a waiting patient passes the target, so the breach is alerted only once
+      breach_alerted_at TIMESTAMP,
+      disposed_at TIMESTAMP,
+      disposed_by VARCHAR(100),
+      updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_emergency_assessments_patient
+      ON clinical.emergency_assessments(patient_id, arrival_time DESC);
+    CREATE INDEX IF NOT EXISTS idx_emergency_assessments_board
+      ON clinical.emergency_assessments(facility_code, status);
+    CREATE INDEX IF NOT EXISTS idx_emergency_assessments_due
+      ON clinical.emergency_assessments(treatment_due_at)
+      WHERE status = 'waiting' AND breach_alerted_at IS NULL;
+    CREATE INDEX IF NOT EXISTS idx_emergency_assessments_arrival
+      ON clinical.emergency_assessments(facility_code, arrival_time);
+  `,
+};
@@ -0,0 +1,102 @@
+import { database } from '../config/database';
+import { logger } from '../utils/logger';
+import { Migration } from './types';
+import { migration as patientRegistry } from './001_patient_registry';
+import { migration as patientSoftDelete } from './002_patient_soft_delete';
+import { migration as masterPatientIndex } from './003_master_patient_index';
+import { migration as patientSearch } from './004_patient_search';
+import { migration as mrnAllocation } from './005_mrn_allocation';
+import { migration as patientImport } from './006_patient_import';
+import { migration as patientExport } from './007_patient_export';
+import { migration as visitQueue } from './008_visit_queue';
+import { migration as programEnrollment } from './009_program_enrollment';
+import { migration as patientFlags } from './010_patient_flags';
+import { migration as identifierRegistry } from './011_identifier_registry';
+import { migration as households } from './012_households';
+import { migration as validationRules } from './013_validation_rules';
+import { migration as patientConsents } from './014_patient_consents';
+import { migration as patientAttachments } from './015_patient_attachments';
+import { migration as consultations } from './016_consultations';
+import { migration as vitalSigns } from './017_vital_signs';
+import { migration as ncdFollowUp } from './018_ncd_follow_up';
+import { migration as mhpssCases } from './019_mhpss_cases';
+import { migration as maternalCare } from './020_maternal_care';
+import { migration as emergencyTriage } from './021_emergency_triage';
+
+// Ordered list of schema migrations. Append new migrations at the end; never reorder.
+export const migrations: Migration[] = [
+  patientRegistry,
+  patientSoftDelete,
+  masterPatientIndex,
+  patientSearch,
+  mrnAllocation,
+  patientImport,
+  patientExport,
+  visitQueue,
+  programEnrollment,
+  patientFlags,
+  identifierRegistry,
+  households,
+  validationRules,
+  patientConsents,
+  patientAttachments,
+  consultations,
+  vitalSigns,
+  ncdFollowUp,
+  mhpssCases,
+  maternalCare,
+  emergencyTriage,
+];
+
+export async function runMigrations(): Promise<string[]> {
+  await database.query(`
+    CREATE TABLE IF NOT EXISTS clinical.schema_migrations (
+      id VARCHAR(100) PRIMARY KEY,
+      description TEXT,
+      applied_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  const result = await database.query<{ id: string }>('SELECT id FROM clinical.schema_migrations');
+  const applied = new Set(result.rows.map(row => row.id));
+  const executed: string[] = [];
+
+  for (const migration of migrations) {
+    if (applied.has(migration.id)) {
+      continue;
+    }
+
+    await database.transaction(async (client) => {
+      await client.query(migration.up);
+      if (migration.after) {
+        await migration.after(client);
+      }
+      await client.query(
+        'INSERT INTO clinical.schema_migrations (id, description) VALUES ($1, $2)',
+        [migration.id, migration.description]
+      );
+    });
+
+    logger.info('Migration applied', { migration: migration.id });
+    executed.push(migration.id);
+  }
+
+  return executed;
+}
+
+if (require.main === module) {
+  database.connect()
+    .then(runMigrations)
+    .then(async (executed) => {
+      logger.info('Migrations complete', { executed });
+      await database.disconnect();
+      process.exit(0);
+    })
+    .catch(async (error) => {
+      logger.error('Migration failed', {
+        error: error instanceof Error ? error.message : error,
+      });
+      await database.disconnect();
+      process.exit(1);
+    });
+}
@@ -0,0 +1,9 @@
+import { PoolClient } from '../config/database';
+
+export interface Migration {
+  id: string;
+  description: string;
+  up: string;
+  // Optional data backfill that needs application code, run after `up` in the same transaction
+  after?: (client: PoolClient) => Promise<void>;
+}
@@ -0,0 +1,624 @@
+import { validate as isUuid } from 'uuid';
+import { PatientTypes } from '@zarishhealthcare/shared-types';
+import { database, Queryable } from '../config/database';
+import { ConflictError, NotFoundError } from '../middleware/errorHandler';
+import { normalizeName, phoneticKey } from '../utils/phonetics';
+
+export const PATIENTS_TABLE = 'clinical.patients';
+export const PATIENT_MERGES_TABLE = 'clinical.patient_merges';
+
+// Age in whole years; falls back to the recorded estimate when the date of birth is unknown,
+// which is common for patients registered without documents.
+export const PATIENT_AGE_SQL =
+  "COALESCE(date_part('year', age(CURRENT_DATE, date_of_birth))::int, (demographics->>'age')::int)";
+
+// API sort keys mapped to whitelisted columns so sortBy can never inject SQL
+const SORT_COLUMNS: Record<string, string> = {
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+  registrationDate: 'registration_date',
+  firstName: 'first_name',
+  lastName: 'last_name',
+  dateOfBirth: 'date_of_birth',
+  mrn: 'patient_id',
+  status: 'status',
+};
+
+export interface PatientRow {
+  id: string;
+  patient_id: string;
+  first_name: string;
+  last_name: string;
+  date_of_birth: Date | null;
+  gender: string;
+  contact_info: PatientTypes.ContactInfo | null;
+  medical_history: PatientTypes.MedicalHistory[] | null;
+  facility_code: string | null;
+  organization_id: string | null;
+  project_id: string | null;
+  status: string;
+  population_type: string | null;
+  camp_location: string | null;
+  block_number: string | null;
+  demographics: Partial<PatientTypes.PatientDemographics>;
+  programs: string[];
+  registration_date: Date;
+  created_at: Date;
+  updated_at: Date;
+  created_by: string | null;
+  updated_by: string | null;
+  version: number;
+  deleted: boolean;
+  deleted_at: Date | null;
+  deleted_by: string | null;
+  deletion_reason: string | null;
+  first_name_phonetic: string | null;
+  last_name_phonetic: string | null;
+  merged_into: string | null;
+}
+
+export interface PurgedPatient {
+  id: string;
+  mrn: string;
+  deletedAt: Date;
+  deletedBy: string | null;
+  deletionReason: string | null;
+}
+
+export interface PatientListOptions {
+  filters: PatientTypes.PatientListFilters;
+  page: number;
+  limit: number;
+  sortBy: string;
+  sortOrder: 'asc' | 'desc';
+}
+
+// The fields duplicate detection compares; satisfied by both new registrations and stored patients
+export type DuplicateProbe = Pick<PatientTypes.CreatePatientRequest, 'firstName' | 'lastName' | 'gender'> & {
+  dateOfBirth?: string | Date;
+  demographics?: Partial<PatientTypes.PatientDemographics>;
+};
+
+export interface PatientSearchOptions {
+  query: string;
+  filters: PatientTypes.PatientListFilters;
+  page: number;
+  limit: number;
+}
+
+export interface PatientFacetCount {
+  field: 'camp' | 'gender' | 'ageBand' | 'program';
+  value: string;
+  count: number;
+}
+
+export interface PatientWriteContext {
+  userId: string;
+  organizationId?: string;
+  projectId?: string;
+}
+
+// Translates list filters into a parameterised WHERE clause. Placeholders start after
+// `offset` so callers can prepend their own parameters.
+export function buildPatientFilter(
+  filters: PatientTypes.PatientListFilters,
+  offset: number = 0
+): { clause: string; values: any[] } {
+  const conditions: string[] = ['deleted = FALSE'];
+  const values: any[] = [];
+  const param = (value: any): string => {
+    values.push(value);
+    return `$${offset + values.length}`;
+  };
+
+  if (filters.search) {
+    const term = param(`%${filters.search}%`);
+    conditions.push(`(first_name ILIKE ${term} OR last_name ILIKE ${term} OR patient_id ILIKE ${term})`);
+  }
+
+  if (filters.status) {
+    conditions.push(`status = ${param(filters.status)}`);
+  }
+
+  if (filters.gender) {
+    conditions.push(`gender = ${param(filters.gender)}`);
+  }
+
+  if (filters.age?.min !== undefined) {
+    conditions.push(`${PATIENT_AGE_SQL} >= ${param(filters.age.min)}`);
+  }
+
+  if (filters.age?.max !== undefined) {
+    conditions.push(`${PATIENT_AGE_SQL} <= ${param(filters.age.max)}`);
+  }
+
+  if (filters.ageBand) {
+    const band = PatientTypes.AGE_BANDS.find(candidate => candidate.label === filters.ageBand);
+    if (band) {
+      conditions.push(`${PATIENT_AGE_SQL} >= ${param(band.min)}`);
+      if (band.max !== null) {
+        conditions.push(`${PATIENT_AGE_SQL} <= ${param(band.max)}`);
+      }
+    }
+  }
+
+  if (filters.program) {
+    conditions.push(`${param(filters.program)} = ANY(programs)`);
+  }
+
+  if (filters.camp) {
+    conditions.push(`camp_location = ${param(filters.camp)}`);
+  }
+
+  return { clause: conditions.join(' AND '), values };
+}
+
+// Age band label for facet counts and statistics, derived from the shared AGE_BANDS definition
+export const AGE_BAND_SQL = `CASE ${PatientTypes.AGE_BANDS.map(band =>
+  band.max === null
+    ? `WHEN ${PATIENT_AGE_SQL} >= ${band.min} THEN '${band.label}'`
+    : `WHEN ${PATIENT_AGE_SQL} BETWEEN ${band.min} AND ${band.max} THEN '${band.label}'`
+).join(' ')} ELSE 'unknown' END`;
+
+// Phone numbers are matched on their trailing digits so local and international formats agree
+const MIN_PHONE_DIGITS = 6;
+
+const PATIENT_IDENTIFIERS_TABLE = 'clinical.patient_identifiers';
+
+// WHERE clause and relevance expression for a free-text patient search. A patient matches on an
+// exact identifier (MRN, UNHCR/smart card ID, shelter ID, phone, or any registry identifier), a
+// full-text prefix match, trigram similarity, or a shared phonetic name key, so Mohammad/Muhammad/
+// Mohamed all find each other. Each kind of match is a separate arm of a UNION so every arm can use
+// its own index.
+function buildSearchClause(
+  options: Pick<PatientSearchOptions, 'query' | 'filters'>
+): { clause: string; rank: string; values: any[] } {
+  const raw = options.query.trim();
+  const words = normalizeName(raw).split(' ').filter(Boolean);
+  const numbers = raw.match(/[0-9]+/g) || [];
+  const tsQuery = [...words, ...numbers].map(token => `${token}:*`).join(' & ');
+  const phoneticTokens = words.map(word => phoneticKey(word)).filter(Boolean);
+  const digits = raw.replace(/\D/g, '');
+
+  const values: any[] = [
+    raw,
+    raw.toLowerCase(),
+    tsQuery || null,
+    phoneticTokens,
+    // Prefix pattern over the reversed phone digit columns
+    digits.length >= MIN_PHONE_DIGITS ? `${digits.split('').reverse().join('')}%` : null,
+  ];
+
+  const exact = `(
+    upper(patient_id) = upper($1)
+    OR demographics->'documentation'->>'unhcrId' = $1
+    OR demographics->'documentation'->>'smartCardId' = $1
+    OR contact_info->'address'->>'shelterId' = $1
+    OR reverse(primary_phone_digits) LIKE $5
+    OR reverse(secondary_phone_digits) LIKE $5
+  )`;
+
+  const matches = `
+    SELECT id FROM ${PATIENTS_TABLE} WHERE deleted = FALSE AND ${exact}
+    UNION
+    SELECT patient_id FROM ${PATIENT_IDENTIFIERS_TABLE} WHERE upper(value) = upper($1)
+    UNION
+    SELECT id FROM ${PATIENTS_TABLE}
+    WHERE deleted = FALSE
+      AND (search_vector @@ to_tsquery('simple', $3) OR $2 <% search_text OR name_phonetic_tokens && $4::text[])
+  `;
+
+  const { search: _search, ...filters } = options.filters;
+  const filter = buildPatientFilter(filters, values.length);
+  values.push(...filter.values);
+
+  const clause = `${filter.clause} AND id IN (${matches})`;
+
+  // Exact identifier hits first, then text relevance plus the share of query words that sound alike
+  const rank = `(
+    CASE
+      WHEN ${exact} OR EXISTS (
+        SELECT 1 FROM ${PATIENT_IDENTIFIERS_TABLE} i
+        WHERE i.patient_id = ${PATIENTS_TABLE}.id AND upper(i.value) = upper($1)
+      ) THEN 2
+      ELSE 0
+    END
+    + coalesce(ts_rank(search_vector, to_tsquery('simple', $3)), 0)
+    + word_similarity($2, search_text)
+    + cardinality(ARRAY(SELECT unnest(name_phonetic_tokens) INTERSECT SELECT unnest($4::text[])))::float
+      / GREATEST(cardinality($4::text[]), 1)
+  )`;
+
+  return { clause, rank, values };
+}
+
+export class PatientRepository {
+  // With a transaction client the row is locked FOR UPDATE until the transaction ends
+  async findById(id: string, client?: Queryable): Promise<PatientTypes.Patient | null> {
+    if (!isUuid(id)) {
+      return null;
+    }
+
+    if (client) {
+      const result = await client.query(
+        `SELECT * FROM ${PATIENTS_TABLE} WHERE id = $1 AND deleted = FALSE FOR UPDATE`,
+        [id]
+      );
+      return result.rows[0] ? this.toPatient(result.rows[0]) : null;
+    }
+
+    const row = await database.findById<PatientRow>(PATIENTS_TABLE, id);
+    return row ? this.toPatient(row) : null;
+  }
+
+  async findByMRN(mrn: string): Promise<PatientTypes.Patient | null> {
+    const rows = await database.findMany<PatientRow>(PATIENTS_TABLE, { patient_id: mrn }, { limit: 1 });
+    return rows[0] ? this.toPatient(rows[0]) : null;
+  }
+
+  async findMany(options: PatientListOptions): Promise<{ patients: PatientTypes.Patient[]; total: number }> {
+    const { clause, values } = buildPatientFilter(options.filters);
+    const sortColumn = SORT_COLUMNS[options.sortBy] || 'created_at';
+    const sortDirection = options.sortOrder === 'asc' ? 'ASC' : 'DESC';
+    const offset = (options.page - 1) * options.limit;
+
+    const countResult = await database.query<{ count: string }>(
+      `SELECT COUNT(*) AS count FROM ${PATIENTS_TABLE} WHERE ${clause}`,
+      values
+    );
+
+    const result = await database.query<PatientRow>(
+      `SELECT * FROM ${PATIENTS_TABLE}
+       WHERE ${clause}
+       ORDER BY ${sortColumn} ${sortDirection} NULLS LAST, id ASC
+       LIMIT $${values.length + 1} OFFSET $${values.length + 2}`,
+      [...values, options.limit, offset]
+    );
+
+    return {
+      patients: result.rows.map(row => this.toPatient(row)),
+      total: parseInt(countResult.rows[0]?.count || '0', 10),
+    };
+  }
+
+  // Keyset-paginated scan for exports: the next `limit` patients after `afterId` in id order
+  async findBatch(
+    filters: PatientTypes.PatientListFilters,
+    afterId: string | null,
+    limit: number
+  ): Promise<PatientTypes.Patient[]> {
+    const { clause, values } = buildPatientFilter(filters);
+
+    const result = await database.query<PatientRow>(
+      `SELECT * FROM ${PATIENTS_TABLE}
+       WHERE ${clause} AND ($${values.length + 1}::uuid IS NULL OR id > $${values.length + 1}::uuid)
+       ORDER BY id ASC
+       LIMIT $${values.length + 2}`,
+      [...values, afterId, limit]
+    );
+
+    return result.rows.map(row => this.toPatient(row));
+  }
+
+  async create(
+    mrn: string,
+    data: PatientTypes.CreatePatientRequest,
+    context: PatientWriteContext,
+    client: Queryable = database
+  ): Promise<PatientTypes.Patient> {
+    const demographics = data.demographics || {};
+    const { contactInfo, ...demographicData } = demographics;
+
+    const result = await client.query(
+      `INSERT INTO ${PATIENTS_TABLE} (
+         patient_id, first_name, last_name, date_of_birth, gender, contact_info, medical_history,
+         facility_code, organization_id, project_id, status, population_type, camp_location,
+         block_number, demographics, created_by, updated_by, first_name_phonetic, last_name_phonetic
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $16, $17, $18)
+       RETURNING *`,
+      [
+        mrn,
+        data.firstName,
+        data.lastName,
+        data.dateOfBirth || null,
+        data.gender,
+        contactInfo ? JSON.stringify(contactInfo) : null,
+        JSON.stringify(data.medicalHistory || []),
+        data.facilityCode || null,
+        context.organizationId || null,
+        context.projectId || data.projectId || null,
+        PatientTypes.PatientStatus.ACTIVE,
+        demographics.populationType || null,
+        demographics.campLocation || null,
+        demographics.blockNumber || null,
+        JSON.stringify(demographicData),
+        context.userId,
+        phoneticKey(data.firstName),
+        phoneticKey(data.lastName),
+      ]
+    );
+
+    return this.toPatient(result.rows[0]);
+  }
+
+  async update(
+    id: string,
+    changes: PatientTypes.UpdatePatientRequest,
+    context: PatientWriteContext,
+    transactionClient?: Queryable
+  ): Promise<PatientTypes.Patient> {
+    const apply = async (client: Queryable): Promise<PatientTypes.Patient> => {
+      const existing = await this.findById(id, client);
+
+      if (!existing) {
+        throw new NotFoundError('Patient', id);
+      }
+
+      if (changes.version !== undefined && changes.version !== existing.version) {
+        throw new ConflictError(
+          `Patient ${id} was modified by another user (expected version ${changes.version}, found ${existing.version})`
+        );
+      }
+
+      const { contactInfo: _contactInfo, name: _name, gender: _gender, ...currentDemographics } = existing.demographics;
+      const { contactInfo, ...demographicChanges } = changes.demographics || {};
+      const demographics = { ...currentDemographics, ...demographicChanges };
+      const dateOfBirth = changes.dateOfBirth !== undefined ? changes.dateOfBirth : existing.dateOfBirth;
+      const firstName = changes.firstName ?? existing.firstName;
+      const lastName = changes.lastName ?? existing.lastName;
+
+      const result = await client.query(
+        `UPDATE ${PATIENTS_TABLE} SET
+           first_name = $2,
+           last_name = $3,
+           date_of_birth = $4,
+           gender = $5,
+           contact_info = $6,
+           medical_history = $7,
+           facility_code = $8,
+           status = $9,
+           population_type = $10,
+           camp_location = $11,
+           block_number = $12,
+           demographics = $13,
+           updated_by = $14,
+           first_name_phonetic = $15,
+           last_name_phonetic = $16,
+           updated_at = CURRENT_TIMESTAMP,
+           version = version + 1
+         WHERE id = $1
+         RETURNING *`,
+        [
+          id,
+          firstName,
+          lastName,
+          dateOfBirth || null,
+          changes.gender ?? existing.gender,
+          JSON.stringify(contactInfo ?? existing.demographics.contactInfo ?? null),
+          JSON.stringify(changes.medicalHistory ?? existing.medicalHistory),
+          changes.facilityCode ?? existing.facilityCode,
+          changes.status ?? existing.status,
+          demographics.populationType || null,
+          demographics.campLocation || null,
+          demographics.blockNumber || null,
+          JSON.stringify(demographics),
+          context.userId,
+          phoneticKey(firstName),
+          phoneticKey(lastName),
+        ]
+      );
+
+      return this.toPatient(result.rows[0]);
+    };
+
+    return transactionClient ? apply(transactionClient) : database.transaction(apply);
+  }
+
+  // Blocking query for duplicate detection: only patients sharing a phonetic name, a document
+  // number, or surname plus date of birth are scored, which keeps matching cheap on large registries.
+  async findDuplicateCandidates(
+    probe: DuplicateProbe,
+    limit: number,
+    excludeId?: string
+  ): Promise<PatientTypes.Patient[]> {
+    const documentation = probe.demographics?.documentation;
+
+    const result = await database.query<PatientRow>(
+      `SELECT * FROM ${PATIENTS_TABLE}
+       WHERE deleted = FALSE
+         AND ($1::uuid IS NULL OR id <> $1::uuid)
+         AND (
+           (first_name_phonetic = $2 AND last_name_phonetic = $3)
+           OR demographics->'documentation'->>'unhcrId' = $4
+           OR demographics->'documentation'->>'smartCardId' = $5
+           OR (last_name_phonetic = $3 AND date_of_birth = $6::date)
+         )
+       LIMIT $7`,
+      [
+        excludeId || null,
+        phoneticKey(probe.firstName),
+        phoneticKey(probe.lastName),
+        documentation?.unhcrId || null,
+        documentation?.smartCardId || null,
+        probe.dateOfBirth || null,
+        limit,
+      ]
+    );
+
+    return result.rows.map(row => this.toPatient(row));
+  }
+
+  async search(options: PatientSearchOptions): Promise<{ patients: PatientTypes.Patient[]; total: number }> {
+    const { clause, rank, values } = buildSearchClause(options);
+    const offset = (options.page - 1) * options.limit;
+
+    const countResult = await database.query<{ count: string }>(
+      `SELECT COUNT(*) AS count FROM ${PATIENTS_TABLE} WHERE ${clause}`,
+      values
+    );
+
+    const result = await database.query<PatientRow>(
+      `SELECT * FROM ${PATIENTS_TABLE}
+       WHERE ${clause}
+       ORDER BY ${rank} DESC, last_name ASC, first_name ASC, id ASC
+       LIMIT $${values.length + 1} OFFSET $${values.length + 2}`,
+      [...values, options.limit, offset]
+    );
+
+    return {
+      patients: result.rows.map(row => this.toPatient(row)),
+      total: parseInt(countResult.rows[0]?.count || '0', 10),
+    };
+  }
+
+  // Counts per camp, gender, age band and program across every patient matching the search
+  async searchFacets(options: Pick<PatientSearchOptions, 'query' | 'filters'>): Promise<PatientFacetCount[]> {
+    const { clause, values } = buildSearchClause(options);
+
+    const result = await database.query<{ field: PatientFacetCount['field']; value: string; count: string }>(
+      `WITH matched AS (
+         SELECT camp_location, gender, programs, ${AGE_BAND_SQL} AS age_band
+         FROM ${PATIENTS_TABLE}
+         WHERE ${clause}
+       )
+       SELECT 'camp' AS field, camp_location AS value, COUNT(*) AS count
+         FROM matched WHERE camp_location IS NOT NULL GROUP BY camp_location
+       UNION ALL
+       SELECT 'gender', gender, COUNT(*) FROM matched GROUP BY gender
+       UNION ALL
+       SELECT 'ageBand', age_band, COUNT(*) FROM matched GROUP BY age_band
+       UNION ALL
+       SELECT 'program', program, COUNT(*) FROM matched, unnest(programs) AS program GROUP BY program
+       ORDER BY field, count DESC, value`,
+      values
+    );
+
+    return result.rows.map(row => ({
+      field: row.field,
+      value: row.value,
+      count: parseInt(row.count, 10),
+    }));
+  }
+
+  // Tombstones the patient: the row stays for audit but disappears from reads and lists
+  async delete(
+    id: string,
+    reason: string,
+    context: PatientWriteContext,
+    client: Queryable = database
+  ): Promise<void> {
+    const result = await client.query(
+      `UPDATE ${PATIENTS_TABLE}
+       SET deleted = TRUE,
+           deleted_at = CURRENT_TIMESTAMP,
+           deleted_by = $2,
+           deletion_reason = $3,
+           updated_by = $2,
+           updated_at = CURRENT_TIMESTAMP,
+           version = version + 1
+       WHERE id = $1 AND deleted = FALSE`,
+      [id, context.userId, reason]
+    );
+
+    if (result.rowCount === 0) {
+      throw new NotFoundError('Patient', id);
+    }
+  }
+
+  async restore(id: string, context: PatientWriteContext, client: Queryable = database): Promise<PatientTypes.Patient> {
+    const result = isUuid(id) ? await client.query(
+      `UPDATE ${PATIENTS_TABLE}
+       SET deleted = FALSE,
+           deleted_at = NULL,
+           deleted_by = NULL,
+           deletion_reason = NULL,
+           updated_by = $2,
+           updated_at = CURRENT_TIMESTAMP,
+           version = version + 1
+       WHERE id = $1 AND deleted = TRUE AND merged_into IS NULL
+       RETURNING *`,
+      [id, context.userId]
+    ) : { rows: [] };
+
+    if (!result.rows[0]) {
+      // A merged duplicate only comes back by reversing the merge, which also returns its records
+      const merge = isUuid(id) ? await client.query(
+        `SELECT id FROM ${PATIENT_MERGES_TABLE}
+         WHERE merged_id = $1 AND unmerged_at IS NULL
+         ORDER BY merged_at DESC
+         LIMIT 1`,
+        [id]
+      ) : { rows: [] };
+
+      if (merge.rows[0]) {
+        throw new ConflictError(
+          `Patient ${id} was merged into another record; use POST /patients/merges/${merge.rows[0].id}/unmerge`
+        );
+      }
+
+      throw new NotFoundError('Deleted patient', id);
+    }
+
+    return this.toPatient(result.rows[0]);
+  }
+
+  // Hard-deletes tombstones older than the retention window. Dependent clinical rows and
+  // merge log entries go with them through ON DELETE CASCADE.
+  async purgeDeleted(retentionDays: number, client: Queryable = database): Promise<PurgedPatient[]> {
+    const result = await client.query(
+      `DELETE FROM ${PATIENTS_TABLE}
+       WHERE deleted = TRUE
+         AND deleted_at < CURRENT_TIMESTAMP - make_interval(days => $1)
+       RETURNING id, patient_id, deleted_at, deleted_by, deletion_reason`,
+      [retentionDays]
+    );
+
+    return result.rows.map((row: PatientRow) => ({
+      id: row.id,
+      mrn: row.patient_id,
+      deletedAt: row.deleted_at as Date,
+      deletedBy: row.deleted_by,
+      deletionReason: row.deletion_reason,
+    }));
+  }
+
+  toPatient(row: PatientRow): PatientTypes.Patient {
+    const demographics = {
+      ...row.demographics,
+      name: `${row.first_name} ${row.last_name}`,
+      gender: row.gender,
+      ...(row.population_type && { populationType: row.population_type }),
+      ...(row.camp_location && { campLocation: row.camp_location }),
+      ...(row.block_number && { blockNumber: row.block_number }),
+      ...(row.contact_info && { contactInfo: row.contact_info }),
+    } as PatientTypes.PatientDemographics;
+
+    const status = row.status as PatientTypes.PatientStatus;
+
+    return {
+      id: row.id,
+      mrn: row.patient_id,
+      firstName: row.first_name,
+      lastName: row.last_name,
+      ...(row.date_of_birth && { dateOfBirth: row.date_of_birth }),
+      gender: row.gender as PatientTypes.Gender,
+      demographics,
+      medicalHistory: row.medical_history || [],
+      programs: row.programs || [],
+      registrationDate: row.registration_date,
+      facilityCode: row.facility_code || '',
+      ...(row.organization_id && { organizationId: row.organization_id }),
+      ...(row.project_id && { projectId: row.project_id }),
+      status,
+      activeStatus: status === PatientTypes.PatientStatus.ACTIVE,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      ...(row.created_by && { createdBy: row.created_by }),
+      ...(row.updated_by && { updatedBy: row.updated_by }),
+      version: row.version,
+    };
+  }
+}
+
+// Create and export singleton instance
+export const patientRepository = new PatientRepository();
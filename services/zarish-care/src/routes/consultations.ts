@@ -0,0 +1,82 @@
+import { Router } from 'express';
+import { ConsultationController } from '../controllers/ConsultationController';
+import { authenticate, requirePermissions } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+const consultationController = new ConsultationController();
+
+// Consultation routes
+router.post(
+  '/consultations',
+  authenticate,
+  requirePermissions(['consultations.write']),
+  asyncHandler(consultationController.createConsultation)
+);
+
+router.get(
+  '/consultations/:id',
+  authenticate,
+  requirePermissions(['consultations.read']),
+  asyncHandler(consultationController.getConsultation)
+);
+
+router.put(
+  '/consultations/:id',
+  authenticate,
+  requirePermissions(['consultations.write']),
+  asyncHandler(consultationController.updateConsultation)
+);
+
+router.delete(
+  '/consultations/:id',
+  authenticate,
+  requirePermissions(['consultations.write']),
+  asyncHandler(consultationController.cancelConsultation)
+);
+
+router.post(
+  '/consultations/:id/sign',
+  authenticate,
+  requirePermissions(['consultations.sign']),
+  asyncHandler(consultationController.signConsultation)
+);
+
+router.post(
+  '/consultations/:id/addenda',
+  authenticate,
+  requirePermissions(['consultations.write']),
+  asyncHandler(consultationController.addAddendum)
+);
+
+// Diagnosis routes
+router.post(
+  '/consultations/:id/diagnoses',
+  authenticate,
+  requirePermissions(['consultations.write']),
+  asyncHandler(consultationController.addDiagnosis)
+);
+
+router.delete(
+  '/consultations/:id/diagnoses/:diagnosisId',
+  authenticate,
+  requirePermissions(['consultations.write']),
+  asyncHandler(consultationController.removeDiagnosis)
+);
+
+// Consultation lists
+router.get(
+  '/patients/:id/consultations',
+  authenticate,
+  requirePermissions(['consultations.read']),
+  asyncHandler(consultationController.getPatientConsultations)
+);
+
+router.get(
+  '/providers/:providerId/consultations',
+  authenticate,
+  requirePermissions(['consultations.read']),
+  asyncHandler(consultationController.getProviderConsultations)
+);
+
+export default router;
@@ -0,0 +1,75 @@
+import { Router } from 'express';
+import { EmergencyController } from '../controllers/EmergencyController';
+import { authenticate, requirePermissions } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+const emergencyController = new EmergencyController();
+
+// Emergency department board routes
+router.get(
+  '/facilities/:facilityCode/emergencies',
+  authenticate,
+  requirePermissions(['emergency.read']),
+  asyncHandler(emergencyController.getBoard)
+);
+
+router.get(
+  '/facilities/:facilityCode/emergencies/performance',
+  authenticate,
+  requirePermissions(['emergency.read']),
+  asyncHandler(emergencyController.getPerformance)
+);
+
+// Triage routes
+router.post(
+  '/emergencies/triage/score',
+  authenticate,
+  requirePermissions(['emergency.read']),
+  asyncHandler(emergencyController.scoreTriage)
+);
+
+router.get(
+  '/patients/:id/emergencies',
+  authenticate,
+  requirePermissions(['emergency.read']),
+  asyncHandler(emergencyController.getPatientAssessments)
+);
+
+router.post(
+  '/patients/:id/emergencies',
+  authenticate,
+  requirePermissions(['emergency.write']),
+  asyncHandler(emergencyController.triagePatient)
+);
+
+// Emergency visit workflow routes
+router.get(
+  '/emergencies/:assessmentId',
+  authenticate,
+  requirePermissions(['emergency.read']),
+  asyncHandler(emergencyController.getAssessment)
+);
+
+router.post(
+  '/emergencies/:assessmentId/treatment',
+  authenticate,
+  requirePermissions(['emergency.write']),
+  asyncHandler(emergencyController.startTreatment)
+);
+
+router.post(
+  '/emergencies/:assessmentId/interventions',
+  authenticate,
+  requirePermissions(['emergency.write']),
+  asyncHandler(emergencyController.recordIntervention)
+);
+
+router.post(
+  '/emergencies/:assessmentId/disposition',
+  authenticate,
+  requirePermissions(['emergency.write']),
+  asyncHandler(emergencyController.recordDisposition)
+);
+
+export default router;
@@ -0,0 +1,67 @@
+import { Router } from 'express';
+import { HouseholdController } from '../controllers/HouseholdController';
+import { authenticate, requirePermissions } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+const householdController = new HouseholdController();
+
+// Household routes
+router.get(
+  '/households/indicators',
+  authenticate,
+  requirePermissions(['households.read']),
+  asyncHandler(householdController.getIndicators)
+);
+
+router.post(
+  '/households',
+  authenticate,
+  requirePermissions(['households.write']),
+  asyncHandler(householdController.createHousehold)
+);
+
+router.get(
+  '/households/:householdId',
+  authenticate,
+  requirePermissions(['households.read']),
+  asyncHandler(householdController.getHousehold)
+);
+
+router.put(
+  '/households/:householdId',
+  authenticate,
+  requirePermissions(['households.write']),
+  asyncHandler(householdController.updateHousehold)
+);
+
+router.delete(
+  '/households/:householdId',
+  authenticate,
+  requirePermissions(['households.write']),
+  asyncHandler(householdController.dissolveHousehold)
+);
+
+// Household member routes
+router.post(
+  '/households/:householdId/members',
+  authenticate,
+  requirePermissions(['households.write']),
+  asyncHandler(householdController.addMember)
+);
+
+router.put(
+  '/households/:householdId/members/:patientId',
+  authenticate,
+  requirePermissions(['households.write']),
+  asyncHandler(householdController.updateMember)
+);
+
+router.delete(
+  '/households/:householdId/members/:patientId',
+  authenticate,
+  requirePermissions(['households.write']),
+  asyncHandler(householdController.removeMember)
+);
+
+export default router;
@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import { IdentifierTypeController } from '../controllers/IdentifierTypeController';
+import { authenticate, requirePermissions } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+const identifierTypeController = new IdentifierTypeController();
+
+// Identifier type registry routes
+router.get(
+  '/identifier-types',
+  authenticate,
+  requirePermissions(['patients.read']),
+  asyncHandler(identifierTypeController.getTypes)
+);
+
+router.put(
+  '/identifier-types/:code',
+  authenticate,
+  requirePermissions(['identifiers.manage']),
+  asyncHandler(identifierTypeController.saveType)
+);
+
+export default router;
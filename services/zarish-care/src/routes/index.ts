@@ -1,6 +1,20 @@
 import { Router } from 'express';
 import { CommonTypes } from '@zarishhealthcare/shared-types';
 import patientsRoutes from './patients';
+import mrnRoutes from './mrn';
+import queueRoutes from './queue';
+import programRoutes from './programs';
+import identifierTypeRoutes from './identifierTypes';
+import householdRoutes from './households';
+import validationRuleRoutes from './validationRules';
+import consultationRoutes from './consultations';
+import vitalSignsRoutes from './vitalSigns';
+import terminologyRoutes from './terminology';
+import ncdRoutes from './ncd';
+import mhpssRoutes from './mhpss';
+import maternalRoutes from './maternal';
+import emergencyRoutes from './emergency';
+import notificationRoutes from './notifications';
 import { logger } from '../utils/logger';
 
 const router = Router();
@@ -116,6 +130,20 @@ router.get('/info', (req, res) => {
 
 // Mount API routes
 router.use('/api/v1', patientsRoutes);
+router.use('/api/v1', mrnRoutes);
+router.use('/api/v1', queueRoutes);
+router.use('/api/v1', programRoutes);
+router.use('/api/v1', identifierTypeRoutes);
+router.use('/api/v1', householdRoutes);
+router.use('/api/v1', validationRuleRoutes);
+router.use('/api/v1', consultationRoutes);
+router.use('/api/v1', vitalSignsRoutes);
+router.use('/api/v1', terminologyRoutes);
+router.use('/api/v1', ncdRoutes);
+router.use('/api/v1', mhpssRoutes);
+router.use('/api/v1', maternalRoutes);
+router.use('/api/v1', emergencyRoutes);
+router.use('/api/v1', notificationRoutes);
 
 // API documentation placeholder
 router.get('/api/docs', (req, res) => {
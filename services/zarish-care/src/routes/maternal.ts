@@ -0,0 +1,59 @@
+import { Router } from 'express';
+import { MaternalController } from '../controllers/MaternalController';
+import { authenticate, requirePermissions } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+const maternalController = new MaternalController();
+
+// Antenatal and postnatal care routes
+router.get(
+  '/maternal/overdue',
+  authenticate,
+  requirePermissions(['maternal.read']),
+  asyncHandler(maternalController.getOverdueContacts)
+);
+
+router.get(
+  '/patients/:id/pregnancies',
+  authenticate,
+  requirePermissions(['maternal.read']),
+  asyncHandler(maternalController.getPatientPregnancies)
+);
+
+router.post(
+  '/patients/:id/pregnancies',
+  authenticate,
+  requirePermissions(['maternal.write']),
+  asyncHandler(maternalController.registerPregnancy)
+);
+
+router.get(
+  '/pregnancies/:pregnancyId',
+  authenticate,
+  requirePermissions(['maternal.read']),
+  asyncHandler(maternalController.getPregnancy)
+);
+
+router.post(
+  '/pregnancies/:pregnancyId/anc-visits',
+  authenticate,
+  requirePermissions(['maternal.write']),
+  asyncHandler(maternalController.recordAncVisit)
+);
+
+router.post(
+  '/pregnancies/:pregnancyId/delivery',
+  authenticate,
+  requirePermissions(['maternal.write']),
+  asyncHandler(maternalController.recordDelivery)
+);
+
+router.post(
+  '/pregnancies/:pregnancyId/pnc-visits',
+  authenticate,
+  requirePermissions(['maternal.write']),
+  asyncHandler(maternalController.recordPncVisit)
+);
+
+export default router;
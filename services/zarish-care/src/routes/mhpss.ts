@@ -0,0 +1,81 @@
+import { Router } from 'express';
+import { MhpssController } from '../controllers/MhpssController';
+import { authenticate, requirePermissions } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+const mhpssController = new MhpssController();
+
+// MHPSS case routes
+router.post(
+  '/mhpss/assessments/score',
+  authenticate,
+  requirePermissions(['mhpss.read']),
+  asyncHandler(mhpssController.scoreAssessments)
+);
+
+router.get(
+  '/patients/:id/mhpss/cases',
+  authenticate,
+  requirePermissions(['mhpss.read']),
+  asyncHandler(mhpssController.getPatientCases)
+);
+
+router.post(
+  '/patients/:id/mhpss/cases',
+  authenticate,
+  requirePermissions(['mhpss.write']),
+  asyncHandler(mhpssController.openCase)
+);
+
+router.get(
+  '/mhpss/cases/:caseId',
+  authenticate,
+  requirePermissions(['mhpss.read']),
+  asyncHandler(mhpssController.getCase)
+);
+
+router.put(
+  '/mhpss/cases/:caseId',
+  authenticate,
+  requirePermissions(['mhpss.write']),
+  asyncHandler(mhpssController.updateCase)
+);
+
+router.post(
+  '/mhpss/cases/:caseId/close',
+  authenticate,
+  requirePermissions(['mhpss.write']),
+  asyncHandler(mhpssController.closeCase)
+);
+
+router.post(
+  '/mhpss/cases/:caseId/interventions',
+  authenticate,
+  requirePermissions(['mhpss.write']),
+  asyncHandler(mhpssController.addIntervention)
+);
+
+router.put(
+  '/mhpss/cases/:caseId/interventions/:interventionId',
+  authenticate,
+  requirePermissions(['mhpss.write']),
+  asyncHandler(mhpssController.updateIntervention)
+);
+
+// Session notes in the responses are limited to holders of mhpss.notes
+router.get(
+  '/mhpss/cases/:caseId/sessions',
+  authenticate,
+  requirePermissions(['mhpss.read']),
+  asyncHandler(mhpssController.getSessions)
+);
+
+router.post(
+  '/mhpss/cases/:caseId/sessions',
+  authenticate,
+  requirePermissions(['mhpss.write']),
+  asyncHandler(mhpssController.recordSession)
+);
+
+export default router;
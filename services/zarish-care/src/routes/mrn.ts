@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { MrnController } from '../controllers/MrnController';
+import { authenticate, requirePermissions } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+const mrnController = new MrnController();
+
+// MRN format configuration routes
+router.get(
+  '/mrn/formats/:facilityCode',
+  authenticate,
+  requirePermissions(['mrn.read']),
+  asyncHandler(mrnController.getFormat)
+);
+
+router.put(
+  '/mrn/formats/:facilityCode',
+  authenticate,
+  requirePermissions(['mrn.manage']),
+  asyncHandler(mrnController.updateFormat)
+);
+
+// Offline MRN block reservation routes
+router.post(
+  '/mrn/reservations',
+  authenticate,
+  requirePermissions(['mrn.reserve']),
+  asyncHandler(mrnController.reserveBlock)
+);
+
+export default router;
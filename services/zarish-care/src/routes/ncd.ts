@@ -0,0 +1,59 @@
+import { Router } from 'express';
+import { NcdController } from '../controllers/NcdController';
+import { authenticate, requirePermissions } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+const ncdController = new NcdController();
+
+// NCD follow-up routes
+router.get(
+  '/ncd/cohorts',
+  authenticate,
+  requirePermissions(['statistics.read']),
+  asyncHandler(ncdController.getCohortReport)
+);
+
+router.get(
+  '/ncd/protocols',
+  authenticate,
+  requirePermissions(['ncd.read']),
+  asyncHandler(ncdController.getProtocols)
+);
+
+router.get(
+  '/ncd/protocols/:protocolId',
+  authenticate,
+  requirePermissions(['ncd.read']),
+  asyncHandler(ncdController.getProtocol)
+);
+
+router.get(
+  '/patients/:id/ncd',
+  authenticate,
+  requirePermissions(['ncd.read']),
+  asyncHandler(ncdController.getPatientPrograms)
+);
+
+router.get(
+  '/patients/:id/ncd/:condition/visits',
+  authenticate,
+  requirePermissions(['ncd.read']),
+  asyncHandler(ncdController.getVisits)
+);
+
+router.get(
+  '/patients/:id/ncd/:condition/recommendation',
+  authenticate,
+  requirePermissions(['ncd.read']),
+  asyncHandler(ncdController.getTreatmentRecommendation)
+);
+
+router.post(
+  '/patients/:id/ncd/:condition/visits',
+  authenticate,
+  requirePermissions(['ncd.write']),
+  asyncHandler(ncdController.recordVisit)
+);
+
+export default router;
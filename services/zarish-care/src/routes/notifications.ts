@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { NotificationController } from '../controllers/NotificationController';
+import { authenticate } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+const notificationController = new NotificationController();
+
+// Staff notification routes; users only ever see their own notifications
+router.get(
+  '/notifications',
+  authenticate,
+  asyncHandler(notificationController.getNotifications)
+);
+
+router.post(
+  '/notifications/:id/read',
+  authenticate,
+  asyncHandler(notificationController.markRead)
+);
+
+export default router;
@@ -2,10 +2,26 @@ import { Router } from 'express';
 import { PatientController } from '../controllers/PatientController';
 import { authenticate, requirePermissions, requireProject } from '../middleware/auth';
 import { asyncHandler } from '../middleware/errorHandler';
+import { attachmentUpload, importUpload } from '../middleware/upload';
 
 const router = Router();
 const patientController = new PatientController();
 
+// Patient statistics routes; registered before the /patients/:id routes, which would take `statistics` as an ID
+router.get(
+  '/patients/statistics/overview',
+  authenticate,
+  requirePermissions(['statistics.read']),
+  asyncHandler(patientController.getPatientStatistics)
+);
+
+router.get(
+  '/patients/statistics/demographics',
+  authenticate,
+  requirePermissions(['statistics.read']),
+  asyncHandler(patientController.getDemographicStatistics)
+);
+
 // Patient management routes
 router.get(
   '/patients',
@@ -43,6 +59,35 @@ router.delete(
   asyncHandler(patientController.deletePatient)
 );
 
+router.post(
+  '/patients/:id/restore',
+  authenticate,
+  requirePermissions(['patients.restore']),
+  asyncHandler(patientController.restorePatient)
+);
+
+// Master patient index routes
+router.get(
+  '/patients/:id/potential-duplicates',
+  authenticate,
+  requirePermissions(['patients.read']),
+  asyncHandler(patientController.getPotentialDuplicates)
+);
+
+router.post(
+  '/patients/merge',
+  authenticate,
+  requirePermissions(['patients.merge']),
+  asyncHandler(patientController.mergePatients)
+);
+
+router.post(
+  '/patients/merges/:mergeId/unmerge',
+  authenticate,
+  requirePermissions(['patients.merge']),
+  asyncHandler(patientController.unmergePatients)
+);
+
 // Patient search routes
 router.get(
   '/patients/search/:query',
@@ -58,6 +103,13 @@ router.get(
   asyncHandler(patientController.getPatientByMRN)
 );
 
+router.get(
+  '/patients/by-identifier/:type/:value',
+  authenticate,
+  requirePermissions(['patients.read']),
+  asyncHandler(patientController.getPatientByIdentifier)
+);
+
 // Patient registration routes
 router.post(
   '/patients/:id/register',
@@ -190,6 +242,29 @@ router.post(
   asyncHandler(patientController.unenrollPatientFromProgram)
 );
 
+router.post(
+  '/patients/:id/programs/:programId/visits',
+  authenticate,
+  requirePermissions(['programs.update']),
+  asyncHandler(patientController.recordProgramVisit)
+);
+
+// Patient history routes
+router.get(
+  '/patients/:id/history',
+  authenticate,
+  requirePermissions(['patients.read']),
+  asyncHandler(patientController.getPatientHistory)
+);
+
+// Patient household routes
+router.get(
+  '/patients/:id/household',
+  authenticate,
+  requirePermissions(['patients.read']),
+  asyncHandler(patientController.getPatientHousehold)
+);
+
 // Patient flags routes
 router.get(
   '/patients/:id/flags',
@@ -212,19 +287,63 @@ router.delete(
   asyncHandler(patientController.removePatientFlag)
 );
 
-// Patient statistics routes
+// Patient consent routes
 router.get(
-  '/patients/statistics/overview',
+  '/patients/:id/consents',
   authenticate,
-  requirePermissions(['statistics.read']),
-  asyncHandler(patientController.getPatientStatistics)
+  requirePermissions(['patients.read']),
+  asyncHandler(patientController.getPatientConsents)
 );
 
+router.post(
+  '/patients/:id/consents',
+  authenticate,
+  requirePermissions(['patients.consent']),
+  asyncHandler(patientController.recordPatientConsent)
+);
+
+router.post(
+  '/patients/:id/consents/:consentId/withdraw',
+  authenticate,
+  requirePermissions(['patients.consent']),
+  asyncHandler(patientController.withdrawPatientConsent)
+);
+
+// Patient attachment routes
 router.get(
-  '/patients/statistics/demographics',
+  '/patients/:id/attachments',
   authenticate,
-  requirePermissions(['statistics.read']),
-  asyncHandler(patientController.getDemographicStatistics)
+  requirePermissions(['patients.read']),
+  asyncHandler(patientController.getPatientAttachments)
+);
+
+router.post(
+  '/patients/:id/attachments',
+  authenticate,
+  requirePermissions(['patients.attachments']),
+  attachmentUpload.single('file'),
+  asyncHandler(patientController.uploadPatientAttachment)
+);
+
+router.get(
+  '/patients/:id/attachments/:attachmentId/content',
+  authenticate,
+  requirePermissions(['patients.read']),
+  asyncHandler(patientController.downloadPatientAttachment)
+);
+
+router.get(
+  '/patients/:id/attachments/:attachmentId/thumbnail',
+  authenticate,
+  requirePermissions(['patients.read']),
+  asyncHandler(patientController.downloadAttachmentThumbnail)
+);
+
+router.delete(
+  '/patients/:id/attachments/:attachmentId',
+  authenticate,
+  requirePermissions(['patients.attachments']),
+  asyncHandler(patientController.deletePatientAttachment)
 );
 
 // Bulk operations
@@ -232,9 +351,24 @@ router.post(
   '/patients/bulk-import',
   authenticate,
   requirePermissions(['patients.bulk_import']),
+  importUpload.single('file'),
   asyncHandler(patientController.bulkImportPatients)
 );
 
+router.get(
+  '/patients/bulk-import/:jobId',
+  authenticate,
+  requirePermissions(['patients.bulk_import']),
+  asyncHandler(patientController.getImportJob)
+);
+
+router.get(
+  '/patients/bulk-import/:jobId/errors',
+  authenticate,
+  requirePermissions(['patients.bulk_import']),
+  asyncHandler(patientController.getImportErrorReport)
+);
+
 router.post(
   '/patients/bulk-export',
   authenticate,
@@ -242,6 +376,20 @@ router.post(
   asyncHandler(patientController.bulkExportPatients)
 );
 
+router.get(
+  '/patients/bulk-export/:jobId',
+  authenticate,
+  requirePermissions(['patients.export']),
+  asyncHandler(patientController.getExportJob)
+);
+
+router.get(
+  '/patients/bulk-export/:jobId/download',
+  authenticate,
+  requirePermissions(['patients.export']),
+  asyncHandler(patientController.downloadExport)
+);
+
 // Patient data validation
 router.post(
   '/patients/validate',
@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import { ProgramController } from '../controllers/ProgramController';
+import { authenticate, requirePermissions } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+const programController = new ProgramController();
+
+// Program definition routes
+router.get(
+  '/programs',
+  authenticate,
+  requirePermissions(['programs.read']),
+  asyncHandler(programController.getPrograms)
+);
+
+router.get(
+  '/programs/:programId/enrollments',
+  authenticate,
+  requirePermissions(['programs.read']),
+  asyncHandler(programController.getProgramEnrollments)
+);
+
+export default router;
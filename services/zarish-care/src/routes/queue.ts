@@ -0,0 +1,46 @@
+import { Router } from 'express';
+import { QueueController } from '../controllers/QueueController';
+import { authenticate, requirePermissions } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+const queueController = new QueueController();
+
+// Waiting-room board routes
+router.get(
+  '/facilities/:facilityCode/queue',
+  authenticate,
+  requirePermissions(['queue.read']),
+  asyncHandler(queueController.getQueue)
+);
+
+router.get(
+  '/facilities/:facilityCode/queue/statistics',
+  authenticate,
+  requirePermissions(['queue.read']),
+  asyncHandler(queueController.getStatistics)
+);
+
+// Queue entry workflow routes
+router.post(
+  '/queue/:entryId/call',
+  authenticate,
+  requirePermissions(['queue.manage']),
+  asyncHandler(queueController.callPatient)
+);
+
+router.post(
+  '/queue/:entryId/transfer',
+  authenticate,
+  requirePermissions(['queue.manage']),
+  asyncHandler(queueController.transferPatient)
+);
+
+router.post(
+  '/queue/:entryId/complete',
+  authenticate,
+  requirePermissions(['queue.manage']),
+  asyncHandler(queueController.completePatient)
+);
+
+export default router;
@@ -0,0 +1,45 @@
+import { Router } from 'express';
+import { TerminologyController } from '../controllers/TerminologyController';
+import { authenticate, requirePermissions } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+const terminologyController = new TerminologyController();
+
+// Terminology routes
+router.get(
+  '/terminology',
+  authenticate,
+  requirePermissions(['terminology.read']),
+  asyncHandler(terminologyController.getCodeSystems)
+);
+
+router.get(
+  '/terminology/:system/search',
+  authenticate,
+  requirePermissions(['terminology.read']),
+  asyncHandler(terminologyController.searchCodeSystem)
+);
+
+router.get(
+  '/terminology/:system/map',
+  authenticate,
+  requirePermissions(['terminology.read']),
+  asyncHandler(terminologyController.mapCode)
+);
+
+router.get(
+  '/terminology/:system/export',
+  authenticate,
+  requirePermissions(['terminology.read']),
+  asyncHandler(terminologyController.exportCodeSystem)
+);
+
+router.get(
+  '/terminology/:system/codes/:code',
+  authenticate,
+  requirePermissions(['terminology.read']),
+  asyncHandler(terminologyController.getConcept)
+);
+
+export default router;
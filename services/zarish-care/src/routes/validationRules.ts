@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import { ValidationRuleController } from '../controllers/ValidationRuleController';
+import { authenticate, requirePermissions } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+const validationRuleController = new ValidationRuleController();
+
+// Patient validation rule routes
+router.get(
+  '/validation-rules',
+  authenticate,
+  requirePermissions(['patients.validate']),
+  asyncHandler(validationRuleController.getRuleSet)
+);
+
+router.get(
+  '/validation-rules/definitions',
+  authenticate,
+  requirePermissions(['validation_rules.manage']),
+  asyncHandler(validationRuleController.getRules)
+);
+
+router.put(
+  '/validation-rules/:code',
+  authenticate,
+  requirePermissions(['validation_rules.manage']),
+  asyncHandler(validationRuleController.saveRule)
+);
+
+export default router;
@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import { VitalSignsController } from '../controllers/VitalSignsController';
+import { authenticate, requirePermissions } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+
+const router = Router();
+const vitalSignsController = new VitalSignsController();
+
+// Vital signs routes
+router.get(
+  '/patients/:id/vitals',
+  authenticate,
+  requirePermissions(['vitals.read']),
+  asyncHandler(vitalSignsController.getVitalSigns)
+);
+
+router.get(
+  '/patients/:id/vitals/trend',
+  authenticate,
+  requirePermissions(['vitals.read']),
+  asyncHandler(vitalSignsController.getVitalSignsTrend)
+);
+
+router.post(
+  '/patients/:id/vitals',
+  authenticate,
+  requirePermissions(['vitals.write']),
+  asyncHandler(vitalSignsController.recordVitalSigns)
+);
+
+export default router;
@@ -0,0 +1,481 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { validate as isUuid } from 'uuid';
+import { PatientTypes } from '@zarishhealthcare/shared-types';
+import { database, Queryable } from '../config/database';
+import { config } from '../config/config';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { patientRepository, PATIENTS_TABLE } from '../repositories/PatientRepository';
+import { auditService, AuditEntry } from './AuditService';
+import { consentService } from './ConsentService';
+import { patientHistoryService } from './PatientHistoryService';
+import { FieldError } from '../utils/patientValidation';
+import { logger } from '../utils/logger';
+
+const ATTACHMENTS_TABLE = 'clinical.patient_attachments';
+const STORAGE_DIRECTORY = 'attachments';
+
+export const ATTACHMENT_CATEGORIES: PatientTypes.AttachmentCategory[] = [
+  'photo',
+  'referral_letter',
+  'id_card',
+  'other',
+];
+
+// Leading bytes of each accepted type. The Content-Type the client sends is only trusted when
+// the file content agrees with it.
+const FILE_SIGNATURES: Array<{ mimeType: string; bytes: number[] }> = [
+  { mimeType: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+  { mimeType: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+  { mimeType: 'application/msword', bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1] },
+  {
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    bytes: [0x50, 0x4b, 0x03, 0x04],
+  },
+];
+
+// AES-256-GCM; stored files are IV + auth tag + ciphertext
+const CIPHER = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+type AttachmentAuditContext = Pick<AuditEntry, 'userId' | 'sessionId' | 'ipAddress' | 'userAgent'> & { userId: string };
+
+export interface UploadedFile {
+  buffer: Buffer;
+  originalname: string;
+  mimetype: string;
+}
+
+export interface AttachmentContent {
+  data: Buffer;
+  mimeType: string;
+  fileName: string;
+}
+
+function detectMimeType(data: Buffer): string | null {
+  const match = FILE_SIGNATURES.find(signature =>
+    signature.bytes.every((byte, index) => data[index] === byte)
+  );
+  return match ? match.mimeType : null;
+}
+
+function encryptionKey(): Buffer {
+  return createHash('sha256').update(config.fileUpload.encryptionKey).digest();
+}
+
+function encrypt(data: Buffer): Buffer {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(CIPHER, encryptionKey(), iv);
+  const body = Buffer.concat([cipher.update(data), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), body]);
+}
+
+function decrypt(data: Buffer): Buffer {
+  const decipher = createDecipheriv(CIPHER, encryptionKey(), data.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
+
+const absolutePath = (storagePath: string): string => path.join(config.fileUpload.storagePath, storagePath);
+
+export class AttachmentService {
+  async getAttachments(patientId: string, includeDeleted: boolean): Promise<PatientTypes.PatientAttachment[]> {
+    const result = await database.query(
+      `SELECT * FROM ${ATTACHMENTS_TABLE}
+       WHERE patient_id = $1 ${includeDeleted ? '' : 'AND deleted_at IS NULL'}
+       ORDER BY uploaded_at DESC`,
+      [patientId]
+    );
+
+    return result.rows.map(row => this.toAttachment(row));
+  }
+
+  // Checks, encrypts and stores an upload. Photos need the patient's photo capture consent and
+  // are listed in demographics.documentation.photos.
+  async upload(
+    patientId: string,
+    file: UploadedFile,
+    request: PatientTypes.UploadAttachmentRequest,
+    audit: AttachmentAuditContext
+  ): Promise<PatientTypes.PatientAttachment> {
+    const mimeType = this.validateUpload(file, request);
+
+    const patient = await patientRepository.findById(patientId);
+    if (!patient) {
+      throw new NotFoundError('Patient', patientId);
+    }
+
+    if (request.category === 'photo' && !(await consentService.hasActiveConsent(patientId, 'photo_capture'))) {
+      throw new ForbiddenError('The patient has not consented to photo capture');
+    }
+
+    const checksum = createHash('sha256').update(file.buffer).digest('hex');
+    const existing = await database.query(
+      `SELECT id FROM ${ATTACHMENTS_TABLE} WHERE patient_id = $1 AND checksum = $2 AND deleted_at IS NULL`,
+      [patientId, checksum]
+    );
+    if (existing.rows[0]) {
+      throw new ConflictError(`This file is already attached to the patient as ${existing.rows[0].id}`);
+    }
+
+    const { metadata, thumbnail } = await this.processImage(file.buffer, mimeType);
+
+    const id = randomUUID();
+    const storagePath = path.join(STORAGE_DIRECTORY, id.slice(0, 2), id);
+    const thumbnailPath = thumbnail ? `${storagePath}.thumb` : null;
+
+    await fs.mkdir(path.dirname(absolutePath(storagePath)), { recursive: true });
+    await fs.writeFile(absolutePath(storagePath), encrypt(file.buffer));
+    if (thumbnail && thumbnailPath) {
+      await fs.writeFile(absolutePath(thumbnailPath), encrypt(thumbnail));
+    }
+
+    try {
+      const attachment = await database.transaction(async (client) => {
+        const result = await client.query(
+          `INSERT INTO ${ATTACHMENTS_TABLE} (
+             id, patient_id, category, description, original_name, mime_type, size, checksum,
+             storage_path, thumbnail_path, metadata, tags, uploaded_by
+           ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+           RETURNING *`,
+          [
+            id,
+            patientId,
+            request.category,
+            request.description || null,
+            path.basename(file.originalname).slice(0, 255),
+            mimeType,
+            file.buffer.length,
+            checksum,
+            storagePath,
+            thumbnailPath,
+            JSON.stringify(metadata),
+            request.tags || [],
+            audit.userId,
+          ]
+        );
+
+        if (request.category === 'photo') {
+          await patientHistoryService.track(
+            patientId,
+            { ...audit, action: 'update', metadata: { businessContext: { attachmentId: id } } },
+            client,
+            () => this.mirrorPhoto(client, patientId, id, 'add', audit.userId)
+          );
+        }
+
+        await auditService.record({
+          ...audit,
+          entityType: 'patient_attachment',
+          entityId: id,
+          action: 'create',
+          metadata: {
+            businessContext: { patientId, category: request.category, mimeType, size: file.buffer.length, checksum },
+          },
+        }, client);
+
+        return this.toAttachment(result.rows[0]);
+      });
+
+      logger.info('Patient attachment uploaded', {
+        action: 'patient_attachment_uploaded',
+        attachmentId: id,
+        patientId,
+        category: attachment.category,
+        mimeType,
+        size: attachment.size,
+        userId: audit.userId,
+      });
+
+      return attachment;
+    } catch (error) {
+      await this.removeFiles([storagePath, thumbnailPath]);
+      throw error;
+    }
+  }
+
+  // Decrypted original or thumbnail; every access is audited and the original's checksum verified
+  async getContent(
+    patientId: string,
+    attachmentId: string,
+    variant: 'original' | 'thumbnail',
+    audit: AttachmentAuditContext
+  ): Promise<AttachmentContent> {
+    const row = await this.findRow(patientId, attachmentId);
+
+    if (row.deleted_at) {
+      throw new NotFoundError('Patient attachment', attachmentId);
+    }
+
+    if (variant === 'thumbnail' && !row.thumbnail_path) {
+      throw new NotFoundError('Attachment thumbnail', attachmentId);
+    }
+
+    const storagePath = variant === 'thumbnail' ? row.thumbnail_path : row.storage_path;
+    const data = decrypt(await fs.readFile(absolutePath(storagePath)));
+
+    if (variant === 'original' && createHash('sha256').update(data).digest('hex') !== row.checksum) {
+      logger.error('Attachment failed its integrity check', { attachmentId, patientId, storagePath });
+      throw new Error(`Attachment ${attachmentId} failed its integrity check`);
+    }
+
+    await auditService.record({
+      ...audit,
+      entityType: 'patient_attachment',
+      entityId: attachmentId,
+      action: 'read',
+      metadata: {
+        businessContext: { patientId, category: row.category, variant },
+      },
+    });
+
+    return {
+      data,
+      mimeType: variant === 'thumbnail' ? 'image/jpeg' : row.mime_type,
+      fileName: variant === 'thumbnail' ? `${path.parse(row.original_name).name}-thumbnail.jpg` : row.original_name,
+    };
+  }
+
+  // Attachments are soft-deleted; the encrypted files stay until the patient record is purged
+  async deleteAttachment(
+    patientId: string,
+    attachmentId: string,
+    reason: string | undefined,
+    audit: AttachmentAuditContext
+  ): Promise<PatientTypes.PatientAttachment> {
+    const row = await this.findRow(patientId, attachmentId);
+
+    if (row.deleted_at) {
+      throw new ConflictError('Patient attachment has already been deleted');
+    }
+
+    const attachment = await database.transaction(async (client) => {
+      const result = await client.query(
+        `UPDATE ${ATTACHMENTS_TABLE}
+         SET deleted_at = CURRENT_TIMESTAMP, deleted_by = $2, deletion_reason = $3
+         WHERE id = $1 AND deleted_at IS NULL
+         RETURNING *`,
+        [attachmentId, audit.userId, reason || null]
+      );
+
+      if (!result.rows[0]) {
+        throw new ConflictError('Patient attachment has already been deleted');
+      }
+
+      if (row.category === 'photo') {
+        await patientHistoryService.track(
+          patientId,
+          { ...audit, action: 'update', metadata: { businessContext: { attachmentId } } },
+          client,
+          () => this.mirrorPhoto(client, patientId, attachmentId, 'remove', audit.userId)
+        );
+      }
+
+      await auditService.record({
+        ...audit,
+        entityType: 'patient_attachment',
+        entityId: attachmentId,
+        action: 'delete',
+        metadata: {
+          businessContext: { patientId, category: row.category, reason },
+        },
+      }, client);
+
+      return this.toAttachment(result.rows[0]);
+    });
+
+    logger.info('Patient attachment deleted', {
+      action: 'patient_attachment_deleted',
+      attachmentId,
+      patientId,
+      userId: audit.userId,
+    });
+
+    return attachment;
+  }
+
+  // Deletes the attachment rows of patients the retention purge is about to remove and returns
+  // their files, to be removed with removeFiles once the purge has committed
+  async releaseForPurge(retentionDays: number, client: Queryable): Promise<string[]> {
+    const result = await client.query(
+      `DELETE FROM ${ATTACHMENTS_TABLE}
+       WHERE patient_id IN (
+         SELECT id FROM ${PATIENTS_TABLE}
+         WHERE deleted = TRUE AND deleted_at < CURRENT_TIMESTAMP - make_interval(days => $1)
+       )
+       RETURNING storage_path, thumbnail_path`,
+      [retentionDays]
+    );
+
+    return result.rows.flatMap(row => [row.storage_path, row.thumbnail_path]).filter(Boolean);
+  }
+
+  async removeFiles(storagePaths: Array<string | null>): Promise<void> {
+    for (const storagePath of storagePaths) {
+      if (storagePath) {
+        await fs.rm(absolutePath(storagePath), { force: true });
+      }
+    }
+  }
+
+  private validateUpload(file: UploadedFile, request: PatientTypes.UploadAttachmentRequest): string {
+    const errors: FieldError[] = [];
+
+    if (!ATTACHMENT_CATEGORIES.includes(request.category)) {
+      errors.push({
+        field: 'category',
+        message: `category must be one of: ${ATTACHMENT_CATEGORIES.join(', ')}`,
+        code: 'INVALID_VALUE',
+        value: request.category,
+      });
+    }
+
+    if (file.buffer.length === 0) {
+      errors.push({ field: 'file', message: 'The file is empty', code: 'REQUIRED_FIELD' });
+      throw new ValidationError('Invalid attachment', errors);
+    }
+
+    const detected = detectMimeType(file.buffer);
+
+    if (!detected || !config.fileUpload.allowedMimeTypes.includes(detected)) {
+      errors.push({
+        field: 'file',
+        message: `File type is not accepted; allowed types: ${config.fileUpload.allowedMimeTypes.join(', ')}`,
+        code: 'INVALID_FORMAT',
+        value: file.mimetype,
+      });
+    } else if (file.mimetype !== detected) {
+      errors.push({
+        field: 'file',
+        message: `File content is ${detected} but it was sent as ${file.mimetype}`,
+        code: 'INVALID_FORMAT',
+        value: file.mimetype,
+      });
+    } else if (request.category === 'photo' && !detected.startsWith('image/')) {
+      errors.push({
+        field: 'file',
+        message: 'Photos must be JPEG, PNG or GIF images',
+        code: 'INVALID_FORMAT',
+        value: detected,
+      });
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid attachment', errors);
+    }
+
+    return detected as string;
+  }
+
+  // Dimensions and a JPEG thumbnail for images; EXIF orientation is applied and the rest of the
+  // EXIF data (which may include GPS location) is not copied into the thumbnail
+  private async processImage(
+    data: Buffer,
+    mimeType: string
+  ): Promise<{ metadata: Record<string, any>; thumbnail: Buffer | null }> {
+    if (!mimeType.startsWith('image/')) {
+      return { metadata: {}, thumbnail: null };
+    }
+
+    try {
+      const info = await sharp(data).metadata();
+      const size = config.fileUpload.thumbnailSize;
+      const thumbnail = await sharp(data)
+        .rotate()
+        .resize(size, size, { fit: 'inside', withoutEnlargement: true })
+        .jpeg({ quality: 80 })
+        .toBuffer();
+
+      return {
+        metadata: {
+          ...(info.width && { width: info.width }),
+          ...(info.height && { height: info.height }),
+          ...(info.space && { colorSpace: info.space }),
+        },
+        thumbnail,
+      };
+    } catch (error) {
+      throw new ValidationError('Invalid attachment', [{
+        field: 'file',
+        message: 'Image could not be read',
+        code: 'INVALID_FORMAT',
+        value: error instanceof Error ? error.message : undefined,
+      }]);
+    }
+  }
+
+  private async mirrorPhoto(
+    client: Queryable,
+    patientId: string,
+    attachmentId: string,
+    change: 'add' | 'remove',
+    userId: string
+  ): Promise<void> {
+    const photos = change === 'add'
+      ? `COALESCE(demographics->'documentation'->'photos', '[]'::jsonb) || to_jsonb($2::text)`
+      : `COALESCE(demographics->'documentation'->'photos', '[]'::jsonb) - $2::text`;
+
+    await client.query(
+      `UPDATE ${PATIENTS_TABLE}
+       SET demographics = jsonb_set(
+             jsonb_set(demographics, '{documentation}', COALESCE(demographics->'documentation', '{}'::jsonb)),
+             '{documentation,photos}', ${photos}
+           ),
+           updated_by = $3,
+           updated_at = CURRENT_TIMESTAMP,
+           version = version + 1
+       WHERE id = $1`,
+      [patientId, attachmentId, userId]
+    );
+  }
+
+  private async findRow(patientId: string, attachmentId: string): Promise<any> {
+    const result = isUuid(attachmentId)
+      ? await database.query(
+        `SELECT * FROM ${ATTACHMENTS_TABLE} WHERE id = $1 AND patient_id = $2`,
+        [attachmentId, patientId]
+      )
+      : { rows: [] };
+
+    if (!result.rows[0]) {
+      throw new NotFoundError('Patient attachment', attachmentId);
+    }
+
+    return result.rows[0];
+  }
+
+  private toAttachment(row: any): PatientTypes.PatientAttachment {
+    const url = `/api/v1/patients/${row.patient_id}/attachments/${row.id}/content`;
+
+    return {
+      id: row.id,
+      patientId: row.patient_id,
+      category: row.category,
+      ...(row.description && { description: row.description }),
+      filename: path.basename(row.storage_path),
+      originalName: row.original_name,
+      mimeType: row.mime_type,
+      size: parseInt(row.size, 10),
+      path: row.storage_path,
+      url,
+      ...(row.thumbnail_path && { thumbnailUrl: url.replace(/\/content$/, '/thumbnail') }),
+      checksum: row.checksum,
+      uploadedAt: row.uploaded_at,
+      uploadedBy: row.uploaded_by,
+      metadata: row.metadata || {},
+      status: 'ready',
+      ...(row.tags?.length > 0 && { tags: row.tags }),
+      ...(row.deleted_at && { deletedAt: row.deleted_at }),
+      ...(row.deleted_by && { deletedBy: row.deleted_by }),
+      ...(row.deletion_reason && { deletionReason: row.deletion_reason }),
+    };
+  }
+}
+
+// Create and export singleton instance
+export const attachmentService = new AttachmentService();
@@ -0,0 +1,114 @@
+import { Request } from 'express';
+import { CommonTypes } from '@zarishhealthcare/shared-types';
+import { database, Queryable } from '../config/database';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+
+export const AUDIT_TABLE = 'clinical.audit_log';
+
+export type AuditEntry = Omit<CommonTypes.AuditTrail, 'id' | 'timestamp' | 'metadata'> & {
+  metadata?: Partial<CommonTypes.AuditMetadata>;
+};
+
+// Who/where details for an audit entry, taken from the authenticated request
+export function getAuditContext(req: Request): Pick<AuditEntry, 'userId' | 'sessionId' | 'ipAddress' | 'userAgent'> {
+  const userAgent = req.get('User-Agent');
+
+  return {
+    ...(req.user?.id && { userId: req.user.id }),
+    ...(req.user?.sessionId && { sessionId: req.user.sessionId }),
+    ...(req.ip && { ipAddress: req.ip }),
+    ...(userAgent && { userAgent }),
+  };
+}
+
+export class AuditService {
+  // Pass the transaction client when the audited change is part of a transaction,
+  // so the audit entry commits or rolls back together with it.
+  async record(entry: AuditEntry, client: Queryable = database): Promise<CommonTypes.AuditTrail> {
+    const metadata: CommonTypes.AuditMetadata = {
+      source: config.serviceName,
+      version: process.env.SERVICE_VERSION || '1.0.0',
+      retention: config.retention.auditRetentionDays,
+      ...entry.metadata,
+    };
+
+    const result = await client.query(
+      `INSERT INTO ${AUDIT_TABLE} (
+         entity_type, entity_id, action, user_id, session_id, ip_address, user_agent, changes, metadata
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING id, timestamp`,
+      [
+        entry.entityType,
+        entry.entityId,
+        entry.action,
+        entry.userId || null,
+        entry.sessionId || null,
+        entry.ipAddress || null,
+        entry.userAgent || null,
+        entry.changes ? JSON.stringify(entry.changes) : null,
+        JSON.stringify(metadata),
+      ]
+    );
+
+    logger.info('Audit entry recorded', {
+      action: `audit_${entry.action}`,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      userId: entry.userId,
+    });
+
+    return {
+      ...entry,
+      id: result.rows[0].id,
+      timestamp: result.rows[0].timestamp,
+      metadata,
+    };
+  }
+
+  // Entries for one entity, newest first
+  async findByEntity(
+    entityType: string,
+    entityId: string,
+    page: number,
+    limit: number
+  ): Promise<{ entries: CommonTypes.AuditTrail[]; total: number }> {
+    const [result, count] = await Promise.all([
+      database.query(
+        `SELECT * FROM ${AUDIT_TABLE}
+         WHERE entity_type = $1 AND entity_id = $2
+         ORDER BY timestamp DESC, id
+         LIMIT $3 OFFSET $4`,
+        [entityType, entityId, limit, (page - 1) * limit]
+      ),
+      database.query(
+        `SELECT COUNT(*) AS total FROM ${AUDIT_TABLE} WHERE entity_type = $1 AND entity_id = $2`,
+        [entityType, entityId]
+      ),
+    ]);
+
+    return {
+      entries: result.rows.map(row => this.toAuditTrail(row)),
+      total: parseInt(count.rows[0].total, 10),
+    };
+  }
+
+  toAuditTrail(row: any): CommonTypes.AuditTrail {
+    return {
+      id: row.id,
+      entityType: row.entity_type,
+      entityId: row.entity_id,
+      action: row.action,
+      ...(row.user_id && { userId: row.user_id }),
+      ...(row.session_id && { sessionId: row.session_id }),
+      timestamp: row.timestamp,
+      ...(row.ip_address && { ipAddress: row.ip_address }),
+      ...(row.user_agent && { userAgent: row.user_agent }),
+      ...(row.changes && { changes: row.changes }),
+      metadata: row.metadata,
+    };
+  }
+}
+
+// Create and export singleton instance
+export const auditService = new AuditService();
@@ -0,0 +1,347 @@
+import { validate as isUuid } from 'uuid';
+import { PatientTypes } from '@zarishhealthcare/shared-types';
+import { database, Queryable } from '../config/database';
+import { ConflictError, NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { patientRepository } from '../repositories/PatientRepository';
+import { auditService, AuditEntry } from './AuditService';
+import { notificationService } from './NotificationService';
+import { ACTIVE_CONSENT_SQL, CONSENTS_TABLE } from '../utils/consent';
+import { FieldError } from '../utils/patientValidation';
+import { logger } from '../utils/logger';
+
+export const CONSENT_TYPES: PatientTypes.ConsentType[] = [
+  'data_sharing',
+  'sms_reminders',
+  'research',
+  'photo_capture',
+  'mhpss_disclosure',
+];
+
+export const CONSENT_DECISIONS: PatientTypes.ConsentDecision[] = ['granted', 'refused'];
+export const CONSENT_GRANTORS: PatientTypes.ConsentGrantor[] = ['self', 'guardian'];
+
+type ConsentAuditContext = Pick<AuditEntry, 'userId' | 'sessionId' | 'ipAddress' | 'userAgent'> & { userId: string };
+
+export class ConsentService {
+  // The current decision per consent type; `includeHistory` adds superseded records
+  async getConsents(patientId: string, includeHistory: boolean): Promise<PatientTypes.PatientConsent[]> {
+    const result = await database.query(
+      `SELECT * FROM ${CONSENTS_TABLE}
+       WHERE patient_id = $1 ${includeHistory ? '' : 'AND superseded_at IS NULL'}
+       ORDER BY consent_type, created_at DESC`,
+      [patientId]
+    );
+
+    return result.rows.map(row => this.toConsent(row));
+  }
+
+  async hasActiveConsent(
+    patientId: string,
+    consentType: PatientTypes.ConsentType,
+    client: Queryable = database
+  ): Promise<boolean> {
+    const result = await client.query(
+      `SELECT 1 FROM ${CONSENTS_TABLE} WHERE patient_id = $1 AND consent_type = $2 AND ${ACTIVE_CONSENT_SQL}`,
+      [patientId, consentType]
+    );
+    return result.rows.length > 0;
+  }
+
+  // Active consent types per patient, for checking a batch of patients at once
+  async getActiveTypes(
+    patientIds: string[],
+    client: Queryable = database
+  ): Promise<Map<string, Set<PatientTypes.ConsentType>>> {
+    const active = new Map<string, Set<PatientTypes.ConsentType>>();
+    if (patientIds.length === 0) {
+      return active;
+    }
+
+    const result = await client.query(
+      `SELECT patient_id, consent_type FROM ${CONSENTS_TABLE}
+       WHERE patient_id = ANY($1::uuid[]) AND ${ACTIVE_CONSENT_SQL}`,
+      [patientIds]
+    );
+
+    for (const row of result.rows) {
+      const types = active.get(row.patient_id) || new Set<PatientTypes.ConsentType>();
+      types.add(row.consent_type);
+      active.set(row.patient_id, types);
+    }
+
+    return active;
+  }
+
+  // Records a new decision, superseding the current one of the same type
+  async recordConsent(
+    patientId: string,
+    request: PatientTypes.RecordConsentRequest,
+    audit: ConsentAuditContext
+  ): Promise<PatientTypes.PatientConsent> {
+    const { givenAt, expiresAt } = this.validateRequest(request);
+
+    const patient = await patientRepository.findById(patientId);
+    if (!patient) {
+      throw new NotFoundError('Patient', patientId);
+    }
+
+    const consent = await database.transaction(async (client) => {
+      const superseded = await client.query(
+        `UPDATE ${CONSENTS_TABLE} SET superseded_at = CURRENT_TIMESTAMP
+         WHERE patient_id = $1 AND consent_type = $2 AND superseded_at IS NULL
+         RETURNING id`,
+        [patientId, request.consentType]
+      );
+
+      const result = await client.query(
+        `INSERT INTO ${CONSENTS_TABLE} (
+           patient_id, consent_type, decision, scope, grantor, guardian_name, guardian_relationship,
+           given_at, expires_at, recorded_by
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+         RETURNING *`,
+        [
+          patientId,
+          request.consentType,
+          request.decision,
+          (request.scope || []).map(item => item.trim()).filter(Boolean),
+          request.grantor,
+          request.grantor === 'guardian' ? request.guardianName!.trim() : null,
+          request.grantor === 'guardian' ? request.guardianRelationship || null : null,
+          givenAt,
+          expiresAt,
+          audit.userId,
+        ]
+      );
+
+      await auditService.record({
+        ...audit,
+        entityType: 'patient_consent',
+        entityId: result.rows[0].id,
+        action: 'create',
+        metadata: {
+          businessContext: {
+            patientId,
+            consentType: request.consentType,
+            decision: request.decision,
+            grantor: request.grantor,
+            supersededId: superseded.rows[0]?.id,
+          },
+        },
+      }, client);
+
+      if (request.decision === 'refused') {
+        await notificationService.cancelPending(patientId, request.consentType, 'Consent refused', client);
+      }
+
+      return this.toConsent(result.rows[0]);
+    });
+
+    logger.info('Patient consent recorded', {
+      action: 'patient_consent_recorded',
+      consentId: consent.id,
+      patientId,
+      consentType: consent.consentType,
+      decision: consent.decision,
+      userId: audit.userId,
+    });
+
+    return consent;
+  }
+
+  // Withdrawal takes effect immediately: data flows gated on the consent stop from here on
+  async withdrawConsent(
+    patientId: string,
+    consentId: string,
+    request: PatientTypes.WithdrawConsentRequest,
+    audit: ConsentAuditContext
+  ): Promise<PatientTypes.PatientConsent> {
+    const existing = isUuid(consentId)
+      ? await database.query(
+        `SELECT * FROM ${CONSENTS_TABLE} WHERE id = $1 AND patient_id = $2`,
+        [consentId, patientId]
+      )
+      : { rows: [] };
+    const row = existing.rows[0];
+
+    if (!row) {
+      throw new NotFoundError('Patient consent', consentId);
+    }
+
+    if (row.superseded_at || row.decision !== 'granted' || row.withdrawn_at) {
+      throw new ConflictError('Only the current granted consent can be withdrawn');
+    }
+
+    const consent = await database.transaction(async (client) => {
+      const result = await client.query(
+        `UPDATE ${CONSENTS_TABLE}
+         SET withdrawn_at = CURRENT_TIMESTAMP, withdrawn_by = $2, withdrawal_reason = $3
+         WHERE id = $1 AND withdrawn_at IS NULL AND superseded_at IS NULL
+         RETURNING *`,
+        [consentId, audit.userId, request.reason || null]
+      );
+
+      if (!result.rows[0]) {
+        throw new ConflictError('Only the current granted consent can be withdrawn');
+      }
+
+      await auditService.record({
+        ...audit,
+        entityType: 'patient_consent',
+        entityId: consentId,
+        action: 'update',
+        changes: [{
+          field: 'status',
+          oldValue: this.statusOf(row),
+          newValue: 'withdrawn',
+          dataType: 'string',
+          sensitive: false,
+        }],
+        metadata: {
+          businessContext: { patientId, consentType: row.consent_type, reason: request.reason },
+        },
+      }, client);
+
+      await notificationService.cancelPending(patientId, row.consent_type, 'Consent withdrawn', client);
+
+      return this.toConsent(result.rows[0]);
+    });
+
+    logger.info('Patient consent withdrawn', {
+      action: 'patient_consent_withdrawn',
+      consentId,
+      patientId,
+      consentType: consent.consentType,
+      userId: audit.userId,
+    });
+
+    return consent;
+  }
+
+  private validateRequest(request: PatientTypes.RecordConsentRequest): { givenAt: Date; expiresAt: Date | null } {
+    const errors: FieldError[] = [];
+
+    if (!CONSENT_TYPES.includes(request.consentType)) {
+      errors.push({
+        field: 'consentType',
+        message: `consentType must be one of: ${CONSENT_TYPES.join(', ')}`,
+        code: 'INVALID_VALUE',
+        value: request.consentType,
+      });
+    }
+
+    if (!CONSENT_DECISIONS.includes(request.decision)) {
+      errors.push({
+        field: 'decision',
+        message: `decision must be one of: ${CONSENT_DECISIONS.join(', ')}`,
+        code: 'INVALID_VALUE',
+        value: request.decision,
+      });
+    }
+
+    if (!CONSENT_GRANTORS.includes(request.grantor)) {
+      errors.push({
+        field: 'grantor',
+        message: `grantor must be one of: ${CONSENT_GRANTORS.join(', ')}`,
+        code: 'INVALID_VALUE',
+        value: request.grantor,
+      });
+    } else if (request.grantor === 'guardian' && !request.guardianName?.trim()) {
+      errors.push({
+        field: 'guardianName',
+        message: 'Guardian name is required when a guardian gives consent',
+        code: 'REQUIRED_FIELD',
+      });
+    }
+
+    if (request.scope !== undefined
+      && (!Array.isArray(request.scope) || request.scope.some(item => typeof item !== 'string'))) {
+      errors.push({
+        field: 'scope',
+        message: 'scope must be a list of strings',
+        code: 'INVALID_FORMAT',
+        value: request.scope,
+      });
+    }
+
+    const givenAt = request.givenAt ? new Date(request.givenAt) : new Date();
+    if (isNaN(givenAt.getTime())) {
+      errors.push({
+        field: 'givenAt',
+        message: 'givenAt must be a valid date',
+        code: 'INVALID_FORMAT',
+        value: request.givenAt,
+      });
+    } else if (givenAt > new Date()) {
+      errors.push({
+        field: 'givenAt',
+        message: 'givenAt cannot be in the future',
+        code: 'INVALID_VALUE',
+        value: request.givenAt,
+      });
+    }
+
+    let expiresAt: Date | null = null;
+    if (request.expiresAt) {
+      expiresAt = new Date(request.expiresAt);
+      if (isNaN(expiresAt.getTime())) {
+        errors.push({
+          field: 'expiresAt',
+          message: 'expiresAt must be a valid date',
+          code: 'INVALID_FORMAT',
+          value: request.expiresAt,
+        });
+      } else if (expiresAt <= new Date() || expiresAt <= givenAt) {
+        errors.push({
+          field: 'expiresAt',
+          message: 'expiresAt must be in the future',
+          code: 'INVALID_VALUE',
+          value: request.expiresAt,
+        });
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid patient consent', errors);
+    }
+
+    return { givenAt, expiresAt };
+  }
+
+  private statusOf(row: any): PatientTypes.ConsentStatus {
+    if (row.decision !== 'granted') {
+      return 'refused';
+    }
+    if (row.withdrawn_at) {
+      return 'withdrawn';
+    }
+    if (row.expires_at && new Date(row.expires_at) <= new Date()) {
+      return 'expired';
+    }
+    return 'active';
+  }
+
+  private toConsent(row: any): PatientTypes.PatientConsent {
+    return {
+      id: row.id,
+      patientId: row.patient_id,
+      consentType: row.consent_type,
+      decision: row.decision,
+      status: this.statusOf(row),
+      scope: row.scope || [],
+      grantor: row.grantor,
+      ...(row.guardian_name && { guardianName: row.guardian_name }),
+      ...(row.guardian_relationship && { guardianRelationship: row.guardian_relationship }),
+      givenAt: row.given_at,
+      ...(row.expires_at && { expiresAt: row.expires_at }),
+      ...(row.withdrawn_at && { withdrawnAt: row.withdrawn_at }),
+      ...(row.withdrawn_by && { withdrawnBy: row.withdrawn_by }),
+      ...(row.withdrawal_reason && { withdrawalReason: row.withdrawal_reason }),
+      ...(row.superseded_at && { supersededAt: row.superseded_at }),
+      recordedBy: row.recorded_by,
+      createdAt: row.created_at,
+    };
+  }
+}
+
+// Create and export singleton instance
+export const consentService = new ConsentService();
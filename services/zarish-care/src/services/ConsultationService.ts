@@ -0,0 +1,743 @@
+import { PatientTypes, CommonTypes, ClinicalTypes } from '@zarishhealthcare/shared-types';
+import { database, Queryable } from '../config/database';
+import { config } from '../config/config';
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from '../middleware/errorHandler';
+import { patientRepository } from '../repositories/PatientRepository';
+import { auditService, AuditEntry } from './AuditService';
+import { vitalSignsService } from './VitalSignsService';
+import { terminologyService } from './TerminologyService';
+import { FieldError } from '../utils/patientValidation';
+import { logger, loggers } from '../utils/logger';
+
+const CONSULTATIONS_TABLE = 'clinical.consultations';
+const DIAGNOSES_TABLE = 'clinical.consultation_diagnoses';
+const ADDENDA_TABLE = 'clinical.consultation_addenda';
+const ENCOUNTERS_TABLE = 'clinical.encounters';
+
+export const VISIT_TYPES: PatientTypes.ConsultationVisitType[] = [
+  'opd',
+  'emergency',
+  'follow_up',
+  'referral',
+  'outreach',
+];
+
+export const CONSULTATION_STATUSES: PatientTypes.Consultation['status'][] = ['active', 'completed', 'cancelled'];
+
+const DIAGNOSIS_TYPES: PatientTypes.Diagnosis['diagnosisType'][] = ['primary', 'secondary', 'differential'];
+
+const DIAGNOSIS_CERTAINTIES: PatientTypes.Diagnosis['certainty'][] = ['confirmed', 'suspected', 'ruled_out'];
+
+// ICD-10 category with an optional subdivision, e.g. I10, E11.9, O80.0
+const ICD10_PATTERN = /^[A-Z][0-9]{2}(\.[0-9A-Z]{1,4})?$/;
+
+type ConsultationAuditContext = Pick<AuditEntry, 'userId' | 'sessionId' | 'ipAddress' | 'userAgent'> & {
+  userId: string;
+};
+
+export interface ConsultationListOptions {
+  status?: PatientTypes.Consultation['status'];
+  from?: Date;
+  to?: Date;
+  page: number;
+  limit: number;
+}
+
+const change = (field: string, oldValue: any, newValue: any, sensitive: boolean = false): CommonTypes.FieldChange => ({
+  field,
+  oldValue,
+  newValue,
+  dataType: 'string',
+  sensitive,
+});
+
+function parseDate(value: string | undefined, field: string, errors: FieldError[]): Date | null {
+  if (!value) {
+    return null;
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    errors.push({ field, message: `${field} must be a valid date`, code: 'INVALID_FORMAT', value });
+    return null;
+  }
+
+  return date;
+}
+
+// Defaults to the ICD-10 display name when the provider leaves the text empty
+function diagnosisText(diagnosis: PatientTypes.DiagnosisRequest): string | undefined {
+  const text = typeof diagnosis.diagnosisText === 'string' ? diagnosis.diagnosisText.trim() : '';
+  if (text || typeof diagnosis.icdCode !== 'string') {
+    return text || undefined;
+  }
+
+  return terminologyService.lookup('icd10', diagnosis.icdCode.trim())?.display;
+}
+
+function validateDiagnosis(diagnosis: PatientTypes.DiagnosisRequest, field: string, errors: FieldError[]): void {
+  const icdCode = typeof diagnosis.icdCode === 'string' ? diagnosis.icdCode.trim().toUpperCase() : '';
+
+  if (!ICD10_PATTERN.test(icdCode)) {
+    errors.push({
+      field: `${field}.icdCode`,
+      message: 'icdCode must be an ICD-10 code such as I10 or E11.9',
+      code: 'INVALID_FORMAT',
+      value: diagnosis.icdCode,
+    });
+  } else if (config.terminology.strictDiagnosisCodes && terminologyService.lookup('icd10', icdCode) === null) {
+    errors.push({
+      field: `${field}.icdCode`,
+      message: `${icdCode} is not in the ICD-10 code system`,
+      code: 'INVALID_VALUE',
+      value: diagnosis.icdCode,
+    });
+  }
+
+  if (!diagnosisText(diagnosis)) {
+    errors.push({ field: `${field}.diagnosisText`, message: 'Diagnosis text is required', code: 'REQUIRED_FIELD' });
+  }
+
+  if (diagnosis.diagnosisType !== undefined && !DIAGNOSIS_TYPES.includes(diagnosis.diagnosisType)) {
+    errors.push({
+      field: `${field}.diagnosisType`,
+      message: `diagnosisType must be one of: ${DIAGNOSIS_TYPES.join(', ')}`,
+      code: 'INVALID_VALUE',
+      value: diagnosis.diagnosisType,
+    });
+  }
+
+  if (diagnosis.certainty !== undefined && !DIAGNOSIS_CERTAINTIES.includes(diagnosis.certainty)) {
+    errors.push({
+      field: `${field}.certainty`,
+      message: `certainty must be one of: ${DIAGNOSIS_CERTAINTIES.join(', ')}`,
+      code: 'INVALID_VALUE',
+      value: diagnosis.certainty,
+    });
+  }
+}
+
+export class ConsultationService {
+  async getConsultation(id: string, client: Queryable = database): Promise<PatientTypes.Consultation> {
+    const result = await client.query(`SELECT * FROM ${CONSULTATIONS_TABLE} WHERE id = $1`, [id]);
+
+    if (!result.rows[0]) {
+      throw new NotFoundError('Consultation', id);
+    }
+
+    const [consultation] = await this.hydrate(result.rows, client);
+    return consultation!;
+  }
+
+  async listForPatient(
+    patientId: string,
+    options: ConsultationListOptions
+  ): Promise<{ consultations: PatientTypes.Consultation[]; total: number }> {
+    const patient = await patientRepository.findById(patientId);
+    if (!patient) {
+      throw new NotFoundError('Patient', patientId);
+    }
+
+    return this.list('patient_id', patientId, options);
+  }
+
+  // A provider's own caseload, e.g. ?status=active for notes still waiting to be signed
+  async listForProvider(
+    providerId: string,
+    options: ConsultationListOptions
+  ): Promise<{ consultations: PatientTypes.Consultation[]; total: number }> {
+    return this.list('provider_id', providerId, options);
+  }
+
+  // Opens a draft note for the patient's current encounter; the signed-in user is the provider
+  async create(
+    request: PatientTypes.CreateConsultationRequest,
+    audit: ConsultationAuditContext
+  ): Promise<PatientTypes.Consultation> {
+    const { visitDate, followUpDate } = this.validateCreate(request);
+
+    const consultation = await database.transaction(async (client) => {
+      const encounter = await client.query(
+        `SELECT id, patient_id, facility_code, status FROM ${ENCOUNTERS_TABLE} WHERE id = $1`,
+        [request.encounterId]
+      );
+
+      if (!encounter.rows[0] || encounter.rows[0].patient_id !== request.patientId) {
+        throw new NotFoundError('Encounter', request.encounterId);
+      }
+
+      if (encounter.rows[0].status !== 'active') {
+        throw new ConflictError('Consultations can only be recorded during an active encounter');
+      }
+
+      const patient = await patientRepository.findById(request.patientId, client);
+      if (!patient) {
+        throw new NotFoundError('Patient', request.patientId);
+      }
+
+      const result = await client.query(
+        `INSERT INTO ${CONSULTATIONS_TABLE} (
+           encounter_id, patient_id, provider_id, facility_code, visit_date, visit_type, chief_complaint,
+           clinical_notes, treatment_plan, follow_up_date, created_by
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $3)
+         RETURNING id`,
+        [
+          request.encounterId,
+          request.patientId,
+          audit.userId,
+          encounter.rows[0].facility_code || patient.facilityCode,
+          visitDate || new Date(),
+          request.visitType,
+          request.chiefComplaint.trim(),
+          request.clinicalNotes || '',
+          request.treatmentPlan ? JSON.stringify(request.treatmentPlan) : null,
+          followUpDate,
+        ]
+      );
+      const consultationId: string = result.rows[0].id;
+
+      for (const diagnosis of request.diagnoses || []) {
+        await this.insertDiagnosis(client, consultationId, diagnosis, audit.userId);
+      }
+
+      await auditService.record({
+        ...audit,
+        entityType: 'consultation',
+        entityId: consultationId,
+        action: 'create',
+        metadata: {
+          businessContext: {
+            patientId: request.patientId,
+            encounterId: request.encounterId,
+            visitType: request.visitType,
+            diagnosisCodes: (request.diagnoses || []).map(diagnosis => diagnosis.icdCode.trim().toUpperCase()),
+          },
+        },
+      }, client);
+
+      return this.getConsultation(consultationId, client);
+    });
+
+    loggers.clinical.consultationCreated(consultation.id, consultation.patientId, audit.userId);
+    for (const diagnosis of consultation.diagnoses) {
+      loggers.clinical.diagnosisAdded(consultation.id, diagnosis.icdCode, audit.userId);
+    }
+
+    return consultation;
+  }
+
+  async update(
+    id: string,
+    request: PatientTypes.UpdateConsultationRequest,
+    audit: ConsultationAuditContext
+  ): Promise<PatientTypes.Consultation> {
+    const errors: FieldError[] = [];
+
+    if (request.visitType !== undefined && !VISIT_TYPES.includes(request.visitType)) {
+      errors.push({
+        field: 'visitType',
+        message: `visitType must be one of: ${VISIT_TYPES.join(', ')}`,
+        code: 'INVALID_VALUE',
+        value: request.visitType,
+      });
+    }
+
+    if (request.chiefComplaint !== undefined && !request.chiefComplaint.trim()) {
+      errors.push({ field: 'chiefComplaint', message: 'Chief complaint cannot be empty', code: 'REQUIRED_FIELD' });
+    }
+
+    const followUpDate = request.followUpDate ? parseDate(request.followUpDate, 'followUpDate', errors) : null;
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid consultation update', errors);
+    }
+
+    return database.transaction(async (client) => {
+      const current = await this.lockDraft(client, id, audit.userId);
+
+      if (request.version !== undefined && request.version !== current.version) {
+        throw new ConflictError(
+          `Consultation ${id} was modified by another user `
+          + `(expected version ${request.version}, found ${current.version})`
+        );
+      }
+
+      const sets: string[] = [];
+      const values: any[] = [id];
+      const changes: CommonTypes.FieldChange[] = [];
+      const set = (column: string, value: any, fieldChange: CommonTypes.FieldChange): void => {
+        values.push(value);
+        sets.push(`${column} = $${values.length}`);
+        changes.push(fieldChange);
+      };
+
+      if (request.visitType !== undefined && request.visitType !== current.visit_type) {
+        set('visit_type', request.visitType, change('visitType', current.visit_type, request.visitType));
+      }
+
+      if (request.chiefComplaint !== undefined && request.chiefComplaint.trim() !== current.chief_complaint) {
+        const chiefComplaint = request.chiefComplaint.trim();
+        set('chief_complaint', chiefComplaint, change('chiefComplaint', current.chief_complaint, chiefComplaint, true));
+      }
+
+      if (request.clinicalNotes !== undefined && request.clinicalNotes !== current.clinical_notes) {
+        set(
+          'clinical_notes',
+          request.clinicalNotes,
+          change('clinicalNotes', current.clinical_notes, request.clinicalNotes, true)
+        );
+      }
+
+      if (request.treatmentPlan !== undefined) {
+        set(
+          'treatment_plan',
+          JSON.stringify(request.treatmentPlan),
+          change('treatmentPlan', current.treatment_plan, request.treatmentPlan, true)
+        );
+      }
+
+      if (request.followUpDate !== undefined) {
+        set('follow_up_date', followUpDate, change('followUpDate', current.follow_up_date, followUpDate));
+      }
+
+      if (sets.length === 0) {
+        return this.getConsultation(id, client);
+      }
+
+      values.push(audit.userId);
+      await client.query(
+        `UPDATE ${CONSULTATIONS_TABLE}
+         SET ${sets.join(', ')}, updated_by = $${values.length}, updated_at = CURRENT_TIMESTAMP,
+             version = version + 1
+         WHERE id = $1`,
+        values
+      );
+
+      await auditService.record({
+        ...audit,
+        entityType: 'consultation',
+        entityId: id,
+        action: 'update',
+        changes,
+        metadata: {
+          businessContext: { patientId: current.patient_id },
+        },
+      }, client);
+
+      return this.getConsultation(id, client);
+    });
+  }
+
+  async addDiagnosis(
+    id: string,
+    request: PatientTypes.DiagnosisRequest,
+    audit: ConsultationAuditContext
+  ): Promise<PatientTypes.Consultation> {
+    const errors: FieldError[] = [];
+    validateDiagnosis(request, 'diagnosis', errors);
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid diagnosis', errors);
+    }
+
+    const consultation = await database.transaction(async (client) => {
+      const current = await this.lockDraft(client, id, audit.userId);
+      const diagnosisId = await this.insertDiagnosis(client, id, request, audit.userId);
+      await this.touch(client, id, audit.userId);
+
+      await auditService.record({
+        ...audit,
+        entityType: 'consultation',
+        entityId: id,
+        action: 'update',
+        changes: [change('diagnoses', null, request.icdCode.trim().toUpperCase())],
+        metadata: {
+          businessContext: { patientId: current.patient_id, diagnosisId },
+        },
+      }, client);
+
+      return this.getConsultation(id, client);
+    });
+
+    loggers.clinical.diagnosisAdded(id, request.icdCode.trim().toUpperCase(), audit.userId);
+    return consultation;
+  }
+
+  async removeDiagnosis(
+    id: string,
+    diagnosisId: string,
+    audit: ConsultationAuditContext
+  ): Promise<PatientTypes.Consultation> {
+    return database.transaction(async (client) => {
+      const current = await this.lockDraft(client, id, audit.userId);
+
+      const result = await client.query(
+        `DELETE FROM ${DIAGNOSES_TABLE} WHERE id = $1 AND consultation_id = $2 RETURNING icd_code`,
+        [diagnosisId, id]
+      );
+
+      if (!result.rows[0]) {
+        throw new NotFoundError('Diagnosis', diagnosisId);
+      }
+
+      await this.touch(client, id, audit.userId);
+
+      await auditService.record({
+        ...audit,
+        entityType: 'consultation',
+        entityId: id,
+        action: 'update',
+        changes: [change('diagnoses', result.rows[0].icd_code, null)],
+        metadata: {
+          businessContext: { patientId: current.patient_id, diagnosisId },
+        },
+      }, client);
+
+      return this.getConsultation(id, client);
+    });
+  }
+
+  // Completes the note. Only its author can sign, and a signed note changes only through addenda.
+  async sign(id: string, audit: ConsultationAuditContext): Promise<PatientTypes.Consultation> {
+    const consultation = await database.transaction(async (client) => {
+      const current = await this.lockDraft(client, id, audit.userId);
+
+      const diagnoses = await client.query(
+        `SELECT COUNT(*) AS count FROM ${DIAGNOSES_TABLE} WHERE consultation_id = $1`,
+        [id]
+      );
+
+      if (parseInt(diagnoses.rows[0].count, 10) === 0) {
+        throw new BadRequestError('A consultation needs at least one diagnosis before it can be signed');
+      }
+
+      await client.query(
+        `UPDATE ${CONSULTATIONS_TABLE}
+         SET status = 'completed', signed_at = CURRENT_TIMESTAMP, signed_by = $2,
+             updated_by = $2, updated_at = CURRENT_TIMESTAMP, version = version + 1
+         WHERE id = $1`,
+        [id, audit.userId]
+      );
+
+      await auditService.record({
+        ...audit,
+        entityType: 'consultation',
+        entityId: id,
+        action: 'update',
+        changes: [change('status', current.status, 'completed')],
+        metadata: {
+          businessContext: { patientId: current.patient_id, signed: true },
+        },
+      }, client);
+
+      return this.getConsultation(id, client);
+    });
+
+    logger.info('Consultation signed', {
+      action: 'consultation_signed',
+      consultationId: id,
+      patientId: consultation.patientId,
+      userId: audit.userId,
+    });
+
+    return consultation;
+  }
+
+  // Corrections and late results on a signed note; the original text is never changed
+  async addAddendum(
+    id: string,
+    request: PatientTypes.AddConsultationAddendumRequest,
+    audit: ConsultationAuditContext
+  ): Promise<PatientTypes.Consultation> {
+    if (!request.text?.trim()) {
+      throw new ValidationError('Invalid addendum', [{
+        field: 'text',
+        message: 'Addendum text is required',
+        code: 'REQUIRED_FIELD',
+      }]);
+    }
+
+    return database.transaction(async (client) => {
+      const current = await this.lock(client, id);
+
+      if (current.status !== 'completed') {
+        throw new ConflictError('Addenda can only be added to signed consultations; edit the draft instead');
+      }
+
+      const result = await client.query(
+        `INSERT INTO ${ADDENDA_TABLE} (consultation_id, text, reason, created_by)
+         VALUES ($1, $2, $3, $4)
+         RETURNING id`,
+        [id, request.text.trim(), request.reason || null, audit.userId]
+      );
+
+      await auditService.record({
+        ...audit,
+        entityType: 'consultation',
+        entityId: id,
+        action: 'update',
+        metadata: {
+          businessContext: { patientId: current.patient_id, addendumId: result.rows[0].id, reason: request.reason },
+        },
+      }, client);
+
+      return this.getConsultation(id, client);
+    });
+  }
+
+  // Withdraws a draft opened in error; signed notes are corrected with an addendum instead
+  async cancel(
+    id: string,
+    reason: string | undefined,
+    audit: ConsultationAuditContext
+  ): Promise<PatientTypes.Consultation> {
+    return database.transaction(async (client) => {
+      const current = await this.lockDraft(client, id, audit.userId);
+
+      await client.query(
+        `UPDATE ${CONSULTATIONS_TABLE}
+         SET status = 'cancelled', updated_by = $2, updated_at = CURRENT_TIMESTAMP, version = version + 1
+         WHERE id = $1`,
+        [id, audit.userId]
+      );
+
+      await auditService.record({
+        ...audit,
+        entityType: 'consultation',
+        entityId: id,
+        action: 'update',
+        changes: [change('status', current.status, 'cancelled')],
+        metadata: {
+          businessContext: { patientId: current.patient_id, reason },
+        },
+      }, client);
+
+      return this.getConsultation(id, client);
+    });
+  }
+
+  private async list(
+    column: 'patient_id' | 'provider_id',
+    value: string,
+    options: ConsultationListOptions
+  ): Promise<{ consultations: PatientTypes.Consultation[]; total: number }> {
+    const params: any[] = [value];
+    const conditions = [`${column} = $1`];
+
+    if (options.status) {
+      params.push(options.status);
+      conditions.push(`status = $${params.length}`);
+    }
+
+    if (options.from) {
+      params.push(options.from);
+      conditions.push(`visit_date >= $${params.length}`);
+    }
+
+    if (options.to) {
+      params.push(options.to);
+      conditions.push(`visit_date <= $${params.length}`);
+    }
+
+    const where = conditions.join(' AND ');
+    const count = await database.query(`SELECT COUNT(*) FROM ${CONSULTATIONS_TABLE} WHERE ${where}`, params);
+    const result = await database.query(
+      `SELECT * FROM ${CONSULTATIONS_TABLE} WHERE ${where}
+       ORDER BY visit_date DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, options.limit, (options.page - 1) * options.limit]
+    );
+
+    return {
+      consultations: await this.hydrate(result.rows),
+      total: parseInt(count.rows[0].count, 10),
+    };
+  }
+
+  private validateCreate(
+    request: PatientTypes.CreateConsultationRequest
+  ): { visitDate: Date | null; followUpDate: Date | null } {
+    const errors: FieldError[] = [];
+
+    if (!request.patientId) {
+      errors.push({ field: 'patientId', message: 'Patient ID is required', code: 'REQUIRED_FIELD' });
+    }
+
+    if (!request.encounterId) {
+      errors.push({ field: 'encounterId', message: 'Encounter ID is required', code: 'REQUIRED_FIELD' });
+    }
+
+    if (!VISIT_TYPES.includes(request.visitType)) {
+      errors.push({
+        field: 'visitType',
+        message: `visitType must be one of: ${VISIT_TYPES.join(', ')}`,
+        code: 'INVALID_VALUE',
+        value: request.visitType,
+      });
+    }
+
+    if (!request.chiefComplaint?.trim()) {
+      errors.push({ field: 'chiefComplaint', message: 'Chief complaint is required', code: 'REQUIRED_FIELD' });
+    }
+
+    if (request.diagnoses !== undefined && !Array.isArray(request.diagnoses)) {
+      errors.push({ field: 'diagnoses', message: 'diagnoses must be a list', code: 'INVALID_VALUE' });
+    } else {
+      (request.diagnoses || []).forEach((diagnosis, index) => {
+        validateDiagnosis(diagnosis, `diagnoses[${index}]`, errors);
+      });
+    }
+
+    const visitDate = parseDate(request.visitDate, 'visitDate', errors);
+    const followUpDate = parseDate(request.followUpDate, 'followUpDate', errors);
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid consultation', errors);
+    }
+
+    return { visitDate, followUpDate };
+  }
+
+  private async lock(client: Queryable, id: string): Promise<any> {
+    const result = await client.query(`SELECT * FROM ${CONSULTATIONS_TABLE} WHERE id = $1 FOR UPDATE`, [id]);
+
+    if (!result.rows[0]) {
+      throw new NotFoundError('Consultation', id);
+    }
+
+    return result.rows[0];
+  }
+
+  // Drafts are edited, signed or cancelled only by the provider who opened them
+  private async lockDraft(client: Queryable, id: string, userId: string): Promise<any> {
+    const current = await this.lock(client, id);
+
+    if (current.status !== 'active') {
+      throw new ConflictError(
+        current.status === 'completed'
+          ? 'Consultation is signed; add an addendum instead'
+          : `Consultation is ${current.status}`
+      );
+    }
+
+    if (current.provider_id !== userId) {
+      throw new ForbiddenError('Only the consulting provider can change this consultation');
+    }
+
+    return current;
+  }
+
+  private async touch(client: Queryable, id: string, userId: string): Promise<void> {
+    await client.query(
+      `UPDATE ${CONSULTATIONS_TABLE}
+       SET updated_by = $2, updated_at = CURRENT_TIMESTAMP, version = version + 1
+       WHERE id = $1`,
+      [id, userId]
+    );
+  }
+
+  private async insertDiagnosis(
+    client: Queryable,
+    consultationId: string,
+    diagnosis: PatientTypes.DiagnosisRequest,
+    userId: string
+  ): Promise<string> {
+    const result = await client.query(
+      `INSERT INTO ${DIAGNOSES_TABLE} (
+         consultation_id, icd_code, diagnosis_text, diagnosis_type, certainty, provider_notes, created_by
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING id`,
+      [
+        consultationId,
+        diagnosis.icdCode.trim().toUpperCase(),
+        diagnosisText(diagnosis),
+        diagnosis.diagnosisType || 'primary',
+        diagnosis.certainty || 'confirmed',
+        diagnosis.providerNotes || null,
+        userId,
+      ]
+    );
+
+    return result.rows[0].id;
+  }
+
+  // Loads diagnoses, addenda and the latest vitals for a page of consultations in three queries
+  private async hydrate(rows: any[], client: Queryable = database): Promise<PatientTypes.Consultation[]> {
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const ids = rows.map(row => row.id);
+    const [diagnoses, addenda, vitalSigns] = await Promise.all([
+      client.query(
+        `SELECT * FROM ${DIAGNOSES_TABLE} WHERE consultation_id = ANY($1::uuid[]) ORDER BY created_at`,
+        [ids]
+      ),
+      client.query(
+        `SELECT * FROM ${ADDENDA_TABLE} WHERE consultation_id = ANY($1::uuid[]) ORDER BY created_at`,
+        [ids]
+      ),
+      vitalSignsService.getLatestForConsultations(ids, client),
+    ]);
+
+    return rows.map(row => this.toConsultation(
+      row,
+      diagnoses.rows.filter(diagnosis => diagnosis.consultation_id === row.id),
+      addenda.rows.filter(addendum => addendum.consultation_id === row.id),
+      vitalSigns.get(row.id)
+    ));
+  }
+
+  private toConsultation(
+    row: any,
+    diagnosisRows: any[],
+    addendumRows: any[],
+    vitalSigns: ClinicalTypes.VitalSigns | undefined
+  ): PatientTypes.Consultation {
+    return {
+      id: row.id,
+      patientId: row.patient_id,
+      encounterId: row.encounter_id,
+      providerId: row.provider_id,
+      facilityId: row.facility_code,
+      visitDate: row.visit_date,
+      visitType: row.visit_type,
+      chiefComplaint: row.chief_complaint,
+      clinicalNotes: row.clinical_notes,
+      diagnoses: diagnosisRows.map(diagnosis => ({
+        id: diagnosis.id,
+        consultationId: diagnosis.consultation_id,
+        icdCode: diagnosis.icd_code,
+        diagnosisText: diagnosis.diagnosis_text,
+        diagnosisType: diagnosis.diagnosis_type,
+        certainty: diagnosis.certainty,
+        ...(diagnosis.provider_notes && { providerNotes: diagnosis.provider_notes }),
+      })),
+      ...(row.treatment_plan && { treatmentPlan: row.treatment_plan }),
+      ...(vitalSigns && { vitalSigns }),
+      status: row.status,
+      ...(row.follow_up_date && { followUpDate: row.follow_up_date }),
+      ...(row.signed_at && { signedAt: row.signed_at }),
+      ...(row.signed_by && { signedBy: row.signed_by }),
+      addenda: addendumRows.map(addendum => ({
+        id: addendum.id,
+        consultationId: addendum.consultation_id,
+        text: addendum.text,
+        ...(addendum.reason && { reason: addendum.reason }),
+        createdBy: addendum.created_by,
+        createdAt: addendum.created_at,
+      })),
+      version: row.version,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+// Create and export singleton instance
+export const consultationService = new ConsultationService();
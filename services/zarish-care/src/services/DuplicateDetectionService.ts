@@ -0,0 +1,133 @@
+import { PatientTypes } from '@zarishhealthcare/shared-types';
+import { config } from '../config/config';
+import { patientRepository, DuplicateProbe } from '../repositories/PatientRepository';
+import { nameSimilarity, phoneticKey } from '../utils/phonetics';
+
+// Fellegi-Sunter m/u probabilities: m = P(fields agree | same person),
+// u = P(fields agree | different people). Tuned for camp registries where names repeat
+// a lot and people move between camps.
+const FIELD_PROBABILITIES = {
+  unhcrId: { m: 0.98, u: 0.0001 },
+  smartCardId: { m: 0.98, u: 0.0001 },
+  firstName: { m: 0.9, u: 0.02 },
+  lastName: { m: 0.9, u: 0.05 },
+  dateOfBirth: { m: 0.85, u: 0.003 },
+  approximateAge: { m: 0.95, u: 0.15 },
+  gender: { m: 0.98, u: 0.5 },
+  campLocation: { m: 0.8, u: 0.1 },
+  blockNumber: { m: 0.7, u: 0.02 },
+} as const;
+
+type MatchField = keyof typeof FIELD_PROBABILITIES;
+
+// Prior odds that two records picked by the blocking query are the same person (1 in 1000)
+const PRIOR_LOG_ODDS = Math.log2(1 / 1000);
+
+// Names this similar after transliteration count as agreeing even if the phonetic keys differ
+const NAME_AGREEMENT_SIMILARITY = 0.92;
+
+const agreementWeight = (field: MatchField) =>
+  Math.log2(FIELD_PROBABILITIES[field].m / FIELD_PROBABILITIES[field].u);
+
+const disagreementWeight = (field: MatchField) =>
+  Math.log2((1 - FIELD_PROBABILITIES[field].m) / (1 - FIELD_PROBABILITIES[field].u));
+
+function toDateString(value: string | Date | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+}
+
+function ageOf(probe: DuplicateProbe): number | null {
+  const dob = toDateString(probe.dateOfBirth);
+  if (dob) {
+    return Math.floor((Date.now() - new Date(dob).getTime()) / (365.25 * 24 * 3600 * 1000));
+  }
+  return typeof probe.demographics?.age === 'number' ? probe.demographics.age : null;
+}
+
+export class DuplicateDetectionService {
+  // Probability (0-1) that two registrations describe the same person, with the evidence used
+  score(a: DuplicateProbe, b: DuplicateProbe): Omit<PatientTypes.PotentialDuplicate, 'patient' | 'likelyDuplicate'> {
+    const matchedOn: string[] = [];
+    const conflicts: string[] = [];
+    let weight = PRIOR_LOG_ODDS;
+
+    const compare = (field: MatchField, left: unknown, right: unknown, agrees: boolean) => {
+      // Missing values are neither evidence for nor against a match
+      if (left === undefined || left === null || left === '' || right === undefined || right === null || right === '') {
+        return;
+      }
+      if (agrees) {
+        weight += agreementWeight(field);
+        matchedOn.push(field);
+      } else {
+        weight += disagreementWeight(field);
+        conflicts.push(field);
+      }
+    };
+
+    const docA = a.demographics?.documentation;
+    const docB = b.demographics?.documentation;
+    compare('unhcrId', docA?.unhcrId, docB?.unhcrId, docA?.unhcrId === docB?.unhcrId);
+    compare('smartCardId', docA?.smartCardId, docB?.smartCardId, docA?.smartCardId === docB?.smartCardId);
+
+    compare('firstName', a.firstName, b.firstName,
+      phoneticKey(a.firstName) === phoneticKey(b.firstName) ||
+      nameSimilarity(a.firstName, b.firstName) >= NAME_AGREEMENT_SIMILARITY);
+    compare('lastName', a.lastName, b.lastName,
+      phoneticKey(a.lastName) === phoneticKey(b.lastName) ||
+      nameSimilarity(a.lastName, b.lastName) >= NAME_AGREEMENT_SIMILARITY);
+
+    const dobA = toDateString(a.dateOfBirth);
+    const dobB = toDateString(b.dateOfBirth);
+    if (dobA && dobB) {
+      compare('dateOfBirth', dobA, dobB, dobA === dobB);
+    } else {
+      // Without both birth dates, fall back to the (often estimated) age within two years
+      const ageA = ageOf(a);
+      const ageB = ageOf(b);
+      compare('approximateAge', ageA, ageB, ageA !== null && ageB !== null && Math.abs(ageA - ageB) <= 2);
+    }
+
+    compare('gender', a.gender, b.gender, a.gender === b.gender);
+
+    const campA = a.demographics?.campLocation;
+    const campB = b.demographics?.campLocation;
+    compare('campLocation', campA, campB, campA === campB);
+    if (campA && campA === campB) {
+      compare('blockNumber', a.demographics?.blockNumber, b.demographics?.blockNumber,
+        a.demographics?.blockNumber === b.demographics?.blockNumber);
+    }
+
+    const score = 1 / (1 + Math.pow(2, -weight));
+
+    return {
+      score: Math.round(score * 10000) / 10000,
+      matchedOn,
+      conflicts,
+    };
+  }
+
+  // Scores every blocking candidate and returns those at or above the review threshold, best first
+  async findPotentialDuplicates(probe: DuplicateProbe, excludeId?: string): Promise<PatientTypes.PotentialDuplicate[]> {
+    const candidates = await patientRepository.findDuplicateCandidates(probe, config.mpi.maxCandidates, excludeId);
+
+    return candidates
+      .map((patient) => {
+        const result = this.score(probe, patient);
+        return {
+          patient,
+          ...result,
+          likelyDuplicate: result.score >= config.mpi.duplicateThreshold,
+        };
+      })
+      .filter(match => match.score >= config.mpi.reviewThreshold)
+      .sort((x, y) => y.score - x.score);
+  }
+}
+
+// Create and export singleton instance
+export const duplicateDetectionService = new DuplicateDetectionService();
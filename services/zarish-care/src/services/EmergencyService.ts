@@ -0,0 +1,819 @@
+import { ClinicalTypes, CommonTypes, PatientTypes } from '@zarishhealthcare/shared-types';
+import { config } from '../config/config';
+import { database, Queryable } from '../config/database';
+import { BadRequestError, ConflictError, NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { patientRepository } from '../repositories/PatientRepository';
+import { auditService, AuditEntry } from './AuditService';
+import { realtimeService } from './RealtimeService';
+import { FieldError } from '../utils/patientValidation';
+import { ageInMonthsAt, PLAUSIBLE_RANGES } from '../utils/vitalSigns';
+import {
+  EMERGENCY_SIGNS,
+  GCS_RANGES,
+  glasgowComaScale,
+  orientationAssessment,
+  QUEUE_PRIORITIES,
+  RANKED_CATEGORIES,
+  triage,
+  TriageInput,
+  triageScale,
+} from '../utils/emergencyTriage';
+import { logger } from '../utils/logger';
+
+const ASSESSMENTS_TABLE = 'clinical.emergency_assessments';
+
+// Triage and breach alerts go to staff at the facility who can read emergency records
+export const EMERGENCY_READ_PERMISSION = 'emergency.read';
+
+const OPEN_STATUSES: ClinicalTypes.EmergencyStatus[] = ['waiting', 'in_treatment'];
+
+const EMERGENCY_TYPES: ClinicalTypes.EmergencyType[] = ['medical', 'surgical', 'trauma', 'psychiatric', 'obstetric'];
+const MOBILITIES: ClinicalTypes.Mobility[] = ['walking', 'with_help', 'immobile'];
+const ALERTNESS_LEVELS: ClinicalTypes.Alertness[] = ['alert', 'voice', 'pain', 'unresponsive'];
+const BLOOD_LOSS: ClinicalTypes.InjuryAssessment['bloodLoss'][] = ['none', 'minimal', 'moderate', 'severe'];
+const INTERVENTION_TYPES: ClinicalTypes.EmergencyIntervention['type'][] = [
+  'medication',
+  'procedure',
+  'monitoring',
+  'supportive',
+];
+const DISPOSITIONS: ClinicalTypes.EmergencyDisposition['disposition'][] = [
+  'discharge',
+  'admit',
+  'transfer',
+  'deceased',
+  'left_ama',
+];
+const DISCHARGE_CONDITIONS: ClinicalTypes.EmergencyDisposition['condition'][] = [
+  'stable',
+  'unstable',
+  'critical',
+  'improved',
+  'unchanged',
+  'worse',
+];
+
+// Measurements the TEWS score is calculated from, besides mobility and level of consciousness
+const TEWS_VITALS = ['respiratoryRate', 'heartRate', 'bloodPressure', 'temperature'] as const;
+
+const SIGN_CODES = Object.keys(EMERGENCY_SIGNS) as ClinicalTypes.EmergencySign[];
+
+const TRIAGE_VITALS = [
+  'heartRate',
+  'respiratoryRate',
+  'temperature',
+  'oxygenSaturation',
+  'bloodGlucose',
+  'painScore',
+] as const;
+
+type EmergencyAuditContext = Pick<AuditEntry, 'userId' | 'sessionId' | 'ipAddress' | 'userAgent'> & {
+  userId: string;
+};
+
+const statusChange = (from: string, to: string): CommonTypes.FieldChange => ({
+  field: 'status',
+  oldValue: from,
+  newValue: to,
+  dataType: 'string',
+  sensitive: false,
+});
+
+function checkRange(errors: FieldError[], field: string, value: unknown, [min, max]: [number, number]): void {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    errors.push({ field, message: `${field} must be a number`, code: 'INVALID_FORMAT', value });
+  } else if (value < min || value > max) {
+    errors.push({ field, message: `${field} must be between ${min} and ${max}`, code: 'INVALID_VALUE', value });
+  }
+}
+
+function checkOneOf<T>(
+  errors: FieldError[],
+  field: string,
+  value: T | undefined,
+  allowed: T[],
+  required = false
+): void {
+  if (value === undefined || value === null) {
+    if (required) {
+      errors.push({ field, message: `${field} is required`, code: 'REQUIRED_FIELD' });
+    }
+  } else if (!allowed.includes(value)) {
+    errors.push({ field, message: `${field} must be one of: ${allowed.join(', ')}`, code: 'INVALID_VALUE', value });
+  }
+}
+
+function checkText(errors: FieldError[], field: string, value: unknown): void {
+  if (typeof value !== 'string' || !value.trim()) {
+    errors.push({ field, message: `${field} is required`, code: 'REQUIRED_FIELD' });
+  }
+}
+
+// Event times: now when omitted, never in the future and never before the patient arrived
+function eventTime(value: string | undefined, field: string, errors: FieldError[], after?: Date): Date {
+  const date = value ? new Date(value) : new Date();
+
+  if (isNaN(date.getTime())) {
+    errors.push({ field, message: `${field} must be a valid date`, code: 'INVALID_FORMAT', value });
+  } else if (date > new Date()) {
+    errors.push({ field, message: `${field} cannot be in the future`, code: 'INVALID_VALUE', value });
+  } else if (after && date < after) {
+    errors.push({ field, message: `${field} cannot be before the patient arrived`, code: 'INVALID_VALUE', value });
+  }
+
+  return date;
+}
+
+// Validates what triage is judged on; the age comes from the patient or the scoring request
+function validateFindings(
+  findings: ClinicalTypes.TriageFindings,
+  ageInMonths: number | null,
+  errors: FieldError[]
+): TriageInput {
+  const vitals = findings.vitalSigns ?? {};
+  const signs = findings.signs ?? [];
+
+  checkOneOf(errors, 'emergencyType', findings.emergencyType, EMERGENCY_TYPES, true);
+  checkOneOf(errors, 'alertness', findings.alertness, ALERTNESS_LEVELS, true);
+  checkOneOf(errors, 'mobility', findings.mobility, MOBILITIES);
+
+  for (const measure of TRIAGE_VITALS) {
+    if (vitals[measure] !== undefined) {
+      checkRange(errors, `vitalSigns.${measure}`, vitals[measure], PLAUSIBLE_RANGES[measure]);
+    }
+  }
+
+  if (vitals.bloodPressure) {
+    const { systolic, diastolic } = vitals.bloodPressure;
+    checkRange(errors, 'vitalSigns.bloodPressure.systolic', systolic, PLAUSIBLE_RANGES.systolic);
+    checkRange(errors, 'vitalSigns.bloodPressure.diastolic', diastolic, PLAUSIBLE_RANGES.diastolic);
+
+    if (diastolic >= systolic) {
+      errors.push({
+        field: 'vitalSigns.bloodPressure.diastolic',
+        message: 'Diastolic pressure must be lower than systolic pressure',
+        code: 'INVALID_VALUE',
+        value: diastolic,
+      });
+    }
+  }
+
+  if (findings.glasgowComaScale) {
+    const components = Object.entries(GCS_RANGES) as [keyof typeof GCS_RANGES, [number, number]][];
+    for (const [component, [min, max]] of components) {
+      const score = findings.glasgowComaScale[component];
+      if (!Number.isInteger(score) || score < min || score > max) {
+        errors.push({
+          field: `glasgowComaScale.${component}`,
+          message: `glasgowComaScale.${component} must be a whole number from ${min} to ${max}`,
+          code: 'INVALID_VALUE',
+          value: score,
+        });
+      }
+    }
+  }
+
+  if (findings.orientation) {
+    for (const question of ['person', 'place', 'time', 'situation'] as const) {
+      if (typeof findings.orientation[question] !== 'boolean') {
+        errors.push({
+          field: `orientation.${question}`,
+          message: `orientation.${question} must be true or false`,
+          code: 'INVALID_FORMAT',
+          value: findings.orientation[question],
+        });
+      }
+    }
+  }
+
+  const knownSigns = Array.isArray(signs) && signs.every(sign => SIGN_CODES.includes(sign));
+  if (!knownSigns) {
+    errors.push({
+      field: 'signs',
+      message: `signs must be from: ${SIGN_CODES.join(', ')}`,
+      code: 'INVALID_VALUE',
+      value: findings.signs,
+    });
+  }
+
+  if (findings.injuryAssessment) {
+    const injury = findings.injuryAssessment;
+    checkText(errors, 'injuryAssessment.mechanism', injury.mechanism);
+    checkOneOf(errors, 'injuryAssessment.bloodLoss', injury.bloodLoss, BLOOD_LOSS, true);
+
+    for (const list of ['bodyRegions', 'fractures', 'wounds'] as const) {
+      if (injury[list] !== undefined && !Array.isArray(injury[list])) {
+        errors.push({
+          field: `injuryAssessment.${list}`,
+          message: `injuryAssessment.${list} must be a list`,
+          code: 'INVALID_FORMAT',
+        });
+      }
+    }
+  }
+
+  const input: TriageInput = {
+    ageInMonths,
+    emergencyType: findings.emergencyType,
+    vitalSigns: vitals,
+    alertness: findings.alertness,
+    signs: knownSigns ? [...new Set(signs)] : [],
+    ...(findings.mobility && { mobility: findings.mobility }),
+    ...(findings.glasgowComaScale && { glasgowComaScale: glasgowComaScale(findings.glasgowComaScale) }),
+    ...(findings.orientation && { orientation: orientationAssessment(findings.orientation) }),
+    ...(findings.injuryAssessment && {
+      injuryAssessment: {
+        ...findings.injuryAssessment,
+        bodyRegions: findings.injuryAssessment.bodyRegions ?? [],
+        fractures: findings.injuryAssessment.fractures ?? [],
+        wounds: findings.injuryAssessment.wounds ?? [],
+      },
+    }),
+  };
+
+  // SATS needs the full TEWS unless an emergency sign already makes the patient red
+  const emergencySign = (input.signs ?? []).some(sign => ['red', 'blue'].includes(EMERGENCY_SIGNS[sign].category));
+  if (triageScale(ageInMonths) === 'sats' && !emergencySign) {
+    for (const measure of TEWS_VITALS) {
+      if (vitals[measure] === undefined) {
+        errors.push({
+          field: `vitalSigns.${measure}`,
+          message: `vitalSigns.${measure} is required for the TEWS score`,
+          code: 'REQUIRED_FIELD',
+        });
+      }
+    }
+
+    if (findings.mobility === undefined) {
+      errors.push({ field: 'mobility', message: 'mobility is required for the TEWS score', code: 'REQUIRED_FIELD' });
+    }
+  }
+
+  return input;
+}
+
+export class EmergencyService {
+  // Scores findings without recording them, e.g. to show the category while the triage form is filled in
+  scoreTriage(request: ClinicalTypes.ScoreTriageRequest): ClinicalTypes.TriageResult {
+    const errors: FieldError[] = [];
+
+    if (request.ageInMonths !== undefined && (!Number.isInteger(request.ageInMonths) || request.ageInMonths < 0)) {
+      errors.push({
+        field: 'ageInMonths',
+        message: 'ageInMonths must be a whole number of months',
+        code: 'INVALID_VALUE',
+        value: request.ageInMonths,
+      });
+    }
+
+    const input = validateFindings(request, request.ageInMonths ?? null, errors);
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid triage findings', errors);
+    }
+
+    return this.withTarget(triage(input));
+  }
+
+  async getAssessment(assessmentId: string): Promise<ClinicalTypes.EmergencyAssessment> {
+    const result = await database.query(
+      `SELECT ea.*, p.mrn, p.first_name, p.last_name
+       FROM ${ASSESSMENTS_TABLE} ea
+       JOIN clinical.patients p ON p.id = ea.patient_id
+       WHERE ea.id = $1`,
+      [assessmentId]
+    );
+
+    if (!result.rows[0]) {
+      throw new NotFoundError('Emergency assessment', assessmentId);
+    }
+
+    return this.toAssessment(result.rows[0]);
+  }
+
+  async getPatientAssessments(patientId: string): Promise<ClinicalTypes.EmergencyAssessment[]> {
+    await this.requirePatient(patientId);
+
+    const result = await database.query(
+      `SELECT * FROM ${ASSESSMENTS_TABLE} WHERE patient_id = $1 ORDER BY arrival_time DESC`,
+      [patientId]
+    );
+
+    return result.rows.map(row => this.toAssessment(row));
+  }
+
+  // Patients in the department, waiting ones first by category and then by arrival
+  async getBoard(facilityCode: string): Promise<ClinicalTypes.EmergencyAssessment[]> {
+    const result = await database.query(
+      `SELECT ea.*, p.mrn, p.first_name, p.last_name
+       FROM ${ASSESSMENTS_TABLE} ea
+       JOIN clinical.patients p ON p.id = ea.patient_id AND p.deleted = FALSE
+       WHERE ea.facility_code = $1 AND ea.status = ANY($2)
+       ORDER BY ea.status = 'in_treatment', array_position($3::text[], ea.triage_category::text), ea.arrival_time`,
+      [facilityCode, OPEN_STATUSES, RANKED_CATEGORIES]
+    );
+
+    return result.rows.map(row => this.toAssessment(row));
+  }
+
+  // Triages a patient on arrival. Treatment is due within the category's target of arrival, and a
+  // waiting queue entry for the encounter is moved to the matching priority.
+  async triagePatient(
+    patientId: string,
+    request: ClinicalTypes.TriageRequest,
+    audit: EmergencyAuditContext
+  ): Promise<ClinicalTypes.EmergencyAssessment> {
+    const errors: FieldError[] = [];
+    const arrivalTime = eventTime(request.arrivalTime, 'arrivalTime', errors);
+    checkText(errors, 'chiefComplaint', request.chiefComplaint);
+
+    const patient = await this.requirePatient(patientId);
+    const input = validateFindings(request, ageInMonthsAt(patient, arrivalTime), errors);
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid triage', errors);
+    }
+
+    const facilityCode = request.facilityCode || patient.facilityCode;
+    if (!facilityCode) {
+      throw new BadRequestError('facilityCode is required for a patient without a registration facility');
+    }
+
+    const result = this.withTarget(triage(input));
+    const consciousness: ClinicalTypes.ConsciousnessLevel = {
+      alertness: input.alertness,
+      ...(input.glasgowComaScale && { glasgowComaScale: input.glasgowComaScale }),
+      ...(input.orientation && { orientation: input.orientation }),
+    };
+
+    const assessmentId = await database.transaction(async (client) => {
+      if (request.encounterId) {
+        const encounter = await client.query('SELECT patient_id FROM clinical.encounters WHERE id = $1', [
+          request.encounterId,
+        ]);
+
+        if (!encounter.rows[0] || encounter.rows[0].patient_id !== patientId) {
+          throw new NotFoundError('Encounter', request.encounterId);
+        }
+      }
+
+      const open = await client.query(
+        `SELECT id FROM ${ASSESSMENTS_TABLE} WHERE patient_id = $1 AND status = ANY($2) FOR UPDATE`,
+        [patientId, OPEN_STATUSES]
+      );
+
+      if (open.rows[0]) {
+        throw new ConflictError(`Patient is already in the emergency department (${open.rows[0].id})`);
+      }
+
+      const inserted = await client.query(
+        `INSERT INTO ${ASSESSMENTS_TABLE} (
+           patient_id, encounter_id, facility_code, triage_scale, triage_category, tews, triage_reasons,
+           chief_complaint, emergency_type, vital_signs, mobility, consciousness, signs, injury_assessment, notes,
+           arrival_time, triaged_by, target_minutes, treatment_due_at
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)
+         RETURNING id`,
+        [
+          patientId,
+          request.encounterId || null,
+          facilityCode,
+          result.scale,
+          result.category,
+          result.tews ? JSON.stringify(result.tews) : null,
+          JSON.stringify(result.reasons),
+          request.chiefComplaint.trim(),
+          input.emergencyType,
+          JSON.stringify(input.vitalSigns),
+          input.mobility || null,
+          JSON.stringify(consciousness),
+          JSON.stringify(input.signs),
+          input.injuryAssessment ? JSON.stringify(input.injuryAssessment) : null,
+          request.notes || null,
+          arrivalTime,
+          audit.userId,
+          result.targetMinutes,
+          result.targetMinutes === null ? null : new Date(arrivalTime.getTime() + result.targetMinutes * 60000),
+        ]
+      );
+
+      if (request.encounterId && result.category !== 'blue') {
+        await client.query(
+          `UPDATE clinical.queue_entries SET priority = $2 WHERE encounter_id = $1 AND status = 'waiting'`,
+          [request.encounterId, QUEUE_PRIORITIES[result.category]]
+        );
+      }
+
+      await auditService.record({
+        ...audit,
+        entityType: 'emergency_assessment',
+        entityId: inserted.rows[0].id,
+        action: 'create',
+        metadata: {
+          businessContext: {
+            patientId,
+            encounterId: request.encounterId,
+            triageScale: result.scale,
+            triageCategory: result.category,
+            tews: result.tews?.total,
+          },
+        },
+      }, client);
+
+      return inserted.rows[0].id as string;
+    });
+
+    const assessment = await this.getAssessment(assessmentId);
+
+    realtimeService.emitToFacility(
+      facilityCode,
+      'emergency_triaged',
+      {
+        assessmentId,
+        patientId,
+        mrn: patient.mrn,
+        triageCategory: result.category,
+        reasons: result.reasons,
+        dueAt: assessment.timeToTreatment.dueAt,
+      },
+      EMERGENCY_READ_PERMISSION
+    );
+
+    logger.info('Emergency patient triaged', {
+      action: 'emergency_triaged',
+      assessmentId,
+      patientId,
+      triageScale: result.scale,
+      triageCategory: result.category,
+      userId: audit.userId,
+    });
+
+    return assessment;
+  }
+
+  async startTreatment(
+    assessmentId: string,
+    request: ClinicalTypes.StartEmergencyTreatmentRequest,
+    audit: EmergencyAuditContext
+  ): Promise<ClinicalTypes.EmergencyAssessment> {
+    await database.transaction(async (client) => {
+      const assessment = await this.lock(client, assessmentId, ['waiting']);
+      const errors: FieldError[] = [];
+      const startedAt = eventTime(request.startedAt, 'startedAt', errors, new Date(assessment.arrival_time));
+
+      if (errors.length > 0) {
+        throw new ValidationError('Invalid treatment start', errors);
+      }
+
+      await this.begin(client, assessment, startedAt, audit);
+    });
+
+    return this.getAssessment(assessmentId);
+  }
+
+  // Recording an intervention for a waiting patient starts their treatment at the intervention time
+  async recordIntervention(
+    assessmentId: string,
+    request: ClinicalTypes.RecordEmergencyInterventionRequest,
+    audit: EmergencyAuditContext
+  ): Promise<ClinicalTypes.EmergencyAssessment> {
+    await database.transaction(async (client) => {
+      const assessment = await this.lock(client, assessmentId, OPEN_STATUSES);
+      const errors: FieldError[] = [];
+
+      checkOneOf(errors, 'type', request.type, INTERVENTION_TYPES, true);
+      checkText(errors, 'intervention', request.intervention);
+      checkText(errors, 'outcome', request.outcome);
+      const time = eventTime(request.time, 'time', errors, new Date(assessment.arrival_time));
+
+      if (errors.length > 0) {
+        throw new ValidationError('Invalid emergency intervention', errors);
+      }
+
+      const intervention: ClinicalTypes.EmergencyIntervention = {
+        type: request.type,
+        intervention: request.intervention.trim(),
+        time,
+        provider: audit.userId,
+        outcome: request.outcome.trim(),
+      };
+
+      if (assessment.status === 'waiting') {
+        await this.begin(client, assessment, time, audit);
+      }
+
+      await client.query(
+        `UPDATE ${ASSESSMENTS_TABLE}
+         SET interventions = interventions || $2::jsonb, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [assessmentId, JSON.stringify([intervention])]
+      );
+
+      await auditService.record({
+        ...audit,
+        entityType: 'emergency_assessment',
+        entityId: assessmentId,
+        action: 'update',
+        metadata: {
+          businessContext: {
+            patientId: assessment.patient_id,
+            intervention: intervention.intervention,
+            interventionType: intervention.type,
+          },
+        },
+      }, client);
+    });
+
+    return this.getAssessment(assessmentId);
+  }
+
+  // Closes the emergency visit; a patient who leaves or dies before treatment is disposed without it
+  async recordDisposition(
+    assessmentId: string,
+    request: ClinicalTypes.EmergencyDisposition,
+    audit: EmergencyAuditContext
+  ): Promise<ClinicalTypes.EmergencyAssessment> {
+    const errors: FieldError[] = [];
+
+    checkOneOf(errors, 'disposition', request.disposition, DISPOSITIONS, true);
+    checkOneOf(errors, 'condition', request.condition, DISCHARGE_CONDITIONS, true);
+
+    if (request.disposition === 'discharge') {
+      checkText(errors, 'instructions', request.instructions);
+    }
+
+    if (request.disposition === 'admit' || request.disposition === 'transfer') {
+      checkText(errors, 'destination', request.destination);
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid emergency disposition', errors);
+    }
+
+    const disposition: ClinicalTypes.EmergencyDisposition = {
+      disposition: request.disposition,
+      condition: request.condition,
+      instructions: request.instructions?.trim() || '',
+      ...(request.destination && { destination: request.destination.trim() }),
+      ...(request.followUp && { followUp: request.followUp.trim() }),
+    };
+
+    await database.transaction(async (client) => {
+      const assessment = await this.lock(client, assessmentId, OPEN_STATUSES);
+
+      await client.query(
+        `UPDATE ${ASSESSMENTS_TABLE}
+         SET status = 'disposed', disposition = $2, disposed_at = CURRENT_TIMESTAMP, disposed_by = $3,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [assessmentId, JSON.stringify(disposition), audit.userId]
+      );
+
+      await auditService.record({
+        ...audit,
+        entityType: 'emergency_assessment',
+        entityId: assessmentId,
+        action: 'update',
+        changes: [statusChange(assessment.status, 'disposed')],
+        metadata: {
+          businessContext: {
+            patientId: assessment.patient_id,
+            disposition: disposition.disposition,
+            treated: assessment.treatment_started_at !== null,
+          },
+        },
+      }, client);
+    });
+
+    logger.info('Emergency patient disposed', {
+      action: 'emergency_disposed',
+      assessmentId,
+      disposition: disposition.disposition,
+      userId: audit.userId,
+    });
+
+    return this.getAssessment(assessmentId);
+  }
+
+  // Marks waiting patients who have passed their time-to-treatment target and alerts the facility.
+  // Each breach is alerted once.
+  async alertBreaches(): Promise<ClinicalTypes.EmergencyAssessment[]> {
+    const result = await database.query(
+      `WITH breached AS (
+         UPDATE ${ASSESSMENTS_TABLE}
+         SET breach_alerted_at = CURRENT_TIMESTAMP
+         WHERE status = 'waiting' AND breach_alerted_at IS NULL AND treatment_due_at < CURRENT_TIMESTAMP
+         RETURNING *
+       )
+       SELECT b.*, p.mrn, p.first_name, p.last_name
+       FROM breached b
+       JOIN clinical.patients p ON p.id = b.patient_id`
+    );
+
+    const breaches = result.rows.map(row => this.toAssessment(row));
+
+    for (const assessment of breaches) {
+      const minutesOverdue = assessment.timeToTreatment.waitMinutes - (assessment.timeToTreatment.targetMinutes ?? 0);
+
+      realtimeService.emitToFacility(
+        assessment.facilityCode,
+        'emergency_target_breached',
+        {
+          assessmentId: assessment.id,
+          patientId: assessment.patientId,
+          mrn: assessment.patient?.mrn,
+          triageCategory: assessment.triageCategory,
+          arrivalTime: assessment.arrivalTime,
+          dueAt: assessment.timeToTreatment.dueAt,
+          minutesOverdue,
+        },
+        EMERGENCY_READ_PERMISSION
+      );
+
+      logger.warn('Emergency time-to-treatment target breached', {
+        action: 'emergency_target_breached',
+        assessmentId: assessment.id,
+        facilityCode: assessment.facilityCode,
+        triageCategory: assessment.triageCategory,
+        minutesOverdue,
+      });
+    }
+
+    return breaches;
+  }
+
+  // Time-to-treatment performance for arrivals within [from, to], judged against the targets in force at triage
+  async getPerformance(
+    facilityCode: string,
+    from: Date,
+    to: Date
+  ): Promise<ClinicalTypes.EmergencyPerformanceReport> {
+    const result = await database.query(
+      `SELECT triage_category,
+              COUNT(*) AS triaged,
+              COUNT(treatment_started_at) AS treated,
+              COUNT(*) FILTER (WHERE treatment_started_at <= treatment_due_at) AS within_target,
+              COUNT(*) FILTER (
+                WHERE COALESCE(treatment_started_at, disposed_at, CURRENT_TIMESTAMP) > treatment_due_at
+              ) AS breached,
+              percentile_cont(0.5) WITHIN GROUP (
+                ORDER BY EXTRACT(EPOCH FROM (treatment_started_at - arrival_time)) / 60
+              ) AS median_wait
+       FROM ${ASSESSMENTS_TABLE}
+       WHERE facility_code = $1 AND arrival_time >= $2 AND arrival_time < $3 AND triage_category <> 'blue'
+       GROUP BY triage_category`,
+      [facilityCode, from, to]
+    );
+
+    const byCategory = new Map(result.rows.map(row => [row.triage_category, row]));
+
+    return {
+      facilityCode,
+      from,
+      to,
+      categories: RANKED_CATEGORIES.map(category => {
+        const row = byCategory.get(category);
+        const withinTarget = row ? parseInt(row.within_target, 10) : 0;
+        const breached = row ? parseInt(row.breached, 10) : 0;
+
+        return {
+          category,
+          targetMinutes: config.emergency.targetMinutes[category],
+          triaged: row ? parseInt(row.triaged, 10) : 0,
+          treated: row ? parseInt(row.treated, 10) : 0,
+          withinTarget,
+          breached,
+          medianWaitMinutes: row?.median_wait === null || row?.median_wait === undefined
+            ? null
+            : Math.round(Number(row.median_wait) * 10) / 10,
+          complianceRate: withinTarget + breached > 0
+            ? Math.round((withinTarget / (withinTarget + breached)) * 1000) / 10
+            : null,
+        };
+      }),
+      generatedAt: new Date(),
+    };
+  }
+
+  private withTarget(result: Omit<ClinicalTypes.TriageResult, 'targetMinutes'>): ClinicalTypes.TriageResult {
+    return {
+      ...result,
+      targetMinutes: result.category === 'blue' ? null : config.emergency.targetMinutes[result.category],
+    };
+  }
+
+  private async begin(
+    client: Queryable,
+    assessment: any,
+    startedAt: Date,
+    audit: EmergencyAuditContext
+  ): Promise<void> {
+    if (assessment.triage_category === 'blue') {
+      throw new ConflictError('Patient was triaged dead on arrival');
+    }
+
+    await client.query(
+      `UPDATE ${ASSESSMENTS_TABLE}
+       SET status = 'in_treatment', treatment_started_at = $2, treatment_started_by = $3,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [assessment.id, startedAt, audit.userId]
+    );
+
+    const due = assessment.treatment_due_at ? new Date(assessment.treatment_due_at) : null;
+
+    await auditService.record({
+      ...audit,
+      entityType: 'emergency_assessment',
+      entityId: assessment.id,
+      action: 'update',
+      changes: [statusChange('waiting', 'in_treatment')],
+      metadata: {
+        businessContext: {
+          patientId: assessment.patient_id,
+          triageCategory: assessment.triage_category,
+          withinTarget: due !== null && startedAt <= due,
+        },
+      },
+    }, client);
+  }
+
+  private async lock(
+    client: Queryable,
+    assessmentId: string,
+    statuses: ClinicalTypes.EmergencyStatus[]
+  ): Promise<any> {
+    const result = await client.query(`SELECT * FROM ${ASSESSMENTS_TABLE} WHERE id = $1 FOR UPDATE`, [assessmentId]);
+
+    if (!result.rows[0]) {
+      throw new NotFoundError('Emergency assessment', assessmentId);
+    }
+
+    if (!statuses.includes(result.rows[0].status)) {
+      throw new ConflictError(`Emergency assessment is ${result.rows[0].status}`);
+    }
+
+    return result.rows[0];
+  }
+
+  private async requirePatient(patientId: string): Promise<PatientTypes.Patient> {
+    const patient = await patientRepository.findById(patientId);
+    if (!patient) {
+      throw new NotFoundError('Patient', patientId);
+    }
+
+    return patient;
+  }
+
+  private toAssessment(row: any): ClinicalTypes.EmergencyAssessment {
+    const arrivalTime = new Date(row.arrival_time);
+    const dueAt = row.treatment_due_at ? new Date(row.treatment_due_at) : undefined;
+    const startedAt = row.treatment_started_at ? new Date(row.treatment_started_at) : undefined;
+    const waitedUntil = startedAt ?? (row.disposed_at ? new Date(row.disposed_at) : new Date());
+
+    return {
+      id: row.id,
+      patientId: row.patient_id,
+      ...(row.encounter_id && { encounterId: row.encounter_id }),
+      facilityCode: row.facility_code,
+      status: row.status,
+      triageCategory: row.triage_category,
+      triage: {
+        scale: row.triage_scale,
+        category: row.triage_category,
+        ...(row.tews && { tews: row.tews }),
+        reasons: row.triage_reasons || [],
+        targetMinutes: row.target_minutes,
+      },
+      chiefComplaint: row.chief_complaint,
+      emergencyType: row.emergency_type,
+      vitalSigns: row.vital_signs || {},
+      ...(row.mobility && { mobility: row.mobility }),
+      consciousness: row.consciousness,
+      signs: row.signs || [],
+      ...(row.injury_assessment && { injuryAssessment: row.injury_assessment }),
+      interventions: row.interventions || [],
+      ...(row.disposition && { disposition: row.disposition }),
+      timeToTreatment: {
+        targetMinutes: row.target_minutes,
+        ...(dueAt && { dueAt }),
+        ...(startedAt && { startedAt }),
+        ...(row.treatment_started_by && { startedBy: row.treatment_started_by }),
+        waitMinutes: Math.max(Math.round((waitedUntil.getTime() - arrivalTime.getTime()) / 60000), 0),
+        breached: dueAt !== undefined && waitedUntil > dueAt,
+        ...(row.breach_alerted_at && { alertedAt: row.breach_alerted_at }),
+      },
+      provider: row.triaged_by,
+      arrivalTime,
+      assessmentTime: row.assessment_time,
+      ...(row.disposed_at && { disposedAt: row.disposed_at }),
+      ...(row.disposed_by && { disposedBy: row.disposed_by }),
+      ...(row.notes && { notes: row.notes }),
+      ...(row.mrn && {
+        patient: { id: row.patient_id, mrn: row.mrn, firstName: row.first_name, lastName: row.last_name },
+      }),
+    };
+  }
+}
+
+// Create and export singleton instance
+export const emergencyService = new EmergencyService();
@@ -0,0 +1,515 @@
+import { validate as isUuid } from 'uuid';
+import { PatientTypes } from '@zarishhealthcare/shared-types';
+import { database, Queryable } from '../config/database';
+import { ConflictError, NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { patientRepository, PATIENTS_TABLE, PATIENT_AGE_SQL } from '../repositories/PatientRepository';
+import { auditService, AuditEntry } from './AuditService';
+import { analyticsAllowedSql } from '../utils/consent';
+import { FieldError } from '../utils/patientValidation';
+import { logger } from '../utils/logger';
+
+const HOUSEHOLDS_TABLE = 'clinical.households';
+const MEMBERS_TABLE = 'clinical.household_members';
+
+export const RELATIONSHIPS: PatientTypes.HouseholdRelationship[] = [
+  'head',
+  'spouse',
+  'child',
+  'parent',
+  'sibling',
+  'grandchild',
+  'grandparent',
+  'other_relative',
+  'non_relative',
+];
+
+const IMMUNIZATION_STATUSES: PatientTypes.ImmunizationCoverageStatus[] = ['complete', 'partial', 'none', 'unknown'];
+const NUTRITION_STATUSES: PatientTypes.NutritionScreeningStatus[] = ['normal', 'mam', 'sam', 'unknown'];
+
+type HouseholdAuditContext = Pick<AuditEntry, 'userId' | 'sessionId' | 'ipAddress' | 'userAgent'> & { userId: string };
+
+export interface HouseholdIndicatorFilters {
+  campLocation?: string;
+  blockNumber?: string;
+  facilityCode?: string;
+}
+
+function validateMember(member: Partial<PatientTypes.HouseholdMemberRequest>, index?: number): FieldError[] {
+  const prefix = index === undefined ? '' : `members[${index}].`;
+  const errors: FieldError[] = [];
+
+  if (member.relationship !== undefined && !RELATIONSHIPS.includes(member.relationship)) {
+    errors.push({
+      field: `${prefix}relationship`,
+      message: `relationship must be one of: ${RELATIONSHIPS.join(', ')}`,
+      code: 'INVALID_VALUE',
+      value: member.relationship,
+    });
+  }
+
+  if (member.immunizationStatus !== undefined && !IMMUNIZATION_STATUSES.includes(member.immunizationStatus)) {
+    errors.push({
+      field: `${prefix}immunizationStatus`,
+      message: `immunizationStatus must be one of: ${IMMUNIZATION_STATUSES.join(', ')}`,
+      code: 'INVALID_VALUE',
+      value: member.immunizationStatus,
+    });
+  }
+
+  if (member.nutritionStatus !== undefined && !NUTRITION_STATUSES.includes(member.nutritionStatus)) {
+    errors.push({
+      field: `${prefix}nutritionStatus`,
+      message: `nutritionStatus must be one of: ${NUTRITION_STATUSES.join(', ')}`,
+      code: 'INVALID_VALUE',
+      value: member.nutritionStatus,
+    });
+  }
+
+  return errors;
+}
+
+export class HouseholdService {
+  async getHousehold(householdId: string, client: Queryable = database): Promise<PatientTypes.Household> {
+    const result = isUuid(householdId)
+      ? await client.query(`SELECT * FROM ${HOUSEHOLDS_TABLE} WHERE id = $1 AND dissolved_at IS NULL`, [householdId])
+      : { rows: [] };
+
+    if (!result.rows[0]) {
+      throw new NotFoundError('Household', householdId);
+    }
+
+    const members = await client.query(
+      `SELECT m.*, p.*, m.id AS membership_id, p.id AS id
+       FROM ${MEMBERS_TABLE} m
+       JOIN ${PATIENTS_TABLE} p ON p.id = m.patient_id AND p.deleted = FALSE
+       WHERE m.household_id = $1 AND m.left_at IS NULL
+       ORDER BY (m.relationship = 'head') DESC, p.date_of_birth ASC NULLS LAST`,
+      [householdId]
+    );
+
+    return this.toHousehold(result.rows[0], members.rows);
+  }
+
+  async getPatientHousehold(patientId: string): Promise<PatientTypes.Household> {
+    const result = isUuid(patientId)
+      ? await database.query(
+        `SELECT household_id FROM ${MEMBERS_TABLE} WHERE patient_id = $1 AND left_at IS NULL`,
+        [patientId]
+      )
+      : { rows: [] };
+
+    if (!result.rows[0]) {
+      throw new NotFoundError('Household for patient', patientId);
+    }
+
+    return this.getHousehold(result.rows[0].household_id);
+  }
+
+  async createHousehold(
+    request: PatientTypes.CreateHouseholdRequest,
+    audit: HouseholdAuditContext
+  ): Promise<PatientTypes.Household> {
+    const members = request.members || [];
+    const errors: FieldError[] = members.flatMap((member, index) => validateMember(member, index));
+
+    if (!request.campLocation) {
+      errors.push({ field: 'campLocation', message: 'Camp location is required', code: 'REQUIRED_FIELD' });
+    }
+
+    members.forEach((member, index) => {
+      if (!member.patientId || !member.relationship) {
+        errors.push({
+          field: `members[${index}]`,
+          message: 'patientId and relationship are required for each member',
+          code: 'REQUIRED_FIELD',
+        });
+      }
+    });
+
+    if (members.filter(member => member.relationship === 'head').length > 1) {
+      errors.push({ field: 'members', message: 'A household can have only one head', code: 'INVALID_VALUE' });
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid household', errors);
+    }
+
+    const household = await database.transaction(async (client) => {
+      const result = await client.query(
+        `INSERT INTO ${HOUSEHOLDS_TABLE} (
+           camp_location, block_number, shelter_id, facility_code, created_by, updated_by
+         )
+         VALUES ($1, $2, $3, $4, $5, $5)
+         RETURNING id`,
+        [
+          request.campLocation,
+          request.blockNumber || null,
+          request.shelterId || null,
+          request.facilityCode || null,
+          audit.userId,
+        ]
+      );
+      const householdId = result.rows[0].id;
+
+      for (const member of members) {
+        await this.insertMember(client, householdId, member, audit.userId);
+      }
+
+      await auditService.record({
+        ...audit,
+        entityType: 'household',
+        entityId: householdId,
+        action: 'create',
+        metadata: {
+          businessContext: { campLocation: request.campLocation, memberIds: members.map(member => member.patientId) },
+        },
+      }, client);
+
+      return this.getHousehold(householdId, client);
+    });
+
+    logger.info('Household created', {
+      action: 'household_created',
+      householdId: household.id,
+      members: household.members.length,
+      userId: audit.userId,
+    });
+
+    return household;
+  }
+
+  async updateHousehold(
+    householdId: string,
+    request: PatientTypes.UpdateHouseholdRequest,
+    audit: HouseholdAuditContext
+  ): Promise<PatientTypes.Household> {
+    return database.transaction(async (client) => {
+      const current = await this.getHousehold(householdId, client);
+
+      await client.query(
+        `UPDATE ${HOUSEHOLDS_TABLE}
+         SET camp_location = $2, block_number = $3, shelter_id = $4, facility_code = $5,
+             updated_by = $6, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [
+          householdId,
+          request.campLocation || current.campLocation,
+          request.blockNumber !== undefined ? request.blockNumber || null : current.blockNumber || null,
+          request.shelterId !== undefined ? request.shelterId || null : current.shelterId || null,
+          request.facilityCode !== undefined ? request.facilityCode || null : current.facilityCode || null,
+          audit.userId,
+        ]
+      );
+
+      await auditService.record({
+        ...audit,
+        entityType: 'household',
+        entityId: householdId,
+        action: 'update',
+        metadata: {
+          businessContext: { changes: request },
+        },
+      }, client);
+
+      return this.getHousehold(householdId, client);
+    });
+  }
+
+  // Members leave rather than being deleted, so past composition stays on record
+  async dissolveHousehold(householdId: string, audit: HouseholdAuditContext): Promise<void> {
+    await database.transaction(async (client) => {
+      await this.getHousehold(householdId, client);
+
+      await client.query(
+        `UPDATE ${MEMBERS_TABLE} SET left_at = CURRENT_TIMESTAMP, removed_by = $2
+         WHERE household_id = $1 AND left_at IS NULL`,
+        [householdId, audit.userId]
+      );
+      await client.query(
+        `UPDATE ${HOUSEHOLDS_TABLE} SET dissolved_at = CURRENT_TIMESTAMP, dissolved_by = $2 WHERE id = $1`,
+        [householdId, audit.userId]
+      );
+
+      await auditService.record({
+        ...audit,
+        entityType: 'household',
+        entityId: householdId,
+        action: 'delete',
+      }, client);
+    });
+
+    logger.info('Household dissolved', {
+      action: 'household_dissolved',
+      householdId,
+      userId: audit.userId,
+    });
+  }
+
+  async addMember(
+    householdId: string,
+    member: PatientTypes.HouseholdMemberRequest,
+    audit: HouseholdAuditContext
+  ): Promise<PatientTypes.Household> {
+    const errors = validateMember(member);
+    if (!member.patientId || !member.relationship) {
+      errors.push({ field: 'member', message: 'patientId and relationship are required', code: 'REQUIRED_FIELD' });
+    }
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid household member', errors);
+    }
+
+    return database.transaction(async (client) => {
+      await this.getHousehold(householdId, client);
+      await this.insertMember(client, householdId, member, audit.userId);
+
+      await auditService.record({
+        ...audit,
+        entityType: 'household',
+        entityId: householdId,
+        action: 'update',
+        metadata: {
+          businessContext: { addedPatientId: member.patientId, relationship: member.relationship },
+        },
+      }, client);
+
+      return this.getHousehold(householdId, client);
+    });
+  }
+
+  // Relationship changes and coverage status updates for one member
+  async updateMember(
+    householdId: string,
+    patientId: string,
+    changes: Partial<Omit<PatientTypes.HouseholdMemberRequest, 'patientId'>>,
+    audit: HouseholdAuditContext
+  ): Promise<PatientTypes.Household> {
+    const errors = validateMember(changes);
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid household member', errors);
+    }
+
+    return database.transaction(async (client) => {
+      const current = await this.findMembership(client, householdId, patientId);
+
+      if (changes.relationship === 'head' && current.relationship !== 'head') {
+        await this.assertNoHead(client, householdId);
+      }
+
+      const statusChanged = changes.immunizationStatus !== undefined || changes.nutritionStatus !== undefined;
+
+      await client.query(
+        `UPDATE ${MEMBERS_TABLE}
+         SET relationship = $2, immunization_status = $3, nutrition_status = $4,
+             status_assessed_at = CASE WHEN $5 THEN CURRENT_TIMESTAMP ELSE status_assessed_at END
+         WHERE id = $1`,
+        [
+          current.id,
+          changes.relationship || current.relationship,
+          changes.immunizationStatus || current.immunization_status,
+          changes.nutritionStatus || current.nutrition_status,
+          statusChanged,
+        ]
+      );
+
+      await auditService.record({
+        ...audit,
+        entityType: 'household',
+        entityId: householdId,
+        action: 'update',
+        metadata: {
+          businessContext: { patientId, changes },
+        },
+      }, client);
+
+      return this.getHousehold(householdId, client);
+    });
+  }
+
+  async removeMember(
+    householdId: string,
+    patientId: string,
+    audit: HouseholdAuditContext
+  ): Promise<PatientTypes.Household> {
+    return database.transaction(async (client) => {
+      const current = await this.findMembership(client, householdId, patientId);
+
+      await client.query(
+        `UPDATE ${MEMBERS_TABLE} SET left_at = CURRENT_TIMESTAMP, removed_by = $2 WHERE id = $1`,
+        [current.id, audit.userId]
+      );
+
+      await auditService.record({
+        ...audit,
+        entityType: 'household',
+        entityId: householdId,
+        action: 'update',
+        metadata: {
+          businessContext: { removedPatientId: patientId, relationship: current.relationship },
+        },
+      }, client);
+
+      return this.getHousehold(householdId, client);
+    });
+  }
+
+  // Household-level indicators for a camp, block or facility catchment. Members who opted out of
+  // research use are left out of the counts.
+  async getIndicators(filters: HouseholdIndicatorFilters): Promise<PatientTypes.HouseholdIndicators> {
+    const params: any[] = [];
+    const conditions = ['h.dissolved_at IS NULL'];
+
+    if (filters.campLocation) {
+      params.push(filters.campLocation);
+      conditions.push(`h.camp_location = $${params.length}`);
+    }
+    if (filters.blockNumber) {
+      params.push(filters.blockNumber);
+      conditions.push(`h.block_number = $${params.length}`);
+    }
+    if (filters.facilityCode) {
+      params.push(filters.facilityCode);
+      conditions.push(`h.facility_code = $${params.length}`);
+    }
+
+    const result = await database.query(
+      `WITH members AS (
+         SELECT m.household_id, m.relationship, m.immunization_status, m.nutrition_status,
+                p.gender, ${PATIENT_AGE_SQL} < 5 AS under_five
+         FROM ${HOUSEHOLDS_TABLE} h
+         JOIN ${MEMBERS_TABLE} m ON m.household_id = h.id AND m.left_at IS NULL
+         JOIN ${PATIENTS_TABLE} p ON p.id = m.patient_id AND p.deleted = FALSE AND ${analyticsAllowedSql('p.id')}
+         WHERE ${conditions.join(' AND ')}
+       )
+       SELECT COUNT(DISTINCT household_id) AS households,
+              COUNT(*) AS members,
+              COUNT(*) FILTER (WHERE relationship = 'head' AND gender = 'female') AS female_headed,
+              COUNT(DISTINCT household_id) FILTER (WHERE under_five) AS with_under_five,
+              COUNT(*) FILTER (WHERE under_five) AS under_five,
+              COUNT(*) FILTER (WHERE under_five AND immunization_status = 'complete') AS under_five_immunized,
+              COUNT(*) FILTER (WHERE under_five AND nutrition_status <> 'unknown') AS nutrition_screened,
+              COUNT(*) FILTER (WHERE under_five AND nutrition_status IN ('mam', 'sam')) AS acute_malnutrition,
+              COUNT(*) FILTER (WHERE under_five AND nutrition_status = 'sam') AS severe_acute_malnutrition
+       FROM members`,
+      params
+    );
+
+    const row = result.rows[0];
+    const households = parseInt(row.households, 10);
+    const members = parseInt(row.members, 10);
+    const underFive = parseInt(row.under_five, 10);
+    const immunized = parseInt(row.under_five_immunized, 10);
+
+    return {
+      households,
+      members,
+      averageSize: households > 0 ? Math.round((members / households) * 10) / 10 : null,
+      femaleHeaded: parseInt(row.female_headed, 10),
+      withUnderFive: parseInt(row.with_under_five, 10),
+      underFive,
+      underFiveFullyImmunized: immunized,
+      immunizationCoverage: underFive > 0 ? Math.round((immunized / underFive) * 1000) / 1000 : null,
+      nutritionScreened: parseInt(row.nutrition_screened, 10),
+      acuteMalnutrition: parseInt(row.acute_malnutrition, 10),
+      severeAcuteMalnutrition: parseInt(row.severe_acute_malnutrition, 10),
+    };
+  }
+
+  private async insertMember(
+    client: Queryable,
+    householdId: string,
+    member: PatientTypes.HouseholdMemberRequest,
+    userId: string
+  ): Promise<void> {
+    const patient = await patientRepository.findById(member.patientId, client);
+    if (!patient) {
+      throw new NotFoundError('Patient', member.patientId);
+    }
+
+    const existing = await client.query(
+      `SELECT household_id FROM ${MEMBERS_TABLE} WHERE patient_id = $1 AND left_at IS NULL`,
+      [member.patientId]
+    );
+    if (existing.rows[0]) {
+      throw new ConflictError(
+        `Patient ${patient.mrn} already belongs to household ${existing.rows[0].household_id}; ` +
+        'remove them from it first'
+      );
+    }
+
+    if (member.relationship === 'head') {
+      await this.assertNoHead(client, householdId);
+    }
+
+    const assessed = member.immunizationStatus !== undefined || member.nutritionStatus !== undefined;
+
+    await client.query(
+      `INSERT INTO ${MEMBERS_TABLE} (
+         household_id, patient_id, relationship, immunization_status, nutrition_status, status_assessed_at, added_by
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [
+        householdId,
+        member.patientId,
+        member.relationship,
+        member.immunizationStatus || 'unknown',
+        member.nutritionStatus || 'unknown',
+        assessed ? new Date() : null,
+        userId,
+      ]
+    );
+  }
+
+  private async assertNoHead(client: Queryable, householdId: string): Promise<void> {
+    const head = await client.query(
+      `SELECT patient_id FROM ${MEMBERS_TABLE} WHERE household_id = $1 AND relationship = 'head' AND left_at IS NULL`,
+      [householdId]
+    );
+
+    if (head.rows[0]) {
+      throw new ConflictError('The household already has a head; change their relationship first');
+    }
+  }
+
+  private async findMembership(client: Queryable, householdId: string, patientId: string): Promise<any> {
+    const result = isUuid(householdId) && isUuid(patientId)
+      ? await client.query(
+        `SELECT * FROM ${MEMBERS_TABLE} WHERE household_id = $1 AND patient_id = $2 AND left_at IS NULL FOR UPDATE`,
+        [householdId, patientId]
+      )
+      : { rows: [] };
+
+    if (!result.rows[0]) {
+      throw new NotFoundError('Household member', patientId);
+    }
+
+    return result.rows[0];
+  }
+
+  private toHousehold(row: any, memberRows: any[]): PatientTypes.Household {
+    const members: PatientTypes.HouseholdMember[] = memberRows.map(member => ({
+      patientId: member.patient_id,
+      relationship: member.relationship,
+      joinedAt: member.joined_at,
+      immunizationStatus: member.immunization_status,
+      nutritionStatus: member.nutrition_status,
+      ...(member.status_assessed_at && { statusAssessedAt: member.status_assessed_at }),
+      patient: patientRepository.toPatient(member),
+    }));
+    const head = members.find(member => member.relationship === 'head');
+
+    return {
+      id: row.id,
+      ...(head && { headPatientId: head.patientId }),
+      campLocation: row.camp_location,
+      ...(row.block_number && { blockNumber: row.block_number }),
+      ...(row.shelter_id && { shelterId: row.shelter_id }),
+      ...(row.facility_code && { facilityCode: row.facility_code }),
+      members,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      createdBy: row.created_by,
+    };
+  }
+}
+
+// Create and export singleton instance
+export const householdService = new HouseholdService();
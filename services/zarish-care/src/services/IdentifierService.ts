@@ -0,0 +1,539 @@
+import { validate as isUuid } from 'uuid';
+import { PatientTypes } from '@zarishhealthcare/shared-types';
+import { database, Queryable } from '../config/database';
+import { BadRequestError, ConflictError, NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { patientRepository, PATIENTS_TABLE } from '../repositories/PatientRepository';
+import { auditService, AuditEntry } from './AuditService';
+import { patientHistoryService } from './PatientHistoryService';
+import { FieldError } from '../utils/patientValidation';
+import { logger } from '../utils/logger';
+
+const TYPES_TABLE = 'clinical.identifier_types';
+const IDENTIFIERS_TABLE = 'clinical.patient_identifiers';
+
+const UNIQUENESS_SCOPES: PatientTypes.IdentifierUniquenessScope[] = ['global', 'facility', 'none'];
+
+// Registry types that are also kept in demographics.documentation, which search, duplicate
+// detection and export still read
+const DOCUMENTATION_FIELDS: Record<string, keyof PatientTypes.PatientDocumentation> = {
+  smart_card: 'smartCardId',
+  unhcr_id: 'unhcrId',
+  national_id: 'nationalId',
+  birth_certificate: 'birthCertificate',
+};
+
+type IdentifierAuditContext = Pick<AuditEntry, 'userId' | 'sessionId' | 'ipAddress' | 'userAgent'> & { userId: string };
+
+export interface IdentifierLookup {
+  patient: PatientTypes.Patient;
+  identifier: PatientTypes.PatientIdentifier;
+}
+
+export class IdentifierService {
+  async listTypes(): Promise<PatientTypes.IdentifierType[]> {
+    const result = await database.query(`SELECT * FROM ${TYPES_TABLE} ORDER BY name`);
+    return result.rows.map(row => this.toType(row));
+  }
+
+  async getType(code: string, client: Queryable = database): Promise<PatientTypes.IdentifierType> {
+    const result = await client.query(`SELECT * FROM ${TYPES_TABLE} WHERE code = $1`, [code]);
+
+    if (!result.rows[0]) {
+      throw new NotFoundError('Identifier type', code);
+    }
+
+    return this.toType(result.rows[0]);
+  }
+
+  async saveType(type: PatientTypes.IdentifierType, userId: string): Promise<PatientTypes.IdentifierType> {
+    const errors: FieldError[] = [];
+
+    if (!/^[a-z][a-z0-9_]{1,49}$/.test(type.code || '')) {
+      errors.push({
+        field: 'code',
+        message: 'code must be lowercase letters, digits and underscores',
+        code: 'INVALID_FORMAT',
+        value: type.code,
+      });
+    }
+
+    if (!type.name) {
+      errors.push({ field: 'name', message: 'Name is required', code: 'REQUIRED_FIELD' });
+    }
+
+    if (type.formatRegex) {
+      try {
+        new RegExp(type.formatRegex);
+      } catch {
+        errors.push({
+          field: 'formatRegex',
+          message: 'formatRegex is not a valid regular expression',
+          code: 'INVALID_FORMAT',
+          value: type.formatRegex,
+        });
+      }
+    }
+
+    if (!UNIQUENESS_SCOPES.includes(type.uniquenessScope)) {
+      errors.push({
+        field: 'uniquenessScope',
+        message: `uniquenessScope must be one of: ${UNIQUENESS_SCOPES.join(', ')}`,
+        code: 'INVALID_VALUE',
+        value: type.uniquenessScope,
+      });
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid identifier type', errors);
+    }
+
+    const result = await database.query(
+      `INSERT INTO ${TYPES_TABLE} (
+         code, name, format_regex, issuing_authority, uniqueness_scope, printable, active, updated_by
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (code) DO UPDATE SET
+         name = EXCLUDED.name,
+         format_regex = EXCLUDED.format_regex,
+         issuing_authority = EXCLUDED.issuing_authority,
+         uniqueness_scope = EXCLUDED.uniqueness_scope,
+         printable = EXCLUDED.printable,
+         active = EXCLUDED.active,
+         updated_by = EXCLUDED.updated_by,
+         updated_at = CURRENT_TIMESTAMP
+       RETURNING *`,
+      [
+        type.code,
+        type.name,
+        type.formatRegex || null,
+        type.issuingAuthority || null,
+        type.uniquenessScope,
+        type.printable !== false,
+        type.active !== false,
+        userId,
+      ]
+    );
+
+    logger.info('Identifier type saved', {
+      action: 'identifier_type_saved',
+      code: type.code,
+      userId,
+    });
+
+    return this.toType(result.rows[0]);
+  }
+
+  // Current and past identifiers; replaced and revoked entries form the history
+  async getPatientIdentifiers(patientId: string): Promise<PatientTypes.PatientIdentifier[]> {
+    const result = await database.query(
+      `SELECT * FROM ${IDENTIFIERS_TABLE} WHERE patient_id = $1
+       ORDER BY type_code, (status = 'active') DESC, created_at DESC`,
+      [patientId]
+    );
+    return result.rows.map(row => this.toIdentifier(row));
+  }
+
+  async addIdentifier(
+    patientId: string,
+    request: PatientTypes.AddPatientIdentifierRequest,
+    audit: IdentifierAuditContext
+  ): Promise<PatientTypes.PatientIdentifier> {
+    if (!request.type || !request.value) {
+      throw new BadRequestError('Identifier type and value are required');
+    }
+
+    const identifier = await database.transaction(async (client) => {
+      const patient = await this.lockPatient(client, patientId);
+      const existing = await client.query(
+        `SELECT id FROM ${IDENTIFIERS_TABLE} WHERE patient_id = $1 AND type_code = $2 AND status = 'active'`,
+        [patientId, request.type]
+      );
+
+      if (existing.rows[0]) {
+        throw new ConflictError(
+          `Patient already has an active ${request.type} identifier (${existing.rows[0].id}); replace it instead`
+        );
+      }
+
+      const created = await patientHistoryService.track(
+        patientId,
+        { ...audit, action: 'update', metadata: { businessContext: { identifierType: request.type } } },
+        client,
+        () => this.insert(client, patient, request.type, request.value, request.issuedAt, null, audit.userId)
+      );
+
+      await auditService.record({
+        ...audit,
+        entityType: 'patient_identifier',
+        entityId: created.id,
+        action: 'create',
+        metadata: {
+          businessContext: { patientId, type: request.type },
+        },
+      }, client);
+
+      return created;
+    });
+
+    logger.info('Patient identifier added', {
+      action: 'patient_identifier_added',
+      identifierId: identifier.id,
+      patientId,
+      type: identifier.type,
+      userId: audit.userId,
+    });
+
+    return identifier;
+  }
+
+  // A new card or document number: the old entry stays as history, linked to its replacement
+  async replaceIdentifier(
+    patientId: string,
+    identifierId: string,
+    request: PatientTypes.ReplacePatientIdentifierRequest,
+    audit: IdentifierAuditContext
+  ): Promise<PatientTypes.PatientIdentifier> {
+    if (!request.value) {
+      throw new BadRequestError('New identifier value is required');
+    }
+
+    const identifier = await database.transaction(async (client) => {
+      const patient = await this.lockPatient(client, patientId);
+      const current = await this.findActive(client, patientId, identifierId);
+
+      const created = await patientHistoryService.track(
+        patientId,
+        { ...audit, action: 'update', metadata: { businessContext: { identifierType: current.type_code } } },
+        client,
+        () => this.insert(client, patient, current.type_code, request.value, request.issuedAt, current.id, audit.userId)
+      );
+
+      await client.query(
+        `UPDATE ${IDENTIFIERS_TABLE}
+         SET status = 'replaced', replaced_by_id = $2, ended_at = CURRENT_TIMESTAMP, ended_by = $3, end_reason = $4
+         WHERE id = $1`,
+        [current.id, created.id, audit.userId, request.reason || null]
+      );
+
+      await auditService.record({
+        ...audit,
+        entityType: 'patient_identifier',
+        entityId: created.id,
+        action: 'update',
+        changes: [{
+          field: 'value',
+          oldValue: current.value,
+          newValue: created.value,
+          dataType: 'string',
+          sensitive: true,
+        }],
+        metadata: {
+          businessContext: { patientId, type: current.type_code, replacesId: current.id, reason: request.reason },
+        },
+      }, client);
+
+      return created;
+    });
+
+    logger.info('Patient identifier replaced', {
+      action: 'patient_identifier_replaced',
+      identifierId: identifier.id,
+      replacesId: identifierId,
+      patientId,
+      type: identifier.type,
+      userId: audit.userId,
+    });
+
+    return identifier;
+  }
+
+  async revokeIdentifier(
+    patientId: string,
+    identifierId: string,
+    reason: string | undefined,
+    audit: IdentifierAuditContext
+  ): Promise<PatientTypes.PatientIdentifier> {
+    const identifier = await database.transaction(async (client) => {
+      await this.lockPatient(client, patientId);
+      const current = await this.findActive(client, patientId, identifierId);
+
+      const result = await client.query(
+        `UPDATE ${IDENTIFIERS_TABLE}
+         SET status = 'revoked', ended_at = CURRENT_TIMESTAMP, ended_by = $2, end_reason = $3
+         WHERE id = $1
+         RETURNING *`,
+        [current.id, audit.userId, reason || null]
+      );
+
+      await patientHistoryService.track(
+        patientId,
+        { ...audit, action: 'update', metadata: { businessContext: { identifierType: current.type_code } } },
+        client,
+        () => this.mirrorToDocumentation(client, patientId, current.type_code, null, audit.userId)
+      );
+
+      await auditService.record({
+        ...audit,
+        entityType: 'patient_identifier',
+        entityId: current.id,
+        action: 'delete',
+        metadata: {
+          businessContext: { patientId, type: current.type_code, reason },
+        },
+      }, client);
+
+      return this.toIdentifier(result.rows[0]);
+    });
+
+    logger.info('Patient identifier revoked', {
+      action: 'patient_identifier_revoked',
+      identifierId,
+      patientId,
+      type: identifier.type,
+      userId: audit.userId,
+    });
+
+    return identifier;
+  }
+
+  // Active identifiers win; a replaced card still finds its patient so old cards keep working
+  async findPatient(type: string, value: string, facilityCode?: string): Promise<IdentifierLookup> {
+    const identifierType = await this.getType(type);
+    const params: any[] = [type, value.trim()];
+    let facilityClause = '';
+
+    if (identifierType.uniquenessScope === 'facility' && facilityCode) {
+      params.push(facilityCode);
+      facilityClause = `AND i.facility_code = $${params.length}`;
+    }
+
+    const result = await database.query(
+      `SELECT i.* FROM ${IDENTIFIERS_TABLE} i
+       JOIN ${PATIENTS_TABLE} p ON p.id = i.patient_id AND p.deleted = FALSE
+       WHERE i.type_code = $1 AND upper(i.value) = upper($2) AND i.status <> 'revoked' ${facilityClause}
+       ORDER BY (i.status = 'active') DESC, i.created_at DESC`,
+      params
+    );
+
+    const active = result.rows.filter(row => row.status === 'active');
+    const patientIds = new Set((active.length > 0 ? active : result.rows).map(row => row.patient_id));
+
+    if (patientIds.size > 1) {
+      throw new ConflictError(
+        identifierType.uniquenessScope === 'facility' && !facilityCode
+          ? `${identifierType.name} ${value} is used at several facilities; pass facilityCode`
+          : `${identifierType.name} ${value} matches more than one patient`
+      );
+    }
+
+    const row = result.rows[0];
+    const patient = row ? await patientRepository.findById(row.patient_id) : null;
+
+    if (!row || !patient) {
+      throw new NotFoundError(`Patient with ${identifierType.name}`, value);
+    }
+
+    return { patient, identifier: this.toIdentifier(row) };
+  }
+
+  // Registers document numbers given through patient create/update, replacing any active
+  // identifier of the same type that differs
+  async syncDocumentation(patient: PatientTypes.Patient, userId: string, client: Queryable): Promise<void> {
+    const documentation = patient.demographics.documentation || {};
+
+    for (const [type, field] of Object.entries(DOCUMENTATION_FIELDS)) {
+      const value = typeof documentation[field] === 'string' ? (documentation[field] as string).trim() : '';
+      if (!value) {
+        continue;
+      }
+
+      const existing = await client.query(
+        `SELECT id, value FROM ${IDENTIFIERS_TABLE} WHERE patient_id = $1 AND type_code = $2 AND status = 'active'`,
+        [patient.id, type]
+      );
+      const current = existing.rows[0];
+
+      if (current && current.value.toUpperCase() === value.toUpperCase()) {
+        continue;
+      }
+
+      const created = await this.insert(client, patient, type, value, undefined, current?.id || null, userId);
+
+      if (current) {
+        await client.query(
+          `UPDATE ${IDENTIFIERS_TABLE}
+           SET status = 'replaced', replaced_by_id = $2, ended_at = CURRENT_TIMESTAMP, ended_by = $3
+           WHERE id = $1`,
+          [current.id, created.id, userId]
+        );
+      }
+    }
+  }
+
+  // Checks format and uniqueness, then writes the identifier (and its documentation mirror)
+  private async insert(
+    client: Queryable,
+    patient: PatientTypes.Patient,
+    type: string,
+    rawValue: string,
+    issuedAt: string | undefined,
+    replacesId: string | null,
+    userId: string
+  ): Promise<PatientTypes.PatientIdentifier> {
+    const identifierType = await this.getType(type, client);
+    const value = rawValue.trim();
+
+    if (!identifierType.active) {
+      throw new BadRequestError(`Identifier type ${type} is no longer in use`);
+    }
+
+    if (identifierType.formatRegex && !new RegExp(identifierType.formatRegex).test(value)) {
+      throw new ValidationError(`Invalid ${identifierType.name}`, [{
+        field: DOCUMENTATION_FIELDS[type] || 'value',
+        message: `${identifierType.name} does not match the expected format`,
+        code: 'INVALID_FORMAT',
+        value,
+      }]);
+    }
+
+    if (issuedAt && isNaN(new Date(issuedAt).getTime())) {
+      throw new ValidationError(`Invalid ${identifierType.name}`, [{
+        field: 'issuedAt',
+        message: 'issuedAt must be a valid date',
+        code: 'INVALID_FORMAT',
+        value: issuedAt,
+      }]);
+    }
+
+    if (identifierType.uniquenessScope !== 'none') {
+      // Serialises writers of the same value so two registrations cannot both pass the check
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`identifier:${type}:${value.toUpperCase()}`]);
+
+      const params: any[] = [type, value, patient.id];
+      let scopeClause = '';
+      if (identifierType.uniquenessScope === 'facility') {
+        params.push(patient.facilityCode);
+        scopeClause = `AND i.facility_code = $${params.length}`;
+      }
+
+      const taken = await client.query(
+        `SELECT p.patient_id AS mrn FROM ${IDENTIFIERS_TABLE} i
+         JOIN ${PATIENTS_TABLE} p ON p.id = i.patient_id AND p.deleted = FALSE
+         WHERE i.type_code = $1 AND upper(i.value) = upper($2) AND i.status = 'active'
+           AND i.patient_id <> $3 ${scopeClause}
+         LIMIT 1`,
+        params
+      );
+
+      if (taken.rows[0]) {
+        throw new ConflictError(`${identifierType.name} ${value} is already assigned to patient ${taken.rows[0].mrn}`);
+      }
+    }
+
+    const result = await client.query(
+      `INSERT INTO ${IDENTIFIERS_TABLE} (
+         patient_id, type_code, value, facility_code, issued_at, replaces_id, created_by
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [patient.id, type, value, patient.facilityCode || null, issuedAt || null, replacesId, userId]
+    );
+
+    await this.mirrorToDocumentation(client, patient.id, type, value, userId);
+
+    return this.toIdentifier(result.rows[0]);
+  }
+
+  private async mirrorToDocumentation(
+    client: Queryable,
+    patientId: string,
+    type: string,
+    value: string | null,
+    userId: string
+  ): Promise<void> {
+    const field = DOCUMENTATION_FIELDS[type];
+    if (!field) {
+      return;
+    }
+
+    await client.query(
+      `UPDATE ${PATIENTS_TABLE}
+       SET demographics = CASE
+             WHEN $3::text IS NULL THEN demographics #- ARRAY['documentation', $2]
+             ELSE jsonb_set(
+               jsonb_set(demographics, '{documentation}', COALESCE(demographics->'documentation', '{}'::jsonb)),
+               ARRAY['documentation', $2], to_jsonb($3::text)
+             )
+           END,
+           updated_by = $4,
+           updated_at = CURRENT_TIMESTAMP,
+           version = version + 1
+       WHERE id = $1 AND demographics->'documentation'->>$2 IS DISTINCT FROM $3::text`,
+      [patientId, field, value, userId]
+    );
+  }
+
+  private async lockPatient(client: Queryable, patientId: string): Promise<PatientTypes.Patient> {
+    const result = isUuid(patientId)
+      ? await client.query(`SELECT * FROM ${PATIENTS_TABLE} WHERE id = $1 AND deleted = FALSE FOR UPDATE`, [patientId])
+      : { rows: [] };
+
+    if (!result.rows[0]) {
+      throw new NotFoundError('Patient', patientId);
+    }
+
+    return patientRepository.toPatient(result.rows[0]);
+  }
+
+  private async findActive(client: Queryable, patientId: string, identifierId: string): Promise<any> {
+    const result = isUuid(identifierId)
+      ? await client.query(
+        `SELECT * FROM ${IDENTIFIERS_TABLE} WHERE id = $1 AND patient_id = $2 FOR UPDATE`,
+        [identifierId, patientId]
+      )
+      : { rows: [] };
+    const row = result.rows[0];
+
+    if (!row) {
+      throw new NotFoundError('Patient identifier', identifierId);
+    }
+
+    if (row.status !== 'active') {
+      throw new ConflictError(`Identifier is ${row.status}; only active identifiers can be changed`);
+    }
+
+    return row;
+  }
+
+  private toType(row: any): PatientTypes.IdentifierType {
+    return {
+      code: row.code,
+      name: row.name,
+      ...(row.format_regex && { formatRegex: row.format_regex }),
+      ...(row.issuing_authority && { issuingAuthority: row.issuing_authority }),
+      uniquenessScope: row.uniqueness_scope,
+      printable: row.printable,
+      active: row.active,
+    };
+  }
+
+  private toIdentifier(row: any): PatientTypes.PatientIdentifier {
+    return {
+      id: row.id,
+      patientId: row.patient_id,
+      type: row.type_code,
+      value: row.value,
+      ...(row.facility_code && { facilityCode: row.facility_code }),
+      status: row.status,
+      ...(row.issued_at && { issuedAt: row.issued_at }),
+      ...(row.replaces_id && { replacesId: row.replaces_id }),
+      ...(row.replaced_by_id && { replacedById: row.replaced_by_id }),
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+      ...(row.ended_at && { endedAt: row.ended_at }),
+      ...(row.ended_by && { endedBy: row.ended_by }),
+      ...(row.end_reason && { endReason: row.end_reason }),
+    };
+  }
+}
+
+// Create and export singleton instance
+export const identifierService = new IdentifierService();
@@ -0,0 +1,1100 @@
+import { CommonTypes, PatientTypes } from '@zarishhealthcare/shared-types';
+import { database, Queryable } from '../config/database';
+import { BadRequestError, ConflictError, NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { patientRepository } from '../repositories/PatientRepository';
+import { auditService, AuditEntry } from './AuditService';
+import { OPEN_STATUSES, programService } from './ProgramService';
+import { realtimeService } from './RealtimeService';
+import { FieldError } from '../utils/patientValidation';
+import { PLAUSIBLE_RANGES } from '../utils/vitalSigns';
+import {
+  ancSchedule,
+  apgarCategory,
+  assessDangerSigns,
+  DANGER_SYMPTOMS,
+  daysBetween,
+  estimatedDueDate,
+  gestationalAge,
+  gestationalAgeFromDays,
+  lmpFromDueDate,
+  MATERNAL_THRESHOLDS,
+  nextContactDate,
+  pncSchedule,
+  PRETERM_DAYS,
+  settleSchedule,
+} from '../utils/maternalCare';
+import { logger } from '../utils/logger';
+
+const PREGNANCIES_TABLE = 'clinical.pregnancies';
+const ANC_TABLE = 'clinical.anc_visits';
+const PNC_TABLE = 'clinical.pnc_visits';
+
+const MATERNAL_PROGRAM_ID = 'maternal';
+
+// Danger-sign alerts go to staff at the facility who can read maternal records
+export const MATERNAL_READ_PERMISSION = 'maternal.read';
+
+// An LMP further back than this is a dating error or a pregnancy that has already ended
+const MAX_GESTATION_DAYS = 44 * 7;
+
+const MAX_GRAVIDA = 20;
+const MAX_NEWBORNS = 6;
+
+const RANGES: Record<string, [number, number]> = {
+  weight: [25, 200],
+  hemoglobin: [2, 20],
+  fundalHeight: [5, 50],
+  fetalHeartRate: [60, 220],
+  temperature: PLAUSIBLE_RANGES.temperature,
+  birthWeight: [300, 6500],
+};
+
+const PROTEINURIA: PatientTypes.Proteinuria[] = ['negative', 'trace', '1+', '2+', '3+', '4+'];
+const DELIVERY_TYPES: PatientTypes.DeliveryInfo['deliveryType'][] = ['normal_vaginal', 'assisted', 'cesarean'];
+const MATERNAL_OUTCOMES: PatientTypes.DeliveryInfo['maternalOutcome'][] = ['alive', 'died'];
+const NEWBORN_SEXES: PatientTypes.NewbornOutcome['sex'][] = ['male', 'female', 'undetermined'];
+const BIRTH_OUTCOMES: PatientTypes.NewbornOutcome['outcome'][] = [
+  'live_birth',
+  'fresh_stillbirth',
+  'macerated_stillbirth',
+];
+const BREASTFEEDING_STATUSES: PatientTypes.PNCVisit['breastfeedingStatus'][] = ['exclusive', 'partial', 'none'];
+const FAMILY_PLANNING_METHODS: PatientTypes.FamilyPlanningMethod['method'][] = [
+  'iud',
+  'implant',
+  'injectable',
+  'pill',
+  'condom',
+  'natural',
+];
+
+// Stands in for the id of a visit not yet inserted when working out which contact it makes
+const NEW_VISIT = 'new';
+
+type MaternalAuditContext = Pick<AuditEntry, 'userId' | 'sessionId' | 'ipAddress' | 'userAgent'> & { userId: string };
+
+export interface ANCOverdueFilters {
+  facilityCode?: string;
+  page: number;
+  limit: number;
+}
+
+type Readings = Pick<PatientTypes.RecordPNCVisitRequest, 'weight' | 'bloodPressure' | 'hemoglobin' | 'symptoms'>
+  & { temperature?: number; complications?: string[] };
+
+const statusChange = (from: string, to: string): CommonTypes.FieldChange => ({
+  field: 'status',
+  oldValue: from,
+  newValue: to,
+  dataType: 'string',
+  sensitive: false,
+});
+
+function parseDate(value: string | undefined, field: string, errors: FieldError[]): Date | null {
+  if (!value) {
+    return null;
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    errors.push({ field, message: `${field} must be a valid date`, code: 'INVALID_FORMAT', value });
+    return null;
+  }
+
+  return date;
+}
+
+// Readings stored in SMALLINT columns are checked with `wholeNumber`
+function checkRange(
+  errors: FieldError[],
+  field: string,
+  value: unknown,
+  [min, max]: [number, number],
+  wholeNumber = false
+): void {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    errors.push({ field, message: `${field} must be a number`, code: 'INVALID_FORMAT', value });
+  } else if (wholeNumber && !Number.isInteger(value)) {
+    errors.push({ field, message: `${field} must be a whole number`, code: 'INVALID_FORMAT', value });
+  } else if (value < min || value > max) {
+    errors.push({ field, message: `${field} must be between ${min} and ${max}`, code: 'INVALID_VALUE', value });
+  }
+}
+
+function checkOneOf<T>(
+  errors: FieldError[],
+  field: string,
+  value: T | undefined,
+  allowed: T[],
+  required = false
+): void {
+  if (value === undefined || value === null) {
+    if (required) {
+      errors.push({ field, message: `${field} is required`, code: 'REQUIRED_FIELD' });
+    }
+  } else if (!allowed.includes(value)) {
+    errors.push({ field, message: `${field} must be one of: ${allowed.join(', ')}`, code: 'INVALID_VALUE', value });
+  }
+}
+
+function checkText(errors: FieldError[], field: string, value: unknown): void {
+  if (typeof value !== 'string' || !value.trim()) {
+    errors.push({ field, message: `${field} is required`, code: 'REQUIRED_FIELD' });
+  }
+}
+
+// Visit and delivery dates: now when omitted, never in the future
+function eventDate(value: string | undefined, field: string, errors: FieldError[]): Date {
+  const date = parseDate(value, field, errors) || new Date();
+
+  if (date > new Date()) {
+    errors.push({ field, message: `${field} cannot be in the future`, code: 'INVALID_VALUE', value });
+  }
+
+  return date;
+}
+
+function nextVisit(value: string | undefined, after: Date, errors: FieldError[]): Date | null {
+  const date = parseDate(value, 'nextVisitDate', errors);
+
+  if (date && date <= after) {
+    errors.push({
+      field: 'nextVisitDate',
+      message: 'nextVisitDate must be after the visit',
+      code: 'INVALID_VALUE',
+      value,
+    });
+  }
+
+  return date;
+}
+
+// Readings and findings shared by antenatal and postnatal visits
+function validateReadings(request: Readings, errors: FieldError[]): void {
+  if (request.weight !== undefined) {
+    checkRange(errors, 'weight', request.weight, RANGES.weight!);
+  }
+
+  if (request.bloodPressure) {
+    const { systolic, diastolic } = request.bloodPressure;
+    checkRange(errors, 'bloodPressure.systolic', systolic, PLAUSIBLE_RANGES.systolic, true);
+    checkRange(errors, 'bloodPressure.diastolic', diastolic, PLAUSIBLE_RANGES.diastolic, true);
+
+    if (diastolic >= systolic) {
+      errors.push({
+        field: 'bloodPressure.diastolic',
+        message: 'Diastolic pressure must be lower than systolic pressure',
+        code: 'INVALID_VALUE',
+        value: diastolic,
+      });
+    }
+  }
+
+  if (request.hemoglobin !== undefined) {
+    checkRange(errors, 'hemoglobin', request.hemoglobin, RANGES.hemoglobin!);
+  }
+
+  if (request.temperature !== undefined) {
+    checkRange(errors, 'temperature', request.temperature, RANGES.temperature!);
+  }
+
+  const symptoms = request.symptoms ?? [];
+  if (!Array.isArray(symptoms) || symptoms.some(symptom => !DANGER_SYMPTOMS.includes(symptom))) {
+    errors.push({
+      field: 'symptoms',
+      message: `symptoms must be from: ${DANGER_SYMPTOMS.join(', ')}`,
+      code: 'INVALID_VALUE',
+      value: request.symptoms,
+    });
+  }
+
+  if (!(request.complications || []).every(complication => typeof complication === 'string' && complication.trim())) {
+    errors.push({
+      field: 'complications',
+      message: 'complications must be a list of descriptions',
+      code: 'INVALID_VALUE',
+      value: request.complications,
+    });
+  }
+}
+
+const trimmed = (values: string[] | undefined): string[] => (values || []).map(value => value.trim());
+
+export class MaternalService {
+  async getPatientPregnancies(patientId: string): Promise<PatientTypes.MaternalHealth[]> {
+    await this.requirePatient(patientId);
+
+    const result = await database.query(
+      `SELECT * FROM ${PREGNANCIES_TABLE} WHERE patient_id = $1 ORDER BY registered_at DESC`,
+      [patientId]
+    );
+
+    return this.hydrate(result.rows);
+  }
+
+  async getPregnancy(pregnancyId: string): Promise<PatientTypes.MaternalHealth> {
+    const result = await database.query(`SELECT * FROM ${PREGNANCIES_TABLE} WHERE id = $1`, [pregnancyId]);
+
+    if (!result.rows[0]) {
+      throw new NotFoundError('Pregnancy', pregnancyId);
+    }
+
+    const [pregnancy] = await this.hydrate(result.rows);
+    return pregnancy!;
+  }
+
+  // Dates the pregnancy from the LMP, or from an ultrasound EDD when one is given, and books the
+  // first WHO contact still ahead. A previous pregnancy still in its postnatal period is closed.
+  async registerPregnancy(
+    patientId: string,
+    request: PatientTypes.RegisterPregnancyRequest,
+    audit: MaternalAuditContext
+  ): Promise<PatientTypes.MaternalHealth> {
+    const errors: FieldError[] = [];
+    const today = new Date();
+    const lmpDate = parseDate(request.lmp, 'lmp', errors);
+    const edd = parseDate(request.edd, 'edd', errors);
+    const lmp = edd ? lmpFromDueDate(edd) : lmpDate;
+
+    if (!request.lmp && !request.edd) {
+      errors.push({ field: 'lmp', message: 'lmp or edd is required', code: 'REQUIRED_FIELD' });
+    }
+
+    if (lmp) {
+      const field = edd ? 'edd' : 'lmp';
+      const days = daysBetween(lmp, today);
+
+      if (days < 0) {
+        errors.push({ field, message: `${field} dates the pregnancy in the future`, code: 'INVALID_VALUE' });
+      } else if (days > MAX_GESTATION_DAYS) {
+        errors.push({
+          field,
+          message: `${field} dates the pregnancy beyond ${MAX_GESTATION_DAYS / 7} weeks`,
+          code: 'INVALID_VALUE',
+        });
+      }
+    }
+
+    if (request.gravida !== undefined
+      && (!Number.isInteger(request.gravida) || request.gravida < 1 || request.gravida > MAX_GRAVIDA)) {
+      errors.push({
+        field: 'gravida',
+        message: `gravida must be a whole number from 1 to ${MAX_GRAVIDA}`,
+        code: 'INVALID_VALUE',
+        value: request.gravida,
+      });
+    }
+
+    if (request.parity !== undefined && (!Number.isInteger(request.parity) || request.parity < 0
+      || (request.gravida !== undefined && request.parity >= request.gravida))) {
+      errors.push({
+        field: 'parity',
+        message: 'parity must be a whole number below gravida',
+        code: 'INVALID_VALUE',
+        value: request.parity,
+      });
+    }
+
+    validateReadings({ ...(request.complications && { complications: request.complications }) }, errors);
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid pregnancy registration', errors);
+    }
+
+    const patient = await this.requirePatient(patientId);
+
+    const pregnancyId = await database.transaction(async (client) => {
+      const enrollment = await client.query(
+        `SELECT id, facility_code FROM clinical.program_enrollments
+         WHERE patient_id = $1 AND program_id = $2 AND status = ANY($3)
+         FOR UPDATE`,
+        [patientId, MATERNAL_PROGRAM_ID, OPEN_STATUSES]
+      );
+
+      if (!enrollment.rows[0]) {
+        throw new BadRequestError(
+          'Patient must be enrolled in the maternal health program before a pregnancy is registered'
+        );
+      }
+
+      const ongoing = await client.query(
+        `SELECT id FROM ${PREGNANCIES_TABLE} WHERE patient_id = $1 AND status = 'pregnant'`,
+        [patientId]
+      );
+
+      if (ongoing.rows[0]) {
+        throw new ConflictError(`Patient already has an ongoing pregnancy (${ongoing.rows[0].id})`);
+      }
+
+      await client.query(
+        `UPDATE ${PREGNANCIES_TABLE}
+         SET status = 'completed', next_contact_date = NULL, closed_at = CURRENT_TIMESTAMP,
+             closure_reason = 'New pregnancy registered', updated_at = CURRENT_TIMESTAMP
+         WHERE patient_id = $1 AND status = 'postpartum'`,
+        [patientId]
+      );
+
+      const result = await client.query(
+        `INSERT INTO ${PREGNANCIES_TABLE} (
+           patient_id, enrollment_id, lmp, edd, edd_source, gravida, parity, facility_code, complications,
+           next_contact_date, registered_by
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+         RETURNING id`,
+        [
+          patientId,
+          enrollment.rows[0].id,
+          lmp,
+          edd || estimatedDueDate(lmp!),
+          edd ? 'ultrasound' : 'lmp',
+          request.gravida ?? null,
+          request.parity ?? null,
+          request.facilityCode || enrollment.rows[0].facility_code || patient.facilityCode,
+          JSON.stringify(trimmed(request.complications)),
+          nextContactDate(ancSchedule(lmp!, [], today)) || null,
+          audit.userId,
+        ]
+      );
+
+      await auditService.record({
+        ...audit,
+        entityType: 'pregnancy',
+        entityId: result.rows[0].id,
+        action: 'create',
+        metadata: {
+          businessContext: { patientId, gestationalAgeWeeks: gestationalAge(lmp!, today).weeks },
+        },
+      }, client);
+
+      return result.rows[0].id as string;
+    });
+
+    logger.info('Pregnancy registered', {
+      action: 'pregnancy_registered',
+      pregnancyId,
+      patientId,
+      userId: audit.userId,
+    });
+
+    return this.getPregnancy(pregnancyId);
+  }
+
+  // Records an antenatal contact. It counts as a maternal program visit, and unless another date is
+  // booked the next appointment is the next WHO contact. Danger signs are raised to the facility.
+  async recordAncVisit(
+    pregnancyId: string,
+    request: PatientTypes.RecordANCVisitRequest,
+    audit: MaternalAuditContext
+  ): Promise<PatientTypes.ANCVisit> {
+    const errors: FieldError[] = [];
+    const visitDate = eventDate(request.visitDate, 'visitDate', errors);
+    const booked = nextVisit(request.nextVisitDate, visitDate, errors);
+
+    validateReadings(request, errors);
+    checkOneOf(errors, 'proteinuria', request.proteinuria, PROTEINURIA);
+
+    if (request.fundalHeight !== undefined) {
+      checkRange(errors, 'fundalHeight', request.fundalHeight, RANGES.fundalHeight!);
+    }
+
+    if (request.fetalHeartRate !== undefined) {
+      checkRange(errors, 'fetalHeartRate', request.fetalHeartRate, RANGES.fetalHeartRate!, true);
+    }
+
+    (request.medications || []).forEach((medication, index) => {
+      if (!medication?.name?.trim() || !medication.dosage?.trim() || !medication.frequency?.trim()) {
+        errors.push({
+          field: `medications[${index}]`,
+          message: 'Each medication needs a name, dosage and frequency',
+          code: 'REQUIRED_FIELD',
+        });
+      }
+    });
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid ANC visit', errors);
+    }
+
+    const { visit, pregnancy } = await database.transaction(async (client) => {
+      const current = await this.lock(client, pregnancyId, 'pregnant');
+      const lmp = new Date(current.lmp);
+      const age = gestationalAge(lmp, visitDate);
+
+      if (age.totalDays < 0) {
+        throw new ValidationError('Invalid ANC visit', [{
+          field: 'visitDate',
+          message: 'visitDate is before the last menstrual period',
+          code: 'INVALID_VALUE',
+          value: request.visitDate,
+        }]);
+      }
+
+      const previous = await client.query(`SELECT id, visit_date FROM ${ANC_TABLE} WHERE pregnancy_id = $1`, [
+        pregnancyId,
+      ]);
+      const visits = previous.rows.map(row => ({ id: row.id as string, date: new Date(row.visit_date) }));
+      const schedule = ancSchedule(lmp, [...visits, { id: NEW_VISIT, date: visitDate }], new Date());
+      const contactNumber = schedule.find(contact => contact.visitId === NEW_VISIT)?.contactNumber;
+
+      // A visit entered late does not move the booking made at a later visit
+      const latest = visits.every(earlier => earlier.date <= visitDate);
+      const nextContact = booked || nextContactDate(schedule);
+
+      const dangerSigns = assessDangerSigns({
+        stage: 'antenatal',
+        gestationalAgeWeeks: age.weeks,
+        ...(request.bloodPressure && { bloodPressure: request.bloodPressure }),
+        ...(request.proteinuria && { proteinuria: request.proteinuria }),
+        ...(request.hemoglobin !== undefined && { hemoglobin: request.hemoglobin }),
+        symptoms: request.symptoms || [],
+      });
+
+      await programService.recordVisit(
+        current.patient_id,
+        MATERNAL_PROGRAM_ID,
+        {
+          visitDate: visitDate.toISOString(),
+          ...(latest && nextContact && { nextAppointment: nextContact.toISOString() }),
+        },
+        audit,
+        client
+      );
+
+      const result = await client.query(
+        `INSERT INTO ${ANC_TABLE} (
+           pregnancy_id, visit_number, contact_number, visit_date, gestational_age_days, weight, systolic,
+           diastolic, hemoglobin, proteinuria, fundal_height, fetal_heart_rate, symptoms, danger_signs,
+           complications, medications, next_visit_date, notes, recorded_by
+         ) VALUES (
+           $1, (SELECT COALESCE(MAX(visit_number), 0) + 1 FROM ${ANC_TABLE} WHERE pregnancy_id = $1),
+           $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18
+         )
+         RETURNING *`,
+        [
+          pregnancyId,
+          contactNumber ?? null,
+          visitDate,
+          age.totalDays,
+          request.weight ?? null,
+          request.bloodPressure?.systolic ?? null,
+          request.bloodPressure?.diastolic ?? null,
+          request.hemoglobin ?? null,
+          request.proteinuria ?? null,
+          request.fundalHeight ?? null,
+          request.fetalHeartRate ?? null,
+          JSON.stringify(request.symptoms || []),
+          JSON.stringify(dangerSigns),
+          JSON.stringify(trimmed(request.complications)),
+          JSON.stringify((request.medications || []).map(medication => ({
+            name: medication.name.trim(),
+            dosage: medication.dosage.trim(),
+            frequency: medication.frequency.trim(),
+            duration: medication.duration || '',
+            instructions: medication.instructions || '',
+            prescribedBy: medication.prescribedBy || audit.userId,
+          }))),
+          nextContact,
+          request.notes || null,
+          audit.userId,
+        ]
+      );
+
+      await client.query(
+        `UPDATE ${PREGNANCIES_TABLE}
+         SET next_contact_date = CASE WHEN $2 THEN $3::date ELSE next_contact_date END,
+             complications = $4, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [
+          pregnancyId,
+          latest,
+          nextContact || null,
+          JSON.stringify(Array.from(new Set([...current.complications, ...trimmed(request.complications)]))),
+        ]
+      );
+
+      await auditService.record({
+        ...audit,
+        entityType: 'anc_visit',
+        entityId: result.rows[0].id,
+        action: 'create',
+        metadata: {
+          businessContext: {
+            patientId: current.patient_id,
+            pregnancyId,
+            gestationalAgeWeeks: age.weeks,
+            contactNumber,
+            dangerSigns: dangerSigns.map(sign => sign.code),
+          },
+        },
+      }, client);
+
+      return { visit: this.toAncVisit(result.rows[0]), pregnancy: current };
+    });
+
+    await this.alertDangerSigns(pregnancy, 'antenatal', visit.id, visit.dangerSigns);
+
+    logger.info('ANC visit recorded', {
+      action: 'anc_visit_recorded',
+      visitId: visit.id,
+      pregnancyId,
+      patientId: pregnancy.patient_id,
+      gestationalAgeWeeks: visit.gestationalAge.weeks,
+      contactNumber: visit.contactNumber,
+      userId: audit.userId,
+    });
+
+    return visit;
+  }
+
+  // Ends the pregnancy. The mother moves to postnatal care with her first PNC contact booked,
+  // or the pregnancy is closed after a maternal death.
+  async recordDelivery(
+    pregnancyId: string,
+    request: PatientTypes.RecordDeliveryRequest,
+    audit: MaternalAuditContext
+  ): Promise<PatientTypes.MaternalHealth> {
+    const errors: FieldError[] = [];
+
+    if (!request.deliveryDate) {
+      errors.push({ field: 'deliveryDate', message: 'deliveryDate is required', code: 'REQUIRED_FIELD' });
+    }
+
+    const deliveryDate = eventDate(request.deliveryDate, 'deliveryDate', errors);
+    checkOneOf(errors, 'deliveryType', request.deliveryType, DELIVERY_TYPES, true);
+    checkOneOf(errors, 'maternalOutcome', request.maternalOutcome, MATERNAL_OUTCOMES);
+    checkText(errors, 'attendant', request.attendant);
+    checkText(errors, 'facility', request.facility);
+    validateReadings({ ...(request.complications && { complications: request.complications }) }, errors);
+
+    if (!Array.isArray(request.newborns) || request.newborns.length === 0 || request.newborns.length > MAX_NEWBORNS) {
+      errors.push({
+        field: 'newborns',
+        message: `Between 1 and ${MAX_NEWBORNS} newborns are required`,
+        code: 'REQUIRED_FIELD',
+      });
+    }
+
+    (Array.isArray(request.newborns) ? request.newborns : []).forEach((newborn, index) => {
+      const field = `newborns[${index}]`;
+      checkOneOf(errors, `${field}.sex`, newborn?.sex, NEWBORN_SEXES, true);
+      checkOneOf(errors, `${field}.outcome`, newborn?.outcome, BIRTH_OUTCOMES, true);
+
+      if (newborn?.birthWeight !== undefined) {
+        checkRange(errors, `${field}.birthWeight`, newborn.birthWeight, RANGES.birthWeight!);
+      }
+
+      if (newborn?.apgar) {
+        const { oneMinute, fiveMinute, tenMinute } = newborn.apgar;
+        for (const [minute, score] of Object.entries({ oneMinute, fiveMinute, tenMinute })) {
+          if ((minute !== 'tenMinute' || score !== undefined)
+            && (!Number.isInteger(score) || score! < 0 || score! > 10)) {
+            errors.push({
+              field: `${field}.apgar.${minute}`,
+              message: 'APGAR scores are whole numbers from 0 to 10',
+              code: 'INVALID_VALUE',
+              value: score,
+            });
+          }
+        }
+      }
+    });
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid delivery', errors);
+    }
+
+    const maternalOutcome = request.maternalOutcome || 'alive';
+    const status: PatientTypes.PregnancyStatus = maternalOutcome === 'died' ? 'completed' : 'postpartum';
+
+    const patientId = await database.transaction(async (client) => {
+      const current = await this.lock(client, pregnancyId, 'pregnant');
+      const age = gestationalAge(new Date(current.lmp), deliveryDate);
+
+      if (age.totalDays < 0) {
+        throw new ValidationError('Invalid delivery', [{
+          field: 'deliveryDate',
+          message: 'deliveryDate is before the last menstrual period',
+          code: 'INVALID_VALUE',
+          value: request.deliveryDate,
+        }]);
+      }
+
+      const delivery: PatientTypes.DeliveryInfo = {
+        deliveryDate,
+        deliveryType: request.deliveryType,
+        attendant: request.attendant.trim(),
+        facility: request.facility.trim(),
+        gestationalAge: age,
+        preterm: age.totalDays < PRETERM_DAYS,
+        complications: trimmed(request.complications),
+        maternalOutcome,
+        newborns: request.newborns.map(newborn => ({
+          sex: newborn.sex,
+          outcome: newborn.outcome,
+          ...(newborn.birthWeight !== undefined && {
+            birthWeight: newborn.birthWeight,
+            lowBirthWeight: newborn.birthWeight < MATERNAL_THRESHOLDS.lowBirthWeight,
+          }),
+          ...(newborn.apgar && {
+            apgar: newborn.apgar,
+            apgarCategory: apgarCategory(newborn.apgar.fiveMinute),
+          }),
+          ...(newborn.resuscitated !== undefined && { resuscitated: newborn.resuscitated }),
+        })),
+        recordedBy: audit.userId,
+      };
+
+      const nextContact = status === 'postpartum'
+        ? nextContactDate(pncSchedule(deliveryDate, [], new Date()))
+        : undefined;
+
+      await programService.recordVisit(
+        current.patient_id,
+        MATERNAL_PROGRAM_ID,
+        {
+          visitDate: deliveryDate.toISOString(),
+          ...(nextContact && { nextAppointment: nextContact.toISOString() }),
+        },
+        audit,
+        client
+      );
+
+      await client.query(
+        `UPDATE ${PREGNANCIES_TABLE}
+         SET status = $2, delivery = $3, delivered_at = $4, next_contact_date = $5,
+             closed_at = CASE WHEN $2 = 'completed' THEN CURRENT_TIMESTAMP END,
+             closure_reason = CASE WHEN $2 = 'completed' THEN 'Maternal death' END,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [pregnancyId, status, JSON.stringify(delivery), deliveryDate, nextContact || null]
+      );
+
+      await auditService.record({
+        ...audit,
+        entityType: 'pregnancy',
+        entityId: pregnancyId,
+        action: 'update',
+        changes: [statusChange('pregnant', status)],
+        metadata: {
+          businessContext: {
+            patientId: current.patient_id,
+            deliveryType: delivery.deliveryType,
+            preterm: delivery.preterm,
+            maternalOutcome,
+            birthOutcomes: delivery.newborns.map(newborn => newborn.outcome),
+          },
+        },
+      }, client);
+
+      return current.patient_id as string;
+    });
+
+    logger.info('Delivery recorded', {
+      action: 'delivery_recorded',
+      pregnancyId,
+      patientId,
+      newborns: request.newborns.length,
+      maternalOutcome,
+      userId: audit.userId,
+    });
+
+    return this.getPregnancy(pregnancyId);
+  }
+
+  // Records a postnatal contact; the visit that makes the last WHO contact completes the pregnancy
+  async recordPncVisit(
+    pregnancyId: string,
+    request: PatientTypes.RecordPNCVisitRequest,
+    audit: MaternalAuditContext
+  ): Promise<PatientTypes.PNCVisit> {
+    const errors: FieldError[] = [];
+    const visitDate = eventDate(request.visitDate, 'visitDate', errors);
+    const booked = nextVisit(request.nextVisitDate, visitDate, errors);
+
+    validateReadings(request, errors);
+    checkOneOf(errors, 'breastfeedingStatus', request.breastfeedingStatus, BREASTFEEDING_STATUSES, true);
+
+    let familyPlanningStart: Date | null = null;
+    let familyPlanningFollowUp: Date | null = null;
+    if (request.familyPlanning) {
+      checkOneOf(errors, 'familyPlanning.method', request.familyPlanning.method, FAMILY_PLANNING_METHODS, true);
+      familyPlanningStart = parseDate(request.familyPlanning.startDate, 'familyPlanning.startDate', errors);
+      familyPlanningFollowUp = parseDate(request.familyPlanning.followUpDate, 'familyPlanning.followUpDate', errors);
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid PNC visit', errors);
+    }
+
+    const { visit, pregnancy, completed } = await database.transaction(async (client) => {
+      const current = await this.lock(client, pregnancyId, 'postpartum');
+      const deliveredAt = new Date(current.delivered_at);
+      const postpartumDay = daysBetween(deliveredAt, visitDate);
+
+      if (postpartumDay < 0) {
+        throw new ValidationError('Invalid PNC visit', [{
+          field: 'visitDate',
+          message: 'visitDate is before the delivery',
+          code: 'INVALID_VALUE',
+          value: request.visitDate,
+        }]);
+      }
+
+      const previous = await client.query(`SELECT id, visit_date FROM ${PNC_TABLE} WHERE pregnancy_id = $1`, [
+        pregnancyId,
+      ]);
+      const visits = previous.rows.map(row => ({ id: row.id as string, date: new Date(row.visit_date) }));
+      const schedule = pncSchedule(deliveredAt, [...visits, { id: NEW_VISIT, date: visitDate }], new Date());
+      const contactNumber = schedule.find(contact => contact.visitId === NEW_VISIT)?.contactNumber;
+
+      const latest = visits.every(earlier => earlier.date <= visitDate);
+      const scheduled = nextContactDate(schedule);
+      const nextContact = booked || scheduled;
+      const completed = latest && !scheduled && !booked;
+
+      const dangerSigns = assessDangerSigns({
+        stage: 'postnatal',
+        ...(request.bloodPressure && { bloodPressure: request.bloodPressure }),
+        ...(request.hemoglobin !== undefined && { hemoglobin: request.hemoglobin }),
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        symptoms: request.symptoms || [],
+      });
+
+      const familyPlanning: PatientTypes.FamilyPlanningMethod | undefined = request.familyPlanning && {
+        method: request.familyPlanning.method,
+        startDate: familyPlanningStart || visitDate,
+        provider: audit.userId,
+        counselingProvided: request.familyPlanning.counselingProvided ?? true,
+        ...(familyPlanningFollowUp && { followUpDate: familyPlanningFollowUp }),
+      };
+
+      await programService.recordVisit(
+        current.patient_id,
+        MATERNAL_PROGRAM_ID,
+        {
+          visitDate: visitDate.toISOString(),
+          ...(latest && nextContact && { nextAppointment: nextContact.toISOString() }),
+        },
+        audit,
+        client
+      );
+
+      const result = await client.query(
+        `INSERT INTO ${PNC_TABLE} (
+           pregnancy_id, visit_number, contact_number, visit_date, postpartum_day, weight, systolic, diastolic,
+           hemoglobin, temperature, symptoms, danger_signs, complications, breastfeeding_status,
+           family_planning_counseling, family_planning, next_visit_date, notes, recorded_by
+         ) VALUES (
+           $1, (SELECT COALESCE(MAX(visit_number), 0) + 1 FROM ${PNC_TABLE} WHERE pregnancy_id = $1),
+           $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18
+         )
+         RETURNING *`,
+        [
+          pregnancyId,
+          contactNumber ?? null,
+          visitDate,
+          postpartumDay,
+          request.weight ?? null,
+          request.bloodPressure?.systolic ?? null,
+          request.bloodPressure?.diastolic ?? null,
+          request.hemoglobin ?? null,
+          request.temperature ?? null,
+          JSON.stringify(request.symptoms || []),
+          JSON.stringify(dangerSigns),
+          JSON.stringify(trimmed(request.complications)),
+          request.breastfeedingStatus,
+          request.familyPlanningCounseling ?? Boolean(familyPlanning),
+          familyPlanning ? JSON.stringify(familyPlanning) : null,
+          nextContact || null,
+          request.notes || null,
+          audit.userId,
+        ]
+      );
+
+      await client.query(
+        `UPDATE ${PREGNANCIES_TABLE}
+         SET next_contact_date = CASE WHEN $2 THEN $3::date ELSE next_contact_date END,
+             complications = $4,
+             status = CASE WHEN $5 THEN 'completed' ELSE status END,
+             closed_at = CASE WHEN $5 THEN CURRENT_TIMESTAMP ELSE closed_at END,
+             closure_reason = CASE WHEN $5 THEN 'Postnatal care completed' ELSE closure_reason END,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [
+          pregnancyId,
+          latest,
+          nextContact || null,
+          JSON.stringify(Array.from(new Set([...current.complications, ...trimmed(request.complications)]))),
+          completed,
+        ]
+      );
+
+      await auditService.record({
+        ...audit,
+        entityType: 'pnc_visit',
+        entityId: result.rows[0].id,
+        action: 'create',
+        ...(completed && { changes: [statusChange('postpartum', 'completed')] }),
+        metadata: {
+          businessContext: {
+            patientId: current.patient_id,
+            pregnancyId,
+            postpartumDay,
+            contactNumber,
+            dangerSigns: dangerSigns.map(sign => sign.code),
+          },
+        },
+      }, client);
+
+      return { visit: this.toPncVisit(result.rows[0]), pregnancy: current, completed };
+    });
+
+    await this.alertDangerSigns(pregnancy, 'postnatal', visit.id, visit.dangerSigns);
+
+    logger.info('PNC visit recorded', {
+      action: 'pnc_visit_recorded',
+      visitId: visit.id,
+      pregnancyId,
+      patientId: pregnancy.patient_id,
+      postpartumDay: visit.postpartumDay,
+      completed,
+      userId: audit.userId,
+    });
+
+    return visit;
+  }
+
+  // Pregnant women whose booked next contact has passed, per facility and longest overdue first
+  async getOverdueContacts(
+    filters: ANCOverdueFilters
+  ): Promise<{ contacts: PatientTypes.ANCOverdueContact[]; total: number }> {
+    const params: any[] = [];
+    const conditions = ["pr.status = 'pregnant'", 'pr.next_contact_date < CURRENT_DATE'];
+
+    if (filters.facilityCode) {
+      params.push(filters.facilityCode);
+      conditions.push(`pr.facility_code = $${params.length}`);
+    }
+
+    const where = conditions.join(' AND ');
+    const count = await database.query(
+      `SELECT COUNT(*) FROM ${PREGNANCIES_TABLE} pr
+       JOIN clinical.patients p ON p.id = pr.patient_id AND p.deleted = FALSE
+       WHERE ${where}`,
+      params
+    );
+    const result = await database.query(
+      `SELECT pr.id, pr.patient_id, COALESCE(pr.facility_code, 'unknown') AS facility_code, pr.lmp, pr.edd,
+              pr.next_contact_date, CURRENT_DATE - pr.next_contact_date AS days_overdue,
+              p.mrn, p.first_name, p.last_name, v.visit_date AS last_visit_date, v.danger_signs
+       FROM ${PREGNANCIES_TABLE} pr
+       JOIN clinical.patients p ON p.id = pr.patient_id AND p.deleted = FALSE
+       LEFT JOIN LATERAL (
+         SELECT visit_date, danger_signs FROM ${ANC_TABLE}
+         WHERE pregnancy_id = pr.id
+         ORDER BY visit_date DESC, created_at DESC
+         LIMIT 1
+       ) v ON TRUE
+       WHERE ${where}
+       ORDER BY facility_code, pr.next_contact_date, pr.id
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, filters.limit, (filters.page - 1) * filters.limit]
+    );
+
+    const today = new Date();
+
+    return {
+      contacts: result.rows.map(row => ({
+        pregnancyId: row.id,
+        patient: { id: row.patient_id, mrn: row.mrn, firstName: row.first_name, lastName: row.last_name },
+        facilityCode: row.facility_code,
+        gestationalAge: gestationalAge(new Date(row.lmp), today),
+        estimatedDueDate: row.edd,
+        nextContactDate: row.next_contact_date,
+        daysOverdue: row.days_overdue,
+        ...(row.last_visit_date && { lastVisitDate: row.last_visit_date }),
+        dangerSigns: row.danger_signs || [],
+      })),
+      total: parseInt(count.rows[0].count, 10),
+    };
+  }
+
+  // Pushes a visit's danger signs to maternal staff at the pregnancy's facility
+  private async alertDangerSigns(
+    pregnancy: any,
+    stage: 'antenatal' | 'postnatal',
+    visitId: string,
+    dangerSigns: PatientTypes.MaternalDangerSign[]
+  ): Promise<void> {
+    if (dangerSigns.length === 0) {
+      return;
+    }
+
+    const patient = await patientRepository.findById(pregnancy.patient_id);
+    const facilityCode = pregnancy.facility_code || patient?.facilityCode;
+
+    if (facilityCode) {
+      realtimeService.emitToFacility(
+        facilityCode,
+        'maternal_danger_signs',
+        { patientId: pregnancy.patient_id, mrn: patient?.mrn, pregnancyId: pregnancy.id, visitId, stage, dangerSigns },
+        MATERNAL_READ_PERMISSION
+      );
+    }
+
+    const urgent = dangerSigns.filter(sign => sign.severity === 'urgent');
+    if (urgent.length > 0) {
+      logger.warn('Maternal danger signs found', {
+        action: 'maternal_danger_signs',
+        pregnancyId: pregnancy.id,
+        visitId,
+        stage,
+        dangerSigns: urgent.map(sign => sign.code),
+      });
+    }
+  }
+
+  private async lock(client: Queryable, pregnancyId: string, status: PatientTypes.PregnancyStatus): Promise<any> {
+    const result = await client.query(`SELECT * FROM ${PREGNANCIES_TABLE} WHERE id = $1 FOR UPDATE`, [pregnancyId]);
+
+    if (!result.rows[0]) {
+      throw new NotFoundError('Pregnancy', pregnancyId);
+    }
+
+    if (result.rows[0].status !== status) {
+      throw new ConflictError(`Pregnancy is ${result.rows[0].status}, not ${status}`);
+    }
+
+    return result.rows[0];
+  }
+
+  private async requirePatient(patientId: string): Promise<PatientTypes.Patient> {
+    const patient = await patientRepository.findById(patientId);
+    if (!patient) {
+      throw new NotFoundError('Patient', patientId);
+    }
+
+    return patient;
+  }
+
+  private async hydrate(rows: any[]): Promise<PatientTypes.MaternalHealth[]> {
+    const ids = rows.map(row => row.id);
+
+    const [anc, pnc] = await Promise.all([
+      database.query(
+        `SELECT * FROM ${ANC_TABLE} WHERE pregnancy_id = ANY($1::uuid[]) ORDER BY visit_date, created_at`,
+        [ids]
+      ),
+      database.query(
+        `SELECT * FROM ${PNC_TABLE} WHERE pregnancy_id = ANY($1::uuid[]) ORDER BY visit_date, created_at`,
+        [ids]
+      ),
+    ]);
+
+    return rows.map(row => this.toPregnancy(
+      row,
+      anc.rows.filter(visit => visit.pregnancy_id === row.id).map(visit => this.toAncVisit(visit)),
+      pnc.rows.filter(visit => visit.pregnancy_id === row.id).map(visit => this.toPncVisit(visit))
+    ));
+  }
+
+  // Schedules run to today while their stage is ongoing, and are settled as of the delivery or closure
+  private toPregnancy(
+    row: any,
+    ancVisits: PatientTypes.ANCVisit[],
+    pncVisits: PatientTypes.PNCVisit[]
+  ): PatientTypes.MaternalHealth {
+    const today = new Date();
+    const lmp = new Date(row.lmp);
+    const deliveredAt = row.delivered_at ? new Date(row.delivered_at) : undefined;
+    const closedAt = row.closed_at ? new Date(row.closed_at) : today;
+
+    const antenatal = ancSchedule(lmp, ancVisits, row.status === 'pregnant' ? today : deliveredAt || closedAt);
+    const postnatal = deliveredAt
+      ? pncSchedule(deliveredAt, pncVisits, row.status === 'postpartum' ? today : closedAt)
+      : [];
+    const latest = [...ancVisits, ...pncVisits].sort((a, b) => b.date.getTime() - a.date.getTime())[0];
+    const familyPlanning = [...pncVisits].reverse().find(visit => visit.familyPlanning)?.familyPlanning;
+
+    return {
+      id: row.id,
+      patientId: row.patient_id,
+      enrollmentId: row.enrollment_id,
+      pregnancyStatus: row.status,
+      lmp,
+      estimatedDueDate: row.edd,
+      eddSource: row.edd_source,
+      ...(row.status === 'pregnant' && { gestationalAge: gestationalAge(lmp, today) }),
+      ...(row.gravida !== null && { gravida: row.gravida }),
+      ...(row.parity !== null && { parity: row.parity }),
+      ...(row.facility_code && { facilityCode: row.facility_code }),
+      ancSchedule: row.status === 'pregnant' ? antenatal : settleSchedule(antenatal),
+      pncSchedule: row.status === 'completed' ? settleSchedule(postnatal) : postnatal,
+      ...(row.next_contact_date && { nextContactDate: row.next_contact_date }),
+      ancVisits,
+      pncVisits,
+      ...(familyPlanning && { familyPlanning }),
+      pregnancyComplications: row.complications || [],
+      dangerSigns: latest?.dangerSigns || [],
+      ...(row.delivery && { deliveryInfo: row.delivery }),
+      registeredAt: row.registered_at,
+      registeredBy: row.registered_by,
+      ...(row.closed_at && { closedAt: row.closed_at }),
+      ...(row.closure_reason && { closureReason: row.closure_reason }),
+    };
+  }
+
+  private toAncVisit(row: any): PatientTypes.ANCVisit {
+    return {
+      id: row.id,
+      pregnancyId: row.pregnancy_id,
+      visitNumber: row.visit_number,
+      ...(row.contact_number !== null && { contactNumber: row.contact_number }),
+      date: new Date(row.visit_date),
+      gestationalAge: gestationalAgeFromDays(row.gestational_age_days),
+      ...(row.weight !== null && { weight: row.weight }),
+      ...(row.systolic !== null && {
+        bloodPressure: { systolic: row.systolic, diastolic: row.diastolic, date: row.visit_date },
+      }),
+      ...(row.hemoglobin !== null && { hemoglobin: row.hemoglobin }),
+      ...(row.proteinuria && { proteinuria: row.proteinuria }),
+      ...(row.fundal_height !== null && { fundalHeight: row.fundal_height }),
+      ...(row.fetal_heart_rate !== null && { fetalHeartRate: row.fetal_heart_rate }),
+      symptoms: row.symptoms || [],
+      dangerSigns: row.danger_signs || [],
+      complications: row.complications || [],
+      medications: row.medications || [],
+      provider: row.recorded_by,
+      ...(row.next_visit_date && { nextVisitDate: row.next_visit_date }),
+      ...(row.notes && { notes: row.notes }),
+    };
+  }
+
+  private toPncVisit(row: any): PatientTypes.PNCVisit {
+    return {
+      id: row.id,
+      pregnancyId: row.pregnancy_id,
+      visitNumber: row.visit_number,
+      ...(row.contact_number !== null && { contactNumber: row.contact_number }),
+      date: new Date(row.visit_date),
+      postpartumDay: row.postpartum_day,
+      ...(row.weight !== null && { weight: row.weight }),
+      ...(row.systolic !== null && {
+        bloodPressure: { systolic: row.systolic, diastolic: row.diastolic, date: row.visit_date },
+      }),
+      ...(row.hemoglobin !== null && { hemoglobin: row.hemoglobin }),
+      ...(row.temperature !== null && { temperature: row.temperature }),
+      symptoms: row.symptoms || [],
+      dangerSigns: row.danger_signs || [],
+      complications: row.complications || [],
+      breastfeedingStatus: row.breastfeeding_status,
+      familyPlanningCounseling: row.family_planning_counseling,
+      ...(row.family_planning && { familyPlanning: row.family_planning }),
+      provider: row.recorded_by,
+      ...(row.next_visit_date && { nextVisitDate: row.next_visit_date }),
+      ...(row.notes && { notes: row.notes }),
+    };
+  }
+}
+
+// Create and export singleton instance
+export const maternalService = new MaternalService();
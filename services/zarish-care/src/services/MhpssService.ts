@@ -0,0 +1,799 @@
+import { Request } from 'express';
+import { CommonTypes, PatientTypes } from '@zarishhealthcare/shared-types';
+import { database, Queryable } from '../config/database';
+import { BadRequestError, ConflictError, NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { hasPermission } from '../middleware/auth';
+import { patientRepository } from '../repositories/PatientRepository';
+import { auditService, AuditEntry } from './AuditService';
+import { notificationService } from './NotificationService';
+import { OPEN_STATUSES, programService } from './ProgramService';
+import { realtimeService } from './RealtimeService';
+import { FieldError } from '../utils/patientValidation';
+import { deriveRiskLevel, MH_RISK_LEVELS, scoreAssessment, validateAssessment } from '../utils/mhpssScoring';
+import { logger } from '../utils/logger';
+
+const CASES_TABLE = 'clinical.mhpss_cases';
+const INTERVENTIONS_TABLE = 'clinical.mhpss_interventions';
+const SESSIONS_TABLE = 'clinical.mhpss_sessions';
+
+const MHPSS_PROGRAM_ID = 'mhpss';
+
+// Session notes are only returned to holders of this permission
+export const MHPSS_NOTES_PERMISSION = 'mhpss.notes';
+
+export const CASE_TYPES: PatientTypes.MentalHealthCase['caseType'][] = [
+  'new_clinical',
+  'follow_up_clinical',
+  'counseling',
+];
+
+export const PROVIDER_TYPES: PatientTypes.MentalHealthCase['providerType'][] = [
+  'psychiatrist',
+  'mhgap_doctor',
+  'psychologist',
+  'counselor',
+];
+
+export const SESSION_TYPES: PatientTypes.MHSession['sessionType'][] = ['individual', 'group', 'family'];
+
+const INTERVENTION_TYPES: PatientTypes.MHIntervention['type'][] = ['medication', 'therapy', 'counseling', 'referral'];
+
+const INTERVENTION_STATUSES: PatientTypes.MHIntervention['status'][] = ['active', 'completed', 'discontinued'];
+
+const MAX_PLANNED_SESSIONS = 100;
+const MAX_SESSION_MINUTES = 480;
+
+type MhpssAuditContext = Pick<AuditEntry, 'userId' | 'sessionId' | 'ipAddress' | 'userAgent'> & { userId: string };
+
+export interface MhpssSessionListOptions {
+  page: number;
+  limit: number;
+}
+
+const change = (field: string, oldValue: any, newValue: any): CommonTypes.FieldChange => ({
+  field,
+  oldValue,
+  newValue,
+  dataType: 'string',
+  sensitive: true,
+});
+
+function parseDate(value: string | undefined, field: string, errors: FieldError[]): Date | null {
+  if (!value) {
+    return null;
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    errors.push({ field, message: `${field} must be a valid date`, code: 'INVALID_FORMAT', value });
+    return null;
+  }
+
+  return date;
+}
+
+function requireOneOf<T>(errors: FieldError[], field: string, value: T | undefined, allowed: T[]): void {
+  if (value === undefined || value === null || (value as unknown) === '') {
+    errors.push({ field, message: `${field} is required`, code: 'REQUIRED_FIELD' });
+  } else if (!allowed.includes(value)) {
+    errors.push({ field, message: `${field} must be one of: ${allowed.join(', ')}`, code: 'INVALID_VALUE', value });
+  }
+}
+
+export class MhpssService {
+  // Scores questionnaires without saving them, e.g. to show results while a session is in progress
+  scoreAssessments(inputs: PatientTypes.MHAssessmentInput[]): PatientTypes.MHAssessmentResult[] {
+    if (!Array.isArray(inputs) || inputs.length === 0) {
+      throw new BadRequestError('At least one assessment is required');
+    }
+
+    const errors = inputs.flatMap((input, index) => validateAssessment(input, `assessments[${index}]`));
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid assessments', errors);
+    }
+
+    return inputs.map(scoreAssessment);
+  }
+
+  async getCase(caseId: string, client: Queryable = database): Promise<PatientTypes.MentalHealthCase> {
+    const result = await client.query(`SELECT * FROM ${CASES_TABLE} WHERE id = $1`, [caseId]);
+
+    if (!result.rows[0]) {
+      throw new NotFoundError('MHPSS case', caseId);
+    }
+
+    const [mentalHealthCase] = await this.hydrate(result.rows, client);
+    return mentalHealthCase!;
+  }
+
+  async getPatientCases(patientId: string): Promise<PatientTypes.MentalHealthCase[]> {
+    await this.requirePatient(patientId);
+
+    const result = await database.query(
+      `SELECT * FROM ${CASES_TABLE} WHERE patient_id = $1 ORDER BY opened_at DESC`,
+      [patientId]
+    );
+
+    return this.hydrate(result.rows);
+  }
+
+  // Opens a case under the patient's MHPSS enrollment; the caseworker defaults to the user
+  async openCase(
+    patientId: string,
+    request: PatientTypes.OpenMentalHealthCaseRequest,
+    audit: MhpssAuditContext
+  ): Promise<PatientTypes.MentalHealthCase> {
+    const errors: FieldError[] = [];
+    requireOneOf(errors, 'caseType', request.caseType, CASE_TYPES);
+    requireOneOf(errors, 'providerType', request.providerType, PROVIDER_TYPES);
+
+    if (typeof request.supervisorId !== 'string' || !request.supervisorId.trim()) {
+      errors.push({ field: 'supervisorId', message: 'supervisorId is required', code: 'REQUIRED_FIELD' });
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid MHPSS case', errors);
+    }
+
+    await this.requirePatient(patientId);
+
+    const caseId = await database.transaction(async (client) => {
+      const enrollment = await client.query(
+        `SELECT id FROM clinical.program_enrollments
+         WHERE patient_id = $1 AND program_id = $2 AND status = ANY($3)
+         FOR UPDATE`,
+        [patientId, MHPSS_PROGRAM_ID, OPEN_STATUSES]
+      );
+
+      if (!enrollment.rows[0]) {
+        throw new BadRequestError('Patient must be enrolled in the MHPSS program before a case is opened');
+      }
+
+      const open = await client.query(
+        `SELECT id FROM ${CASES_TABLE} WHERE patient_id = $1 AND status = 'open'`,
+        [patientId]
+      );
+
+      if (open.rows[0]) {
+        throw new ConflictError(`Patient already has an open MHPSS case (${open.rows[0].id})`);
+      }
+
+      const result = await client.query(
+        `INSERT INTO ${CASES_TABLE} (
+           patient_id, enrollment_id, case_type, provider_type, caseworker_id, supervisor_id,
+           treatment_plan, follow_up_required, opened_by
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         RETURNING id`,
+        [
+          patientId,
+          enrollment.rows[0].id,
+          request.caseType,
+          request.providerType,
+          request.caseworkerId?.trim() || audit.userId,
+          request.supervisorId.trim(),
+          request.treatmentPlan?.trim() || '',
+          request.followUpRequired ?? true,
+          audit.userId,
+        ]
+      );
+
+      await auditService.record({
+        ...audit,
+        entityType: 'mhpss_case',
+        entityId: result.rows[0].id,
+        action: 'create',
+        metadata: {
+          businessContext: { patientId, caseType: request.caseType },
+        },
+      }, client);
+
+      return result.rows[0].id as string;
+    });
+
+    logger.info('MHPSS case opened', {
+      action: 'mhpss_case_opened',
+      caseId,
+      patientId,
+      userId: audit.userId,
+    });
+
+    return this.getCase(caseId);
+  }
+
+  async updateCase(
+    caseId: string,
+    request: PatientTypes.UpdateMentalHealthCaseRequest,
+    audit: MhpssAuditContext
+  ): Promise<PatientTypes.MentalHealthCase> {
+    const fields: Array<[keyof PatientTypes.UpdateMentalHealthCaseRequest, string]> = [
+      ['caseworkerId', 'caseworker_id'],
+      ['supervisorId', 'supervisor_id'],
+      ['treatmentPlan', 'treatment_plan'],
+      ['followUpRequired', 'follow_up_required'],
+    ];
+    const provided = fields.filter(([field]) => request[field] !== undefined);
+
+    if (provided.length === 0) {
+      throw new BadRequestError('Nothing to update');
+    }
+
+    const errors: FieldError[] = [];
+    for (const field of ['caseworkerId', 'supervisorId'] as const) {
+      if (request[field] !== undefined && (typeof request[field] !== 'string' || !request[field]!.trim())) {
+        errors.push({ field, message: `${field} cannot be empty`, code: 'INVALID_VALUE', value: request[field] });
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid MHPSS case update', errors);
+    }
+
+    await database.transaction(async (client) => {
+      const current = await this.lockOpen(client, caseId);
+      const values = provided.map(([field]) => {
+        const value = request[field];
+        return typeof value === 'string' ? value.trim() : value;
+      });
+
+      await client.query(
+        `UPDATE ${CASES_TABLE}
+         SET ${provided.map(([, column], index) => `${column} = $${index + 2}`).join(', ')},
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [caseId, ...values]
+      );
+
+      await auditService.record({
+        ...audit,
+        entityType: 'mhpss_case',
+        entityId: caseId,
+        action: 'update',
+        changes: provided.map(([field, column], index) => change(field, current[column], values[index])),
+        metadata: {
+          businessContext: { patientId: current.patient_id },
+        },
+      }, client);
+    });
+
+    return this.getCase(caseId);
+  }
+
+  async closeCase(
+    caseId: string,
+    request: PatientTypes.CloseMentalHealthCaseRequest,
+    audit: MhpssAuditContext
+  ): Promise<PatientTypes.MentalHealthCase> {
+    if (typeof request.reason !== 'string' || !request.reason.trim()) {
+      throw new ValidationError('Invalid MHPSS case closure', [{
+        field: 'reason',
+        message: 'A closure reason is required',
+        code: 'REQUIRED_FIELD',
+      }]);
+    }
+
+    await database.transaction(async (client) => {
+      const current = await this.lockOpen(client, caseId);
+
+      await client.query(
+        `UPDATE ${CASES_TABLE}
+         SET status = 'closed', closed_at = CURRENT_TIMESTAMP, closed_by = $2, closure_reason = $3,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [caseId, audit.userId, request.reason.trim()]
+      );
+
+      await auditService.record({
+        ...audit,
+        entityType: 'mhpss_case',
+        entityId: caseId,
+        action: 'update',
+        changes: [change('status', 'open', 'closed')],
+        metadata: {
+          businessContext: { patientId: current.patient_id },
+        },
+      }, client);
+    });
+
+    logger.info('MHPSS case closed', {
+      action: 'mhpss_case_closed',
+      caseId,
+      userId: audit.userId,
+    });
+
+    return this.getCase(caseId);
+  }
+
+  async addIntervention(
+    caseId: string,
+    request: PatientTypes.AddMHInterventionRequest,
+    audit: MhpssAuditContext
+  ): Promise<PatientTypes.MHIntervention> {
+    const errors: FieldError[] = [];
+    requireOneOf(errors, 'type', request.type, INTERVENTION_TYPES);
+
+    if (typeof request.description !== 'string' || !request.description.trim()) {
+      errors.push({ field: 'description', message: 'description is required', code: 'REQUIRED_FIELD' });
+    }
+
+    if (request.plannedSessions !== undefined && (!Number.isInteger(request.plannedSessions)
+      || request.plannedSessions < 1 || request.plannedSessions > MAX_PLANNED_SESSIONS)) {
+      errors.push({
+        field: 'plannedSessions',
+        message: `plannedSessions must be a whole number from 1 to ${MAX_PLANNED_SESSIONS}`,
+        code: 'INVALID_VALUE',
+        value: request.plannedSessions,
+      });
+    }
+
+    const startDate = parseDate(request.startDate, 'startDate', errors) || new Date();
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid MHPSS intervention', errors);
+    }
+
+    return database.transaction(async (client) => {
+      const current = await this.lockOpen(client, caseId);
+
+      const result = await client.query(
+        `INSERT INTO ${INTERVENTIONS_TABLE} (
+           case_id, intervention_type, description, provider, started_at, planned_sessions
+         ) VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING *`,
+        [caseId, request.type, request.description.trim(), audit.userId, startDate, request.plannedSessions ?? null]
+      );
+
+      await auditService.record({
+        ...audit,
+        entityType: 'mhpss_intervention',
+        entityId: result.rows[0].id,
+        action: 'create',
+        metadata: {
+          businessContext: { patientId: current.patient_id, caseId, type: request.type },
+        },
+      }, client);
+
+      return this.toIntervention(result.rows[0]);
+    });
+  }
+
+  async updateIntervention(
+    caseId: string,
+    interventionId: string,
+    request: PatientTypes.UpdateMHInterventionRequest,
+    audit: MhpssAuditContext
+  ): Promise<PatientTypes.MHIntervention> {
+    if (request.status === undefined && request.outcome === undefined) {
+      throw new BadRequestError('Nothing to update');
+    }
+
+    if (request.status !== undefined && !INTERVENTION_STATUSES.includes(request.status)) {
+      throw new ValidationError('Invalid MHPSS intervention update', [{
+        field: 'status',
+        message: `status must be one of: ${INTERVENTION_STATUSES.join(', ')}`,
+        code: 'INVALID_VALUE',
+        value: request.status,
+      }]);
+    }
+
+    return database.transaction(async (client) => {
+      const current = await this.lockOpen(client, caseId);
+      const existing = await client.query(
+        `SELECT * FROM ${INTERVENTIONS_TABLE} WHERE id = $1 AND case_id = $2 FOR UPDATE`,
+        [interventionId, caseId]
+      );
+
+      if (!existing.rows[0]) {
+        throw new NotFoundError('MHPSS intervention', interventionId);
+      }
+
+      const result = await client.query(
+        `UPDATE ${INTERVENTIONS_TABLE}
+         SET status = COALESCE($2, status), outcome = COALESCE($3, outcome), updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1
+         RETURNING *`,
+        [interventionId, request.status ?? null, request.outcome?.trim() || null]
+      );
+
+      await auditService.record({
+        ...audit,
+        entityType: 'mhpss_intervention',
+        entityId: interventionId,
+        action: 'update',
+        changes: [
+          ...(request.status !== undefined ? [change('status', existing.rows[0].status, request.status)] : []),
+          ...(request.outcome !== undefined ? [change('outcome', existing.rows[0].outcome, request.outcome)] : []),
+        ],
+        metadata: {
+          businessContext: { patientId: current.patient_id, caseId },
+        },
+      }, client);
+
+      return this.toIntervention(result.rows[0]);
+    });
+  }
+
+  // Newest first. Notes are left out unless the user holds the notes permission; reading them is audited.
+  async listSessions(
+    caseId: string,
+    options: MhpssSessionListOptions,
+    user: Request['user'],
+    audit: MhpssAuditContext
+  ): Promise<{ sessions: PatientTypes.MHSession[]; total: number }> {
+    const current = await this.getCase(caseId);
+
+    const count = await database.query(`SELECT COUNT(*) FROM ${SESSIONS_TABLE} WHERE case_id = $1`, [caseId]);
+    const result = await database.query(
+      `SELECT * FROM ${SESSIONS_TABLE} WHERE case_id = $1
+       ORDER BY session_number DESC
+       LIMIT $2 OFFSET $3`,
+      [caseId, options.limit, (options.page - 1) * options.limit]
+    );
+
+    const canReadNotes = hasPermission(user, MHPSS_NOTES_PERMISSION);
+    const sessions = result.rows.map(row => this.toSession(row, canReadNotes));
+
+    if (canReadNotes && result.rows.some(row => row.notes)) {
+      await auditService.record({
+        ...audit,
+        entityType: 'mhpss_case',
+        entityId: caseId,
+        action: 'read',
+        metadata: {
+          businessContext: {
+            patientId: current.patientId,
+            sessionNotes: result.rows.filter(row => row.notes).map(row => row.id),
+          },
+        },
+      });
+    }
+
+    return { sessions, total: parseInt(count.rows[0].count, 10) };
+  }
+
+  // Scores the session's assessments and updates the case risk level from them. A crisis is escalated
+  // to the supervising clinician with an in-app notification. The session counts as an MHPSS program
+  // visit and towards each intervention delivered in it.
+  async recordSession(
+    caseId: string,
+    request: PatientTypes.RecordMHSessionRequest,
+    user: Request['user'],
+    audit: MhpssAuditContext
+  ): Promise<PatientTypes.MHSession> {
+    const errors: FieldError[] = [];
+    requireOneOf(errors, 'sessionType', request.sessionType, SESSION_TYPES);
+
+    if (request.providerType !== undefined && !PROVIDER_TYPES.includes(request.providerType)) {
+      errors.push({
+        field: 'providerType',
+        message: `providerType must be one of: ${PROVIDER_TYPES.join(', ')}`,
+        code: 'INVALID_VALUE',
+        value: request.providerType,
+      });
+    }
+
+    if (request.riskLevel !== undefined && !MH_RISK_LEVELS.includes(request.riskLevel)) {
+      errors.push({
+        field: 'riskLevel',
+        message: `riskLevel must be one of: ${MH_RISK_LEVELS.join(', ')}`,
+        code: 'INVALID_VALUE',
+        value: request.riskLevel,
+      });
+    }
+
+    if (request.durationMinutes !== undefined && (!Number.isInteger(request.durationMinutes)
+      || request.durationMinutes < 1 || request.durationMinutes > MAX_SESSION_MINUTES)) {
+      errors.push({
+        field: 'durationMinutes',
+        message: `durationMinutes must be a whole number from 1 to ${MAX_SESSION_MINUTES}`,
+        code: 'INVALID_VALUE',
+        value: request.durationMinutes,
+      });
+    }
+
+    const assessments = request.assessments || [];
+    errors.push(...assessments.flatMap((input, index) => validateAssessment(input, `assessments[${index}]`)));
+
+    const sessionDate = parseDate(request.sessionDate, 'sessionDate', errors) || new Date();
+    const nextSessionDate = parseDate(request.nextSessionDate, 'nextSessionDate', errors);
+
+    if (sessionDate > new Date()) {
+      errors.push({
+        field: 'sessionDate',
+        message: 'sessionDate cannot be in the future',
+        code: 'INVALID_VALUE',
+        value: request.sessionDate,
+      });
+    }
+
+    if (nextSessionDate && nextSessionDate <= sessionDate) {
+      errors.push({
+        field: 'nextSessionDate',
+        message: 'nextSessionDate must be after the session',
+        code: 'INVALID_VALUE',
+        value: request.nextSessionDate,
+      });
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid MHPSS session', errors);
+    }
+
+    const results = assessments.map(scoreAssessment);
+    const interventionIds = Array.from(new Set(request.interventionIds || []));
+
+    const { session, patientId, previousRisk, notification } = await database.transaction(async (client) => {
+      const current = await this.lockOpen(client, caseId);
+
+      if (interventionIds.length > 0) {
+        const active = await client.query(
+          `SELECT id FROM ${INTERVENTIONS_TABLE}
+           WHERE case_id = $1 AND id::text = ANY($2::text[]) AND status = 'active'`,
+          [caseId, interventionIds]
+        );
+        const found = new Set(active.rows.map(row => row.id));
+        const missing = interventionIds.filter(id => !found.has(id));
+
+        if (missing.length > 0) {
+          throw new BadRequestError(`Not active interventions of this case: ${missing.join(', ')}`);
+        }
+      }
+
+      // Without assessments or a clinical judgement the session leaves the case risk as it was
+      const riskAssessed = results.length > 0 || request.riskLevel !== undefined;
+      const riskLevel: PatientTypes.MHRiskLevel = riskAssessed
+        ? deriveRiskLevel(results, request.riskLevel)
+        : current.risk_level;
+      const escalated = riskAssessed && riskLevel === 'crisis';
+
+      await programService.recordVisit(
+        current.patient_id,
+        MHPSS_PROGRAM_ID,
+        {
+          visitDate: sessionDate.toISOString(),
+          ...(nextSessionDate && { nextAppointment: nextSessionDate.toISOString() }),
+        },
+        audit,
+        client
+      );
+
+      const result = await client.query(
+        `INSERT INTO ${SESSIONS_TABLE} (
+           case_id, session_number, session_date, session_type, provider_type, provider, duration_minutes,
+           assessments, risk_level, escalated, intervention_ids, notes, next_session_date
+         ) VALUES (
+           $1, (SELECT COALESCE(MAX(session_number), 0) + 1 FROM ${SESSIONS_TABLE} WHERE case_id = $1),
+           $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12
+         )
+         RETURNING *`,
+        [
+          caseId,
+          sessionDate,
+          request.sessionType,
+          request.providerType || current.provider_type,
+          audit.userId,
+          request.durationMinutes ?? null,
+          JSON.stringify(results),
+          riskLevel,
+          escalated,
+          interventionIds,
+          request.notes?.trim() || null,
+          nextSessionDate,
+        ]
+      );
+
+      // An intervention is completed once its planned sessions have all been delivered
+      if (interventionIds.length > 0) {
+        await client.query(
+          `UPDATE ${INTERVENTIONS_TABLE}
+           SET sessions_completed = sessions_completed + 1,
+               status = CASE WHEN planned_sessions IS NOT NULL AND sessions_completed + 1 >= planned_sessions
+                             THEN 'completed' ELSE status END,
+               updated_at = CURRENT_TIMESTAMP
+           WHERE id::text = ANY($1::text[])`,
+          [interventionIds]
+        );
+      }
+
+      if (riskAssessed) {
+        await client.query(
+          `UPDATE ${CASES_TABLE}
+           SET risk_level = $2, risk_updated_at = $3, updated_at = CURRENT_TIMESTAMP
+           WHERE id = $1`,
+          [caseId, riskLevel, sessionDate]
+        );
+      }
+
+      let notification: CommonTypes.Notification | undefined;
+      if (escalated) {
+        const patient = await patientRepository.findById(current.patient_id);
+        notification = await notificationService.notifyStaff(current.supervisor_id, {
+          type: 'critical',
+          priority: 'urgent',
+          title: 'MHPSS crisis escalation',
+          message: `Patient ${patient?.mrn || current.patient_id} was assessed at crisis risk in an MHPSS session `
+            + 'and needs review by the supervising clinician today.',
+          actionUrl: `/api/v1/mhpss/cases/${caseId}`,
+          metadata: { patientId: current.patient_id, caseId, sessionId: result.rows[0].id },
+        }, audit.userId, client);
+      }
+
+      await auditService.record({
+        ...audit,
+        entityType: 'mhpss_session',
+        entityId: result.rows[0].id,
+        action: 'create',
+        ...(riskLevel !== current.risk_level && { changes: [change('riskLevel', current.risk_level, riskLevel)] }),
+        metadata: {
+          businessContext: {
+            patientId: current.patient_id,
+            caseId,
+            tools: results.map(assessment => assessment.tool),
+            escalated,
+          },
+        },
+      }, client);
+
+      return {
+        session: this.toSession(result.rows[0], hasPermission(user, MHPSS_NOTES_PERMISSION)),
+        patientId: current.patient_id as string,
+        previousRisk: current.risk_level as PatientTypes.MHRiskLevel,
+        notification,
+      };
+    });
+
+    if (notification) {
+      realtimeService.emitToUser(notification.recipientId, 'staff_notification', notification);
+
+      logger.warn('MHPSS crisis escalated', {
+        action: 'mhpss_crisis_escalated',
+        caseId,
+        sessionId: session.id,
+        patientId,
+        supervisorId: notification.recipientId,
+        userId: audit.userId,
+      });
+    }
+
+    logger.info('MHPSS session recorded', {
+      action: 'mhpss_session_recorded',
+      caseId,
+      sessionId: session.id,
+      patientId,
+      previousRisk,
+      riskLevel: session.riskLevel,
+      userId: audit.userId,
+    });
+
+    return session;
+  }
+
+  private async lockOpen(client: Queryable, caseId: string): Promise<any> {
+    const result = await client.query(`SELECT * FROM ${CASES_TABLE} WHERE id = $1 FOR UPDATE`, [caseId]);
+
+    if (!result.rows[0]) {
+      throw new NotFoundError('MHPSS case', caseId);
+    }
+
+    if (result.rows[0].status !== 'open') {
+      throw new ConflictError('MHPSS case is closed');
+    }
+
+    return result.rows[0];
+  }
+
+  private async requirePatient(patientId: string): Promise<void> {
+    const patient = await patientRepository.findById(patientId);
+    if (!patient) {
+      throw new NotFoundError('Patient', patientId);
+    }
+  }
+
+  // Adds interventions, session counts and the latest result of each assessment tool
+  private async hydrate(rows: any[], client: Queryable = database): Promise<PatientTypes.MentalHealthCase[]> {
+    const caseIds = rows.map(row => row.id);
+
+    const [interventions, sessions] = await Promise.all([
+      client.query(
+        `SELECT * FROM ${INTERVENTIONS_TABLE} WHERE case_id = ANY($1::uuid[]) ORDER BY started_at, created_at`,
+        [caseIds]
+      ),
+      client.query(
+        `SELECT case_id, session_date, session_type, assessments FROM ${SESSIONS_TABLE}
+         WHERE case_id = ANY($1::uuid[])
+         ORDER BY session_number DESC`,
+        [caseIds]
+      ),
+    ]);
+
+    return rows.map(row => {
+      const caseSessions = sessions.rows.filter(session => session.case_id === row.id);
+      const latestAssessments = new Map<PatientTypes.MHAssessmentTool, PatientTypes.MHAssessmentResult>();
+
+      for (const session of caseSessions) {
+        for (const assessment of session.assessments as PatientTypes.MHAssessmentResult[]) {
+          if (!latestAssessments.has(assessment.tool)) {
+            latestAssessments.set(assessment.tool, assessment);
+          }
+        }
+      }
+
+      return this.toCase(
+        row,
+        interventions.rows.filter(intervention => intervention.case_id === row.id).map(this.toIntervention),
+        caseSessions,
+        Array.from(latestAssessments.values())
+      );
+    });
+  }
+
+  private toCase(
+    row: any,
+    interventions: PatientTypes.MHIntervention[],
+    sessions: any[],
+    latestAssessments: PatientTypes.MHAssessmentResult[]
+  ): PatientTypes.MentalHealthCase {
+    const latest = sessions[0];
+
+    return {
+      id: row.id,
+      patientId: row.patient_id,
+      enrollmentId: row.enrollment_id,
+      status: row.status,
+      caseType: row.case_type,
+      providerType: row.provider_type,
+      caseworkerId: row.caseworker_id,
+      supervisorId: row.supervisor_id,
+      ...(latest && { sessionDate: latest.session_date, sessionType: latest.session_type }),
+      sessionCount: sessions.length,
+      assessmentTools: latestAssessments.map(assessment => assessment.tool),
+      latestAssessments,
+      treatmentPlan: row.treatment_plan,
+      followUpRequired: row.follow_up_required,
+      riskLevel: row.risk_level,
+      riskUpdatedAt: row.risk_updated_at,
+      interventions,
+      openedAt: row.opened_at,
+      openedBy: row.opened_by,
+      ...(row.closed_at && { closedAt: row.closed_at }),
+      ...(row.closure_reason && { closureReason: row.closure_reason }),
+    };
+  }
+
+  private toIntervention(row: any): PatientTypes.MHIntervention {
+    return {
+      id: row.id,
+      type: row.intervention_type,
+      description: row.description,
+      provider: row.provider,
+      date: row.started_at,
+      ...(row.planned_sessions !== null && { plannedSessions: row.planned_sessions }),
+      sessionsCompleted: row.sessions_completed,
+      status: row.status,
+      ...(row.outcome && { outcome: row.outcome }),
+    };
+  }
+
+  private toSession(row: any, canReadNotes: boolean): PatientTypes.MHSession {
+    return {
+      id: row.id,
+      caseId: row.case_id,
+      sessionNumber: row.session_number,
+      sessionDate: row.session_date,
+      sessionType: row.session_type,
+      providerType: row.provider_type,
+      provider: row.provider,
+      ...(row.duration_minutes !== null && { durationMinutes: row.duration_minutes }),
+      assessments: row.assessments || [],
+      riskLevel: row.risk_level,
+      escalated: row.escalated,
+      interventionIds: row.intervention_ids || [],
+      ...(canReadNotes && row.notes && { notes: row.notes }),
+      notesRestricted: !canReadNotes && Boolean(row.notes),
+      ...(row.next_session_date && { nextSessionDate: row.next_session_date }),
+      createdAt: row.created_at,
+    };
+  }
+}
+
+// Create and export singleton instance
+export const mhpssService = new MhpssService();
@@ -0,0 +1,211 @@
+import { PatientTypes } from '@zarishhealthcare/shared-types';
+import { database, Queryable } from '../config/database';
+import { config } from '../config/config';
+import { BadRequestError, ValidationError } from '../middleware/errorHandler';
+import { formatMRN, parseMRN, usesYear, validateMrnPattern } from '../utils/mrn';
+import { logger } from '../utils/logger';
+
+const FORMATS_TABLE = 'clinical.mrn_formats';
+const COUNTERS_TABLE = 'clinical.mrn_counters';
+const RESERVATIONS_TABLE = 'clinical.mrn_reservations';
+
+const CHECK_DIGITS: PatientTypes.MrnCheckDigit[] = ['luhn_mod_n', 'none'];
+
+export class MrnService {
+  async getFormat(facilityCode: string, client: Queryable = database): Promise<PatientTypes.MrnFormat> {
+    const result = await client.query(
+      `SELECT facility_code, pattern, counter_width, check_digit FROM ${FORMATS_TABLE} WHERE facility_code = $1`,
+      [facilityCode]
+    );
+    const row = result.rows[0];
+
+    if (!row) {
+      return {
+        facilityCode,
+        pattern: config.mrn.defaultPattern,
+        counterWidth: config.mrn.counterWidth,
+        checkDigit: config.mrn.checkDigit,
+      };
+    }
+
+    return {
+      facilityCode: row.facility_code,
+      pattern: row.pattern,
+      counterWidth: row.counter_width,
+      checkDigit: row.check_digit,
+    };
+  }
+
+  async saveFormat(format: PatientTypes.MrnFormat, userId: string): Promise<PatientTypes.MrnFormat> {
+    const validationErrors: Array<{ field: string; message: string; code: string; value?: any }> =
+      validateMrnPattern(format.pattern || '').map(message => ({
+        field: 'pattern',
+        message,
+        code: 'INVALID_FORMAT',
+        value: format.pattern,
+      }));
+
+    if (!Number.isInteger(format.counterWidth) || format.counterWidth < 1 || format.counterWidth > 12) {
+      validationErrors.push({
+        field: 'counterWidth',
+        message: 'counterWidth must be a whole number between 1 and 12',
+        code: 'INVALID_VALUE',
+        value: format.counterWidth,
+      });
+    }
+
+    if (!CHECK_DIGITS.includes(format.checkDigit)) {
+      validationErrors.push({
+        field: 'checkDigit',
+        message: `checkDigit must be one of: ${CHECK_DIGITS.join(', ')}`,
+        code: 'INVALID_VALUE',
+        value: format.checkDigit,
+      });
+    }
+
+    if (validationErrors.length > 0) {
+      throw new ValidationError('Invalid MRN format', validationErrors);
+    }
+
+    await database.query(
+      `INSERT INTO ${FORMATS_TABLE} (facility_code, pattern, counter_width, check_digit, updated_by)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (facility_code) DO UPDATE SET
+         pattern = EXCLUDED.pattern,
+         counter_width = EXCLUDED.counter_width,
+         check_digit = EXCLUDED.check_digit,
+         updated_by = EXCLUDED.updated_by,
+         updated_at = CURRENT_TIMESTAMP`,
+      [format.facilityCode, format.pattern, format.counterWidth, format.checkDigit, userId]
+    );
+
+    logger.info('MRN format updated', {
+      action: 'mrn_format_updated',
+      facilityCode: format.facilityCode,
+      pattern: format.pattern,
+      userId,
+    });
+
+    return format;
+  }
+
+  // Allocates the next MRN for the facility. Run it in the registration transaction so a
+  // failed insert hands the number back instead of leaving a gap.
+  async allocate(facilityCode: string, client: Queryable = database): Promise<string> {
+    const format = await this.getFormat(facilityCode, client);
+    const year = this.currentYear(format);
+    const last = await this.advanceCounter(facilityCode, year, 1, client);
+
+    return formatMRN(format, year, last);
+  }
+
+  // Reserves a contiguous block of counters for a device that registers patients offline
+  async reserveBlock(request: PatientTypes.MrnReservationRequest, userId: string): Promise<PatientTypes.MrnReservation> {
+    const { facilityCode, deviceId, count } = request;
+
+    if (!facilityCode || !deviceId) {
+      throw new BadRequestError('facilityCode and deviceId are required');
+    }
+
+    if (!Number.isInteger(count) || count < 1 || count > config.mrn.maxBlockSize) {
+      throw new BadRequestError(`count must be a whole number between 1 and ${config.mrn.maxBlockSize}`);
+    }
+
+    const reservation = await database.transaction(async (client) => {
+      const format = await this.getFormat(facilityCode, client);
+      const year = this.currentYear(format);
+      const endValue = await this.advanceCounter(facilityCode, year, count, client);
+      const startValue = endValue - count + 1;
+
+      const result = await client.query(
+        `INSERT INTO ${RESERVATIONS_TABLE} (facility_code, year, device_id, start_value, end_value, reserved_by)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING id, reserved_at`,
+        [facilityCode, year, deviceId, startValue, endValue, userId]
+      );
+
+      const mrns: string[] = [];
+      for (let counter = startValue; counter <= endValue; counter++) {
+        mrns.push(formatMRN(format, year, counter));
+      }
+
+      return {
+        id: result.rows[0].id,
+        facilityCode,
+        deviceId,
+        year: usesYear(format) ? year : null,
+        startCounter: startValue,
+        endCounter: endValue,
+        mrns,
+        reservedBy: userId,
+        reservedAt: result.rows[0].reserved_at,
+      };
+    });
+
+    logger.info('MRN block reserved', {
+      action: 'mrn_block_reserved',
+      reservationId: reservation.id,
+      facilityCode,
+      deviceId,
+      startCounter: reservation.startCounter,
+      endCounter: reservation.endCounter,
+      userId,
+    });
+
+    return reservation;
+  }
+
+  // Checks that an MRN assigned offline is well formed and comes from a block reserved for the
+  // facility. Reuse of the same MRN is caught by the unique constraint on patient_id.
+  async claimReserved(mrn: string, facilityCode: string, client: Queryable = database): Promise<string> {
+    const format = await this.getFormat(facilityCode, client);
+    const parsed = parseMRN(format, mrn);
+
+    if (!parsed) {
+      throw new ValidationError('Invalid MRN', [{
+        field: 'mrn',
+        message: `MRN does not match the ${facilityCode} format or its check digit is wrong`,
+        code: 'INVALID_MRN',
+        value: mrn,
+      }]);
+    }
+
+    const result = await client.query(
+      `SELECT id FROM ${RESERVATIONS_TABLE}
+       WHERE facility_code = $1 AND year = $2 AND start_value <= $3 AND end_value >= $3
+       LIMIT 1`,
+      [facilityCode, parsed.year ?? 0, parsed.counter]
+    );
+
+    if (!result.rows[0]) {
+      throw new ValidationError('Invalid MRN', [{
+        field: 'mrn',
+        message: 'MRN was not reserved for this facility',
+        code: 'MRN_NOT_RESERVED',
+        value: mrn,
+      }]);
+    }
+
+    return mrn.trim().toUpperCase();
+  }
+
+  private currentYear(format: PatientTypes.MrnFormat): number {
+    return usesYear(format) ? new Date().getUTCFullYear() : 0;
+  }
+
+  // Atomically moves the facility/year counter forward by `count` and returns the new last value
+  private async advanceCounter(facilityCode: string, year: number, count: number, client: Queryable): Promise<number> {
+    const result = await client.query(
+      `INSERT INTO ${COUNTERS_TABLE} AS counters (facility_code, year, last_value)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (facility_code, year) DO UPDATE SET last_value = counters.last_value + EXCLUDED.last_value
+       RETURNING last_value`,
+      [facilityCode, year, count]
+    );
+
+    return parseInt(result.rows[0].last_value, 10);
+  }
+}
+
+// Create and export singleton instance
+export const mrnService = new MrnService();
@@ -0,0 +1,608 @@
+import { ClinicalTypes, PatientTypes } from '@zarishhealthcare/shared-types';
+import { database, Queryable } from '../config/database';
+import { BadRequestError, NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { patientRepository } from '../repositories/PatientRepository';
+import { auditService, AuditEntry } from './AuditService';
+import { OPEN_STATUSES, programService } from './ProgramService';
+import { treatmentProtocolService } from './TreatmentProtocolService';
+import { FieldError } from '../utils/patientValidation';
+import { PLAUSIBLE_RANGES } from '../utils/vitalSigns';
+import { historyDiagnosisCodes } from '../utils/programEligibility';
+import { recommendTreatment } from '../utils/treatmentProtocol';
+import {
+  assessControl,
+  DEFAULT_NCD_PROTOCOL,
+  isConditionControlled,
+  NCD_FOLLOW_UP_PROGRAMS,
+  treatmentChange,
+} from '../utils/ncdControl';
+import { analyticsAllowedSql } from '../utils/consent';
+import { logger } from '../utils/logger';
+
+const VISITS_TABLE = 'clinical.ncd_visits';
+const ENROLLMENTS_TABLE = 'clinical.program_enrollments';
+
+// Cohort milestones in months after enrollment
+export const COHORT_MILESTONES = [3, 6, 12];
+
+// A milestone is judged by the last visit within this many months before it
+const COHORT_WINDOW_MONTHS = 3;
+
+const HBA1C_RANGE: [number, number] = [3, 20];
+const MAX_TREATMENT_STEP = 10;
+
+type NcdAuditContext = Pick<AuditEntry, 'userId' | 'sessionId' | 'ipAddress' | 'userAgent'> & { userId: string };
+
+export interface NcdVisitListOptions {
+  page: number;
+  limit: number;
+}
+
+export interface NcdCohortFilters {
+  from: Date;
+  to: Date;
+  facilityCode?: string;
+}
+
+function programFor(conditionType: string): string {
+  const programId = NCD_FOLLOW_UP_PROGRAMS[conditionType as ClinicalTypes.NCDConditionType];
+  if (!programId) {
+    throw new BadRequestError(
+      `NCD follow-up is available for: ${Object.keys(NCD_FOLLOW_UP_PROGRAMS).join(', ')}`
+    );
+  }
+
+  return programId;
+}
+
+function toMeasurements(request: ClinicalTypes.RecordNCDVisitRequest): ClinicalTypes.NCDMeasurements {
+  return {
+    ...(request.bloodPressure && {
+      bloodPressure: { systolic: request.bloodPressure.systolic, diastolic: request.bloodPressure.diastolic },
+    }),
+    ...(request.pulse !== undefined && { pulse: request.pulse }),
+    ...(request.fastingGlucose !== undefined && { fastingGlucose: request.fastingGlucose }),
+    ...(request.randomGlucose !== undefined && { randomGlucose: request.randomGlucose }),
+    ...(request.hba1c !== undefined && { hba1c: request.hba1c }),
+  };
+}
+
+// Readings stored in SMALLINT columns are checked with `wholeNumber`
+function checkRange(
+  errors: FieldError[],
+  field: string,
+  value: unknown,
+  [min, max]: [number, number],
+  unit: string,
+  wholeNumber = false
+): void {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    errors.push({ field, message: `${field} must be a number`, code: 'INVALID_FORMAT', value });
+  } else if (wholeNumber && !Number.isInteger(value)) {
+    errors.push({ field, message: `${field} must be a whole number`, code: 'INVALID_FORMAT', value });
+  } else if (value < min || value > max) {
+    errors.push({ field, message: `${field} must be between ${min} and ${max} ${unit}`, code: 'INVALID_VALUE', value });
+  }
+}
+
+export class NcdService {
+  // One summary per NCD enrollment of the patient, newest enrollment first
+  async getPatientPrograms(patientId: string): Promise<PatientTypes.NCDProgram[]> {
+    await this.requirePatient(patientId);
+
+    const conditions = Object.entries(NCD_FOLLOW_UP_PROGRAMS)
+      .map(([conditionType, programId]) => [programId, conditionType as ClinicalTypes.NCDConditionType] as const);
+    const conditionByProgram = new Map(conditions);
+
+    const enrollments = (await programService.getPatientEnrollments(patientId))
+      .filter(enrollment => conditionByProgram.has(enrollment.programId));
+
+    const result = await database.query(
+      `SELECT * FROM ${VISITS_TABLE} WHERE enrollment_id = ANY($1::uuid[]) ORDER BY visit_date ASC`,
+      [enrollments.map(enrollment => enrollment.id)]
+    );
+    const visits = result.rows.map(row => this.toAssessment(row));
+
+    return enrollments.map(enrollment => this.toProgram(
+      enrollment,
+      conditionByProgram.get(enrollment.programId)!,
+      visits.filter(visit => visit.enrollmentId === enrollment.id)
+    ));
+  }
+
+  async listVisits(
+    patientId: string,
+    conditionType: string,
+    options: NcdVisitListOptions
+  ): Promise<{ visits: ClinicalTypes.NCDAssessment[]; total: number }> {
+    programFor(conditionType);
+    await this.requirePatient(patientId);
+
+    const params = [patientId, conditionType];
+    const where = 'patient_id = $1 AND condition_type = $2';
+    const count = await database.query(`SELECT COUNT(*) FROM ${VISITS_TABLE} WHERE ${where}`, params);
+    const result = await database.query(
+      `SELECT * FROM ${VISITS_TABLE} WHERE ${where}
+       ORDER BY visit_date DESC
+       LIMIT $3 OFFSET $4`,
+      [...params, options.limit, (options.page - 1) * options.limit]
+    );
+
+    return {
+      visits: result.rows.map(row => this.toAssessment(row)),
+      total: parseInt(count.rows[0].count, 10),
+    };
+  }
+
+  // Records a follow-up visit against the open enrollment, which books the next appointment and
+  // returns a defaulter to care. Control and the treatment change are judged against the visit before it.
+  async recordVisit(
+    patientId: string,
+    conditionType: string,
+    request: ClinicalTypes.RecordNCDVisitRequest,
+    audit: NcdAuditContext
+  ): Promise<ClinicalTypes.NCDAssessment> {
+    const programId = programFor(conditionType);
+    const condition = conditionType as ClinicalTypes.NCDConditionType;
+    const measurements = toMeasurements(request);
+    const visitDate = this.validate(condition, request, measurements);
+
+    const visit = await database.transaction(async (client) => {
+      const enrollment = await programService.recordVisit(
+        patientId,
+        programId,
+        {
+          visitDate: visitDate.toISOString(),
+          ...(request.nextAppointment && { nextAppointment: request.nextAppointment }),
+        },
+        audit,
+        client
+      );
+
+      const previous = await this.previousVisit(client, enrollment.id, visitDate);
+      const controlStatus = assessControl(measurements, previous?.measurements);
+      const controlled = isConditionControlled(condition, controlStatus);
+      const protocol = request.protocol?.trim() || previous?.treatment.protocol || this.defaultProtocol(condition);
+      const change = treatmentChange(request.treatmentStep, previous?.treatment.step);
+
+      const result = await client.query(
+        `INSERT INTO ${VISITS_TABLE} (
+           patient_id, enrollment_id, condition_type, visit_date, facility_code, systolic, diastolic, pulse,
+           fasting_glucose, random_glucose, hba1c, control, controlled, protocol, treatment_step, previous_step,
+           treatment_change, medications, complications, risk_factors, adherence, next_appointment, notes,
+           recorded_by
+         ) VALUES (
+           $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22,
+           $23, $24
+         )
+         RETURNING *`,
+        [
+          patientId,
+          enrollment.id,
+          condition,
+          visitDate,
+          request.facilityCode || enrollment.facilityCode || null,
+          measurements.bloodPressure?.systolic ?? null,
+          measurements.bloodPressure?.diastolic ?? null,
+          measurements.pulse ?? null,
+          measurements.fastingGlucose ?? null,
+          measurements.randomGlucose ?? null,
+          measurements.hba1c ?? null,
+          JSON.stringify(controlStatus),
+          controlled ?? null,
+          protocol,
+          request.treatmentStep,
+          previous?.treatment.step ?? null,
+          change,
+          JSON.stringify(request.medications || []),
+          JSON.stringify((request.complications || []).map(complication => ({
+            ...complication,
+            dateDetected: complication.dateDetected || visitDate,
+          }))),
+          request.riskFactors ? JSON.stringify(request.riskFactors) : null,
+          request.treatmentAdherence ? JSON.stringify(request.treatmentAdherence) : null,
+          enrollment.nextAppointment || null,
+          request.notes || null,
+          audit.userId,
+        ]
+      );
+
+      await auditService.record({
+        ...audit,
+        entityType: 'ncd_visit',
+        entityId: result.rows[0].id,
+        action: 'create',
+        metadata: {
+          businessContext: {
+            patientId,
+            enrollmentId: enrollment.id,
+            conditionType: condition,
+            controlled,
+            treatmentChange: change,
+          },
+        },
+      }, client);
+
+      return this.toAssessment(result.rows[0]);
+    });
+
+    logger.info('NCD visit recorded', {
+      action: 'ncd_visit_recorded',
+      visitId: visit.id,
+      patientId,
+      conditionType: condition,
+      overallControl: visit.controlStatus.overallControl,
+      treatmentChange: visit.treatment.change,
+      userId: audit.userId,
+    });
+
+    return visit;
+  }
+
+  // Controlled rates at each milestone for patients enrolled within [from, to], per facility.
+  // Patients transferred out before a milestone are not due at it.
+  async getCohortReport(conditionType: string, filters: NcdCohortFilters): Promise<ClinicalTypes.NCDCohortReport> {
+    const programId = programFor(conditionType);
+
+    const params: any[] = [programId, filters.from, filters.to, COHORT_MILESTONES, COHORT_WINDOW_MONTHS];
+    const conditions = [
+      'e.program_id = $1',
+      'e.enrolled_at >= $2',
+      'e.enrolled_at <= $3',
+      analyticsAllowedSql('e.patient_id'),
+    ];
+
+    if (filters.facilityCode) {
+      params.push(filters.facilityCode);
+      conditions.push(`e.facility_code = $${params.length}`);
+    }
+
+    const result = await database.query(
+      `WITH milestones AS (
+         SELECT e.id, COALESCE(e.facility_code, 'unknown') AS facility_code, m.months,
+                e.enrolled_at + make_interval(months => m.months) AS due_at,
+                e.status, e.status_changed_at
+         FROM ${ENROLLMENTS_TABLE} e
+         JOIN clinical.patients p ON p.id = e.patient_id AND p.deleted = FALSE
+         CROSS JOIN unnest($4::int[]) AS m(months)
+         WHERE ${conditions.join(' AND ')}
+       ),
+       outcomes AS (
+         SELECT ms.facility_code, ms.months,
+                ms.due_at <= CURRENT_TIMESTAMP
+                  AND NOT (ms.status = 'transferred_out' AND ms.status_changed_at <= ms.due_at) AS due,
+                (SELECT v.controlled FROM ${VISITS_TABLE} v
+                 WHERE v.enrollment_id = ms.id
+                   AND v.controlled IS NOT NULL
+                   AND v.visit_date > ms.due_at - make_interval(months => $5)
+                   AND v.visit_date <= ms.due_at
+                 ORDER BY v.visit_date DESC
+                 LIMIT 1) AS controlled
+         FROM milestones ms
+       )
+       SELECT facility_code, months,
+              COUNT(*) AS enrolled,
+              COUNT(*) FILTER (WHERE due) AS due,
+              COUNT(*) FILTER (WHERE due AND controlled) AS controlled,
+              COUNT(*) FILTER (WHERE due AND NOT controlled) AS uncontrolled
+       FROM outcomes
+       GROUP BY facility_code, months
+       ORDER BY facility_code, months`,
+      params
+    );
+
+    const facilities = new Map<string, ClinicalTypes.NCDFacilityCohort>();
+
+    for (const row of result.rows) {
+      const facility: ClinicalTypes.NCDFacilityCohort = facilities.get(row.facility_code) || {
+        facilityCode: row.facility_code,
+        enrolled: parseInt(row.enrolled, 10),
+        outcomes: [],
+      };
+      const due = parseInt(row.due, 10);
+      const controlled = parseInt(row.controlled, 10);
+      const uncontrolled = parseInt(row.uncontrolled, 10);
+
+      facility.outcomes.push({
+        months: row.months,
+        due,
+        controlled,
+        uncontrolled,
+        noVisit: due - controlled - uncontrolled,
+        controlledRate: due > 0 ? Math.round((controlled / due) * 1000) / 1000 : null,
+      });
+      facilities.set(row.facility_code, facility);
+    }
+
+    return {
+      conditionType: conditionType as ClinicalTypes.NCDConditionType,
+      from: filters.from,
+      to: filters.to,
+      facilities: Array.from(facilities.values()),
+      generatedAt: new Date(),
+    };
+  }
+
+  // The next step of the condition's protocol, judged on a reading taken now or else the latest visit's.
+  // Comorbidities come from the patient's diagnoses and open enrollments.
+  async recommendTreatment(
+    patientId: string,
+    conditionType: string,
+    reading?: ClinicalTypes.BloodPressureTarget
+  ): Promise<ClinicalTypes.TreatmentRecommendation> {
+    programFor(conditionType);
+    const protocol = treatmentProtocolService.getActiveProtocol(conditionType as ClinicalTypes.NCDConditionType);
+
+    if (reading) {
+      const errors: FieldError[] = [];
+      checkRange(errors, 'systolic', reading.systolic, PLAUSIBLE_RANGES.systolic, 'mmHg');
+      checkRange(errors, 'diastolic', reading.diastolic, PLAUSIBLE_RANGES.diastolic, 'mmHg');
+      if (errors.length > 0) {
+        throw new ValidationError('Invalid blood pressure reading', errors);
+      }
+    }
+
+    const patient = await this.requirePatient(patientId);
+    const result = await database.query(
+      `SELECT * FROM ${VISITS_TABLE}
+       WHERE patient_id = $1 AND condition_type = $2
+       ORDER BY visit_date DESC, created_at DESC
+       LIMIT 1`,
+      [patientId, conditionType]
+    );
+    const latest = result.rows[0] ? this.toAssessment(result.rows[0]) : undefined;
+
+    const bloodPressure = reading || (latest?.measurements.bloodPressure && {
+      ...latest.measurements.bloodPressure,
+      date: latest.assessmentDate,
+    });
+    if (!bloodPressure) {
+      throw new BadRequestError('No blood pressure recorded; record a visit or pass systolic and diastolic');
+    }
+
+    const openEnrollments = (await programService.getPatientEnrollments(patientId))
+      .filter(enrollment => OPEN_STATUSES.includes(enrollment.status));
+    const adherenceRates = (latest?.treatmentAdherence?.medicationAdherence || [])
+      .filter(medication => medication.taking)
+      .map(medication => medication.adherenceRate);
+
+    // A step recorded under another protocol means nothing here, so the step is inferred instead
+    const sameProtocol = latest && latest.treatment.protocol.split('@')[0] === protocol.id;
+
+    return recommendTreatment(protocol, {
+      bloodPressure,
+      ...(sameProtocol && { currentStep: latest.treatment.step }),
+      medications: latest?.medications || [],
+      diagnosisCodes: [
+        ...historyDiagnosisCodes(patient),
+        ...openEnrollments.flatMap(enrollment => enrollment.diagnosisCodes),
+      ],
+      programs: openEnrollments.map(enrollment => enrollment.programId),
+      ...(adherenceRates.length > 0 && { adherenceRate: Math.min(...adherenceRates) }),
+      today: new Date(),
+    });
+  }
+
+  // Visits record the active protocol as id@version so their steps can be read against it later
+  private defaultProtocol(conditionType: ClinicalTypes.NCDConditionType): string {
+    const protocol = treatmentProtocolService.findActiveProtocol(conditionType);
+    return protocol ? `${protocol.id}@${protocol.version}` : DEFAULT_NCD_PROTOCOL;
+  }
+
+  private validate(
+    conditionType: ClinicalTypes.NCDConditionType,
+    request: ClinicalTypes.RecordNCDVisitRequest,
+    measurements: ClinicalTypes.NCDMeasurements
+  ): Date {
+    const errors: FieldError[] = [];
+
+    if (conditionType === 'hypertension' && !measurements.bloodPressure) {
+      errors.push({
+        field: 'bloodPressure',
+        message: 'Blood pressure is required at hypertension visits',
+        code: 'REQUIRED_FIELD',
+      });
+    }
+
+    if (conditionType === 'diabetes' && measurements.fastingGlucose === undefined
+      && measurements.randomGlucose === undefined && measurements.hba1c === undefined) {
+      errors.push({
+        field: 'hba1c',
+        message: 'HbA1c, fasting or random glucose is required at diabetes visits',
+        code: 'REQUIRED_FIELD',
+      });
+    }
+
+    if (measurements.bloodPressure) {
+      const { systolic, diastolic } = measurements.bloodPressure;
+      checkRange(errors, 'bloodPressure.systolic', systolic, PLAUSIBLE_RANGES.systolic, 'mmHg', true);
+      checkRange(errors, 'bloodPressure.diastolic', diastolic, PLAUSIBLE_RANGES.diastolic, 'mmHg', true);
+
+      if (diastolic >= systolic) {
+        errors.push({
+          field: 'bloodPressure.diastolic',
+          message: 'Diastolic pressure must be lower than systolic pressure',
+          code: 'INVALID_VALUE',
+          value: diastolic,
+        });
+      }
+    }
+
+    if (measurements.pulse !== undefined) {
+      checkRange(errors, 'pulse', measurements.pulse, PLAUSIBLE_RANGES.heartRate, 'beats/min', true);
+    }
+
+    for (const field of ['fastingGlucose', 'randomGlucose'] as const) {
+      if (measurements[field] !== undefined) {
+        checkRange(errors, field, measurements[field], PLAUSIBLE_RANGES.bloodGlucose, 'mmol/L');
+      }
+    }
+
+    if (measurements.hba1c !== undefined) {
+      checkRange(errors, 'hba1c', measurements.hba1c, HBA1C_RANGE, '%');
+    }
+
+    if (!Number.isInteger(request.treatmentStep) || request.treatmentStep < 0
+      || request.treatmentStep > MAX_TREATMENT_STEP) {
+      errors.push({
+        field: 'treatmentStep',
+        message: `treatmentStep must be a whole number from 0 to ${MAX_TREATMENT_STEP}`,
+        code: request.treatmentStep === undefined ? 'REQUIRED_FIELD' : 'INVALID_VALUE',
+        value: request.treatmentStep,
+      });
+    }
+
+    (request.medications || []).forEach((medication, index) => {
+      if (!medication?.name?.trim() || !medication.dosage?.trim() || !medication.frequency?.trim()) {
+        errors.push({
+          field: `medications[${index}]`,
+          message: 'Each medication needs a name, dosage and frequency',
+          code: 'REQUIRED_FIELD',
+        });
+      }
+    });
+
+    const visitDate = request.visitDate ? new Date(request.visitDate) : new Date();
+    if (isNaN(visitDate.getTime())) {
+      errors.push({
+        field: 'visitDate',
+        message: 'visitDate must be a valid date',
+        code: 'INVALID_FORMAT',
+        value: request.visitDate,
+      });
+    } else if (visitDate > new Date()) {
+      errors.push({
+        field: 'visitDate',
+        message: 'visitDate cannot be in the future',
+        code: 'INVALID_VALUE',
+        value: request.visitDate,
+      });
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid NCD visit', errors);
+    }
+
+    return visitDate;
+  }
+
+  private async previousVisit(
+    client: Queryable,
+    enrollmentId: string,
+    visitDate: Date
+  ): Promise<ClinicalTypes.NCDAssessment | undefined> {
+    const result = await client.query(
+      `SELECT * FROM ${VISITS_TABLE}
+       WHERE enrollment_id = $1 AND visit_date <= $2
+       ORDER BY visit_date DESC, created_at DESC
+       LIMIT 1`,
+      [enrollmentId, visitDate]
+    );
+
+    return result.rows[0] ? this.toAssessment(result.rows[0]) : undefined;
+  }
+
+  private async requirePatient(patientId: string): Promise<PatientTypes.Patient> {
+    const patient = await patientRepository.findById(patientId);
+    if (!patient) {
+      throw new NotFoundError('Patient', patientId);
+    }
+
+    return patient;
+  }
+
+  // Status and control come from the latest visit; risk factors keep the latest value recorded for each
+  private toProgram(
+    enrollment: PatientTypes.ProgramEnrollment,
+    conditionType: ClinicalTypes.NCDConditionType,
+    visits: ClinicalTypes.NCDAssessment[]
+  ): PatientTypes.NCDProgram {
+    const latest = visits[visits.length - 1];
+    const latestWith = (
+      has: (measurements: ClinicalTypes.NCDMeasurements) => boolean
+    ): ClinicalTypes.NCDAssessment | undefined => [...visits].reverse().find(visit => has(visit.measurements));
+
+    const bpVisit = latestWith(measurements => measurements.bloodPressure !== undefined);
+    const glucoseVisit = latestWith(measurements => measurements.hba1c !== undefined
+      || measurements.fastingGlucose !== undefined || measurements.randomGlucose !== undefined);
+    const hba1cVisit = latestWith(measurements => measurements.hba1c !== undefined);
+
+    const controlled = latest ? isConditionControlled(conditionType, latest.controlStatus) : undefined;
+    const currentStatus: PatientTypes.NCDProgram['currentStatus'] = !latest
+      ? 'newly_diagnosed'
+      : controlled === undefined ? 'follow_up' : controlled ? 'controlled' : 'uncontrolled';
+    const lastAssessment = latest?.assessmentDate || enrollment.enrolledAt;
+    const details = (enrollment.details || {}) as Partial<PatientTypes.NCDProgram>;
+
+    return {
+      id: enrollment.id,
+      patientId: enrollment.patientId,
+      conditionType,
+      diagnosisDate: details.diagnosisDate ? new Date(details.diagnosisDate) : enrollment.enrolledAt,
+      currentStatus,
+      treatmentProtocol: latest?.treatment.protocol || details.treatmentProtocol || DEFAULT_NCD_PROTOCOL,
+      lastAssessmentDate: lastAssessment,
+      ...(enrollment.nextAppointment && { nextAppointment: enrollment.nextAppointment }),
+      ...(latest && { treatmentStep: latest.treatment.step }),
+      controlStatus: {
+        ...(bpVisit && { bpControlled: bpVisit.controlStatus.bloodPressureControl!.controlled }),
+        ...(glucoseVisit && { glucoseControlled: glucoseVisit.controlStatus.glucoseControl!.controlled }),
+        ...(hba1cVisit && { lastHbA1c: hba1cVisit.measurements.hba1c! }),
+        ...(bpVisit && {
+          lastBP: {
+            ...bpVisit.measurements.bloodPressure!,
+            ...(bpVisit.measurements.pulse !== undefined && { pulse: bpVisit.measurements.pulse }),
+            date: bpVisit.assessmentDate,
+          },
+        }),
+        targetAchieved: controlled === true,
+        lastAssessment,
+      },
+      // Chronic medication continues until changed at a later visit
+      medications: (latest?.medications || []).map(medication => ({
+        name: medication.name,
+        dosage: medication.dosage,
+        frequency: medication.frequency,
+        duration: 'ongoing',
+        instructions: medication.instructions || '',
+        prescribedBy: latest!.provider,
+      })),
+      riskFactors: Object.assign({}, ...visits.map(visit => visit.riskFactors || {})),
+    };
+  }
+
+  private toAssessment(row: any): ClinicalTypes.NCDAssessment {
+    return {
+      id: row.id,
+      patientId: row.patient_id,
+      enrollmentId: row.enrollment_id,
+      conditionType: row.condition_type,
+      assessmentDate: row.visit_date,
+      ...(row.facility_code && { facilityCode: row.facility_code }),
+      measurements: {
+        ...(row.systolic !== null && { bloodPressure: { systolic: row.systolic, diastolic: row.diastolic } }),
+        ...(row.pulse !== null && { pulse: row.pulse }),
+        ...(row.fasting_glucose !== null && { fastingGlucose: row.fasting_glucose }),
+        ...(row.random_glucose !== null && { randomGlucose: row.random_glucose }),
+        ...(row.hba1c !== null && { hba1c: row.hba1c }),
+      },
+      controlStatus: row.control,
+      treatment: {
+        protocol: row.protocol,
+        step: row.treatment_step,
+        ...(row.previous_step !== null && { previousStep: row.previous_step }),
+        change: row.treatment_change,
+      },
+      medications: row.medications || [],
+      complications: row.complications || [],
+      ...(row.risk_factors && { riskFactors: row.risk_factors }),
+      ...(row.adherence && { treatmentAdherence: row.adherence }),
+      provider: row.recorded_by,
+      ...(row.next_appointment && { nextAssessment: row.next_appointment }),
+      ...(row.notes && { notes: row.notes }),
+    };
+  }
+}
+
+// Create and export singleton instance
+export const ncdService = new NcdService();
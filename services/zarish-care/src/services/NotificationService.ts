@@ -0,0 +1,160 @@
+import { CommonTypes, PatientTypes } from '@zarishhealthcare/shared-types';
+import { database, Queryable } from '../config/database';
+import { NotFoundError } from '../middleware/errorHandler';
+import { PATIENTS_TABLE } from '../repositories/PatientRepository';
+import { hasActiveConsentSql } from '../utils/consent';
+import { logger } from '../utils/logger';
+
+const OUTBOX_TABLE = 'clinical.notification_outbox';
+const STAFF_NOTIFICATIONS_TABLE = 'clinical.staff_notifications';
+
+export type StaffNotificationRequest = Pick<CommonTypes.Notification, 'type' | 'priority' | 'title' | 'message'> & {
+  actionUrl?: string;
+  metadata?: Record<string, any>;
+};
+
+export class NotificationService {
+  // Queues an SMS for the gateway, only while the patient has an active consent of `consentType`
+  // and a primary phone. Returns the message id, or null when nothing was queued.
+  async queueSms(
+    patientId: string,
+    consentType: PatientTypes.ConsentType,
+    message: string,
+    userId: string,
+    client: Queryable = database
+  ): Promise<string | null> {
+    // Consent is checked in the insert itself so a concurrent withdrawal cannot slip past it
+    const result = await client.query(
+      `INSERT INTO ${OUTBOX_TABLE} (patient_id, channel, consent_type, recipient, message, created_by)
+       SELECT p.id, 'sms', $2, p.demographics->'contactInfo'->>'primaryPhone', $3, $4
+       FROM ${PATIENTS_TABLE} p
+       WHERE p.id = $1
+         AND p.deleted = FALSE
+         AND COALESCE(p.demographics->'contactInfo'->>'primaryPhone', '') <> ''
+         AND ${hasActiveConsentSql('p.id', '$2')}
+       RETURNING id`,
+      [patientId, consentType, message, userId]
+    );
+
+    if (!result.rows[0]) {
+      logger.debug('SMS not queued', { patientId, consentType });
+      return null;
+    }
+
+    return result.rows[0].id;
+  }
+
+  // Stops messages not yet handed to the gateway, e.g. after the consent behind them is withdrawn
+  async cancelPending(
+    patientId: string,
+    consentType: PatientTypes.ConsentType,
+    reason: string,
+    client: Queryable = database
+  ): Promise<number> {
+    const result = await client.query(
+      `UPDATE ${OUTBOX_TABLE}
+       SET status = 'cancelled', cancelled_at = CURRENT_TIMESTAMP, cancellation_reason = $3
+       WHERE patient_id = $1 AND consent_type = $2 AND status = 'pending'`,
+      [patientId, consentType, reason]
+    );
+
+    if (result.rowCount) {
+      logger.info('Pending notifications cancelled', {
+        action: 'notifications_cancelled',
+        patientId,
+        consentType,
+        count: result.rowCount,
+      });
+    }
+
+    return result.rowCount || 0;
+  }
+
+  // Stores an in-app notification for a staff member. Push it with realtimeService.emitToUser once
+  // the surrounding transaction has committed.
+  async notifyStaff(
+    recipientId: string,
+    notification: StaffNotificationRequest,
+    userId: string,
+    client: Queryable = database
+  ): Promise<CommonTypes.Notification> {
+    const result = await client.query(
+      `INSERT INTO ${STAFF_NOTIFICATIONS_TABLE} (
+         recipient_id, type, priority, title, message, action_url, metadata, created_by
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING *`,
+      [
+        recipientId,
+        notification.type,
+        notification.priority,
+        notification.title,
+        notification.message,
+        notification.actionUrl || null,
+        JSON.stringify(notification.metadata || {}),
+        userId,
+      ]
+    );
+
+    return this.toNotification(result.rows[0]);
+  }
+
+  async getStaffNotifications(
+    recipientId: string,
+    unreadOnly: boolean,
+    limit: number
+  ): Promise<CommonTypes.Notification[]> {
+    const result = await database.query(
+      `SELECT * FROM ${STAFF_NOTIFICATIONS_TABLE}
+       WHERE recipient_id = $1 ${unreadOnly ? 'AND read_at IS NULL' : ''}
+       ORDER BY created_at DESC
+       LIMIT $2`,
+      [recipientId, limit]
+    );
+
+    return result.rows.map(row => this.toNotification(row));
+  }
+
+  // Only the recipient can mark a notification read; anyone else gets a 404
+  async markRead(notificationId: string, recipientId: string): Promise<CommonTypes.Notification> {
+    const result = await database.query(
+      `UPDATE ${STAFF_NOTIFICATIONS_TABLE}
+       SET read_at = COALESCE(read_at, CURRENT_TIMESTAMP)
+       WHERE id = $1 AND recipient_id = $2
+       RETURNING *`,
+      [notificationId, recipientId]
+    );
+
+    if (!result.rows[0]) {
+      throw new NotFoundError('Notification', notificationId);
+    }
+
+    return this.toNotification(result.rows[0]);
+  }
+
+  private toNotification(row: any): CommonTypes.Notification {
+    return {
+      id: row.id,
+      type: row.type,
+      priority: row.priority,
+      title: row.title,
+      message: row.message,
+      ...(row.action_url && { actionUrl: row.action_url }),
+      recipientId: row.recipient_id,
+      recipientType: 'user',
+      channels: [{
+        type: 'in_app',
+        address: row.recipient_id,
+        status: row.read_at ? 'delivered' : 'sent',
+        attempts: 1,
+      }],
+      status: row.read_at ? 'read' : 'sent',
+      createdAt: row.created_at,
+      sentAt: row.created_at,
+      ...(row.read_at && { readAt: row.read_at }),
+      metadata: row.metadata,
+    };
+  }
+}
+
+// Create and export singleton instance
+export const notificationService = new NotificationService();
@@ -0,0 +1,288 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { validate as isUuid } from 'uuid';
+import { PatientTypes } from '@zarishhealthcare/shared-types';
+import { database } from '../config/database';
+import { config } from '../config/config';
+import { BadRequestError, ConflictError, NotFoundError } from '../middleware/errorHandler';
+import { patientRepository } from '../repositories/PatientRepository';
+import { auditService, AuditEntry } from './AuditService';
+import { consentService } from './ConsentService';
+import { programService } from './ProgramService';
+import { toCsvRow } from '../utils/csv';
+import { ExportRecord, PROFILE_COLUMNS, toExportRecord } from '../utils/deidentification';
+import { logger } from '../utils/logger';
+
+const JOBS_TABLE = 'clinical.patient_export_jobs';
+
+export const EXPORT_FORMATS: PatientTypes.PatientExportFormat[] = ['csv', 'ndjson', 'fhir'];
+export const EXPORT_PROFILES: PatientTypes.DeidentificationProfile[] = ['full', 'pseudonymised', 'aggregate'];
+
+const FILE_TYPES: Record<PatientTypes.PatientExportFormat, { extension: string; contentType: string }> = {
+  csv: { extension: 'csv', contentType: 'text/csv; charset=utf-8' },
+  ndjson: { extension: 'ndjson', contentType: 'application/x-ndjson' },
+  fhir: { extension: 'json', contentType: 'application/fhir+json' },
+};
+
+const FHIR_GENDERS: Record<string, string> = {
+  male: 'male',
+  female: 'female',
+  diverse: 'other',
+};
+
+type ExportAuditContext = Pick<AuditEntry, 'userId' | 'sessionId' | 'ipAddress' | 'userAgent'>;
+
+// FHIR R4 Patient built from the already de-identified record, so the profile applies here too
+function toFhirPatient(record: ExportRecord): Record<string, any> {
+  const identifiers = [
+    ['urn:zarish:mrn', record.mrn],
+    ['urn:unhcr:id', record.unhcrId],
+    ['urn:zarish:smart-card', record.smartCardId],
+    ['urn:zarish:national-id', record.nationalId],
+  ].filter(([, value]) => value);
+  const id = record.id || record.pseudonymId;
+  const birthDate = record.dateOfBirth || (record.birthYear ? String(record.birthYear) : null);
+  const district = record.campLocation || record.campArea;
+
+  return {
+    resourceType: 'Patient',
+    ...(id && { id }),
+    ...(identifiers.length > 0 && {
+      identifier: identifiers.map(([system, value]) => ({ system, value })),
+    }),
+    active: record.status === PatientTypes.PatientStatus.ACTIVE,
+    ...((record.firstName || record.lastName) && {
+      name: [{ family: record.lastName, given: [record.firstName] }],
+    }),
+    ...(record.primaryPhone && { telecom: [{ system: 'phone', value: record.primaryPhone }] }),
+    gender: FHIR_GENDERS[record.gender as string] || 'unknown',
+    ...(birthDate && { birthDate }),
+    ...(record.status === PatientTypes.PatientStatus.DECEASED && { deceasedBoolean: true }),
+    ...(district && {
+      address: [{
+        district,
+        ...(record.blockNumber && { line: [[record.blockNumber, record.shelterId].filter(Boolean).join(' ')] }),
+      }],
+    }),
+    ...(record.ageBand && {
+      extension: [{ url: 'urn:zarish:fhir:age-band', valueString: record.ageBand }],
+    }),
+  };
+}
+
+export class PatientExportService {
+  async startExport(
+    format: PatientTypes.PatientExportFormat,
+    profile: PatientTypes.DeidentificationProfile,
+    filters: PatientTypes.PatientListFilters,
+    audit: ExportAuditContext & { userId: string }
+  ): Promise<PatientTypes.PatientExportJob> {
+    if (!EXPORT_FORMATS.includes(format)) {
+      throw new BadRequestError(`format must be one of: ${EXPORT_FORMATS.join(', ')}`);
+    }
+
+    if (!EXPORT_PROFILES.includes(profile)) {
+      throw new BadRequestError(`profile must be one of: ${EXPORT_PROFILES.join(', ')}`);
+    }
+
+    // The request is audited with the job, before any data is produced
+    const job = await database.transaction(async (client) => {
+      const result = await client.query(
+        `INSERT INTO ${JOBS_TABLE} (format, profile, filters, created_by)
+         VALUES ($1, $2, $3, $4)
+         RETURNING *`,
+        [format, profile, JSON.stringify(filters), audit.userId]
+      );
+
+      await auditService.record({
+        ...audit,
+        entityType: 'patient_export',
+        entityId: result.rows[0].id,
+        action: 'export',
+        metadata: {
+          businessContext: { format, profile, filters },
+        },
+      }, client);
+
+      return this.toJob(result.rows[0]);
+    });
+
+    logger.info('Patient export queued', {
+      action: 'patient_export_queued',
+      jobId: job.id,
+      format,
+      profile,
+      filters,
+      userId: audit.userId,
+    });
+
+    setImmediate(() => {
+      this.run(job).catch(async (error) => {
+        logger.error('Patient export failed', {
+          jobId: job.id,
+          error: error instanceof Error ? error.message : error,
+          stack: error instanceof Error ? error.stack : undefined,
+        });
+        await database.query(
+          `UPDATE ${JOBS_TABLE} SET status = 'failed', error = $2, completed_at = CURRENT_TIMESTAMP WHERE id = $1`,
+          [job.id, error instanceof Error ? error.message : 'Unknown error']
+        ).catch(() => undefined);
+      });
+    });
+
+    return job;
+  }
+
+  async getJob(id: string): Promise<PatientTypes.PatientExportJob> {
+    return this.toJob(await this.findJobRow(id));
+  }
+
+  // Location of a finished export; every download is audited
+  async openDownload(
+    id: string,
+    audit: ExportAuditContext & { userId: string }
+  ): Promise<{ filePath: string; fileName: string; contentType: string }> {
+    const row = await this.findJobRow(id);
+
+    if (row.status !== 'completed' || !row.file_path) {
+      throw new ConflictError(`Export ${id} is ${row.status}; it can be downloaded once completed`);
+    }
+
+    await auditService.record({
+      ...audit,
+      entityType: 'patient_export',
+      entityId: id,
+      action: 'read',
+      metadata: {
+        businessContext: { format: row.format, profile: row.profile, totalRows: row.total_rows, download: true },
+      },
+    });
+
+    const fileType = FILE_TYPES[row.format as PatientTypes.PatientExportFormat];
+
+    return {
+      filePath: row.file_path,
+      fileName: `patients-${row.profile}-${id}.${fileType.extension}`,
+      contentType: fileType.contentType,
+    };
+  }
+
+  private async findJobRow(id: string): Promise<any> {
+    const result = isUuid(id)
+      ? await database.query(`SELECT * FROM ${JOBS_TABLE} WHERE id = $1`, [id])
+      : { rows: [] };
+
+    if (!result.rows[0]) {
+      throw new NotFoundError('Export job', id);
+    }
+
+    return result.rows[0];
+  }
+
+  private async run(job: PatientTypes.PatientExportJob): Promise<void> {
+    await database.query(`UPDATE ${JOBS_TABLE} SET status = 'running' WHERE id = $1`, [job.id]);
+    await fs.mkdir(config.patientExport.storagePath, { recursive: true });
+
+    const filePath = path.join(config.patientExport.storagePath, `${job.id}.${FILE_TYPES[job.format].extension}`);
+    const file = await fs.open(filePath, 'w');
+    let total = 0;
+    let excluded = 0;
+
+    // Enrollment in an MHPSS program is itself sensitive; it is only released with disclosure consent
+    const mhpssProgramIds = (await programService.listPrograms())
+      .filter(program => program.programType === 'mhpss')
+      .map(program => program.id);
+
+    try {
+      if (job.format === 'csv') {
+        await file.write(toCsvRow(PROFILE_COLUMNS[job.profile]));
+      } else if (job.format === 'fhir') {
+        await file.write(`{"resourceType":"Bundle","type":"collection","timestamp":"${new Date().toISOString()}","entry":[`);
+      }
+
+      let afterId: string | null = null;
+
+      for (;;) {
+        const patients = await patientRepository.findBatch(job.filters, afterId, config.patientExport.batchSize);
+        if (patients.length === 0) {
+          break;
+        }
+
+        // Exports leave the system, so only patients with an active data sharing consent are included
+        const consents = await consentService.getActiveTypes(patients.map(patient => patient.id));
+
+        let chunk = '';
+        for (const patient of patients) {
+          const consented = consents.get(patient.id);
+          if (!consented?.has('data_sharing')) {
+            excluded++;
+            continue;
+          }
+
+          const released = consented.has('mhpss_disclosure')
+            ? patient
+            : { ...patient, programs: patient.programs.filter(id => !mhpssProgramIds.includes(id)) };
+          const record = toExportRecord(released, job.profile, config.patientExport.pseudonymSecret);
+
+          if (job.format === 'csv') {
+            chunk += toCsvRow(PROFILE_COLUMNS[job.profile].map(column => record[column]));
+          } else if (job.format === 'ndjson') {
+            chunk += JSON.stringify(record) + '\n';
+          } else {
+            chunk += (total > 0 ? ',' : '') + JSON.stringify({ resource: toFhirPatient(record) });
+          }
+          total++;
+        }
+
+        await file.write(chunk);
+        afterId = patients[patients.length - 1]!.id;
+      }
+
+      if (job.format === 'fhir') {
+        await file.write(']}');
+      }
+    } finally {
+      await file.close();
+    }
+
+    const { size } = await fs.stat(filePath);
+
+    await database.query(
+      `UPDATE ${JOBS_TABLE}
+       SET status = 'completed', total_rows = $2, excluded_rows = $3, file_path = $4, file_size = $5,
+           completed_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [job.id, total, excluded, filePath, size]
+    );
+
+    logger.info('Patient export completed', {
+      action: 'patient_export_completed',
+      jobId: job.id,
+      format: job.format,
+      profile: job.profile,
+      totalRows: total,
+      excludedRows: excluded,
+      fileSize: size,
+    });
+  }
+
+  private toJob(row: any): PatientTypes.PatientExportJob {
+    return {
+      id: row.id,
+      format: row.format,
+      profile: row.profile,
+      filters: row.filters,
+      status: row.status,
+      totalRows: row.total_rows,
+      excludedRows: row.excluded_rows,
+      ...(row.file_size !== null && row.file_size !== undefined && { fileSize: parseInt(row.file_size, 10) }),
+      ...(row.error && { error: row.error }),
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+      ...(row.completed_at && { completedAt: row.completed_at }),
+    };
+  }
+}
+
+// Create and export singleton instance
+export const patientExportService = new PatientExportService();
@@ -0,0 +1,274 @@
+import { Request } from 'express';
+import { validate as isUuid } from 'uuid';
+import { PatientTypes } from '@zarishhealthcare/shared-types';
+import { database, Queryable } from '../config/database';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { hasPermission } from '../middleware/auth';
+import { patientRepository } from '../repositories/PatientRepository';
+import { auditService, AuditEntry } from './AuditService';
+import { realtimeService } from './RealtimeService';
+import { FieldError } from '../utils/patientValidation';
+import { logger } from '../utils/logger';
+
+const FLAGS_TABLE = 'clinical.patient_flags';
+
+export const FLAG_TYPES: PatientTypes.PatientFlagType[] = [
+  'allergy',
+  'protection_concern',
+  'infectious_isolation',
+  'violent_behaviour',
+  'dnr',
+  'pregnancy',
+];
+
+export const FLAG_SEVERITIES: PatientTypes.PatientFlagSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+// Flag types only visible to (and manageable by) holders of the given permission.
+// Protection concerns are for caseworkers; everyone else never learns they exist.
+const RESTRICTED_FLAG_TYPES: Partial<Record<PatientTypes.PatientFlagType, string>> = {
+  protection_concern: 'patients.protection_flags',
+};
+
+const ACTIVE_SQL = 'removed_at IS NULL AND (expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP)';
+
+type FlagAuditContext = Pick<AuditEntry, 'userId' | 'sessionId' | 'ipAddress' | 'userAgent'> & { userId: string };
+
+export class PatientFlagService {
+  // Flag types the user may see
+  visibleTypes(user: Request['user']): PatientTypes.PatientFlagType[] {
+    return FLAG_TYPES.filter(type => {
+      const permission = RESTRICTED_FLAG_TYPES[type];
+      return !permission || hasPermission(user, permission);
+    });
+  }
+
+  async getActiveFlags(
+    patientId: string,
+    user: Request['user'],
+    client: Queryable = database
+  ): Promise<PatientTypes.PatientFlag[]> {
+    return this.findFlags(patientId, user, false, client);
+  }
+
+  // Includes removed and expired flags when `includeInactive` is set
+  async getFlags(
+    patientId: string,
+    user: Request['user'],
+    includeInactive: boolean
+  ): Promise<PatientTypes.PatientFlag[]> {
+    return this.findFlags(patientId, user, includeInactive);
+  }
+
+  async addFlag(
+    patientId: string,
+    request: PatientTypes.CreatePatientFlagRequest,
+    user: Request['user'],
+    audit: FlagAuditContext
+  ): Promise<PatientTypes.PatientFlag> {
+    const errors: FieldError[] = [];
+
+    if (!FLAG_TYPES.includes(request.flagType)) {
+      errors.push({
+        field: 'flagType',
+        message: `flagType must be one of: ${FLAG_TYPES.join(', ')}`,
+        code: 'INVALID_VALUE',
+        value: request.flagType,
+      });
+    }
+
+    if (!FLAG_SEVERITIES.includes(request.severity)) {
+      errors.push({
+        field: 'severity',
+        message: `severity must be one of: ${FLAG_SEVERITIES.join(', ')}`,
+        code: 'INVALID_VALUE',
+        value: request.severity,
+      });
+    }
+
+    if (!request.description || !request.description.trim()) {
+      errors.push({ field: 'description', message: 'Description is required', code: 'REQUIRED_FIELD' });
+    }
+
+    let expiresAt: Date | null = null;
+    if (request.expiresAt) {
+      expiresAt = new Date(request.expiresAt);
+      if (isNaN(expiresAt.getTime())) {
+        errors.push({
+          field: 'expiresAt',
+          message: 'expiresAt must be a valid date',
+          code: 'INVALID_FORMAT',
+          value: request.expiresAt,
+        });
+      } else if (expiresAt <= new Date()) {
+        errors.push({
+          field: 'expiresAt',
+          message: 'expiresAt must be in the future',
+          code: 'INVALID_VALUE',
+          value: request.expiresAt,
+        });
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid patient flag', errors);
+    }
+
+    this.assertAllowed(request.flagType, user);
+
+    const patient = await patientRepository.findById(patientId);
+    if (!patient) {
+      throw new NotFoundError('Patient', patientId);
+    }
+
+    const flag = await database.transaction(async (client) => {
+      const result = await client.query(
+        `INSERT INTO ${FLAGS_TABLE} (patient_id, flag_type, severity, description, expires_at, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING *`,
+        [patientId, request.flagType, request.severity, request.description.trim(), expiresAt, audit.userId]
+      );
+
+      await auditService.record({
+        ...audit,
+        entityType: 'patient_flag',
+        entityId: result.rows[0].id,
+        action: 'create',
+        metadata: {
+          businessContext: { patientId, flagType: request.flagType, severity: request.severity },
+        },
+      }, client);
+
+      return this.toFlag(result.rows[0]);
+    });
+
+    realtimeService.emitToFacility(
+      patient.facilityCode,
+      'patient_flag_added',
+      { patientId, mrn: patient.mrn, flag },
+      RESTRICTED_FLAG_TYPES[flag.flagType]
+    );
+
+    logger.info('Patient flag added', {
+      action: 'patient_flag_added',
+      flagId: flag.id,
+      patientId,
+      flagType: flag.flagType,
+      severity: flag.severity,
+      userId: audit.userId,
+    });
+
+    return flag;
+  }
+
+  // Flags are never deleted; removal keeps who removed them and why
+  async removeFlag(
+    patientId: string,
+    flagId: string,
+    reason: string | undefined,
+    user: Request['user'],
+    audit: FlagAuditContext
+  ): Promise<PatientTypes.PatientFlag> {
+    const existing = isUuid(flagId)
+      ? await database.query(`SELECT * FROM ${FLAGS_TABLE} WHERE id = $1 AND patient_id = $2`, [flagId, patientId])
+      : { rows: [] };
+    const row = existing.rows[0];
+
+    // Restricted flags the user cannot see are reported as missing, not forbidden
+    if (!row || !this.visibleTypes(user).includes(row.flag_type)) {
+      throw new NotFoundError('Patient flag', flagId);
+    }
+
+    if (row.removed_at) {
+      throw new ConflictError('Patient flag has already been removed');
+    }
+
+    const flag = await database.transaction(async (client) => {
+      const result = await client.query(
+        `UPDATE ${FLAGS_TABLE}
+         SET removed_at = CURRENT_TIMESTAMP, removed_by = $2, removal_reason = $3
+         WHERE id = $1 AND removed_at IS NULL
+         RETURNING *`,
+        [flagId, audit.userId, reason || null]
+      );
+
+      if (!result.rows[0]) {
+        throw new ConflictError('Patient flag has already been removed');
+      }
+
+      await auditService.record({
+        ...audit,
+        entityType: 'patient_flag',
+        entityId: flagId,
+        action: 'delete',
+        metadata: {
+          businessContext: { patientId, flagType: row.flag_type, reason },
+        },
+      }, client);
+
+      return this.toFlag(result.rows[0]);
+    });
+
+    const patient = await patientRepository.findById(patientId);
+    if (patient) {
+      realtimeService.emitToFacility(
+        patient.facilityCode,
+        'patient_flag_removed',
+        { patientId, mrn: patient.mrn, flagId },
+        RESTRICTED_FLAG_TYPES[flag.flagType]
+      );
+    }
+
+    logger.info('Patient flag removed', {
+      action: 'patient_flag_removed',
+      flagId,
+      patientId,
+      flagType: flag.flagType,
+      userId: audit.userId,
+    });
+
+    return flag;
+  }
+
+  private assertAllowed(flagType: PatientTypes.PatientFlagType, user: Request['user']): void {
+    const permission = RESTRICTED_FLAG_TYPES[flagType];
+    if (permission && !hasPermission(user, permission)) {
+      throw new ForbiddenError(`Permission '${permission}' is required for ${flagType} flags`);
+    }
+  }
+
+  private async findFlags(
+    patientId: string,
+    user: Request['user'],
+    includeInactive: boolean,
+    client: Queryable = database
+  ): Promise<PatientTypes.PatientFlag[]> {
+    const result = await client.query(
+      `SELECT * FROM ${FLAGS_TABLE}
+       WHERE patient_id = $1 AND flag_type = ANY($2) ${includeInactive ? '' : `AND ${ACTIVE_SQL}`}
+       ORDER BY CASE severity WHEN 'critical' THEN 0 WHEN 'high' THEN 1 WHEN 'medium' THEN 2 ELSE 3 END,
+                created_at DESC`,
+      [patientId, this.visibleTypes(user)]
+    );
+
+    return result.rows.map(row => this.toFlag(row));
+  }
+
+  private toFlag(row: any): PatientTypes.PatientFlag {
+    return {
+      id: row.id,
+      patientId: row.patient_id,
+      flagType: row.flag_type,
+      severity: row.severity,
+      description: row.description,
+      ...(row.expires_at && { expiresAt: row.expires_at }),
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+      ...(row.removed_at && { removedAt: row.removed_at }),
+      ...(row.removed_by && { removedBy: row.removed_by }),
+      ...(row.removal_reason && { removalReason: row.removal_reason }),
+    };
+  }
+}
+
+// Create and export singleton instance
+export const patientFlagService = new PatientFlagService();
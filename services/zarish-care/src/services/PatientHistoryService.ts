@@ -0,0 +1,244 @@
+import { validate as isUuid } from 'uuid';
+import { CommonTypes, PatientTypes } from '@zarishhealthcare/shared-types';
+import { database, Queryable } from '../config/database';
+import { NotFoundError } from '../middleware/errorHandler';
+import { patientRepository, PatientRow, PATIENTS_TABLE } from '../repositories/PatientRepository';
+import { auditService, AuditEntry, AUDIT_TABLE } from './AuditService';
+
+// A patient record flattened to dotted field paths with JSON-normalised values
+export type PatientSnapshot = Record<string, any>;
+
+export type PatientHistoryEntry = Omit<AuditEntry, 'entityType' | 'entityId' | 'changes'>;
+
+export interface PatientAsOf {
+  patient: PatientTypes.Patient;
+  warnings: string[];
+}
+
+// Bookkeeping and derived fields; they change on every write or follow from other fields
+const UNTRACKED_FIELDS = new Set([
+  'id',
+  'version',
+  'createdAt',
+  'updatedAt',
+  'createdBy',
+  'updatedBy',
+  'activeStatus',
+  'demographics.name',
+  'demographics.gender',
+]);
+
+const SENSITIVE_FIELD_PREFIXES = ['demographics.documentation', 'demographics.contactInfo', 'medicalHistory'];
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Nested objects become dotted paths; arrays are compared and restored whole
+function flatten(value: Record<string, any>, prefix: string = '', into: PatientSnapshot = {}): PatientSnapshot {
+  for (const [key, child] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(child)) {
+      flatten(child, path, into);
+    } else if (child !== undefined && child !== null && !UNTRACKED_FIELDS.has(path)) {
+      into[path] = child;
+    }
+  }
+  return into;
+}
+
+function unflatten(snapshot: PatientSnapshot): Record<string, any> {
+  const result: Record<string, any> = {};
+
+  for (const [path, value] of Object.entries(snapshot)) {
+    const keys = path.split('.');
+    let target = result;
+    keys.slice(0, -1).forEach(key => {
+      target[key] = isPlainObject(target[key]) ? target[key] : {};
+      target = target[key];
+    });
+    target[keys[keys.length - 1] as string] = value;
+  }
+
+  return result;
+}
+
+function dataType(value: unknown): string {
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return 'date';
+  }
+  return typeof value;
+}
+
+export class PatientHistoryService {
+  // Tombstoned records are included so deletions and merges can be diffed too
+  async snapshot(patientId: string, client: Queryable = database): Promise<PatientSnapshot | null> {
+    const row = await this.findRow(patientId, client);
+    return row ? this.toSnapshot(row) : null;
+  }
+
+  changes(before: PatientSnapshot | null, after: PatientSnapshot | null): CommonTypes.FieldChange[] {
+    const previous = before || {};
+    const current = after || {};
+    const fields = Array.from(new Set([...Object.keys(previous), ...Object.keys(current)])).sort();
+
+    return fields
+      .filter(field => JSON.stringify(previous[field]) !== JSON.stringify(current[field]))
+      .map(field => ({
+        field,
+        ...(previous[field] !== undefined && { oldValue: previous[field] }),
+        ...(current[field] !== undefined && { newValue: current[field] }),
+        dataType: dataType(current[field] !== undefined ? current[field] : previous[field]),
+        sensitive: SENSITIVE_FIELD_PREFIXES.some(prefix => field === prefix || field.startsWith(`${prefix}.`)),
+      }));
+  }
+
+  // Runs a write against the patient row and records the field changes it made. Updates that
+  // changed nothing are not recorded; every other action is, so deletions and restores always
+  // appear in the timeline.
+  async track<T>(
+    patientId: string,
+    entry: PatientHistoryEntry,
+    client: Queryable,
+    write: () => Promise<T>
+  ): Promise<T> {
+    const before = await this.snapshot(patientId, client);
+    const result = await write();
+    const changes = this.changes(before, await this.snapshot(patientId, client));
+
+    if (changes.length > 0 || entry.action !== 'update') {
+      await auditService.record({ ...entry, entityType: 'patient', entityId: patientId, changes }, client);
+    }
+
+    return result;
+  }
+
+  // The creation entry carries every initial value, which is where reconstruction stops
+  async recordCreation(patientId: string, entry: PatientHistoryEntry, client: Queryable): Promise<void> {
+    await auditService.record({
+      ...entry,
+      entityType: 'patient',
+      entityId: patientId,
+      action: 'create',
+      changes: this.changes(null, await this.snapshot(patientId, client)),
+    }, client);
+  }
+
+  async getHistory(
+    patientId: string,
+    page: number,
+    limit: number
+  ): Promise<{ entries: CommonTypes.AuditTrail[]; total: number }> {
+    if (!(await this.findRow(patientId))) {
+      throw new NotFoundError('Patient', patientId);
+    }
+
+    return auditService.findByEntity('patient', patientId, page, limit);
+  }
+
+  // Reconstructs the record at `asOf` by undoing, newest first, every recorded change made
+  // after it. Bookkeeping fields (version, timestamps) are those of the current record.
+  async getPatientAsOf(patientId: string, asOf: Date): Promise<PatientAsOf> {
+    const row = await this.findRow(patientId);
+
+    if (!row || row.created_at > asOf) {
+      throw new NotFoundError('Patient', patientId);
+    }
+
+    const patient = patientRepository.toPatient(row);
+
+    const [later, coverage] = await Promise.all([
+      database.query(
+        `SELECT changes FROM ${AUDIT_TABLE}
+         WHERE entity_type = 'patient' AND entity_id = $1 AND timestamp > $2 AND changes IS NOT NULL
+         ORDER BY timestamp DESC`,
+        [patientId, asOf]
+      ),
+      database.query(
+        `SELECT MIN(timestamp) FILTER (WHERE action = 'create') AS created,
+                MIN(timestamp) AS first_change
+         FROM ${AUDIT_TABLE}
+         WHERE entity_type = 'patient' AND entity_id = $1 AND changes IS NOT NULL`,
+        [patientId]
+      ),
+    ]);
+
+    const snapshot = this.toSnapshot(row);
+    for (const { changes } of later.rows as Array<{ changes: CommonTypes.FieldChange[] }>) {
+      for (const change of changes) {
+        if (change.oldValue === undefined) {
+          delete snapshot[change.field];
+        } else {
+          snapshot[change.field] = change.oldValue;
+        }
+      }
+    }
+
+    const warnings: string[] = [];
+    const { created, first_change: firstChange } = coverage.rows[0];
+
+    // Records registered before field history was kept have no creation entry
+    if (!created) {
+      const trackedFrom: Date = firstChange || new Date();
+      if (asOf < trackedFrom) {
+        warnings.push(
+          `Field history for this patient starts at ${trackedFrom.toISOString()}; earlier values may not be exact`
+        );
+      }
+    }
+
+    const { deleted, deletionReason: _deletionReason, mergedInto, ...fields } = unflatten(snapshot);
+    if (deleted) {
+      warnings.push(mergedInto
+        ? `The record had been merged into patient ${mergedInto} at this time`
+        : 'The record had been deleted at this time');
+    }
+
+    const reconstructed = fields as PatientTypes.Patient;
+
+    return {
+      patient: {
+        ...reconstructed,
+        id: patient.id,
+        demographics: {
+          ...reconstructed.demographics,
+          name: `${reconstructed.firstName} ${reconstructed.lastName}`,
+          gender: reconstructed.gender,
+        },
+        activeStatus: reconstructed.status === PatientTypes.PatientStatus.ACTIVE,
+        createdAt: patient.createdAt,
+        updatedAt: patient.updatedAt,
+        ...(patient.createdBy && { createdBy: patient.createdBy }),
+        ...(patient.updatedBy && { updatedBy: patient.updatedBy }),
+        version: patient.version,
+      },
+      warnings,
+    };
+  }
+
+  private async findRow(patientId: string, client: Queryable = database): Promise<PatientRow | null> {
+    if (!isUuid(patientId)) {
+      return null;
+    }
+
+    const result = await client.query(`SELECT * FROM ${PATIENTS_TABLE} WHERE id = $1`, [patientId]);
+    return result.rows[0] || null;
+  }
+
+  private toSnapshot(row: PatientRow): PatientSnapshot {
+    const record = {
+      ...patientRepository.toPatient(row),
+      deleted: row.deleted,
+      ...(row.deletion_reason && { deletionReason: row.deletion_reason }),
+      ...(row.merged_into && { mergedInto: row.merged_into }),
+    };
+
+    return flatten(JSON.parse(JSON.stringify(record)));
+  }
+}
+
+// Create and export singleton instance
+export const patientHistoryService = new PatientHistoryService();
@@ -0,0 +1,499 @@
+import { validate as isUuid } from 'uuid';
+import { PatientTypes } from '@zarishhealthcare/shared-types';
+import { database } from '../config/database';
+import { config } from '../config/config';
+import { BadRequestError, NotFoundError } from '../middleware/errorHandler';
+import { patientRepository, PatientWriteContext } from '../repositories/PatientRepository';
+import { auditService, AuditEntry } from './AuditService';
+import { duplicateDetectionService } from './DuplicateDetectionService';
+import { mrnService } from './MrnService';
+import { identifierService } from './IdentifierService';
+import { patientHistoryService } from './PatientHistoryService';
+import { validationRuleService } from './ValidationRuleService';
+import { readSheet, Sheet, SheetRow } from '../utils/spreadsheet';
+import { toCsvRow } from '../utils/csv';
+import { resolveValidationRules, validatePatientData, FieldError } from '../utils/patientValidation';
+import { logger } from '../utils/logger';
+
+const JOBS_TABLE = 'clinical.patient_import_jobs';
+const ROWS_TABLE = 'clinical.patient_import_rows';
+
+// Progress counters are written back every this many rows
+const PROGRESS_INTERVAL = 50;
+
+// Import fields and the column headers they are recognised by (compared lowercased, letters and digits only)
+const COLUMN_ALIASES: Record<string, string[]> = {
+  mrn: ['mrn'],
+  firstName: ['firstname', 'givenname', 'first'],
+  lastName: ['lastname', 'surname', 'familyname', 'last'],
+  dateOfBirth: ['dateofbirth', 'dob', 'birthdate'],
+  age: ['age', 'ageyears'],
+  gender: ['gender', 'sex'],
+  facilityCode: ['facilitycode', 'facility'],
+  populationType: ['populationtype', 'population'],
+  campLocation: ['camp', 'camplocation'],
+  blockNumber: ['block', 'blocknumber'],
+  shelterId: ['shelter', 'shelterid', 'shelterno', 'shelternumber'],
+  primaryPhone: ['phone', 'mobile', 'phonenumber', 'primaryphone', 'contactnumber'],
+  unhcrId: ['unhcrid', 'unhcr', 'progresid'],
+  smartCardId: ['smartcardid', 'smartcard', 'smartcardno'],
+  nationalId: ['nationalid', 'nid'],
+  familySize: ['familysize', 'householdsize'],
+};
+
+const GENDER_VALUES: Record<string, PatientTypes.Gender> = {
+  m: PatientTypes.Gender.MALE,
+  male: PatientTypes.Gender.MALE,
+  f: PatientTypes.Gender.FEMALE,
+  female: PatientTypes.Gender.FEMALE,
+  o: PatientTypes.Gender.DIVERSE,
+  other: PatientTypes.Gender.DIVERSE,
+  diverse: PatientTypes.Gender.DIVERSE,
+};
+
+const MIME_FORMATS: Record<string, PatientTypes.PatientImportFormat> = {
+  'text/csv': 'csv',
+  'application/csv': 'csv',
+  'application/vnd.ms-excel': 'csv', // what Windows browsers send for .csv files
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+};
+
+export interface PatientImportOptions {
+  dryRun: boolean;
+  allowDuplicates: boolean;
+  facilityCode?: string; // used for rows without a facility column
+  mapping?: Record<string, string>; // import field -> column header, overriding the aliases
+}
+
+export interface ImportFile {
+  originalname: string;
+  mimetype: string;
+  buffer: Buffer;
+}
+
+type ImportAuditContext = Pick<AuditEntry, 'sessionId' | 'ipAddress' | 'userAgent'>;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Accepts ISO dates and the day-first dates used on Bangladeshi registers (31/12/1990, 31-12-1990)
+function normalizeDate(value: string): string {
+  const dayFirst = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/.exec(value);
+  if (dayFirst) {
+    const [, day, month, year] = dayFirst;
+    return `${year}-${month!.padStart(2, '0')}-${day!.padStart(2, '0')}`;
+  }
+  return value;
+}
+
+export class PatientImportService {
+  // Parses and checks the file up front so a bad upload fails the request; the rows are then
+  // processed in the background and progress is read through getJob.
+  async startImport(
+    file: ImportFile,
+    options: PatientImportOptions,
+    context: PatientWriteContext,
+    audit: ImportAuditContext
+  ): Promise<PatientTypes.PatientImportJob> {
+    const format = this.detectFormat(file);
+
+    let sheet: Sheet;
+    try {
+      sheet = await readSheet(file.buffer, format);
+    } catch (error) {
+      throw new BadRequestError(`Could not read ${format.toUpperCase()} file: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+
+    if (sheet.rows.length === 0) {
+      throw new BadRequestError('The file has no data rows');
+    }
+
+    if (sheet.rows.length > config.patientImport.maxRows) {
+      throw new BadRequestError(`The file has ${sheet.rows.length} rows; at most ${config.patientImport.maxRows} can be imported at once`);
+    }
+
+    const columns = this.resolveColumns(sheet.headers, options.mapping);
+
+    const result = await database.query(
+      `INSERT INTO ${JOBS_TABLE} (file_name, format, dry_run, total_rows, created_by)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [file.originalname, format, options.dryRun, sheet.rows.length, context.userId]
+    );
+    const job = this.toJob(result.rows[0]);
+
+    logger.info('Patient import queued', {
+      action: 'patient_import_queued',
+      jobId: job.id,
+      fileName: job.fileName,
+      rows: job.totalRows,
+      dryRun: job.dryRun,
+      userId: context.userId,
+    });
+
+    setImmediate(() => {
+      this.run(job, sheet.headers, sheet.rows, columns, options, context, audit).catch(async (error) => {
+        logger.error('Patient import failed', {
+          jobId: job.id,
+          error: error instanceof Error ? error.message : error,
+          stack: error instanceof Error ? error.stack : undefined,
+        });
+        await database.query(
+          `UPDATE ${JOBS_TABLE} SET status = 'failed', error = $2, completed_at = CURRENT_TIMESTAMP WHERE id = $1`,
+          [job.id, error instanceof Error ? error.message : 'Unknown error']
+        ).catch(() => undefined);
+      });
+    });
+
+    return job;
+  }
+
+  async getJob(id: string): Promise<PatientTypes.PatientImportJob> {
+    const result = isUuid(id)
+      ? await database.query(`SELECT * FROM ${JOBS_TABLE} WHERE id = $1`, [id])
+      : { rows: [] };
+    const row = result.rows[0];
+
+    if (!row) {
+      throw new NotFoundError('Import job', id);
+    }
+
+    return this.toJob(row);
+  }
+
+  // CSV of every row that was not imported (or would not be, in a dry run), with the reasons
+  // and the original values so the file can be corrected and re-uploaded
+  async buildErrorReport(id: string): Promise<string> {
+    await this.getJob(id);
+
+    const result = await database.query(
+      `SELECT row_number, status, errors, warnings, source FROM ${ROWS_TABLE}
+       WHERE job_id = $1 AND status IN ('failed', 'duplicate')
+       ORDER BY row_number`,
+      [id]
+    );
+
+    const sourceHeaders = Array.from(new Set(result.rows.flatMap((row: any) => Object.keys(row.source))));
+    let report = toCsvRow(['Row', 'Status', 'Errors', 'Warnings', ...sourceHeaders]);
+
+    for (const row of result.rows) {
+      report += toCsvRow([
+        row.row_number,
+        row.status,
+        (row.errors as FieldError[]).map(error => `${error.field}: ${error.message}`).join('; '),
+        (row.warnings as string[]).join('; '),
+        ...sourceHeaders.map(header => row.source[header]),
+      ]);
+    }
+
+    return report;
+  }
+
+  private detectFormat(file: ImportFile): PatientTypes.PatientImportFormat {
+    const extension = file.originalname.toLowerCase().split('.').pop();
+
+    if (extension === 'csv' || extension === 'xlsx') {
+      return extension;
+    }
+
+    const format = MIME_FORMATS[file.mimetype];
+    if (!format) {
+      throw new BadRequestError('Only CSV and XLSX files can be imported');
+    }
+
+    return format;
+  }
+
+  // Maps each import field to a column index; explicit mappings win over header aliases
+  private resolveColumns(headers: string[], mapping: Record<string, string> = {}): Record<string, number> {
+    const columns: Record<string, number> = {};
+    const normalized = headers.map(normalizeHeader);
+
+    for (const [field, aliases] of Object.entries(COLUMN_ALIASES)) {
+      const index = mapping[field] !== undefined
+        ? headers.indexOf(mapping[field]!)
+        : normalized.findIndex(header => aliases.includes(header));
+
+      if (mapping[field] !== undefined && index === -1) {
+        throw new BadRequestError(`Mapped column '${mapping[field]}' for ${field} is not in the file`);
+      }
+
+      if (index !== -1) {
+        columns[field] = index;
+      }
+    }
+
+    const missing = ['firstName', 'lastName'].filter(field => columns[field] === undefined);
+    if (missing.length > 0) {
+      throw new BadRequestError(
+        `No column found for ${missing.join(', ')}. Columns in the file: ${headers.join(', ')}`
+      );
+    }
+
+    return columns;
+  }
+
+  private toRequest(
+    row: SheetRow,
+    columns: Record<string, number>,
+    options: PatientImportOptions
+  ): { data: PatientTypes.CreatePatientRequest; errors: FieldError[] } {
+    const errors: FieldError[] = [];
+    const value = (field: string): string | undefined => {
+      const index = columns[field];
+      const text = index === undefined ? '' : (row.values[index] || '').trim();
+      return text === '' ? undefined : text;
+    };
+    const numeric = (field: string): number | undefined => {
+      const text = value(field);
+      if (text === undefined) {
+        return undefined;
+      }
+      const number = Number(text);
+      if (!Number.isFinite(number) || number < 0) {
+        errors.push({ field, message: `${field} must be a non-negative number`, code: 'INVALID_VALUE', value: text });
+        return undefined;
+      }
+      return number;
+    };
+
+    const genderText = value('gender');
+    const gender = genderText ? GENDER_VALUES[genderText.toLowerCase()] || genderText : undefined;
+    const dateOfBirth = value('dateOfBirth');
+    const age = numeric('age');
+    const familySize = numeric('familySize');
+    const camp = value('campLocation');
+    const block = value('blockNumber');
+    const shelterId = value('shelterId');
+    const primaryPhone = value('primaryPhone');
+    const unhcrId = value('unhcrId');
+    const smartCardId = value('smartCardId');
+    const nationalId = value('nationalId');
+    const populationType = value('populationType')?.toLowerCase();
+    const mrn = value('mrn');
+
+    const demographics: Partial<PatientTypes.PatientDemographics> = {
+      ...(age !== undefined && { age }),
+      ...(familySize !== undefined && { familySize }),
+      ...(camp && { campLocation: camp }),
+      ...(block && { blockNumber: block }),
+      ...((populationType === 'rohingya' || populationType === 'host') && { populationType }),
+      ...((camp || block || shelterId || primaryPhone) && {
+        contactInfo: {
+          ...(primaryPhone && { primaryPhone }),
+          address: {
+            camp: camp || '',
+            block: block || '',
+            ...(shelterId && { shelterId }),
+          },
+        },
+      }),
+      ...((unhcrId || smartCardId || nationalId) && {
+        documentation: {
+          ...(unhcrId && { unhcrId }),
+          ...(smartCardId && { smartCardId }),
+          ...(nationalId && { nationalId }),
+        },
+      }),
+    };
+
+    const facilityCode = value('facilityCode') || options.facilityCode;
+
+    const data = {
+      ...(mrn && { mrn }),
+      firstName: value('firstName') || '',
+      lastName: value('lastName') || '',
+      ...(dateOfBirth && { dateOfBirth: normalizeDate(dateOfBirth) }),
+      gender: gender as PatientTypes.Gender,
+      facilityCode: facilityCode || '',
+      demographics,
+    };
+
+    if (!facilityCode) {
+      errors.push({ field: 'facilityCode', message: 'Facility code is required', code: 'REQUIRED_FIELD' });
+    }
+
+    return { data, errors };
+  }
+
+  private async processRow(
+    row: SheetRow,
+    columns: Record<string, number>,
+    options: PatientImportOptions,
+    context: PatientWriteContext,
+    rules: PatientTypes.PatientValidationRule[]
+  ): Promise<PatientTypes.PatientImportRowResult> {
+    const { data, errors } = this.toRequest(row, columns, options);
+    const validation = validatePatientData(data, resolveValidationRules(rules, { facilityCode: data.facilityCode }));
+
+    if (errors.length > 0 || !validation.valid) {
+      return { row: row.rowNumber, status: 'failed', errors: [...errors, ...validation.errors], warnings: [] };
+    }
+
+    const duplicates = (await duplicateDetectionService.findPotentialDuplicates(data))
+      .filter(match => match.likelyDuplicate);
+    const warnings = [
+      ...validation.warnings.map(warning => warning.message),
+      ...duplicates.map(match =>
+        `Possible duplicate of patient ${match.patient.mrn} (match ${match.score.toFixed(2)})`
+      ),
+    ];
+
+    if (duplicates.length > 0 && !options.allowDuplicates) {
+      return { row: row.rowNumber, status: 'duplicate', errors: [], warnings };
+    }
+
+    if (options.dryRun) {
+      return { row: row.rowNumber, status: 'valid', errors: [], warnings };
+    }
+
+    try {
+      const patient = await database.transaction(async (client) => {
+        const mrn = data.mrn
+          ? await mrnService.claimReserved(data.mrn, data.facilityCode, client)
+          : await mrnService.allocate(data.facilityCode, client);
+
+        const created = await patientRepository.create(mrn, data, context, client);
+        await identifierService.syncDocumentation(created, context.userId, client);
+        await patientHistoryService.recordCreation(created.id, {
+          userId: context.userId,
+          action: 'create',
+          metadata: {
+            businessContext: { mrn, importRow: row.rowNumber },
+          },
+        }, client);
+        return created;
+      });
+
+      return { row: row.rowNumber, status: 'imported', patientId: patient.id, mrn: patient.mrn, errors: [], warnings };
+    } catch (error) {
+      const validationErrors = (error as any)?.validationErrors as FieldError[] | undefined;
+      return {
+        row: row.rowNumber,
+        status: 'failed',
+        errors: validationErrors || [{
+          field: 'row',
+          message: (error as any)?.code === '23505'
+            ? 'A patient with this MRN already exists'
+            : error instanceof Error ? error.message : 'Unknown error',
+          code: 'IMPORT_ERROR',
+        }],
+        warnings,
+      };
+    }
+  }
+
+  private async run(
+    job: PatientTypes.PatientImportJob,
+    headers: string[],
+    rows: SheetRow[],
+    columns: Record<string, number>,
+    options: PatientImportOptions,
+    context: PatientWriteContext,
+    audit: ImportAuditContext
+  ): Promise<void> {
+    const counts = { processed: 0, imported: 0, failed: 0, duplicate: 0 };
+
+    await database.query(
+      `UPDATE ${JOBS_TABLE} SET status = 'running', started_at = CURRENT_TIMESTAMP WHERE id = $1`,
+      [job.id]
+    );
+
+    const saveProgress = () => database.query(
+      `UPDATE ${JOBS_TABLE}
+       SET processed_rows = $2, imported_rows = $3, failed_rows = $4, duplicate_rows = $5
+       WHERE id = $1`,
+      [job.id, counts.processed, counts.imported, counts.failed, counts.duplicate]
+    );
+
+    // Loaded once per job; each row resolves the rules for its own facility
+    const rules = await validationRuleService.listRules();
+
+    for (const row of rows) {
+      const result = await this.processRow(row, columns, options, context, rules);
+      const source = Object.fromEntries(headers.map((header, index) => [header || `Column ${index + 1}`, row.values[index] ?? '']));
+
+      await database.query(
+        `INSERT INTO ${ROWS_TABLE} (job_id, row_number, status, patient_id, mrn, errors, warnings, source)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [
+          job.id,
+          result.row,
+          result.status,
+          result.patientId || null,
+          result.mrn || null,
+          JSON.stringify(result.errors),
+          JSON.stringify(result.warnings),
+          JSON.stringify(source),
+        ]
+      );
+
+      counts.processed++;
+      if (result.status === 'imported' || result.status === 'valid') {
+        counts.imported++;
+      } else if (result.status === 'duplicate') {
+        counts.duplicate++;
+      } else {
+        counts.failed++;
+      }
+
+      if (counts.processed % PROGRESS_INTERVAL === 0) {
+        await saveProgress();
+      }
+    }
+
+    await saveProgress();
+    await database.query(
+      `UPDATE ${JOBS_TABLE} SET status = 'completed', completed_at = CURRENT_TIMESTAMP WHERE id = $1`,
+      [job.id]
+    );
+
+    await auditService.record({
+      ...audit,
+      entityType: 'patient_import',
+      entityId: job.id,
+      action: 'import',
+      userId: context.userId,
+      metadata: {
+        businessContext: {
+          fileName: job.fileName,
+          dryRun: job.dryRun,
+          totalRows: job.totalRows,
+          importedRows: counts.imported,
+          failedRows: counts.failed,
+          duplicateRows: counts.duplicate,
+        },
+      },
+    });
+
+    logger.info('Patient import completed', {
+      action: 'patient_import_completed',
+      jobId: job.id,
+      dryRun: job.dryRun,
+      ...counts,
+      userId: context.userId,
+    });
+  }
+
+  private toJob(row: any): PatientTypes.PatientImportJob {
+    return {
+      id: row.id,
+      fileName: row.file_name,
+      format: row.format,
+      dryRun: row.dry_run,
+      status: row.status,
+      totalRows: row.total_rows,
+      processedRows: row.processed_rows,
+      importedRows: row.imported_rows,
+      failedRows: row.failed_rows,
+      duplicateRows: row.duplicate_rows,
+      ...(row.error && { error: row.error }),
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+      ...(row.started_at && { startedAt: row.started_at }),
+      ...(row.completed_at && { completedAt: row.completed_at }),
+    };
+  }
+}
+
+// Create and export singleton instance
+export const patientImportService = new PatientImportService();
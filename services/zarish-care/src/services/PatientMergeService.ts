@@ -0,0 +1,665 @@
+import { validate as isUuid } from 'uuid';
+import { PatientTypes } from '@zarishhealthcare/shared-types';
+import { database, PoolClient } from '../config/database';
+import { BadRequestError, NotFoundError, ConflictError } from '../middleware/errorHandler';
+import { patientRepository, PATIENTS_TABLE, PATIENT_MERGES_TABLE } from '../repositories/PatientRepository';
+import { auditService, AuditEntry } from './AuditService';
+import { duplicateDetectionService } from './DuplicateDetectionService';
+import { patientHistoryService } from './PatientHistoryService';
+import { logger } from '../utils/logger';
+
+export interface MergeContext {
+  survivor: PatientTypes.Patient;
+  merged: PatientTypes.Patient;
+  userId: string;
+}
+
+// One kind of patient-linked data that has to follow the survivor in a merge. `merge`
+// returns whatever `unmerge` needs to put things back; it is stored in the merge log.
+export interface MergeStep {
+  name: string;
+  merge(client: PoolClient, context: MergeContext): Promise<any>;
+  unmerge(client: PoolClient, undo: any, context: MergeContext): Promise<void>;
+}
+
+export type MergeAuditContext = Pick<AuditEntry, 'sessionId' | 'ipAddress' | 'userAgent'> & { userId: string };
+
+interface MergeRow {
+  id: string;
+  survivor_id: string;
+  merged_id: string;
+  reason: string | null;
+  match_score: string | null;
+  steps: Array<{ name: string; undo: any }>;
+  merged_by: string;
+  merged_at: Date;
+  unmerged_by: string | null;
+  unmerged_at: Date | null;
+}
+
+// Visits recorded against the duplicate move to the survivor, queue entries and consultations with them
+const encountersStep: MergeStep = {
+  name: 'encounters',
+  async merge(client, { survivor, merged }) {
+    const result = await client.query(
+      'UPDATE clinical.encounters SET patient_id = $1, updated_at = CURRENT_TIMESTAMP WHERE patient_id = $2 RETURNING id',
+      [survivor.id, merged.id]
+    );
+    const encounterIds = result.rows.map((row: { id: string }) => row.id);
+
+    await client.query(
+      'UPDATE clinical.queue_entries SET patient_id = $1 WHERE encounter_id = ANY($2::uuid[])',
+      [survivor.id, encounterIds]
+    );
+    await client.query(
+      'UPDATE clinical.consultations SET patient_id = $1 WHERE encounter_id = ANY($2::uuid[])',
+      [survivor.id, encounterIds]
+    );
+    return { encounterIds };
+  },
+  async unmerge(client, undo, { merged }) {
+    await client.query(
+      'UPDATE clinical.encounters SET patient_id = $1, updated_at = CURRENT_TIMESTAMP WHERE id = ANY($2::uuid[])',
+      [merged.id, undo.encounterIds]
+    );
+    await client.query(
+      'UPDATE clinical.queue_entries SET patient_id = $1 WHERE encounter_id = ANY($2::uuid[])',
+      [merged.id, undo.encounterIds]
+    );
+    await client.query(
+      'UPDATE clinical.consultations SET patient_id = $1 WHERE encounter_id = ANY($2::uuid[])',
+      [merged.id, undo.encounterIds]
+    );
+  },
+};
+
+// Program enrollments move to the survivor. Where both have an open enrollment in the same
+// program the survivor's stays and the duplicate's is closed as transferred out.
+const programEnrollmentsStep: MergeStep = {
+  name: 'program_enrollments',
+  async merge(client, { survivor, merged, userId }) {
+    const closed = await client.query(
+      `UPDATE clinical.program_enrollments e
+       SET status = 'transferred_out', outcome_reason = $3, status_changed_at = CURRENT_TIMESTAMP,
+           status_changed_by = $4
+       FROM (
+         SELECT id, status FROM clinical.program_enrollments
+         WHERE patient_id = $2 AND status IN ('enrolled', 'defaulted')
+         FOR UPDATE
+       ) previous
+       WHERE e.id = previous.id
+         AND EXISTS (
+           SELECT 1 FROM clinical.program_enrollments s
+           WHERE s.patient_id = $1 AND s.program_id = e.program_id AND s.status IN ('enrolled', 'defaulted')
+         )
+       RETURNING e.id, previous.status`,
+      [survivor.id, merged.id, `Merged into ${survivor.mrn}`, userId]
+    );
+
+    const moved = await client.query(
+      'UPDATE clinical.program_enrollments SET patient_id = $1 WHERE patient_id = $2 RETURNING id',
+      [survivor.id, merged.id]
+    );
+
+    return {
+      enrollmentIds: moved.rows.map((row: { id: string }) => row.id),
+      closed: closed.rows,
+    };
+  },
+  async unmerge(client, undo, { merged }) {
+    await client.query(
+      'UPDATE clinical.program_enrollments SET patient_id = $1 WHERE id = ANY($2::uuid[])',
+      [merged.id, undo.enrollmentIds]
+    );
+
+    for (const { id, status } of undo.closed as Array<{ id: string; status: string }>) {
+      await client.query(
+        `UPDATE clinical.program_enrollments
+         SET status = $2, outcome_reason = NULL, status_changed_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [id, status]
+      );
+    }
+  },
+};
+
+// Clinical and safety flags follow the patient
+const flagsStep: MergeStep = {
+  name: 'patient_flags',
+  async merge(client, { survivor, merged }) {
+    const result = await client.query(
+      'UPDATE clinical.patient_flags SET patient_id = $1 WHERE patient_id = $2 RETURNING id',
+      [survivor.id, merged.id]
+    );
+    return { flagIds: result.rows.map((row: { id: string }) => row.id) };
+  },
+  async unmerge(client, undo, { merged }) {
+    await client.query(
+      'UPDATE clinical.patient_flags SET patient_id = $1 WHERE id = ANY($2::uuid[])',
+      [merged.id, undo.flagIds]
+    );
+  },
+};
+
+// Photos and documents follow the patient
+const attachmentsStep: MergeStep = {
+  name: 'patient_attachments',
+  async merge(client, { survivor, merged }) {
+    const result = await client.query(
+      'UPDATE clinical.patient_attachments SET patient_id = $1 WHERE patient_id = $2 RETURNING id',
+      [survivor.id, merged.id]
+    );
+    return { attachmentIds: result.rows.map((row: { id: string }) => row.id) };
+  },
+  async unmerge(client, undo, { merged }) {
+    await client.query(
+      'UPDATE clinical.patient_attachments SET patient_id = $1 WHERE id = ANY($2::uuid[])',
+      [merged.id, undo.attachmentIds]
+    );
+  },
+};
+
+// Vital signs follow the patient, whether or not they were taken during an encounter
+const vitalSignsStep: MergeStep = {
+  name: 'vital_signs',
+  async merge(client, { survivor, merged }) {
+    const result = await client.query(
+      'UPDATE clinical.vital_signs SET patient_id = $1 WHERE patient_id = $2 RETURNING id',
+      [survivor.id, merged.id]
+    );
+    return { vitalSignsIds: result.rows.map((row: { id: string }) => row.id) };
+  },
+  async unmerge(client, undo, { merged }) {
+    await client.query(
+      'UPDATE clinical.vital_signs SET patient_id = $1 WHERE id = ANY($2::uuid[])',
+      [merged.id, undo.vitalSignsIds]
+    );
+  },
+};
+
+// NCD follow-up visits follow the patient; their enrollments moved in program_enrollments
+const ncdVisitsStep: MergeStep = {
+  name: 'ncd_visits',
+  async merge(client, { survivor, merged }) {
+    const result = await client.query(
+      'UPDATE clinical.ncd_visits SET patient_id = $1 WHERE patient_id = $2 RETURNING id',
+      [survivor.id, merged.id]
+    );
+    return { visitIds: result.rows.map((row: { id: string }) => row.id) };
+  },
+  async unmerge(client, undo, { merged }) {
+    await client.query(
+      'UPDATE clinical.ncd_visits SET patient_id = $1 WHERE id = ANY($2::uuid[])',
+      [merged.id, undo.visitIds]
+    );
+  },
+};
+
+// A patient keeps one open MHPSS case, so the duplicate's is closed when the survivor already has one
+const mhpssCasesStep: MergeStep = {
+  name: 'mhpss_cases',
+  async merge(client, { survivor, merged, userId }) {
+    const closed = await client.query(
+      `UPDATE clinical.mhpss_cases
+       SET status = 'closed', closed_at = CURRENT_TIMESTAMP, closed_by = $3, closure_reason = $4,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE patient_id = $2 AND status = 'open'
+         AND EXISTS (SELECT 1 FROM clinical.mhpss_cases WHERE patient_id = $1 AND status = 'open')
+       RETURNING id`,
+      [survivor.id, merged.id, userId, `Merged into ${survivor.mrn}`]
+    );
+    const result = await client.query(
+      'UPDATE clinical.mhpss_cases SET patient_id = $1 WHERE patient_id = $2 RETURNING id',
+      [survivor.id, merged.id]
+    );
+    return {
+      caseIds: result.rows.map((row: { id: string }) => row.id),
+      closedCaseIds: closed.rows.map((row: { id: string }) => row.id),
+    };
+  },
+  async unmerge(client, undo, { merged }) {
+    await client.query(
+      'UPDATE clinical.mhpss_cases SET patient_id = $1 WHERE id = ANY($2::uuid[])',
+      [merged.id, undo.caseIds]
+    );
+    await client.query(
+      `UPDATE clinical.mhpss_cases
+       SET status = 'open', closed_at = NULL, closed_by = NULL, closure_reason = NULL, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ANY($1::uuid[])`,
+      [undo.closedCaseIds]
+    );
+  },
+};
+
+// A woman has one ongoing pregnancy, so the duplicate's is closed when the survivor already has one;
+// its visits move with it
+const pregnanciesStep: MergeStep = {
+  name: 'pregnancies',
+  async merge(client, { survivor, merged }) {
+    const closed = await client.query(
+      `UPDATE clinical.pregnancies
+       SET status = 'completed', closed_at = CURRENT_TIMESTAMP, closure_reason = $3, updated_at = CURRENT_TIMESTAMP
+       WHERE patient_id = $2 AND status = 'pregnant'
+         AND EXISTS (SELECT 1 FROM clinical.pregnancies WHERE patient_id = $1 AND status = 'pregnant')
+       RETURNING id`,
+      [survivor.id, merged.id, `Merged into ${survivor.mrn}`]
+    );
+    const result = await client.query(
+      'UPDATE clinical.pregnancies SET patient_id = $1 WHERE patient_id = $2 RETURNING id',
+      [survivor.id, merged.id]
+    );
+    return {
+      pregnancyIds: result.rows.map((row: { id: string }) => row.id),
+      closedPregnancyIds: closed.rows.map((row: { id: string }) => row.id),
+    };
+  },
+  async unmerge(client, undo, { merged }) {
+    await client.query(
+      'UPDATE clinical.pregnancies SET patient_id = $1 WHERE id = ANY($2::uuid[])',
+      [merged.id, undo.pregnancyIds]
+    );
+    await client.query(
+      `UPDATE clinical.pregnancies
+       SET status = 'pregnant', closed_at = NULL, closure_reason = NULL, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ANY($1::uuid[])`,
+      [undo.closedPregnancyIds]
+    );
+  },
+};
+
+// Emergency visits follow the patient, e.g. an unidentified arrival later matched to their record
+const emergencyAssessmentsStep: MergeStep = {
+  name: 'emergency_assessments',
+  async merge(client, { survivor, merged }) {
+    const result = await client.query(
+      'UPDATE clinical.emergency_assessments SET patient_id = $1 WHERE patient_id = $2 RETURNING id',
+      [survivor.id, merged.id]
+    );
+    return { assessmentIds: result.rows.map((row: { id: string }) => row.id) };
+  },
+  async unmerge(client, undo, { merged }) {
+    await client.query(
+      'UPDATE clinical.emergency_assessments SET patient_id = $1 WHERE id = ANY($2::uuid[])',
+      [merged.id, undo.assessmentIds]
+    );
+  },
+};
+
+// Registered identifiers of a type the survivor lacks move across; the rest stay with the
+// tombstoned duplicate as history
+const identifiersStep: MergeStep = {
+  name: 'patient_identifiers',
+  async merge(client, { survivor, merged }) {
+    const result = await client.query(
+      `UPDATE clinical.patient_identifiers i SET patient_id = $1
+       WHERE i.patient_id = $2
+         AND NOT EXISTS (
+           SELECT 1 FROM clinical.patient_identifiers s
+           WHERE s.patient_id = $1 AND s.type_code = i.type_code AND s.status = 'active'
+         )
+       RETURNING i.id`,
+      [survivor.id, merged.id]
+    );
+    return { identifierIds: result.rows.map((row: { id: string }) => row.id) };
+  },
+  async unmerge(client, undo, { merged }) {
+    await client.query(
+      'UPDATE clinical.patient_identifiers SET patient_id = $1 WHERE id = ANY($2::uuid[])',
+      [merged.id, undo.identifierIds]
+    );
+  },
+};
+
+// Consent follows the most recent decision: the duplicate's current record per type moves across
+// when the survivor has none or decided earlier, superseding the survivor's
+const consentsStep: MergeStep = {
+  name: 'patient_consents',
+  async merge(client, { survivor, merged }) {
+    const superseded = await client.query(
+      `UPDATE clinical.patient_consents s SET superseded_at = CURRENT_TIMESTAMP
+       WHERE s.patient_id = $1 AND s.superseded_at IS NULL
+         AND EXISTS (
+           SELECT 1 FROM clinical.patient_consents m
+           WHERE m.patient_id = $2 AND m.superseded_at IS NULL AND m.consent_type = s.consent_type
+             AND COALESCE(m.withdrawn_at, m.given_at) > COALESCE(s.withdrawn_at, s.given_at)
+         )
+       RETURNING s.id`,
+      [survivor.id, merged.id]
+    );
+
+    const moved = await client.query(
+      `UPDATE clinical.patient_consents m SET patient_id = $1
+       WHERE m.patient_id = $2 AND m.superseded_at IS NULL
+         AND NOT EXISTS (
+           SELECT 1 FROM clinical.patient_consents s
+           WHERE s.patient_id = $1 AND s.superseded_at IS NULL AND s.consent_type = m.consent_type
+         )
+       RETURNING m.id`,
+      [survivor.id, merged.id]
+    );
+
+    return {
+      movedIds: moved.rows.map((row: { id: string }) => row.id),
+      supersededIds: superseded.rows.map((row: { id: string }) => row.id),
+    };
+  },
+  async unmerge(client, undo, { merged }) {
+    await client.query(
+      'UPDATE clinical.patient_consents SET patient_id = $1 WHERE id = ANY($2::uuid[])',
+      [merged.id, undo.movedIds]
+    );
+    await client.query(
+      'UPDATE clinical.patient_consents SET superseded_at = NULL WHERE id = ANY($1::uuid[])',
+      [undo.supersededIds]
+    );
+  },
+};
+
+// The duplicate's household membership moves to the survivor unless the survivor already
+// belongs to a household, in which case the duplicate simply leaves its household
+const householdsStep: MergeStep = {
+  name: 'household_members',
+  async merge(client, { survivor, merged, userId }) {
+    const survivorMembership = await client.query(
+      'SELECT id FROM clinical.household_members WHERE patient_id = $1 AND left_at IS NULL',
+      [survivor.id]
+    );
+
+    if (survivorMembership.rows[0]) {
+      const left = await client.query(
+        `UPDATE clinical.household_members SET left_at = CURRENT_TIMESTAMP, removed_by = $2
+         WHERE patient_id = $1 AND left_at IS NULL
+         RETURNING id`,
+        [merged.id, userId]
+      );
+      return { movedIds: [], leftIds: left.rows.map((row: { id: string }) => row.id) };
+    }
+
+    const moved = await client.query(
+      'UPDATE clinical.household_members SET patient_id = $1 WHERE patient_id = $2 RETURNING id',
+      [survivor.id, merged.id]
+    );
+    return { movedIds: moved.rows.map((row: { id: string }) => row.id), leftIds: [] };
+  },
+  async unmerge(client, undo, { merged }) {
+    await client.query(
+      'UPDATE clinical.household_members SET patient_id = $1 WHERE id = ANY($2::uuid[])',
+      [merged.id, undo.movedIds]
+    );
+    await client.query(
+      'UPDATE clinical.household_members SET left_at = NULL, removed_by = NULL WHERE id = ANY($1::uuid[])',
+      [undo.leftIds]
+    );
+  },
+};
+
+// Survivor keeps its own identifiers and gains any the duplicate had that it lacks;
+// program memberships are combined. The duplicate is tombstoned and points at the survivor.
+const patientRecordStep: MergeStep = {
+  name: 'patient_record',
+  async merge(client, { survivor, merged, userId }) {
+    const photos = Array.from(new Set([
+      ...(survivor.demographics.documentation?.photos || []),
+      ...(merged.demographics.documentation?.photos || []),
+    ]));
+    const documentation = {
+      ...merged.demographics.documentation,
+      ...survivor.demographics.documentation,
+      ...(photos.length > 0 && { photos }),
+    };
+    const programs = Array.from(new Set([...survivor.programs, ...merged.programs]));
+
+    await client.query(
+      `UPDATE ${PATIENTS_TABLE}
+       SET demographics = jsonb_set(demographics, '{documentation}', $2::jsonb),
+           programs = $3,
+           updated_by = $4,
+           updated_at = CURRENT_TIMESTAMP,
+           version = version + 1
+       WHERE id = $1`,
+      [survivor.id, JSON.stringify(documentation), programs, userId]
+    );
+
+    await client.query(
+      `UPDATE ${PATIENTS_TABLE}
+       SET deleted = TRUE,
+           deleted_at = CURRENT_TIMESTAMP,
+           deleted_by = $2,
+           deletion_reason = $3,
+           merged_into = $4,
+           updated_by = $2,
+           updated_at = CURRENT_TIMESTAMP,
+           version = version + 1
+       WHERE id = $1`,
+      [merged.id, userId, `Merged into ${survivor.mrn}`, survivor.id]
+    );
+
+    return {
+      survivorDocumentation: survivor.demographics.documentation || null,
+      survivorPrograms: survivor.programs,
+    };
+  },
+  async unmerge(client, undo, { survivor, merged, userId }) {
+    await client.query(
+      `UPDATE ${PATIENTS_TABLE}
+       SET demographics = CASE
+             WHEN $2::jsonb IS NULL THEN demographics - 'documentation'
+             ELSE jsonb_set(demographics, '{documentation}', $2::jsonb)
+           END,
+           programs = $3,
+           updated_by = $4,
+           updated_at = CURRENT_TIMESTAMP,
+           version = version + 1
+       WHERE id = $1`,
+      [survivor.id, undo.survivorDocumentation ? JSON.stringify(undo.survivorDocumentation) : null, undo.survivorPrograms, userId]
+    );
+
+    await client.query(
+      `UPDATE ${PATIENTS_TABLE}
+       SET deleted = FALSE,
+           deleted_at = NULL,
+           deleted_by = NULL,
+           deletion_reason = NULL,
+           merged_into = NULL,
+           updated_by = $2,
+           updated_at = CURRENT_TIMESTAMP,
+           version = version + 1
+       WHERE id = $1`,
+      [merged.id, userId]
+    );
+  },
+};
+
+// Run in this order on merge and in reverse on unmerge
+const MERGE_STEPS: MergeStep[] = [
+  encountersStep,
+  programEnrollmentsStep,
+  flagsStep,
+  attachmentsStep,
+  vitalSignsStep,
+  ncdVisitsStep,
+  mhpssCasesStep,
+  pregnanciesStep,
+  emergencyAssessmentsStep,
+  identifiersStep,
+  consentsStep,
+  householdsStep,
+  patientRecordStep,
+];
+
+export class PatientMergeService {
+  async merge(
+    request: PatientTypes.MergePatientsRequest,
+    audit: MergeAuditContext
+  ): Promise<PatientTypes.PatientMerge> {
+    const { survivorId, mergedId, reason } = request;
+
+    if (!survivorId || !mergedId) {
+      throw new BadRequestError('survivorId and mergedId are required');
+    }
+
+    if (survivorId === mergedId) {
+      throw new BadRequestError('A patient cannot be merged into itself');
+    }
+
+    const record = await database.transaction(async (client) => {
+      // Lock both rows in a stable order so concurrent merges cannot deadlock
+      const [first, second] = [survivorId, mergedId].sort();
+      const locked = new Map<string, PatientTypes.Patient | null>([
+        [first, await patientRepository.findById(first, client)],
+        [second, await patientRepository.findById(second, client)],
+      ]);
+      const survivor = locked.get(survivorId);
+      const merged = locked.get(mergedId);
+
+      if (!survivor) {
+        throw new NotFoundError('Patient', survivorId);
+      }
+      if (!merged) {
+        throw new NotFoundError('Patient', mergedId);
+      }
+
+      const context: MergeContext = { survivor, merged, userId: audit.userId };
+      const { score } = duplicateDetectionService.score(survivor, merged);
+      const steps: Array<{ name: string; undo: any }> = [];
+      const survivorBefore = await patientHistoryService.snapshot(survivorId, client);
+      const mergedBefore = await patientHistoryService.snapshot(mergedId, client);
+
+      for (const step of MERGE_STEPS) {
+        steps.push({ name: step.name, undo: await step.merge(client, context) });
+      }
+
+      const result = await client.query(
+        `INSERT INTO ${PATIENT_MERGES_TABLE} (survivor_id, merged_id, reason, match_score, steps, merged_by)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING *`,
+        [survivorId, mergedId, reason || null, score, JSON.stringify(steps), audit.userId]
+      );
+
+      const businessContext = {
+        mergeId: result.rows[0].id,
+        survivorMrn: survivor.mrn,
+        mergedId,
+        mergedMrn: merged.mrn,
+        matchScore: score,
+        reason,
+      };
+
+      // Both records get an entry: the survivor's gains, the duplicate's tombstone
+      for (const [patientId, before] of [[survivorId, survivorBefore], [mergedId, mergedBefore]] as const) {
+        await auditService.record({
+          ...audit,
+          entityType: 'patient',
+          entityId: patientId,
+          action: 'merge',
+          changes: patientHistoryService.changes(before, await patientHistoryService.snapshot(patientId, client)),
+          metadata: { businessContext },
+        }, client);
+      }
+
+      return result.rows[0] as MergeRow;
+    });
+
+    logger.info('Patients merged', {
+      action: 'patients_merged',
+      mergeId: record.id,
+      survivorId,
+      mergedId,
+      userId: audit.userId,
+    });
+
+    return this.toMerge(record);
+  }
+
+  async unmerge(
+    mergeId: string,
+    audit: MergeAuditContext
+  ): Promise<PatientTypes.PatientMerge> {
+    const record = await database.transaction(async (client) => {
+      // The log entry is gone once the retention purge has removed either patient
+      const result = isUuid(mergeId)
+        ? await client.query(`SELECT * FROM ${PATIENT_MERGES_TABLE} WHERE id = $1 FOR UPDATE`, [mergeId])
+        : { rows: [] };
+      const merge = result.rows[0] as MergeRow | undefined;
+
+      if (!merge) {
+        throw new NotFoundError('Patient merge', mergeId);
+      }
+      if (merge.unmerged_at) {
+        throw new ConflictError(`Patient merge ${mergeId} has already been reversed`);
+      }
+
+      const survivor = await patientRepository.findById(merge.survivor_id, client);
+      if (!survivor) {
+        throw new ConflictError('The surviving patient no longer exists; the merge cannot be reversed');
+      }
+
+      const mergedResult = await client.query(`SELECT * FROM ${PATIENTS_TABLE} WHERE id = $1 FOR UPDATE`, [merge.merged_id]);
+
+      const context: MergeContext = {
+        survivor,
+        merged: patientRepository.toPatient(mergedResult.rows[0]),
+        userId: audit.userId,
+      };
+
+      const snapshots = new Map([
+        [merge.survivor_id, await patientHistoryService.snapshot(merge.survivor_id, client)],
+        [merge.merged_id, await patientHistoryService.snapshot(merge.merged_id, client)],
+      ]);
+
+      for (const entry of [...merge.steps].reverse()) {
+        const step = MERGE_STEPS.find(candidate => candidate.name === entry.name);
+        if (!step) {
+          throw new ConflictError(`Unknown merge step '${entry.name}' in merge ${mergeId}`);
+        }
+        await step.unmerge(client, entry.undo, context);
+      }
+
+      const updated = await client.query(
+        `UPDATE ${PATIENT_MERGES_TABLE} SET unmerged_by = $2, unmerged_at = CURRENT_TIMESTAMP WHERE id = $1 RETURNING *`,
+        [mergeId, audit.userId]
+      );
+
+      // Both records get an entry so either timeline shows the reversal
+      for (const [patientId, before] of snapshots) {
+        await auditService.record({
+          ...audit,
+          entityType: 'patient',
+          entityId: patientId,
+          action: 'unmerge',
+          changes: patientHistoryService.changes(before, await patientHistoryService.snapshot(patientId, client)),
+          metadata: {
+            businessContext: { mergeId, survivorId: merge.survivor_id, mergedId: merge.merged_id },
+          },
+        }, client);
+      }
+
+      return updated.rows[0] as MergeRow;
+    });
+
+    logger.info('Patient merge reversed', {
+      action: 'patients_unmerged',
+      mergeId,
+      userId: audit.userId,
+    });
+
+    return this.toMerge(record);
+  }
+
+  private toMerge(row: MergeRow): PatientTypes.PatientMerge {
+    return {
+      id: row.id,
+      survivorId: row.survivor_id,
+      mergedId: row.merged_id,
+      ...(row.reason && { reason: row.reason }),
+      ...(row.match_score !== null && { matchScore: parseFloat(row.match_score) }),
+      mergedBy: row.merged_by,
+      mergedAt: row.merged_at,
+      ...(row.unmerged_by && { unmergedBy: row.unmerged_by }),
+      ...(row.unmerged_at && { unmergedAt: row.unmerged_at }),
+    };
+  }
+}
+
+// Create and export singleton instance
+export const patientMergeService = new PatientMergeService();
@@ -0,0 +1,47 @@
+import { PatientTypes, CommonTypes } from '@zarishhealthcare/shared-types';
+import { patientRepository, PatientSearchOptions, PatientFacetCount } from '../repositories/PatientRepository';
+
+// Facet name -> the list filter that selects it
+const FACET_FILTERS: Record<PatientFacetCount['field'], keyof PatientTypes.PatientListFilters> = {
+  camp: 'camp',
+  gender: 'gender',
+  ageBand: 'ageBand',
+  program: 'program',
+};
+
+export class PatientSearchService {
+  async search(options: PatientSearchOptions): Promise<CommonTypes.SearchResponse<PatientTypes.Patient>> {
+    const startTime = Date.now();
+
+    const [{ patients, total }, facetCounts] = await Promise.all([
+      patientRepository.search(options),
+      patientRepository.searchFacets(options),
+    ]);
+
+    return {
+      results: patients,
+      totalResults: total,
+      facets: this.toFacets(facetCounts, options.filters),
+      executionTime: Date.now() - startTime,
+    };
+  }
+
+  private toFacets(
+    counts: PatientFacetCount[],
+    filters: PatientTypes.PatientListFilters
+  ): CommonTypes.SearchFacet[] {
+    return (Object.keys(FACET_FILTERS) as PatientFacetCount['field'][]).map(field => ({
+      field,
+      values: counts
+        .filter(count => count.field === field)
+        .map(count => ({
+          value: count.value,
+          count: count.count,
+          selected: filters[FACET_FILTERS[field]] === count.value,
+        })),
+    }));
+  }
+}
+
+// Create and export singleton instance
+export const patientSearchService = new PatientSearchService();
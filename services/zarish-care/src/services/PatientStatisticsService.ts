@@ -0,0 +1,223 @@
+import { PatientTypes } from '@zarishhealthcare/shared-types';
+import { database } from '../config/database';
+import { config } from '../config/config';
+import { redis } from '../config/redis';
+import { BadRequestError } from '../middleware/errorHandler';
+import { AGE_BAND_SQL, PATIENTS_TABLE } from '../repositories/PatientRepository';
+import { analyticsAllowedSql } from '../utils/consent';
+
+export const STATISTICS_INTERVALS: PatientTypes.StatisticsInterval[] = ['day', 'week', 'month'];
+
+const INTERVAL_DAYS: Record<PatientTypes.StatisticsInterval, number> = { day: 1, week: 7, month: 30 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Without a `from`, the registration series covers the year before `to`
+const DEFAULT_SERIES_DAYS = 365;
+
+// WHERE clause over `p`; patients who opted out of research use are not counted
+function buildStatisticsFilter(
+  filters: PatientTypes.PatientStatisticsFilters,
+  offset: number = 0
+): { clause: string; values: any[] } {
+  const conditions = ['p.deleted = FALSE', analyticsAllowedSql('p.id')];
+  const values: any[] = [];
+  const param = (value: any): string => {
+    values.push(value);
+    return `$${offset + values.length}`;
+  };
+
+  if (filters.from) {
+    conditions.push(`p.registration_date >= ${param(filters.from)}`);
+  }
+
+  if (filters.to) {
+    conditions.push(`p.registration_date <= ${param(filters.to)}`);
+  }
+
+  if (filters.facilityCode) {
+    conditions.push(`p.facility_code = ${param(filters.facilityCode)}`);
+  }
+
+  return { clause: conditions.join(' AND '), values };
+}
+
+function cacheKey(kind: string, filters: PatientTypes.PatientStatisticsFilters, ...extra: string[]): string {
+  return [
+    'statistics:patients',
+    kind,
+    filters.facilityCode || 'all',
+    filters.from ? filters.from.toISOString() : '',
+    filters.to ? filters.to.toISOString() : '',
+    ...extra,
+  ].join(':');
+}
+
+export class PatientStatisticsService {
+  async getOverview(
+    filters: PatientTypes.PatientStatisticsFilters,
+    interval: PatientTypes.StatisticsInterval
+  ): Promise<PatientTypes.PatientOverviewStatistics> {
+    if (!STATISTICS_INTERVALS.includes(interval)) {
+      throw new BadRequestError(`interval must be one of: ${STATISTICS_INTERVALS.join(', ')}`);
+    }
+
+    const seriesEnd = filters.to || new Date();
+    const seriesStart = filters.from || new Date(seriesEnd.getTime() - DEFAULT_SERIES_DAYS * DAY_MS);
+    this.assertRange(seriesStart, seriesEnd, interval);
+
+    return this.cached(cacheKey('overview', filters, interval), async () => {
+      const filter = buildStatisticsFilter(filters);
+      const seriesFilter = buildStatisticsFilter(filters, 4);
+
+      const [statusResult, seriesResult] = await Promise.all([
+        database.query(
+          `SELECT p.status, COUNT(*) AS count FROM ${PATIENTS_TABLE} p WHERE ${filter.clause} GROUP BY p.status`,
+          filter.values
+        ),
+        database.query(
+          `WITH matched AS (
+             SELECT date_trunc($1, p.registration_date) AS period
+             FROM ${PATIENTS_TABLE} p
+             WHERE ${seriesFilter.clause}
+           )
+           SELECT to_char(series.period, 'YYYY-MM-DD') AS period_start, COUNT(matched.period) AS count
+           FROM generate_series(date_trunc($1, $2::timestamp), date_trunc($1, $3::timestamp), $4::interval)
+             AS series(period)
+           LEFT JOIN matched ON matched.period = series.period
+           GROUP BY series.period
+           ORDER BY series.period`,
+          [interval, seriesStart, seriesEnd, `1 ${interval}`, ...seriesFilter.values]
+        ),
+      ]);
+
+      const byStatus = Object.fromEntries(
+        Object.values(PatientTypes.PatientStatus).map(status => [status, 0])
+      ) as Record<PatientTypes.PatientStatus, number>;
+      for (const row of statusResult.rows) {
+        byStatus[row.status as PatientTypes.PatientStatus] = parseInt(row.count, 10);
+      }
+
+      const totalPatients = Object.values(byStatus).reduce((sum, count) => sum + count, 0);
+      const active = byStatus[PatientTypes.PatientStatus.ACTIVE];
+
+      return {
+        totalPatients,
+        active,
+        inactive: totalPatients - active,
+        byStatus,
+        interval,
+        registrations: seriesResult.rows.map(row => ({
+          periodStart: row.period_start,
+          count: parseInt(row.count, 10),
+        })),
+        generatedAt: new Date(),
+      };
+    });
+  }
+
+  async getDemographics(
+    filters: PatientTypes.PatientStatisticsFilters
+  ): Promise<PatientTypes.PatientDemographicStatistics> {
+    if (filters.from && filters.to && filters.from > filters.to) {
+      throw new BadRequestError('from must not be after to');
+    }
+
+    return this.cached(cacheKey('demographics', filters), async () => {
+      const filter = buildStatisticsFilter(filters);
+
+      const [pyramidResult, populationResult, locationResult] = await Promise.all([
+        database.query(
+          `SELECT ${AGE_BAND_SQL} AS age_band, p.gender, COUNT(*) AS count
+           FROM ${PATIENTS_TABLE} p
+           WHERE ${filter.clause}
+           GROUP BY 1, 2`,
+          filter.values
+        ),
+        database.query(
+          `SELECT COALESCE(p.population_type, 'unknown') AS population_type, COUNT(*) AS count
+           FROM ${PATIENTS_TABLE} p
+           WHERE ${filter.clause}
+           GROUP BY 1`,
+          filter.values
+        ),
+        database.query(
+          `SELECT COALESCE(p.camp_location, 'unknown') AS camp_location,
+                  COALESCE(p.block_number, 'unknown') AS block_number,
+                  COUNT(*) AS count
+           FROM ${PATIENTS_TABLE} p
+           WHERE ${filter.clause}
+           GROUP BY 1, 2
+           ORDER BY 1, 2`,
+          filter.values
+        ),
+      ]);
+
+      // Every standard band is listed, even when empty, so pyramids line up across facilities
+      const bands = new Map<string, PatientTypes.AgeSexBand>(
+        PatientTypes.AGE_BANDS.map(band => [
+          band.label,
+          { ageBand: band.label, male: 0, female: 0, diverse: 0, total: 0 },
+        ])
+      );
+      let totalPatients = 0;
+
+      for (const row of pyramidResult.rows) {
+        const count = parseInt(row.count, 10);
+        const band: PatientTypes.AgeSexBand = bands.get(row.age_band)
+          || { ageBand: row.age_band, male: 0, female: 0, diverse: 0, total: 0 };
+        if (row.gender === 'male' || row.gender === 'female' || row.gender === 'diverse') {
+          band[row.gender as 'male' | 'female' | 'diverse'] += count;
+        }
+        band.total += count;
+        bands.set(row.age_band, band);
+        totalPatients += count;
+      }
+
+      const populationTypes = { rohingya: 0, host: 0, unknown: 0 };
+      for (const row of populationResult.rows) {
+        const key = row.population_type in populationTypes ? row.population_type : 'unknown';
+        populationTypes[key as keyof typeof populationTypes] += parseInt(row.count, 10);
+      }
+
+      const locations = new Map<string, PatientTypes.LocationCount>();
+      for (const row of locationResult.rows) {
+        const count = parseInt(row.count, 10);
+        const location: PatientTypes.LocationCount = locations.get(row.camp_location)
+          || { campLocation: row.camp_location, count: 0, blocks: [] };
+        location.count += count;
+        location.blocks.push({ blockNumber: row.block_number, count });
+        locations.set(row.camp_location, location);
+      }
+
+      return {
+        totalPatients,
+        ageSexPyramid: Array.from(bands.values()),
+        populationTypes,
+        byLocation: Array.from(locations.values()),
+        generatedAt: new Date(),
+      };
+    });
+  }
+
+  private assertRange(from: Date, to: Date, interval: PatientTypes.StatisticsInterval): void {
+    if (from > to) {
+      throw new BadRequestError('from must not be after to');
+    }
+
+    const periods = Math.ceil((to.getTime() - from.getTime()) / (INTERVAL_DAYS[interval] * DAY_MS));
+    if (periods > config.statistics.maxPeriods) {
+      throw new BadRequestError(
+        `The date range spans more than ${config.statistics.maxPeriods} ${interval}s; use a longer interval`
+      );
+    }
+  }
+
+  // Statistics are computed directly when Redis is not connected
+  private cached<T>(key: string, fetchFn: () => Promise<T>): Promise<T> {
+    return redis.connected ? redis.cache(key, fetchFn, config.statistics.cacheTtlSeconds) : fetchFn();
+  }
+}
+
+// Create and export singleton instance
+export const patientStatisticsService = new PatientStatisticsService();
@@ -0,0 +1,407 @@
+import { PatientTypes, CommonTypes, SYSTEM_USER_ID } from '@zarishhealthcare/shared-types';
+import { database, Queryable } from '../config/database';
+import { config } from '../config/config';
+import { BadRequestError, ConflictError, NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { patientRepository } from '../repositories/PatientRepository';
+import { auditService, AuditEntry } from './AuditService';
+import { patientHistoryService } from './PatientHistoryService';
+import { checkEligibility, historyDiagnosisCodes } from '../utils/programEligibility';
+import { logger } from '../utils/logger';
+
+const PROGRAMS_TABLE = 'clinical.programs';
+const ENROLLMENTS_TABLE = 'clinical.program_enrollments';
+
+// Enrollments in these states are still open; the rest are final outcomes
+export const OPEN_STATUSES: PatientTypes.EnrollmentStatus[] = ['enrolled', 'defaulted'];
+
+export const EXIT_STATUSES: PatientTypes.ExitProgramRequest['status'][] = [
+  'lost_to_follow_up',
+  'transferred_out',
+  'completed',
+  'died',
+];
+
+type ProgramAuditContext = Pick<AuditEntry, 'userId' | 'sessionId' | 'ipAddress' | 'userAgent'> & { userId: string };
+
+export interface EnrollmentListOptions {
+  status?: PatientTypes.EnrollmentStatus;
+  facilityCode?: string;
+  page: number;
+  limit: number;
+}
+
+const statusChange = (oldValue: string, newValue: string): CommonTypes.FieldChange => ({
+  field: 'status',
+  oldValue,
+  newValue,
+  dataType: 'string',
+  sensitive: false,
+});
+
+function parseDate(value: string | undefined, field: string): Date | null {
+  if (!value) {
+    return null;
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new ValidationError(`Invalid ${field}`, [{
+      field,
+      message: `${field} must be a valid date`,
+      code: 'INVALID_FORMAT',
+      value,
+    }]);
+  }
+
+  return date;
+}
+
+export class ProgramService {
+  async listPrograms(): Promise<PatientTypes.ProgramDefinition[]> {
+    const result = await database.query(`SELECT * FROM ${PROGRAMS_TABLE} ORDER BY program_type, name`);
+    return result.rows.map(row => this.toDefinition(row));
+  }
+
+  async getProgram(programId: string, client: Queryable = database): Promise<PatientTypes.ProgramDefinition> {
+    const result = await client.query(`SELECT * FROM ${PROGRAMS_TABLE} WHERE id = $1`, [programId]);
+
+    if (!result.rows[0]) {
+      throw new NotFoundError('Program', programId);
+    }
+
+    return this.toDefinition(result.rows[0]);
+  }
+
+  async getPatientEnrollments(patientId: string): Promise<PatientTypes.ProgramEnrollment[]> {
+    const result = await database.query(
+      `SELECT * FROM ${ENROLLMENTS_TABLE} WHERE patient_id = $1 ORDER BY enrolled_at DESC`,
+      [patientId]
+    );
+    return result.rows.map(row => this.toEnrollment(row));
+  }
+
+  // Tracing lists, e.g. all defaulters of a program at one facility
+  async getProgramEnrollments(
+    programId: string,
+    options: EnrollmentListOptions
+  ): Promise<{ enrollments: PatientTypes.ProgramEnrollment[]; total: number }> {
+    await this.getProgram(programId);
+
+    const params: any[] = [programId];
+    const conditions = ['program_id = $1'];
+
+    if (options.status) {
+      params.push(options.status);
+      conditions.push(`status = $${params.length}`);
+    }
+
+    if (options.facilityCode) {
+      params.push(options.facilityCode);
+      conditions.push(`facility_code = $${params.length}`);
+    }
+
+    const where = conditions.join(' AND ');
+    const count = await database.query(`SELECT COUNT(*) FROM ${ENROLLMENTS_TABLE} WHERE ${where}`, params);
+    const result = await database.query(
+      `SELECT * FROM ${ENROLLMENTS_TABLE} WHERE ${where}
+       ORDER BY next_appointment ASC NULLS LAST, enrolled_at
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, options.limit, (options.page - 1) * options.limit]
+    );
+
+    return {
+      enrollments: result.rows.map(row => this.toEnrollment(row)),
+      total: parseInt(count.rows[0].count, 10),
+    };
+  }
+
+  async enroll(
+    patientId: string,
+    programId: string,
+    request: PatientTypes.EnrollPatientRequest,
+    audit: ProgramAuditContext
+  ): Promise<PatientTypes.ProgramEnrollment> {
+    const patient = await patientRepository.findById(patientId);
+    if (!patient) {
+      throw new NotFoundError('Patient', patientId);
+    }
+
+    if (patient.status === PatientTypes.PatientStatus.DECEASED) {
+      throw new BadRequestError('Deceased patients cannot be enrolled in a program');
+    }
+
+    const program = await this.getProgram(programId);
+    if (!program.active) {
+      throw new BadRequestError(`Program ${program.name} is not accepting enrollments`);
+    }
+
+    const enrolledAt = parseDate(request.enrollmentDate, 'enrollmentDate') || new Date();
+    const nextAppointment = parseDate(request.nextAppointment, 'nextAppointment');
+    const diagnosisCodes = Array.from(new Set([
+      ...(request.diagnosisCodes || []).map(code => code.trim().toUpperCase()).filter(Boolean),
+      ...historyDiagnosisCodes(patient),
+    ]));
+
+    const eligibilityErrors = checkEligibility(program, patient, diagnosisCodes);
+    if (eligibilityErrors.length > 0) {
+      throw new ValidationError(`Patient is not eligible for ${program.name}`, eligibilityErrors);
+    }
+
+    const enrollment = await database.transaction(async (client) => {
+      const open = await client.query(
+        `SELECT id, status FROM ${ENROLLMENTS_TABLE}
+         WHERE patient_id = $1 AND program_id = $2 AND status = ANY($3)`,
+        [patientId, programId, OPEN_STATUSES]
+      );
+
+      if (open.rows[0]) {
+        throw new ConflictError(`Patient already has an open ${program.name} enrollment (${open.rows[0].status})`);
+      }
+
+      const result = await client.query(
+        `INSERT INTO ${ENROLLMENTS_TABLE} (
+           patient_id, program_id, status, enrolled_at, enrolled_by, facility_code, diagnosis_codes,
+           next_appointment, status_changed_at, status_changed_by, details
+         ) VALUES ($1, $2, 'enrolled', $3, $4, $5, $6, $7, $3, $4, $8)
+         RETURNING *`,
+        [
+          patientId,
+          programId,
+          enrolledAt,
+          audit.userId,
+          request.facilityCode || patient.facilityCode,
+          diagnosisCodes,
+          nextAppointment,
+          JSON.stringify(request.details || {}),
+        ]
+      );
+
+      // patients.programs mirrors open enrollments for filtering and search facets
+      await patientHistoryService.track(
+        patientId,
+        { ...audit, action: 'update', metadata: { businessContext: { programId } } },
+        client,
+        () => client.query(
+          `UPDATE clinical.patients SET programs = array_append(programs, $2)
+           WHERE id = $1 AND NOT ($2 = ANY(programs))`,
+          [patientId, programId]
+        )
+      );
+
+      await auditService.record({
+        ...audit,
+        entityType: 'program_enrollment',
+        entityId: result.rows[0].id,
+        action: 'create',
+        metadata: {
+          businessContext: { patientId, programId, diagnosisCodes },
+        },
+      }, client);
+
+      return this.toEnrollment(result.rows[0]);
+    });
+
+    logger.info('Patient enrolled in program', {
+      action: 'program_enrolled',
+      enrollmentId: enrollment.id,
+      patientId,
+      programId,
+      userId: audit.userId,
+    });
+
+    return enrollment;
+  }
+
+  // Closes the open enrollment with a final outcome
+  async exit(
+    patientId: string,
+    programId: string,
+    request: PatientTypes.ExitProgramRequest,
+    audit: ProgramAuditContext
+  ): Promise<PatientTypes.ProgramEnrollment> {
+    if (!EXIT_STATUSES.includes(request.status)) {
+      throw new ValidationError('Invalid program exit', [{
+        field: 'status',
+        message: `status must be one of: ${EXIT_STATUSES.join(', ')}`,
+        code: 'INVALID_VALUE',
+        value: request.status,
+      }]);
+    }
+
+    const outcomeDate = parseDate(request.outcomeDate, 'outcomeDate') || new Date();
+
+    const enrollment = await database.transaction(async (client) => {
+      const current = await this.lockOpenEnrollment(client, patientId, programId);
+
+      const result = await client.query(
+        `UPDATE ${ENROLLMENTS_TABLE}
+         SET status = $2, outcome_reason = $3, status_changed_at = $4, status_changed_by = $5
+         WHERE id = $1
+         RETURNING *`,
+        [current.id, request.status, request.outcomeReason || null, outcomeDate, audit.userId]
+      );
+
+      await patientHistoryService.track(
+        patientId,
+        { ...audit, action: 'update', metadata: { businessContext: { programId } } },
+        client,
+        () => client.query(
+          'UPDATE clinical.patients SET programs = array_remove(programs, $2) WHERE id = $1',
+          [patientId, programId]
+        )
+      );
+
+      await auditService.record({
+        ...audit,
+        entityType: 'program_enrollment',
+        entityId: current.id,
+        action: 'update',
+        changes: [statusChange(current.status, request.status)],
+        metadata: {
+          businessContext: { patientId, programId, outcomeReason: request.outcomeReason },
+        },
+      }, client);
+
+      return this.toEnrollment(result.rows[0]);
+    });
+
+    logger.info('Patient exited program', {
+      action: 'program_exited',
+      enrollmentId: enrollment.id,
+      patientId,
+      programId,
+      status: request.status,
+      userId: audit.userId,
+    });
+
+    return enrollment;
+  }
+
+  // A follow-up contact: books the next appointment and brings a defaulter back into care
+  async recordVisit(
+    patientId: string,
+    programId: string,
+    request: PatientTypes.ProgramVisitRequest,
+    audit: ProgramAuditContext,
+    client?: Queryable
+  ): Promise<PatientTypes.ProgramEnrollment> {
+    const visitDate = parseDate(request.visitDate, 'visitDate') || new Date();
+    const nextAppointment = parseDate(request.nextAppointment, 'nextAppointment');
+
+    const apply = async (tx: Queryable): Promise<PatientTypes.ProgramEnrollment> => {
+      const current = await this.lockOpenEnrollment(tx, patientId, programId);
+
+      const result = await tx.query(
+        `UPDATE ${ENROLLMENTS_TABLE}
+         SET last_visit_date = GREATEST(COALESCE(last_visit_date, $2), $2),
+             next_appointment = $3,
+             status = 'enrolled',
+             status_changed_at = CASE WHEN status = 'enrolled' THEN status_changed_at ELSE $2 END,
+             status_changed_by = CASE WHEN status = 'enrolled' THEN status_changed_by ELSE $4 END
+         WHERE id = $1
+         RETURNING *`,
+        [current.id, visitDate, nextAppointment, audit.userId]
+      );
+
+      if (current.status === 'defaulted') {
+        await auditService.record({
+          ...audit,
+          entityType: 'program_enrollment',
+          entityId: current.id,
+          action: 'update',
+          changes: [statusChange('defaulted', 'enrolled')],
+          metadata: {
+            businessContext: { patientId, programId, returnedToCare: true },
+          },
+        }, tx);
+      }
+
+      return this.toEnrollment(result.rows[0]);
+    };
+
+    return client ? apply(client) : database.transaction(apply);
+  }
+
+  // Marks enrolled patients as defaulters once their appointment is more than the grace period overdue
+  async detectDefaulters(): Promise<PatientTypes.ProgramEnrollment[]> {
+    return database.transaction(async (client) => {
+      const result = await client.query(
+        `UPDATE ${ENROLLMENTS_TABLE} e
+         SET status = 'defaulted', status_changed_at = CURRENT_TIMESTAMP, status_changed_by = $2
+         FROM ${PROGRAMS_TABLE} p
+         WHERE p.id = e.program_id
+           AND e.status = 'enrolled'
+           AND e.next_appointment IS NOT NULL
+           AND e.next_appointment + make_interval(days => COALESCE(p.defaulter_grace_days, $1)) < CURRENT_TIMESTAMP
+         RETURNING e.*`,
+        [config.programs.defaulterGraceDays, SYSTEM_USER_ID]
+      );
+
+      for (const row of result.rows) {
+        await auditService.record({
+          entityType: 'program_enrollment',
+          entityId: row.id,
+          action: 'update',
+          userId: SYSTEM_USER_ID,
+          changes: [statusChange('enrolled', 'defaulted')],
+          metadata: {
+            businessContext: {
+              patientId: row.patient_id,
+              programId: row.program_id,
+              missedAppointment: row.next_appointment,
+            },
+          },
+        }, client);
+      }
+
+      return result.rows.map(row => this.toEnrollment(row));
+    });
+  }
+
+  private async lockOpenEnrollment(client: Queryable, patientId: string, programId: string): Promise<any> {
+    const result = await client.query(
+      `SELECT * FROM ${ENROLLMENTS_TABLE}
+       WHERE patient_id = $1 AND program_id = $2 AND status = ANY($3)
+       FOR UPDATE`,
+      [patientId, programId, OPEN_STATUSES]
+    );
+
+    if (!result.rows[0]) {
+      throw new NotFoundError('Open program enrollment', `${patientId}/${programId}`);
+    }
+
+    return result.rows[0];
+  }
+
+  private toDefinition(row: any): PatientTypes.ProgramDefinition {
+    return {
+      id: row.id,
+      name: row.name,
+      programType: row.program_type,
+      eligibility: row.eligibility || {},
+      ...(row.defaulter_grace_days !== null && { defaulterGraceDays: row.defaulter_grace_days }),
+      active: row.active,
+    };
+  }
+
+  private toEnrollment(row: any): PatientTypes.ProgramEnrollment {
+    return {
+      id: row.id,
+      patientId: row.patient_id,
+      programId: row.program_id,
+      status: row.status,
+      enrolledAt: row.enrolled_at,
+      enrolledBy: row.enrolled_by,
+      ...(row.facility_code && { facilityCode: row.facility_code }),
+      diagnosisCodes: row.diagnosis_codes || [],
+      ...(row.last_visit_date && { lastVisitDate: row.last_visit_date }),
+      ...(row.next_appointment && { nextAppointment: row.next_appointment }),
+      statusChangedAt: row.status_changed_at,
+      ...(row.outcome_reason && { outcomeReason: row.outcome_reason }),
+      ...(row.details && Object.keys(row.details).length > 0 && { details: row.details }),
+    };
+  }
+}
+
+// Create and export singleton instance
+export const programService = new ProgramService();
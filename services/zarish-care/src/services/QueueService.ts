@@ -0,0 +1,504 @@
+import { validate as isUuid } from 'uuid';
+import { PatientTypes } from '@zarishhealthcare/shared-types';
+import { database, Queryable } from '../config/database';
+import { ConflictError, NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { patientRepository } from '../repositories/PatientRepository';
+import { auditService, AuditEntry } from './AuditService';
+import { realtimeService } from './RealtimeService';
+import { logger } from '../utils/logger';
+
+const ENCOUNTERS_TABLE = 'clinical.encounters';
+const QUEUE_TABLE = 'clinical.queue_entries';
+
+export const TRIAGE_PRIORITIES: PatientTypes.TriagePriority[] = ['emergency', 'very_urgent', 'urgent', 'routine'];
+
+export const VISIT_DISPOSITIONS: PatientTypes.VisitDisposition[] = [
+  'discharged',
+  'admitted',
+  'referred',
+  'follow_up',
+  'left_without_being_seen',
+  'deceased',
+];
+
+// Board order: most urgent first, then first come first served
+const PRIORITY_RANK_SQL = `CASE q.priority
+  WHEN 'emergency' THEN 0 WHEN 'very_urgent' THEN 1 WHEN 'urgent' THEN 2 ELSE 3 END`;
+
+const OPEN_STATUSES = ['waiting', 'called'];
+
+type QueueAuditContext = Pick<AuditEntry, 'userId' | 'sessionId' | 'ipAddress' | 'userAgent'> & { userId: string };
+
+export type QueueAction = 'checked_in' | 'called' | 'transferred' | 'completed' | 'checked_out';
+
+export class QueueService {
+  async checkIn(
+    patientId: string,
+    request: PatientTypes.CheckInRequest,
+    audit: QueueAuditContext
+  ): Promise<PatientTypes.QueueEntry> {
+    const priority = request.priority || 'routine';
+    const validationErrors: Array<{ field: string; message: string; code: string; value?: any }> = [];
+
+    if (!request.facilityCode) {
+      validationErrors.push({ field: 'facilityCode', message: 'Facility code is required', code: 'REQUIRED_FIELD' });
+    }
+
+    if (!request.servicePoint) {
+      validationErrors.push({ field: 'servicePoint', message: 'Service point is required', code: 'REQUIRED_FIELD' });
+    }
+
+    if (!TRIAGE_PRIORITIES.includes(priority)) {
+      validationErrors.push({
+        field: 'priority',
+        message: `priority must be one of: ${TRIAGE_PRIORITIES.join(', ')}`,
+        code: 'INVALID_VALUE',
+        value: request.priority,
+      });
+    }
+
+    if (validationErrors.length > 0) {
+      throw new ValidationError('Invalid check-in request', validationErrors);
+    }
+
+    const patient = await patientRepository.findById(patientId);
+    if (!patient) {
+      throw new NotFoundError('Patient', patientId);
+    }
+
+    const entry = await database.transaction(async (client) => {
+      // Serialises check-ins per facility so queue numbers and the open-visit check cannot race
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`queue:${request.facilityCode}`]);
+
+      const open = await client.query(
+        `SELECT id, facility_code FROM ${ENCOUNTERS_TABLE} WHERE patient_id = $1 AND status = 'active'`,
+        [patientId]
+      );
+
+      if (open.rows[0]) {
+        throw new ConflictError(
+          `Patient is already checked in at ${open.rows[0].facility_code || 'another facility'} (encounter ${open.rows[0].id})`
+        );
+      }
+
+      const encounter = await client.query(
+        `INSERT INTO ${ENCOUNTERS_TABLE} (
+           patient_id, encounter_type, facility_code, encounter_data, status, created_by, updated_by
+         ) VALUES ($1, $2, $3, $4, 'active', $5, $5)
+         RETURNING id`,
+        [
+          patientId,
+          request.encounterType || 'outpatient',
+          request.facilityCode,
+          JSON.stringify({ ...(request.reason && { reason: request.reason }), priority }),
+          audit.userId,
+        ]
+      );
+
+      const encounterId = encounter.rows[0].id;
+      const row = await this.enqueue(client, {
+        encounterId,
+        patientId,
+        facilityCode: request.facilityCode,
+        servicePoint: request.servicePoint,
+        priority,
+        userId: audit.userId,
+      });
+
+      await auditService.record({
+        ...audit,
+        entityType: 'encounter',
+        entityId: encounterId,
+        action: 'create',
+        metadata: {
+          businessContext: {
+            patientId,
+            facilityCode: request.facilityCode,
+            servicePoint: request.servicePoint,
+            priority,
+            queueNumber: row.queue_number,
+          },
+        },
+      }, client);
+
+      return this.toEntry({ ...row, mrn: patient.mrn, first_name: patient.firstName, last_name: patient.lastName });
+    });
+
+    this.publish('checked_in', entry, audit.userId);
+    return entry;
+  }
+
+  // Closes every open queue entry and the encounter itself
+  async checkOut(
+    patientId: string,
+    request: PatientTypes.CheckOutRequest,
+    audit: QueueAuditContext
+  ): Promise<PatientTypes.Encounter> {
+    if (!VISIT_DISPOSITIONS.includes(request.disposition)) {
+      throw new ValidationError('Invalid check-out request', [{
+        field: 'disposition',
+        message: `disposition must be one of: ${VISIT_DISPOSITIONS.join(', ')}`,
+        code: 'INVALID_VALUE',
+        value: request.disposition,
+      }]);
+    }
+
+    const { encounter, closedEntries } = await database.transaction(async (client) => {
+      const open = await client.query(
+        `SELECT * FROM ${ENCOUNTERS_TABLE} WHERE patient_id = $1 AND status = 'active' FOR UPDATE`,
+        [patientId]
+      );
+
+      if (!open.rows[0]) {
+        throw new NotFoundError('Active encounter for patient', patientId);
+      }
+
+      const encounterId = open.rows[0].id;
+
+      // Patients still waiting left the queue; anyone being seen finishes with the visit
+      const closed = await client.query(
+        `UPDATE ${QUEUE_TABLE}
+         SET status = CASE status WHEN 'waiting' THEN 'left' ELSE 'completed' END,
+             completed_at = CURRENT_TIMESTAMP,
+             completed_by = $2
+         WHERE encounter_id = $1 AND status = ANY($3)
+         RETURNING *`,
+        [encounterId, audit.userId, OPEN_STATUSES]
+      );
+
+      const updated = await client.query(
+        `UPDATE ${ENCOUNTERS_TABLE}
+         SET status = 'completed', checked_out_at = CURRENT_TIMESTAMP, disposition = $2,
+             disposition_notes = $3, updated_by = $4, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1
+         RETURNING *`,
+        [encounterId, request.disposition, request.notes || null, audit.userId]
+      );
+
+      await auditService.record({
+        ...audit,
+        entityType: 'encounter',
+        entityId: encounterId,
+        action: 'update',
+        changes: [{ field: 'status', oldValue: 'active', newValue: 'completed', dataType: 'string', sensitive: false }],
+        metadata: {
+          businessContext: {
+            patientId,
+            disposition: request.disposition,
+            closedQueueEntries: closed.rows.length,
+          },
+        },
+      }, client);
+
+      return { encounter: this.toEncounter(updated.rows[0]), closedEntries: closed.rows.map(row => this.toEntry(row)) };
+    });
+
+    for (const entry of closedEntries) {
+      this.publish('checked_out', entry, audit.userId);
+    }
+
+    return encounter;
+  }
+
+  async call(entryId: string, audit: QueueAuditContext): Promise<PatientTypes.QueueEntry> {
+    const entry = await database.transaction(async (client) => {
+      const current = await this.lockEntry(client, entryId);
+
+      if (current.status !== 'waiting') {
+        throw new ConflictError(`Queue entry is ${current.status}; only waiting patients can be called`);
+      }
+
+      const result = await client.query(
+        `UPDATE ${QUEUE_TABLE} SET status = 'called', called_at = CURRENT_TIMESTAMP, called_by = $2
+         WHERE id = $1
+         RETURNING *`,
+        [entryId, audit.userId]
+      );
+
+      return this.withPatient(client, result.rows[0]);
+    });
+
+    this.publish('called', entry, audit.userId);
+    return entry;
+  }
+
+  // Moves the patient to another service point's queue, carrying over the triage priority unless a new one is given
+  async transfer(
+    entryId: string,
+    servicePoint: string,
+    priority: PatientTypes.TriagePriority | undefined,
+    audit: QueueAuditContext
+  ): Promise<PatientTypes.QueueEntry> {
+    if (!servicePoint) {
+      throw new ValidationError('Invalid transfer request', [{
+        field: 'servicePoint',
+        message: 'Target service point is required',
+        code: 'REQUIRED_FIELD',
+      }]);
+    }
+
+    if (priority && !TRIAGE_PRIORITIES.includes(priority)) {
+      throw new ValidationError('Invalid transfer request', [{
+        field: 'priority',
+        message: `priority must be one of: ${TRIAGE_PRIORITIES.join(', ')}`,
+        code: 'INVALID_VALUE',
+        value: priority,
+      }]);
+    }
+
+    const { closed, opened } = await database.transaction(async (client) => {
+      const current = await this.lockEntry(client, entryId);
+
+      if (!OPEN_STATUSES.includes(current.status)) {
+        throw new ConflictError(`Queue entry is ${current.status} and cannot be transferred`);
+      }
+
+      if (current.service_point === servicePoint) {
+        throw new ConflictError(`Patient is already queued at ${servicePoint}`);
+      }
+
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`queue:${current.facility_code}`]);
+
+      const closedResult = await client.query(
+        `UPDATE ${QUEUE_TABLE}
+         SET status = 'transferred', transferred_to = $2, completed_at = CURRENT_TIMESTAMP, completed_by = $3
+         WHERE id = $1
+         RETURNING *`,
+        [entryId, servicePoint, audit.userId]
+      );
+
+      const row = await this.enqueue(client, {
+        encounterId: current.encounter_id,
+        patientId: current.patient_id,
+        facilityCode: current.facility_code,
+        servicePoint,
+        priority: priority || current.priority,
+        userId: audit.userId,
+      });
+
+      await auditService.record({
+        ...audit,
+        entityType: 'encounter',
+        entityId: current.encounter_id,
+        action: 'update',
+        changes: [{
+          field: 'servicePoint',
+          oldValue: current.service_point,
+          newValue: servicePoint,
+          dataType: 'string',
+          sensitive: false,
+        }],
+        metadata: {
+          businessContext: { patientId: current.patient_id, fromEntryId: entryId, toEntryId: row.id },
+        },
+      }, client);
+
+      return {
+        closed: await this.withPatient(client, closedResult.rows[0]),
+        opened: await this.withPatient(client, row),
+      };
+    });
+
+    this.publish('transferred', closed, audit.userId);
+    this.publish('transferred', opened, audit.userId);
+    return opened;
+  }
+
+  // Finishes the patient's turn at this service point; the visit stays open until check-out
+  async complete(entryId: string, audit: QueueAuditContext): Promise<PatientTypes.QueueEntry> {
+    const entry = await database.transaction(async (client) => {
+      const current = await this.lockEntry(client, entryId);
+
+      if (!OPEN_STATUSES.includes(current.status)) {
+        throw new ConflictError(`Queue entry is already ${current.status}`);
+      }
+
+      const result = await client.query(
+        `UPDATE ${QUEUE_TABLE}
+         SET status = 'completed', completed_at = CURRENT_TIMESTAMP, completed_by = $2,
+             called_at = COALESCE(called_at, CURRENT_TIMESTAMP)
+         WHERE id = $1
+         RETURNING *`,
+        [entryId, audit.userId]
+      );
+
+      return this.withPatient(client, result.rows[0]);
+    });
+
+    this.publish('completed', entry, audit.userId);
+    return entry;
+  }
+
+  // Current board: waiting and called patients, optionally for a single service point
+  async getQueue(facilityCode: string, servicePoint?: string): Promise<PatientTypes.QueueEntry[]> {
+    const params: any[] = [facilityCode, OPEN_STATUSES];
+    let servicePointClause = '';
+
+    if (servicePoint) {
+      params.push(servicePoint);
+      servicePointClause = `AND q.service_point = $${params.length}`;
+    }
+
+    const result = await database.query(
+      `SELECT q.*, p.mrn, p.first_name, p.last_name
+       FROM ${QUEUE_TABLE} q
+       JOIN clinical.patients p ON p.id = q.patient_id
+       WHERE q.facility_code = $1 AND q.status = ANY($2) ${servicePointClause}
+       ORDER BY q.service_point, (q.status = 'called') DESC, ${PRIORITY_RANK_SQL}, q.enqueued_at`,
+      params
+    );
+
+    return result.rows.map(row => this.toEntry(row));
+  }
+
+  // Wait is measured from joining a service point's queue until being called there
+  async getWaitingStatistics(facilityCode: string, from: Date, to: Date): Promise<PatientTypes.ServicePointWaitStats[]> {
+    const result = await database.query(
+      `WITH seen AS (
+         SELECT service_point, EXTRACT(EPOCH FROM (called_at - enqueued_at)) / 60 AS wait_minutes
+         FROM ${QUEUE_TABLE}
+         WHERE facility_code = $1 AND called_at IS NOT NULL AND enqueued_at >= $2 AND enqueued_at < $3
+       ),
+       seen_stats AS (
+         SELECT service_point,
+                COUNT(*) AS seen,
+                AVG(wait_minutes) AS average_wait,
+                percentile_cont(0.5) WITHIN GROUP (ORDER BY wait_minutes) AS median_wait,
+                percentile_cont(0.9) WITHIN GROUP (ORDER BY wait_minutes) AS p90_wait
+         FROM seen
+         GROUP BY service_point
+       ),
+       waiting_stats AS (
+         SELECT service_point,
+                COUNT(*) AS waiting,
+                MAX(EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - enqueued_at)) / 60) AS longest_wait
+         FROM ${QUEUE_TABLE}
+         WHERE facility_code = $1 AND status = 'waiting'
+         GROUP BY service_point
+       )
+       SELECT COALESCE(s.service_point, w.service_point) AS service_point,
+              COALESCE(w.waiting, 0) AS waiting,
+              w.longest_wait,
+              COALESCE(s.seen, 0) AS seen,
+              s.average_wait,
+              s.median_wait,
+              s.p90_wait
+       FROM seen_stats s
+       FULL OUTER JOIN waiting_stats w ON w.service_point = s.service_point
+       ORDER BY 1`,
+      [facilityCode, from, to]
+    );
+
+    const minutes = (value: unknown): number | null =>
+      value === null || value === undefined ? null : Math.round(Number(value) * 10) / 10;
+
+    return result.rows.map(row => ({
+      servicePoint: row.service_point,
+      waiting: parseInt(row.waiting, 10),
+      longestCurrentWaitMinutes: minutes(row.longest_wait),
+      seen: parseInt(row.seen, 10),
+      averageWaitMinutes: minutes(row.average_wait),
+      medianWaitMinutes: minutes(row.median_wait),
+      p90WaitMinutes: minutes(row.p90_wait),
+    }));
+  }
+
+  // Queue numbers restart each day per facility; callers hold the facility lock
+  private async enqueue(
+    client: Queryable,
+    entry: {
+      encounterId: string;
+      patientId: string;
+      facilityCode: string;
+      servicePoint: string;
+      priority: PatientTypes.TriagePriority;
+      userId: string;
+    }
+  ): Promise<any> {
+    const result = await client.query(
+      `INSERT INTO ${QUEUE_TABLE} (
+         encounter_id, patient_id, facility_code, service_point, priority, queue_number, created_by
+       ) VALUES ($1, $2, $3, $4, $5, (
+         SELECT COALESCE(MAX(queue_number), 0) + 1 FROM ${QUEUE_TABLE}
+         WHERE facility_code = $3 AND enqueued_at >= CURRENT_DATE
+       ), $6)
+       RETURNING *`,
+      [entry.encounterId, entry.patientId, entry.facilityCode, entry.servicePoint, entry.priority, entry.userId]
+    );
+
+    return result.rows[0];
+  }
+
+  private async lockEntry(client: Queryable, entryId: string): Promise<any> {
+    const result = isUuid(entryId)
+      ? await client.query(`SELECT * FROM ${QUEUE_TABLE} WHERE id = $1 FOR UPDATE`, [entryId])
+      : { rows: [] };
+
+    if (!result.rows[0]) {
+      throw new NotFoundError('Queue entry', entryId);
+    }
+
+    return result.rows[0];
+  }
+
+  private async withPatient(client: Queryable, row: any): Promise<PatientTypes.QueueEntry> {
+    const patient = await client.query(
+      'SELECT mrn, first_name, last_name FROM clinical.patients WHERE id = $1',
+      [row.patient_id]
+    );
+
+    return this.toEntry({ ...row, ...patient.rows[0] });
+  }
+
+  private publish(action: QueueAction, entry: PatientTypes.QueueEntry, userId: string): void {
+    realtimeService.emitToFacility(entry.facilityCode, 'queue_updated', { action, entry });
+
+    logger.info('Queue updated', {
+      action: `queue_${action}`,
+      entryId: entry.id,
+      encounterId: entry.encounterId,
+      facilityCode: entry.facilityCode,
+      servicePoint: entry.servicePoint,
+      userId,
+    });
+  }
+
+  private toEntry(row: any): PatientTypes.QueueEntry {
+    return {
+      id: row.id,
+      encounterId: row.encounter_id,
+      patientId: row.patient_id,
+      facilityCode: row.facility_code,
+      servicePoint: row.service_point,
+      priority: row.priority,
+      status: row.status,
+      queueNumber: row.queue_number,
+      enqueuedAt: row.enqueued_at,
+      ...(row.called_at && { calledAt: row.called_at }),
+      ...(row.called_by && { calledBy: row.called_by }),
+      ...(row.completed_at && { completedAt: row.completed_at }),
+      ...(row.transferred_to && { transferredTo: row.transferred_to }),
+      ...(row.mrn && {
+        patient: { id: row.patient_id, mrn: row.mrn, firstName: row.first_name, lastName: row.last_name },
+      }),
+    };
+  }
+
+  private toEncounter(row: any): PatientTypes.Encounter {
+    return {
+      id: row.id,
+      patientId: row.patient_id,
+      encounterType: row.encounter_type,
+      facilityCode: row.facility_code,
+      status: row.status,
+      checkedInAt: row.checked_in_at,
+      ...(row.checked_out_at && { checkedOutAt: row.checked_out_at }),
+      ...(row.disposition && { disposition: row.disposition }),
+      ...(row.disposition_notes && { dispositionNotes: row.disposition_notes }),
+      ...(row.provider_id && { providerId: row.provider_id }),
+    };
+  }
+}
+
+// Create and export singleton instance
+export const queueService = new QueueService();
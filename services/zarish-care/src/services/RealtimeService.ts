@@ -0,0 +1,109 @@
+import { Server as HttpServer } from 'http';
+import { Server as SocketIOServer, Socket } from 'socket.io';
+import { verify, JwtPayload } from 'jsonwebtoken';
+import { config } from '../config/config';
+import { hasPermission } from '../middleware/auth';
+import { logger } from '../utils/logger';
+
+const facilityRoom = (facilityCode: string) => `facility_${facilityCode}`;
+const userRoom = (userId: string) => `user_${userId}`;
+
+// Socket.IO push channel for waiting-room boards and dashboards. Clients authenticate with
+// the same access token as the REST API and join one room per facility; each client is also
+// in a room of its own user for personal notifications.
+export class RealtimeService {
+  private io: SocketIOServer | null = null;
+
+  attach(server: HttpServer): void {
+    this.io = new SocketIOServer(server, {
+      cors: {
+        origin: config.cors.origins,
+        credentials: true,
+      },
+    });
+
+    this.io.use((socket, next) => {
+      const token = socket.handshake.auth?.token || socket.handshake.headers.authorization?.replace(/^Bearer /, '');
+
+      try {
+        const decoded = verify(token || '', config.jwt.secret) as JwtPayload;
+        if (decoded.type !== 'access') {
+          throw new Error('Invalid token type');
+        }
+        socket.data.userId = decoded.userId;
+        // Kept for permission-restricted events
+        socket.data.user = {
+          id: decoded.userId,
+          roles: decoded.roles || [],
+          permissions: decoded.permissions || [],
+        };
+        next();
+      } catch {
+        next(new Error('Authentication required'));
+      }
+    });
+
+    this.io.on('connection', (socket: Socket) => {
+      logger.debug('Realtime client connected', { socketId: socket.id, userId: socket.data.userId });
+      socket.join(userRoom(socket.data.userId));
+
+      socket.on('join_facility', (facilityCode: string) => {
+        if (typeof facilityCode === 'string' && facilityCode) {
+          socket.join(facilityRoom(facilityCode));
+          logger.debug('Realtime client joined facility room', { socketId: socket.id, facilityCode });
+        }
+      });
+
+      socket.on('leave_facility', (facilityCode: string) => {
+        socket.leave(facilityRoom(facilityCode));
+      });
+    });
+
+    logger.info('Realtime channel attached');
+  }
+
+  // No-op until attach() has run, so services can emit from scripts and jobs safely.
+  // With a permission, only clients in the room holding it receive the event.
+  emitToFacility(facilityCode: string, event: string, payload: unknown, permission?: string): void {
+    if (!this.io) {
+      return;
+    }
+
+    if (!permission) {
+      this.io.to(facilityRoom(facilityCode)).emit(event, payload);
+      return;
+    }
+
+    this.io.in(facilityRoom(facilityCode)).fetchSockets()
+      .then(sockets => {
+        for (const socket of sockets) {
+          if (hasPermission(socket.data.user, permission)) {
+            socket.emit(event, payload);
+          }
+        }
+      })
+      .catch(error => {
+        logger.error('Realtime restricted emit failed', {
+          facilityCode,
+          event,
+          error: error instanceof Error ? error.message : error,
+        });
+      });
+  }
+
+  emitToUser(userId: string, event: string, payload: unknown): void {
+    this.io?.to(userRoom(userId)).emit(event, payload);
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => {
+      if (!this.io) {
+        return resolve();
+      }
+      this.io.close(() => resolve());
+    });
+  }
+}
+
+// Create and export singleton instance
+export const realtimeService = new RealtimeService();
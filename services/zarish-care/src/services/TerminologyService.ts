@@ -0,0 +1,339 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { ClinicalTypes } from '@zarishhealthcare/shared-types';
+import { config } from '../config/config';
+import { BadRequestError, NotFoundError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+// ICD-10 mappings are category prefixes, so "A09" covers "A09.0"
+const PREFIX_MAPPED_SYSTEMS = ['icd10'];
+
+const SYSTEM_PATTERN = /^[a-z0-9_-]+$/;
+
+interface IndexedConcept {
+  concept: ClinicalTypes.TerminologyConcept;
+  code: string;
+  display: string;
+  synonyms: string[];
+}
+
+interface LoadedCodeSystem {
+  system: string;
+  name: string;
+  version: string;
+  description?: string;
+  checksum: string;
+  loadedAt: Date;
+  concepts: ClinicalTypes.TerminologyConcept[];
+  byCode: Map<string, ClinicalTypes.TerminologyConcept>;
+  index: IndexedConcept[];
+}
+
+export interface TerminologySearchOptions {
+  version?: string;
+  limit: number;
+  includeInactive?: boolean;
+}
+
+// Case, accents and punctuation are ignored when matching text
+function normaliseText(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+// "a00.1", "A001" and "A00.1" are the same code
+function normaliseCode(value: string): string {
+  return value.toUpperCase().replace(/[\s.]/g, '');
+}
+
+// Scores a text against the query: whole-text prefix, then every token starting a word, then substrings
+function textScore(text: string, query: string, tokens: string[]): number {
+  if (text === query) {
+    return 70;
+  }
+
+  if (text.startsWith(query)) {
+    return 60;
+  }
+
+  const words = text.split(' ');
+  if (tokens.every(token => words.some(word => word.startsWith(token)))) {
+    return 40;
+  }
+
+  if (tokens.every(token => text.includes(token))) {
+    return 20;
+  }
+
+  return 0;
+}
+
+function parseCodeSystem(raw: string, file: string): Omit<LoadedCodeSystem, 'loadedAt'> {
+  const data = JSON.parse(raw);
+
+  if (typeof data.system !== 'string' || !SYSTEM_PATTERN.test(data.system)) {
+    throw new Error(`${file}: "system" must be a lowercase identifier`);
+  }
+
+  if (typeof data.name !== 'string' || typeof data.version !== 'string' || !data.version) {
+    throw new Error(`${file}: "name" and "version" are required`);
+  }
+
+  if (!Array.isArray(data.concepts)) {
+    throw new Error(`${file}: "concepts" must be a list`);
+  }
+
+  const byCode = new Map<string, ClinicalTypes.TerminologyConcept>();
+  const concepts: ClinicalTypes.TerminologyConcept[] = [];
+  const index: IndexedConcept[] = [];
+
+  for (const [position, entry] of (data.concepts as any[]).entries()) {
+    if (typeof entry?.code !== 'string' || !entry.code.trim() || typeof entry.display !== 'string') {
+      throw new Error(`${file}: concept ${position + 1} needs a code and a display`);
+    }
+
+    const key = normaliseCode(entry.code);
+    if (byCode.has(key)) {
+      throw new Error(`${file}: duplicate code ${entry.code}`);
+    }
+
+    const synonyms: string[] = Array.isArray(entry.synonyms)
+      ? entry.synonyms.filter((synonym: unknown) => typeof synonym === 'string')
+      : [];
+    const concept: ClinicalTypes.TerminologyConcept = {
+      code: entry.code.trim(),
+      display: entry.display,
+      ...(synonyms.length > 0 && { synonyms }),
+      ...(typeof entry.parent === 'string' && { parent: entry.parent }),
+      ...(entry.inactive === true && { inactive: true }),
+      ...(entry.mappings && typeof entry.mappings === 'object' && { mappings: entry.mappings }),
+      ...(entry.properties && typeof entry.properties === 'object' && { properties: entry.properties }),
+    };
+
+    byCode.set(key, concept);
+    concepts.push(concept);
+    index.push({
+      concept,
+      code: key,
+      display: normaliseText(concept.display),
+      synonyms: synonyms.map(normaliseText),
+    });
+  }
+
+  return {
+    system: data.system,
+    name: data.name,
+    version: data.version,
+    ...(typeof data.description === 'string' && { description: data.description }),
+    checksum: createHash('sha256').update(raw).digest('hex'),
+    concepts,
+    byCode,
+    index,
+  };
+}
+
+export class TerminologyService {
+  // system -> version -> code system
+  private systems = new Map<string, Map<string, LoadedCodeSystem>>();
+
+  // Reads every *.json code system file in the data directory. A file that fails to parse is
+  // skipped; the rest still load. Calling it again swaps in the new set atomically.
+  async load(dataPath: string = config.terminology.dataPath): Promise<void> {
+    let files: string[];
+    try {
+      files = (await fs.readdir(dataPath)).filter(file => file.endsWith('.json')).sort();
+    } catch (error) {
+      logger.warn('Terminology directory not readable; no code systems loaded', {
+        dataPath,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return;
+    }
+
+    const systems = new Map<string, Map<string, LoadedCodeSystem>>();
+    const loadedAt = new Date();
+
+    for (const file of files) {
+      try {
+        const raw = await fs.readFile(path.join(dataPath, file), 'utf8');
+        const codeSystem = { ...parseCodeSystem(raw, file), loadedAt };
+        const versions = systems.get(codeSystem.system) || new Map<string, LoadedCodeSystem>();
+
+        if (versions.has(codeSystem.version)) {
+          throw new Error(`${file}: ${codeSystem.system} version ${codeSystem.version} is already loaded`);
+        }
+
+        versions.set(codeSystem.version, codeSystem);
+        systems.set(codeSystem.system, versions);
+      } catch (error) {
+        logger.error('Failed to load code system', {
+          file,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    this.systems = systems;
+
+    logger.info('Terminology loaded', {
+      action: 'terminology_loaded',
+      codeSystems: this.listCodeSystems().map(summary => `${summary.system}@${summary.version}`),
+    });
+  }
+
+  listCodeSystems(): ClinicalTypes.CodeSystemSummary[] {
+    const summaries: ClinicalTypes.CodeSystemSummary[] = [];
+
+    for (const [system, versions] of this.systems) {
+      const active = this.activeVersion(system);
+      for (const codeSystem of versions.values()) {
+        summaries.push({
+          system,
+          name: codeSystem.name,
+          version: codeSystem.version,
+          ...(codeSystem.description && { description: codeSystem.description }),
+          conceptCount: codeSystem.concepts.length,
+          checksum: codeSystem.checksum,
+          active: codeSystem.version === active,
+          loadedAt: codeSystem.loadedAt,
+        });
+      }
+    }
+
+    return summaries.sort((a, b) => a.system.localeCompare(b.system) || b.version.localeCompare(a.version));
+  }
+
+  // Active concepts first; a code query ranks exact and prefix code matches above text matches
+  search(system: string, query: string, options: TerminologySearchOptions): ClinicalTypes.TerminologySearchResult[] {
+    const normalisedQuery = normaliseText(query);
+    if (!normalisedQuery) {
+      throw new BadRequestError('Search query is required');
+    }
+
+    const codeSystem = this.getCodeSystem(system, options.version);
+    const codeQuery = normaliseCode(query);
+    const tokens = normalisedQuery.split(' ');
+    const results: ClinicalTypes.TerminologySearchResult[] = [];
+
+    for (const entry of codeSystem.index) {
+      if (entry.concept.inactive && !options.includeInactive) {
+        continue;
+      }
+
+      let score = 0;
+      let matchedOn: ClinicalTypes.TerminologySearchResult['matchedOn'] = 'code';
+
+      if (entry.code === codeQuery) {
+        score = 100;
+      } else if (codeQuery.length >= 2 && entry.code.startsWith(codeQuery)) {
+        // Shorter codes sit higher in the hierarchy, so they rank first
+        score = 90 - Math.min(entry.code.length - codeQuery.length, 10);
+      } else {
+        score = textScore(entry.display, normalisedQuery, tokens);
+        matchedOn = 'display';
+
+        const synonymScore = Math.max(0, ...entry.synonyms.map(synonym => textScore(synonym, normalisedQuery, tokens)));
+        if (synonymScore - 5 > score) {
+          score = synonymScore - 5;
+          matchedOn = 'synonym';
+        }
+      }
+
+      if (score > 0) {
+        results.push({
+          system,
+          version: codeSystem.version,
+          concept: entry.concept,
+          matchedOn,
+          score: entry.concept.inactive ? score - 50 : score,
+        });
+      }
+    }
+
+    return results
+      .sort((a, b) => b.score - a.score || a.concept.code.localeCompare(b.concept.code))
+      .slice(0, options.limit);
+  }
+
+  getConcept(system: string, code: string, version?: string): ClinicalTypes.TerminologyConcept {
+    const concept = this.findConcept(system, code, version);
+    if (!concept) {
+      throw new NotFoundError(`${system} code`, code);
+    }
+
+    return concept;
+  }
+
+  // Undefined when the code system is not loaded, null when it is loaded but lacks the code
+  lookup(system: string, code: string): ClinicalTypes.TerminologyConcept | null | undefined {
+    if (!this.systems.has(system)) {
+      return undefined;
+    }
+
+    return this.findConcept(system, code) || null;
+  }
+
+  // Concepts of `system` that map to a code of another system, e.g. the EWARS diseases an ICD-10 diagnosis reports as
+  map(system: string, fromSystem: string, code: string, version?: string): ClinicalTypes.TerminologyConcept[] {
+    const codeSystem = this.getCodeSystem(system, version);
+    const key = normaliseCode(code);
+    const byPrefix = PREFIX_MAPPED_SYSTEMS.includes(fromSystem);
+
+    return codeSystem.concepts.filter(concept => {
+      const mapped = concept.mappings?.[fromSystem] || [];
+      return mapped.some(target => (byPrefix ? key.startsWith(normaliseCode(target)) : key === normaliseCode(target)));
+    });
+  }
+
+  // The full code set for offline use on devices
+  exportCodeSystem(system: string, version?: string): ClinicalTypes.CodeSystemExport {
+    const codeSystem = this.getCodeSystem(system, version);
+
+    return {
+      system,
+      name: codeSystem.name,
+      version: codeSystem.version,
+      checksum: codeSystem.checksum,
+      concepts: codeSystem.concepts,
+    };
+  }
+
+  private findConcept(system: string, code: string, version?: string): ClinicalTypes.TerminologyConcept | undefined {
+    return this.getCodeSystem(system, version).byCode.get(normaliseCode(code));
+  }
+
+  private getCodeSystem(system: string, version?: string): LoadedCodeSystem {
+    const versions = this.systems.get(system);
+    if (!versions) {
+      throw new NotFoundError('Code system', system);
+    }
+
+    const wanted = version || this.activeVersion(system);
+    const codeSystem = wanted ? versions.get(wanted) : undefined;
+    if (!codeSystem) {
+      throw new NotFoundError('Code system version', `${system}@${wanted}`);
+    }
+
+    return codeSystem;
+  }
+
+  // The configured version when it is loaded, otherwise the latest
+  private activeVersion(system: string): string | undefined {
+    const versions = Array.from(this.systems.get(system)?.keys() || []);
+    const pinned = config.terminology.activeVersions[system];
+
+    if (pinned && versions.includes(pinned)) {
+      return pinned;
+    }
+
+    return versions.sort((a, b) => b.localeCompare(a, undefined, { numeric: true }))[0];
+  }
+}
+
+// Create and export singleton instance
+export const terminologyService = new TerminologyService();
@@ -0,0 +1,245 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { ClinicalTypes } from '@zarishhealthcare/shared-types';
+import { config } from '../config/config';
+import { NotFoundError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+
+const PROTOCOL_ID_PATTERN = /^[a-z0-9_-]+$/;
+
+// Protocols step on blood pressure, so only hypertension protocols are supported
+const CONDITION_TYPES: ClinicalTypes.NCDConditionType[] = ['hypertension'];
+
+interface LoadedProtocol {
+  protocol: ClinicalTypes.TreatmentProtocol;
+  checksum: string;
+  loadedAt: Date;
+}
+
+const isPositive = (value: unknown): value is number => typeof value === 'number' && value > 0;
+
+function isTarget(value: any): value is ClinicalTypes.BloodPressureTarget {
+  return isPositive(value?.systolic) && isPositive(value?.diastolic);
+}
+
+function parseProtocol(raw: string, file: string): ClinicalTypes.TreatmentProtocol {
+  const data = JSON.parse(raw);
+
+  if (typeof data.id !== 'string' || !PROTOCOL_ID_PATTERN.test(data.id)) {
+    throw new Error(`${file}: "id" must be a lowercase identifier`);
+  }
+
+  if (typeof data.name !== 'string' || typeof data.version !== 'string' || !data.version) {
+    throw new Error(`${file}: "name" and "version" are required`);
+  }
+
+  if (!CONDITION_TYPES.includes(data.conditionType)) {
+    throw new Error(`${file}: "conditionType" must be one of ${CONDITION_TYPES.join(', ')}`);
+  }
+
+  if (!isTarget(data.target) || !isTarget(data.urgentThreshold)) {
+    throw new Error(`${file}: "target" and "urgentThreshold" need systolic and diastolic values`);
+  }
+
+  if (data.highRiskTarget && (!isTarget(data.highRiskTarget) || !Array.isArray(data.highRiskTarget.comorbidities))) {
+    throw new Error(`${file}: "highRiskTarget" needs systolic, diastolic and comorbidities`);
+  }
+
+  const followUp = data.followUpDays;
+  if (!isPositive(followUp?.controlled) || !isPositive(followUp?.uncontrolled) || !isPositive(followUp?.urgent)) {
+    throw new Error(`${file}: "followUpDays" needs controlled, uncontrolled and urgent day counts`);
+  }
+
+  const comorbidities = data.comorbidities || {};
+  for (const [name, definition] of Object.entries<any>(comorbidities)) {
+    if (!Array.isArray(definition?.diagnosisCodes)) {
+      throw new Error(`${file}: comorbidity ${name} needs a diagnosisCodes list`);
+    }
+  }
+
+  if (!Array.isArray(data.steps) || data.steps.length === 0) {
+    throw new Error(`${file}: "steps" must be a non-empty list`);
+  }
+
+  let previousStep = 0;
+  for (const step of data.steps as any[]) {
+    if (!Number.isInteger(step?.step) || step.step <= previousStep) {
+      throw new Error(`${file}: steps must be numbered upwards from 1`);
+    }
+
+    const medications = Array.isArray(step.medications) ? step.medications : [];
+    if (medications.length === 0 || medications.some((medication: any) =>
+      typeof medication?.name !== 'string' || typeof medication.dosage !== 'string'
+      || typeof medication.frequency !== 'string')) {
+      throw new Error(`${file}: step ${step.step} needs medications with a name, dosage and frequency`);
+    }
+
+    const unknown = (step.contraindications || []).filter((name: string) => !(name in comorbidities));
+    if (unknown.length > 0) {
+      throw new Error(`${file}: step ${step.step} names undefined comorbidities: ${unknown.join(', ')}`);
+    }
+
+    previousStep = step.step;
+  }
+
+  return {
+    id: data.id,
+    name: data.name,
+    version: data.version,
+    conditionType: data.conditionType,
+    ...(typeof data.description === 'string' && { description: data.description }),
+    target: { systolic: data.target.systolic, diastolic: data.target.diastolic },
+    ...(data.highRiskTarget && { highRiskTarget: data.highRiskTarget }),
+    urgentThreshold: { systolic: data.urgentThreshold.systolic, diastolic: data.urgentThreshold.diastolic },
+    followUpDays: { controlled: followUp.controlled, uncontrolled: followUp.uncontrolled, urgent: followUp.urgent },
+    ...(isPositive(data.minimumAdherence) && { minimumAdherence: data.minimumAdherence }),
+    comorbidities,
+    steps: data.steps.map((step: any) => ({
+      step: step.step,
+      description: typeof step.description === 'string' ? step.description : `Step ${step.step}`,
+      medications: step.medications.map((medication: any) => ({
+        name: medication.name,
+        dosage: medication.dosage,
+        frequency: medication.frequency,
+        ...(typeof medication.instructions === 'string' && { instructions: medication.instructions }),
+      })),
+      ...(Array.isArray(step.contraindications) && { contraindications: step.contraindications }),
+    })),
+  };
+}
+
+export class TreatmentProtocolService {
+  // protocol id -> version -> protocol
+  private protocols = new Map<string, Map<string, LoadedProtocol>>();
+
+  // Reads every *.json protocol file in the data directory. A file that fails validation is
+  // skipped; the rest still load. Calling it again swaps in the new set atomically.
+  async load(dataPath: string = config.ncdProtocols.dataPath): Promise<void> {
+    let files: string[];
+    try {
+      files = (await fs.readdir(dataPath)).filter(file => file.endsWith('.json')).sort();
+    } catch (error) {
+      logger.warn('Protocol directory not readable; no treatment protocols loaded', {
+        dataPath,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return;
+    }
+
+    const protocols = new Map<string, Map<string, LoadedProtocol>>();
+    const loadedAt = new Date();
+
+    for (const file of files) {
+      try {
+        const raw = await fs.readFile(path.join(dataPath, file), 'utf8');
+        const protocol = parseProtocol(raw, file);
+        const versions = protocols.get(protocol.id) || new Map<string, LoadedProtocol>();
+
+        if (versions.has(protocol.version)) {
+          throw new Error(`${file}: ${protocol.id} version ${protocol.version} is already loaded`);
+        }
+
+        versions.set(protocol.version, {
+          protocol,
+          checksum: createHash('sha256').update(raw).digest('hex'),
+          loadedAt,
+        });
+        protocols.set(protocol.id, versions);
+      } catch (error) {
+        logger.error('Failed to load treatment protocol', {
+          file,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    this.protocols = protocols;
+
+    logger.info('Treatment protocols loaded', {
+      action: 'treatment_protocols_loaded',
+      protocols: this.listProtocols().map(summary => `${summary.id}@${summary.version}`),
+    });
+  }
+
+  listProtocols(): ClinicalTypes.TreatmentProtocolSummary[] {
+    const active = new Set(CONDITION_TYPES.map(conditionType => this.findActive(conditionType)).filter(Boolean));
+    const summaries: ClinicalTypes.TreatmentProtocolSummary[] = [];
+
+    for (const versions of this.protocols.values()) {
+      for (const loaded of versions.values()) {
+        const { protocol } = loaded;
+        summaries.push({
+          id: protocol.id,
+          name: protocol.name,
+          version: protocol.version,
+          conditionType: protocol.conditionType,
+          ...(protocol.description && { description: protocol.description }),
+          steps: protocol.steps.length,
+          checksum: loaded.checksum,
+          active: active.has(loaded),
+          loadedAt: loaded.loadedAt,
+        });
+      }
+    }
+
+    return summaries.sort((a, b) => a.id.localeCompare(b.id) || b.version.localeCompare(a.version));
+  }
+
+  getProtocol(id: string, version?: string): ClinicalTypes.TreatmentProtocol {
+    const versions = this.protocols.get(id);
+    const wanted = version || (versions && this.latestVersion(versions));
+    const loaded = wanted ? versions?.get(wanted) : undefined;
+
+    if (!loaded) {
+      throw new NotFoundError('Treatment protocol', version ? `${id}@${version}` : id);
+    }
+
+    return loaded.protocol;
+  }
+
+  // The protocol recommendations follow for the condition
+  getActiveProtocol(conditionType: ClinicalTypes.NCDConditionType): ClinicalTypes.TreatmentProtocol {
+    const protocol = this.findActiveProtocol(conditionType);
+    if (!protocol) {
+      throw new NotFoundError(`Treatment protocol for ${conditionType}`);
+    }
+
+    return protocol;
+  }
+
+  findActiveProtocol(conditionType: ClinicalTypes.NCDConditionType): ClinicalTypes.TreatmentProtocol | undefined {
+    return this.findActive(conditionType)?.protocol;
+  }
+
+  // The configured protocol when it is loaded, otherwise the first one for the condition; the pinned
+  // version when it is loaded, otherwise the latest
+  private findActive(conditionType: ClinicalTypes.NCDConditionType): LoadedProtocol | undefined {
+    const pinned = config.ncdProtocols.active[conditionType];
+    const ids = Array.from(this.protocols.keys()).sort();
+    const id = pinned && this.protocols.has(pinned.id)
+      ? pinned.id
+      : ids.find(candidate => this.latest(candidate)?.protocol.conditionType === conditionType);
+
+    if (!id) {
+      return undefined;
+    }
+
+    const versions = this.protocols.get(id)!;
+    const loaded = (pinned?.id === id && pinned.version && versions.get(pinned.version)) || this.latest(id);
+
+    return loaded?.protocol.conditionType === conditionType ? loaded : undefined;
+  }
+
+  private latest(id: string): LoadedProtocol | undefined {
+    const versions = this.protocols.get(id);
+    return versions ? versions.get(this.latestVersion(versions)!) : undefined;
+  }
+
+  private latestVersion(versions: Map<string, LoadedProtocol>): string | undefined {
+    return Array.from(versions.keys()).sort((a, b) => b.localeCompare(a, undefined, { numeric: true }))[0];
+  }
+}
+
+// Create and export singleton instance
+export const treatmentProtocolService = new TreatmentProtocolService();
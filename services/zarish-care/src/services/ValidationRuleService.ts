@@ -0,0 +1,215 @@
+import { createHash } from 'crypto';
+import { PatientTypes } from '@zarishhealthcare/shared-types';
+import { database } from '../config/database';
+import { ValidationError } from '../middleware/errorHandler';
+import { programService } from './ProgramService';
+import {
+  CUSTOM_VALIDATOR_NAMES,
+  FieldError,
+  resolveValidationRules,
+  validatePatientData,
+  ValidationRuleContext,
+} from '../utils/patientValidation';
+import { logger } from '../utils/logger';
+
+const RULES_TABLE = 'clinical.patient_validation_rules';
+
+const SCOPES: PatientTypes.ValidationRuleScope[] = ['global', 'facility', 'program'];
+const SEVERITIES: PatientTypes.ValidationRuleSeverity[] = ['error', 'warning'];
+const CONDITION_OPERATORS: PatientTypes.ValidationCondition['operator'][] = [
+  'equals',
+  'not_equals',
+  'in',
+  'present',
+  'absent',
+];
+
+export class ValidationRuleService {
+  // Every rule in every scope, including inactive overrides
+  async listRules(): Promise<PatientTypes.PatientValidationRule[]> {
+    const result = await database.query(
+      `SELECT * FROM ${RULES_TABLE} ORDER BY code, scope, facility_code NULLS FIRST, program_id NULLS FIRST`
+    );
+    return result.rows.map(row => this.toRule(row));
+  }
+
+  // The rules that apply at a facility and for a patient's programs. The mobile app caches this
+  // and re-fetches when `version` changes.
+  async getRuleSet(context: ValidationRuleContext): Promise<PatientTypes.PatientValidationRuleSet> {
+    const rules = resolveValidationRules(await this.listRules(), context);
+    const version = createHash('sha1')
+      .update(JSON.stringify(rules.map(({ updatedAt: _updatedAt, updatedBy: _updatedBy, ...rule }) => rule)))
+      .digest('hex');
+
+    return {
+      version,
+      ...(context.facilityCode && { facilityCode: context.facilityCode }),
+      programIds: context.programIds || [],
+      rules,
+    };
+  }
+
+  async validate(data: any, context: ValidationRuleContext): Promise<PatientTypes.PatientValidationResult> {
+    const { rules } = await this.getRuleSet(context);
+    return validatePatientData(data, rules);
+  }
+
+  // Creates or replaces the rule with this code in the request's scope
+  async saveRule(
+    code: string,
+    request: PatientTypes.SavePatientValidationRuleRequest,
+    userId: string
+  ): Promise<PatientTypes.PatientValidationRule> {
+    const errors = this.validateRule(code, request);
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid validation rule', errors);
+    }
+
+    if (request.scope === 'program') {
+      await programService.getProgram(request.programId as string);
+    }
+
+    const result = await database.query(
+      `INSERT INTO ${RULES_TABLE} (
+         code, field, rule, conditions, severity, message, scope, facility_code, program_id, active, updated_by
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       ON CONFLICT (code, scope, COALESCE(facility_code, ''), COALESCE(program_id, '')) DO UPDATE SET
+         field = EXCLUDED.field,
+         rule = EXCLUDED.rule,
+         conditions = EXCLUDED.conditions,
+         severity = EXCLUDED.severity,
+         message = EXCLUDED.message,
+         active = EXCLUDED.active,
+         updated_by = EXCLUDED.updated_by,
+         updated_at = CURRENT_TIMESTAMP
+       RETURNING *`,
+      [
+        code,
+        request.field,
+        JSON.stringify(request.rule),
+        JSON.stringify(request.when || []),
+        request.severity,
+        request.message,
+        request.scope,
+        request.scope === 'facility' ? request.facilityCode : null,
+        request.scope === 'program' ? request.programId : null,
+        request.active !== false,
+        userId,
+      ]
+    );
+
+    logger.info('Validation rule saved', {
+      action: 'validation_rule_saved',
+      code,
+      scope: request.scope,
+      facilityCode: request.facilityCode,
+      programId: request.programId,
+      userId,
+    });
+
+    return this.toRule(result.rows[0]);
+  }
+
+  private validateRule(code: string, request: PatientTypes.SavePatientValidationRuleRequest): FieldError[] {
+    const errors: FieldError[] = [];
+
+    if (!/^[a-z][a-z0-9_]{1,99}$/.test(code || '')) {
+      errors.push({
+        field: 'code',
+        message: 'code must be lowercase letters, digits and underscores',
+        code: 'INVALID_FORMAT',
+        value: code,
+      });
+    }
+
+    if (!request.field) {
+      errors.push({ field: 'field', message: 'Field is required', code: 'REQUIRED_FIELD' });
+    }
+
+    if (!request.message) {
+      errors.push({ field: 'message', message: 'Message is required', code: 'REQUIRED_FIELD' });
+    }
+
+    if (!SEVERITIES.includes(request.severity)) {
+      errors.push({
+        field: 'severity',
+        message: `severity must be one of: ${SEVERITIES.join(', ')}`,
+        code: 'INVALID_VALUE',
+        value: request.severity,
+      });
+    }
+
+    if (!SCOPES.includes(request.scope)) {
+      errors.push({
+        field: 'scope',
+        message: `scope must be one of: ${SCOPES.join(', ')}`,
+        code: 'INVALID_VALUE',
+        value: request.scope,
+      });
+    } else if (request.scope === 'facility' && !request.facilityCode) {
+      errors.push({ field: 'facilityCode', message: 'Facility rules need a facilityCode', code: 'REQUIRED_FIELD' });
+    } else if (request.scope === 'program' && !request.programId) {
+      errors.push({ field: 'programId', message: 'Program rules need a programId', code: 'REQUIRED_FIELD' });
+    }
+
+    if (!request.rule || typeof request.rule !== 'object') {
+      errors.push({ field: 'rule', message: 'Rule is required', code: 'REQUIRED_FIELD' });
+    } else {
+      if (request.rule.pattern) {
+        try {
+          new RegExp(request.rule.pattern);
+        } catch {
+          errors.push({
+            field: 'rule.pattern',
+            message: 'pattern is not a valid regular expression',
+            code: 'INVALID_FORMAT',
+            value: request.rule.pattern,
+          });
+        }
+      }
+
+      if (request.rule.customValidator && !CUSTOM_VALIDATOR_NAMES.includes(request.rule.customValidator)) {
+        errors.push({
+          field: 'rule.customValidator',
+          message: `customValidator must be one of: ${CUSTOM_VALIDATOR_NAMES.join(', ')}`,
+          code: 'INVALID_VALUE',
+          value: request.rule.customValidator,
+        });
+      }
+    }
+
+    (request.when || []).forEach((condition, index) => {
+      if (!condition.field || !CONDITION_OPERATORS.includes(condition.operator)) {
+        errors.push({
+          field: `when[${index}]`,
+          message: `Conditions need a field and one of the operators: ${CONDITION_OPERATORS.join(', ')}`,
+          code: 'INVALID_VALUE',
+          value: condition,
+        });
+      }
+    });
+
+    return errors;
+  }
+
+  private toRule(row: any): PatientTypes.PatientValidationRule {
+    return {
+      code: row.code,
+      field: row.field,
+      rule: row.rule,
+      ...(row.conditions.length > 0 && { when: row.conditions }),
+      severity: row.severity,
+      message: row.message,
+      scope: row.scope,
+      ...(row.facility_code && { facilityCode: row.facility_code }),
+      ...(row.program_id && { programId: row.program_id }),
+      active: row.active,
+      updatedAt: row.updated_at,
+      updatedBy: row.updated_by,
+    };
+  }
+}
+
+// Create and export singleton instance
+export const validationRuleService = new ValidationRuleService();
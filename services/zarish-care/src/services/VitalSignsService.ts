@@ -0,0 +1,554 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ClinicalTypes, PatientTypes } from '@zarishhealthcare/shared-types';
+import { config } from '../config/config';
+import { database, Queryable } from '../config/database';
+import { BadRequestError, ConflictError, NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { patientRepository } from '../repositories/PatientRepository';
+import { auditService, AuditEntry } from './AuditService';
+import { FieldError } from '../utils/patientValidation';
+import {
+  ageInMonthsAt,
+  calculateBmi,
+  classifyNutrition,
+  flagVitals,
+  flagZScores,
+  lmsZScore,
+  PLAUSIBLE_RANGES,
+  VITAL_UNITS,
+  WHOLE_NUMBER_MEASURES,
+} from '../utils/vitalSigns';
+import { logger } from '../utils/logger';
+
+const VITAL_SIGNS_TABLE = 'clinical.vital_signs';
+const GROWTH_REFERENCES_TABLE = 'clinical.growth_references';
+
+// Trend measures mapped to whitelisted columns
+const MEASURE_COLUMNS: Record<ClinicalTypes.VitalMeasure, string> = {
+  systolic: 'systolic',
+  diastolic: 'diastolic',
+  heartRate: 'heart_rate',
+  respiratoryRate: 'respiratory_rate',
+  temperature: 'temperature',
+  weight: 'weight',
+  height: 'height',
+  muac: 'muac',
+  bmi: 'bmi',
+  bloodGlucose: 'blood_glucose',
+  oxygenSaturation: 'oxygen_saturation',
+  painScore: 'pain_score',
+};
+
+export const VITAL_MEASURES = Object.keys(MEASURE_COLUMNS) as ClinicalTypes.VitalMeasure[];
+
+// Growth standards cover the first five years
+const GROWTH_STANDARD_MONTHS = 60;
+
+// Reference tables the anthropometric assessment reads: weight-for-length, weight-for-height, MUAC-for-age
+const GROWTH_INDICATORS = ['wfl', 'wfh', 'mfa'];
+
+// One LMS table from the growth reference directory; rows are [x, L, M, S] per sex
+interface GrowthReference {
+  indicator: string;
+  name: string;
+  version: string;
+  rows: Record<PatientTypes.Gender.MALE | PatientTypes.Gender.FEMALE, number[][]>;
+}
+
+function parseGrowthRows(rows: unknown, file: string, sex: string): number[][] {
+  if (!Array.isArray(rows) || rows.length < 2) {
+    throw new Error(`${file}: "${sex}" needs at least two [x, L, M, S] rows`);
+  }
+
+  rows.forEach((row, index) => {
+    const valid = Array.isArray(row) && row.length === 4 && row.every(value => Number.isFinite(value))
+      && row[2] > 0 && row[3] > 0;
+    if (!valid) {
+      throw new Error(`${file}: "${sex}" row ${index + 1} must be [x, L, M, S] with positive M and S`);
+    }
+    if (index > 0 && row[0] <= rows[index - 1][0]) {
+      throw new Error(`${file}: "${sex}" rows must be in ascending x order`);
+    }
+  });
+
+  return rows;
+}
+
+function parseGrowthReference(raw: string, file: string): GrowthReference {
+  const data = JSON.parse(raw);
+
+  if (!GROWTH_INDICATORS.includes(data.indicator)) {
+    throw new Error(`${file}: "indicator" must be one of ${GROWTH_INDICATORS.join(', ')}`);
+  }
+
+  if (typeof data.name !== 'string' || typeof data.version !== 'string' || !data.version) {
+    throw new Error(`${file}: "name" and "version" are required`);
+  }
+
+  return {
+    indicator: data.indicator,
+    name: data.name,
+    version: data.version,
+    rows: {
+      [PatientTypes.Gender.MALE]: parseGrowthRows(data.male, file, 'male'),
+      [PatientTypes.Gender.FEMALE]: parseGrowthRows(data.female, file, 'female'),
+    },
+  };
+}
+
+type VitalSignsAuditContext = Pick<AuditEntry, 'userId' | 'sessionId' | 'ipAddress' | 'userAgent'> & {
+  userId: string;
+};
+
+export interface VitalSignsListOptions {
+  from?: Date;
+  to?: Date;
+  page: number;
+  limit: number;
+}
+
+function toMeasurements(
+  request: ClinicalTypes.RecordVitalSignsRequest
+): Partial<Record<ClinicalTypes.VitalMeasure, number>> {
+  return {
+    ...(request.bloodPressure && {
+      systolic: request.bloodPressure.systolic,
+      diastolic: request.bloodPressure.diastolic,
+    }),
+    ...(request.heartRate !== undefined && { heartRate: request.heartRate }),
+    ...(request.respiratoryRate !== undefined && { respiratoryRate: request.respiratoryRate }),
+    ...(request.temperature !== undefined && { temperature: request.temperature }),
+    ...(request.weight !== undefined && { weight: request.weight }),
+    ...(request.height !== undefined && { height: request.height }),
+    ...(request.muac !== undefined && { muac: request.muac }),
+    ...(request.bloodGlucose !== undefined && { bloodGlucose: request.bloodGlucose }),
+    ...(request.oxygenSaturation !== undefined && { oxygenSaturation: request.oxygenSaturation }),
+    ...(request.painScore !== undefined && { painScore: request.painScore }),
+  };
+}
+
+export class VitalSignsService {
+  // Replaces each indicator's rows in the growth reference table with the LMS tables from every
+  // *.json file in the data directory. A file that fails validation is skipped; the rest still load.
+  async loadGrowthReferences(dataPath: string = config.growthReferences.dataPath): Promise<void> {
+    let files: string[];
+    try {
+      files = (await fs.readdir(dataPath)).filter(file => file.endsWith('.json')).sort();
+    } catch (error) {
+      logger.warn('Growth reference directory not readable; stored reference tables left as they are', {
+        dataPath,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return;
+    }
+
+    const references = new Map<string, GrowthReference>();
+
+    for (const file of files) {
+      try {
+        const reference = parseGrowthReference(await fs.readFile(path.join(dataPath, file), 'utf8'), file);
+
+        if (references.has(reference.indicator)) {
+          throw new Error(`${file}: a ${reference.indicator} table is already loaded`);
+        }
+
+        references.set(reference.indicator, reference);
+      } catch (error) {
+        logger.error('Failed to load growth reference', {
+          file,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    await database.transaction(async (client) => {
+      for (const reference of references.values()) {
+        const rows = Object.entries(reference.rows).flatMap(([sex, table]) => table.map(row => [sex, ...row]));
+
+        await client.query(`DELETE FROM ${GROWTH_REFERENCES_TABLE} WHERE indicator = $1`, [reference.indicator]);
+        await client.query(
+          `INSERT INTO ${GROWTH_REFERENCES_TABLE} (indicator, sex, x, l, m, s)
+           SELECT $1, * FROM unnest($2::text[], $3::real[], $4::float8[], $5::float8[], $6::float8[])`,
+          [reference.indicator, ...[0, 1, 2, 3, 4].map(column => rows.map(row => row[column]))]
+        );
+      }
+    });
+
+    const missing = GROWTH_INDICATORS.filter(indicator => !references.has(indicator));
+    if (missing.length > 0) {
+      logger.warn('No growth reference file for some indicators; their z-scores need a stored table', { missing });
+    }
+
+    logger.info('Growth references loaded', {
+      action: 'growth_references_loaded',
+      references: Array.from(references.values()).map(reference => `${reference.indicator}@${reference.version}`),
+    });
+  }
+
+  async list(
+    patientId: string,
+    options: VitalSignsListOptions
+  ): Promise<{ vitalSigns: ClinicalTypes.VitalSigns[]; total: number }> {
+    await this.requirePatient(patientId);
+
+    const { where, params } = this.buildFilter(patientId, options.from, options.to);
+    const count = await database.query(`SELECT COUNT(*) FROM ${VITAL_SIGNS_TABLE} WHERE ${where}`, params);
+    const result = await database.query(
+      `SELECT * FROM ${VITAL_SIGNS_TABLE} WHERE ${where}
+       ORDER BY recorded_at DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, options.limit, (options.page - 1) * options.limit]
+    );
+
+    return {
+      vitalSigns: result.rows.map(row => this.toVitalSigns(row)),
+      total: parseInt(count.rows[0].count, 10),
+    };
+  }
+
+  // One series per measure, oldest first, for charting; sets without the measure are skipped
+  async getTrend(
+    patientId: string,
+    measures: ClinicalTypes.VitalMeasure[],
+    from?: Date,
+    to?: Date
+  ): Promise<ClinicalTypes.VitalTrendSeries[]> {
+    const unknown = measures.filter(measure => !VITAL_MEASURES.includes(measure));
+    if (unknown.length > 0) {
+      throw new BadRequestError(`Unknown measures: ${unknown.join(', ')}. Use: ${VITAL_MEASURES.join(', ')}`);
+    }
+
+    await this.requirePatient(patientId);
+
+    const { where, params } = this.buildFilter(patientId, from, to);
+    const columns = measures.map(measure => MEASURE_COLUMNS[measure]);
+    const result = await database.query(
+      `SELECT id, recorded_at, flags, ${columns.join(', ')} FROM ${VITAL_SIGNS_TABLE}
+       WHERE ${where}
+       ORDER BY recorded_at ASC`,
+      params
+    );
+
+    return measures.map(measure => ({
+      measure,
+      unit: VITAL_UNITS[measure],
+      points: result.rows
+        .filter(row => row[MEASURE_COLUMNS[measure]] !== null)
+        .map(row => ({
+          vitalSignsId: row.id,
+          recordedDateTime: row.recorded_at,
+          value: row[MEASURE_COLUMNS[measure]],
+          flagged: (row.flags as ClinicalTypes.VitalSignFlag[]).some(flag => flag.measure === measure),
+        })),
+    }));
+  }
+
+  // Latest set recorded against each consultation
+  async getLatestForConsultations(
+    consultationIds: string[],
+    client: Queryable = database
+  ): Promise<Map<string, ClinicalTypes.VitalSigns>> {
+    const result = await client.query(
+      `SELECT DISTINCT ON (consultation_id) * FROM ${VITAL_SIGNS_TABLE}
+       WHERE consultation_id = ANY($1::uuid[])
+       ORDER BY consultation_id, recorded_at DESC`,
+      [consultationIds]
+    );
+
+    return new Map(result.rows.map(row => [row.consultation_id, this.toVitalSigns(row)]));
+  }
+
+  // Stores a set of measurements with BMI, z-scores and age-specific abnormal flags derived from them
+  async record(
+    patientId: string,
+    request: ClinicalTypes.RecordVitalSignsRequest,
+    audit: VitalSignsAuditContext
+  ): Promise<ClinicalTypes.VitalSigns> {
+    const measurements = toMeasurements(request);
+    const recordedAt = this.validate(request, measurements);
+
+    const patient = await this.requirePatient(patientId);
+    const ageInMonths = ageInMonthsAt(patient, recordedAt);
+
+    if (measurements.weight !== undefined && measurements.height !== undefined) {
+      measurements.bmi = calculateBmi(measurements.weight, measurements.height);
+    }
+
+    const anthropometry = await this.assessAnthropometry(patient, measurements, ageInMonths);
+    const flags = [
+      ...flagVitals(measurements, ageInMonths),
+      ...(anthropometry ? flagZScores(anthropometry) : []),
+    ];
+
+    const vitalSigns = await database.transaction(async (client) => {
+      await this.checkLinks(client, patientId, request);
+
+      const result = await client.query(
+        `INSERT INTO ${VITAL_SIGNS_TABLE} (
+           patient_id, encounter_id, consultation_id, systolic, diastolic, heart_rate, respiratory_rate,
+           temperature, weight, height, muac, bmi, blood_glucose, oxygen_saturation, pain_score,
+           age_months, anthropometry, flags, notes, recorded_at, recorded_by
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21)
+         RETURNING *`,
+        [
+          patientId,
+          request.encounterId || null,
+          request.consultationId || null,
+          measurements.systolic ?? null,
+          measurements.diastolic ?? null,
+          measurements.heartRate ?? null,
+          measurements.respiratoryRate ?? null,
+          measurements.temperature ?? null,
+          measurements.weight ?? null,
+          measurements.height ?? null,
+          measurements.muac ?? null,
+          measurements.bmi ?? null,
+          measurements.bloodGlucose ?? null,
+          measurements.oxygenSaturation ?? null,
+          measurements.painScore ?? null,
+          ageInMonths,
+          anthropometry ? JSON.stringify(anthropometry) : null,
+          JSON.stringify(flags),
+          request.notes || null,
+          recordedAt,
+          audit.userId,
+        ]
+      );
+
+      await auditService.record({
+        ...audit,
+        entityType: 'vital_signs',
+        entityId: result.rows[0].id,
+        action: 'create',
+        metadata: {
+          businessContext: {
+            patientId,
+            encounterId: request.encounterId,
+            consultationId: request.consultationId,
+            flags: flags.map(flag => `${flag.measure}:${flag.severity}`),
+          },
+        },
+      }, client);
+
+      return this.toVitalSigns(result.rows[0]);
+    });
+
+    logger.info('Vital signs recorded', {
+      action: 'vitals_recorded',
+      vitalSignsId: vitalSigns.id,
+      patientId,
+      consultationId: request.consultationId,
+      flags: flags.length,
+      userId: audit.userId,
+    });
+
+    return vitalSigns;
+  }
+
+  private validate(
+    request: ClinicalTypes.RecordVitalSignsRequest,
+    measurements: Partial<Record<ClinicalTypes.VitalMeasure, number>>
+  ): Date {
+    const errors: FieldError[] = [];
+
+    if (Object.keys(measurements).length === 0) {
+      errors.push({ field: 'vitalSigns', message: 'At least one measurement is required', code: 'REQUIRED_FIELD' });
+    }
+
+    for (const [measure, value] of Object.entries(measurements) as [keyof typeof PLAUSIBLE_RANGES, number][]) {
+      const [min, max] = PLAUSIBLE_RANGES[measure];
+      const field = measure === 'systolic' || measure === 'diastolic' ? `bloodPressure.${measure}` : measure;
+
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors.push({ field, message: `${field} must be a number`, code: 'INVALID_FORMAT', value });
+      } else if (WHOLE_NUMBER_MEASURES.includes(measure) && !Number.isInteger(value)) {
+        errors.push({ field, message: `${field} must be a whole number`, code: 'INVALID_FORMAT', value });
+      } else if (value < min || value > max) {
+        errors.push({
+          field,
+          message: `${field} must be between ${min} and ${max} ${VITAL_UNITS[measure]}`,
+          code: 'INVALID_VALUE',
+          value,
+        });
+      }
+    }
+
+    if (measurements.systolic !== undefined && measurements.diastolic !== undefined
+      && measurements.diastolic >= measurements.systolic) {
+      errors.push({
+        field: 'bloodPressure.diastolic',
+        message: 'Diastolic pressure must be lower than systolic pressure',
+        code: 'INVALID_VALUE',
+        value: measurements.diastolic,
+      });
+    }
+
+    const recordedAt = request.recordedDateTime ? new Date(request.recordedDateTime) : new Date();
+    if (isNaN(recordedAt.getTime())) {
+      errors.push({
+        field: 'recordedDateTime',
+        message: 'recordedDateTime must be a valid date',
+        code: 'INVALID_FORMAT',
+        value: request.recordedDateTime,
+      });
+    } else if (recordedAt > new Date()) {
+      errors.push({
+        field: 'recordedDateTime',
+        message: 'recordedDateTime cannot be in the future',
+        code: 'INVALID_VALUE',
+        value: request.recordedDateTime,
+      });
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid vital signs', errors);
+    }
+
+    return recordedAt;
+  }
+
+  // Weight-for-length under two years, weight-for-height from two to five, MUAC-for-age from three months
+  private async assessAnthropometry(
+    patient: PatientTypes.Patient,
+    measurements: Partial<Record<ClinicalTypes.VitalMeasure, number>>,
+    ageInMonths: number | null
+  ): Promise<ClinicalTypes.AnthropometricAssessment | undefined> {
+    if (ageInMonths === null || ageInMonths >= GROWTH_STANDARD_MONTHS) {
+      return undefined;
+    }
+
+    const sex = patient.gender === PatientTypes.Gender.MALE || patient.gender === PatientTypes.Gender.FEMALE
+      ? patient.gender
+      : null;
+
+    const weightForHeightZ = sex && measurements.weight !== undefined && measurements.height !== undefined
+      ? await this.zScore(ageInMonths < 24 ? 'wfl' : 'wfh', sex, measurements.height, measurements.weight)
+      : undefined;
+
+    // The MUAC-for-age reference is in centimetres
+    const muacForAgeZ = sex && measurements.muac !== undefined && ageInMonths >= 3
+      ? await this.zScore('mfa', sex, ageInMonths, measurements.muac / 10)
+      : undefined;
+
+    const nutritionStatus = classifyNutrition(weightForHeightZ, measurements.muac, ageInMonths);
+
+    if (weightForHeightZ === undefined && muacForAgeZ === undefined && !nutritionStatus) {
+      return undefined;
+    }
+
+    return {
+      ...(weightForHeightZ !== undefined && { weightForHeightZ }),
+      ...(muacForAgeZ !== undefined && { muacForAgeZ }),
+      ...(nutritionStatus && { nutritionStatus }),
+    };
+  }
+
+  // LMS parameters interpolated between the two nearest reference points; undefined outside the table
+  private async zScore(indicator: string, sex: string, x: number, value: number): Promise<number | undefined> {
+    const result = await database.query(
+      `(SELECT x, l, m, s FROM ${GROWTH_REFERENCES_TABLE}
+        WHERE indicator = $1 AND sex = $2 AND x <= $3 ORDER BY x DESC LIMIT 1)
+       UNION ALL
+       (SELECT x, l, m, s FROM ${GROWTH_REFERENCES_TABLE}
+        WHERE indicator = $1 AND sex = $2 AND x >= $3 ORDER BY x ASC LIMIT 1)`,
+      [indicator, sex, x]
+    );
+
+    const [lower, upper] = result.rows;
+    if (!lower || !upper) {
+      return undefined;
+    }
+
+    const fraction = upper.x === lower.x ? 0 : (x - lower.x) / (upper.x - lower.x);
+    const interpolate = (key: 'l' | 'm' | 's'): number => lower[key] + (upper[key] - lower[key]) * fraction;
+
+    return lmsZScore(value, interpolate('l'), interpolate('m'), interpolate('s'));
+  }
+
+  // Linked encounters and consultations must be the patient's; signed consultations are locked
+  private async checkLinks(
+    client: Queryable,
+    patientId: string,
+    request: ClinicalTypes.RecordVitalSignsRequest
+  ): Promise<void> {
+    if (request.encounterId) {
+      const encounter = await client.query('SELECT patient_id FROM clinical.encounters WHERE id = $1', [
+        request.encounterId,
+      ]);
+
+      if (!encounter.rows[0] || encounter.rows[0].patient_id !== patientId) {
+        throw new NotFoundError('Encounter', request.encounterId);
+      }
+    }
+
+    if (request.consultationId) {
+      const consultation = await client.query(
+        'SELECT patient_id, status FROM clinical.consultations WHERE id = $1',
+        [request.consultationId]
+      );
+
+      if (!consultation.rows[0] || consultation.rows[0].patient_id !== patientId) {
+        throw new NotFoundError('Consultation', request.consultationId);
+      }
+
+      if (consultation.rows[0].status !== 'active') {
+        throw new ConflictError(`Consultation is ${consultation.rows[0].status}; vitals can no longer be attached`);
+      }
+    }
+  }
+
+  private async requirePatient(patientId: string): Promise<PatientTypes.Patient> {
+    const patient = await patientRepository.findById(patientId);
+    if (!patient) {
+      throw new NotFoundError('Patient', patientId);
+    }
+
+    return patient;
+  }
+
+  private buildFilter(patientId: string, from?: Date, to?: Date): { where: string; params: any[] } {
+    const params: any[] = [patientId];
+    const conditions = ['patient_id = $1'];
+
+    if (from) {
+      params.push(from);
+      conditions.push(`recorded_at >= $${params.length}`);
+    }
+
+    if (to) {
+      params.push(to);
+      conditions.push(`recorded_at <= $${params.length}`);
+    }
+
+    return { where: conditions.join(' AND '), params };
+  }
+
+  private toVitalSigns(row: any): ClinicalTypes.VitalSigns {
+    return {
+      id: row.id,
+      patientId: row.patient_id,
+      ...(row.encounter_id && { encounterId: row.encounter_id }),
+      ...(row.consultation_id && { consultationId: row.consultation_id }),
+      ...(row.systolic !== null && { bloodPressure: { systolic: row.systolic, diastolic: row.diastolic } }),
+      ...(row.heart_rate !== null && { heartRate: row.heart_rate }),
+      ...(row.respiratory_rate !== null && { respiratoryRate: row.respiratory_rate }),
+      ...(row.temperature !== null && { temperature: row.temperature }),
+      ...(row.weight !== null && { weight: row.weight }),
+      ...(row.height !== null && { height: row.height }),
+      ...(row.muac !== null && { muac: row.muac }),
+      ...(row.bmi !== null && { bmi: row.bmi }),
+      ...(row.blood_glucose !== null && { bloodGlucose: row.blood_glucose }),
+      ...(row.oxygen_saturation !== null && { oxygenSaturation: row.oxygen_saturation }),
+      ...(row.pain_score !== null && { painScore: row.pain_score }),
+      ...(row.age_months !== null && { ageInMonths: row.age_months }),
+      ...(row.anthropometry && { anthropometry: row.anthropometry }),
+      flags: row.flags || [],
+      recordedDateTime: row.recorded_at,
+      recordedBy: row.recorded_by,
+      ...(row.notes && { notes: row.notes }),
+    };
+  }
+}
+
+// Create and export singleton instance
+export const vitalSignsService = new VitalSignsService();
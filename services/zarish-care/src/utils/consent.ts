@@ -0,0 +1,24 @@
+export const CONSENTS_TABLE = 'clinical.patient_consents';
+
+// Current, granted, unexpired and not withdrawn; columns of the consent table without an alias
+export const ACTIVE_CONSENT_SQL = `superseded_at IS NULL AND decision = 'granted' AND withdrawn_at IS NULL
+  AND (expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP)`;
+
+// Opt-in: true when the patient in `patientIdColumn` has an active consent of the type given
+// by `consentTypeSql` (a quoted literal or a query parameter)
+export function hasActiveConsentSql(patientIdColumn: string, consentTypeSql: string): string {
+  return `EXISTS (
+    SELECT 1 FROM ${CONSENTS_TABLE}
+    WHERE patient_id = ${patientIdColumn} AND consent_type = ${consentTypeSql} AND ${ACTIVE_CONSENT_SQL}
+  )`;
+}
+
+// Opt-out: indicators and reports count a patient unless their current research-use decision
+// is a refusal or has been withdrawn
+export function analyticsAllowedSql(patientIdColumn: string): string {
+  return `NOT EXISTS (
+    SELECT 1 FROM ${CONSENTS_TABLE}
+    WHERE patient_id = ${patientIdColumn} AND consent_type = 'research' AND superseded_at IS NULL
+      AND (decision = 'refused' OR withdrawn_at IS NOT NULL)
+  )`;
+}
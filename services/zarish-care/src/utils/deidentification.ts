@@ -0,0 +1,103 @@
+import { createHmac } from 'crypto';
+import { PatientTypes } from '@zarishhealthcare/shared-types';
+
+export type ExportValue = string | number | string[] | null;
+export type ExportRecord = Record<string, ExportValue>;
+
+// Columns each profile releases, in output order
+export const PROFILE_COLUMNS: Record<PatientTypes.DeidentificationProfile, string[]> = {
+  full: [
+    'id', 'mrn', 'firstName', 'lastName', 'dateOfBirth', 'age', 'gender', 'populationType',
+    'campLocation', 'blockNumber', 'shelterId', 'primaryPhone', 'unhcrId', 'smartCardId',
+    'nationalId', 'programs', 'status', 'registrationDate', 'facilityCode',
+  ],
+  pseudonymised: [
+    'pseudonymId', 'birthYear', 'age', 'gender', 'populationType', 'campLocation', 'blockNumber',
+    'programs', 'status', 'registrationDate', 'facilityCode',
+  ],
+  aggregate: [
+    'ageBand', 'gender', 'populationType', 'campArea', 'programs', 'status', 'registrationYear',
+    'facilityCode',
+  ],
+};
+
+// Stable across exports made with the same secret, so partners can link records over time
+// without being able to recover the patient ID
+export function pseudonymFor(patientId: string, secret: string): string {
+  return createHmac('sha256', secret).update(patientId).digest('hex').slice(0, 32);
+}
+
+export function ageOf(patient: PatientTypes.Patient): number | null {
+  if (patient.dateOfBirth) {
+    const dob = new Date(patient.dateOfBirth);
+    const now = new Date();
+    let age = now.getFullYear() - dob.getFullYear();
+    if (now.getMonth() < dob.getMonth() || (now.getMonth() === dob.getMonth() && now.getDate() < dob.getDate())) {
+      age--;
+    }
+    return age;
+  }
+  return typeof patient.demographics.age === 'number' ? patient.demographics.age : null;
+}
+
+export function ageBandFor(age: number | null): string {
+  if (age === null) {
+    return 'unknown';
+  }
+  const band = PatientTypes.AGE_BANDS.find(candidate =>
+    age >= candidate.min && (candidate.max === null || age <= candidate.max)
+  );
+  return band ? band.label : 'unknown';
+}
+
+// Drops the sub-camp part so small extensions cannot single people out: "Camp 1W" -> "Camp 1"
+export function generaliseCamp(camp: string | undefined): string | null {
+  if (!camp) {
+    return null;
+  }
+  const match = /^(camp\s*\d+)\s*[a-z]*$/i.exec(camp.trim());
+  return match ? match[1]!.replace(/\s+/g, ' ') : camp.trim();
+}
+
+const toDate = (value: Date | string | undefined): string | null =>
+  value ? new Date(value).toISOString().slice(0, 10) : null;
+
+export function toExportRecord(
+  patient: PatientTypes.Patient,
+  profile: PatientTypes.DeidentificationProfile,
+  pseudonymSecret: string
+): ExportRecord {
+  const { demographics } = patient;
+  const age = ageOf(patient);
+  const registrationDate = toDate(patient.registrationDate);
+
+  const values: ExportRecord = {
+    id: patient.id,
+    pseudonymId: pseudonymFor(patient.id, pseudonymSecret),
+    mrn: patient.mrn,
+    firstName: patient.firstName,
+    lastName: patient.lastName,
+    dateOfBirth: toDate(patient.dateOfBirth),
+    birthYear: patient.dateOfBirth ? new Date(patient.dateOfBirth).getFullYear() : null,
+    age,
+    ageBand: ageBandFor(age),
+    gender: patient.gender,
+    populationType: demographics.populationType || null,
+    campLocation: demographics.campLocation || null,
+    campArea: generaliseCamp(demographics.campLocation),
+    blockNumber: demographics.blockNumber || null,
+    shelterId: demographics.contactInfo?.address?.shelterId || null,
+    primaryPhone: demographics.contactInfo?.primaryPhone || null,
+    unhcrId: demographics.documentation?.unhcrId || null,
+    smartCardId: demographics.documentation?.smartCardId || null,
+    nationalId: demographics.documentation?.nationalId || null,
+    programs: patient.programs,
+    status: patient.status,
+    registrationDate,
+    registrationYear: registrationDate ? parseInt(registrationDate.slice(0, 4), 10) : null,
+    facilityCode: patient.facilityCode || null,
+  };
+
+  // Only the profile's columns leave this function
+  return Object.fromEntries(PROFILE_COLUMNS[profile].map(column => [column, values[column] ?? null]));
+}
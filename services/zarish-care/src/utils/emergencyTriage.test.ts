@@ -0,0 +1,224 @@
+import {
+  TriageInput,
+  glasgowComaScale,
+  orientationAssessment,
+  tewsCategory,
+  tewsScore,
+  triage,
+  triageScale,
+} from './emergencyTriage';
+
+const normalVitals = {
+  respiratoryRate: 14,
+  heartRate: 80,
+  bloodPressure: { systolic: 120, diastolic: 80 },
+  temperature: 37,
+};
+
+const adult = (overrides: Partial<TriageInput> = {}): TriageInput => ({
+  ageInMonths: 30 * 12,
+  emergencyType: 'medical',
+  alertness: 'alert',
+  mobility: 'walking',
+  vitalSigns: normalVitals,
+  ...overrides,
+});
+
+const child = (overrides: Partial<TriageInput> = {}): TriageInput => ({
+  ageInMonths: 24,
+  emergencyType: 'medical',
+  alertness: 'alert',
+  ...overrides,
+});
+
+describe('triageScale', () => {
+  it('uses ETAT for children under 12 years and SATS for everyone else', () => {
+    expect(triageScale(0)).toBe('etat');
+    expect(triageScale(143)).toBe('etat');
+    expect(triageScale(144)).toBe('sats');
+    expect(triageScale(null)).toBe('sats');
+  });
+});
+
+describe('glasgowComaScale', () => {
+  it('totals the three components', () => {
+    expect(glasgowComaScale({ eyeOpening: 4, verbalResponse: 5, motorResponse: 6 }).total).toBe(15);
+    expect(glasgowComaScale({ eyeOpening: 1, verbalResponse: 1, motorResponse: 1 }).total).toBe(3);
+  });
+});
+
+describe('orientationAssessment', () => {
+  it('counts the questions answered correctly', () => {
+    expect(orientationAssessment({ person: true, place: true, time: false, situation: true }).score).toBe(3);
+  });
+});
+
+describe('tewsScore', () => {
+  it('scores normal adult vitals as 0', () => {
+    expect(tewsScore(adult())).toEqual({
+      total: 0,
+      mobility: 0,
+      respiratoryRate: 0,
+      heartRate: 0,
+      systolic: 0,
+      temperature: 0,
+      consciousness: 0,
+      trauma: 0,
+    });
+  });
+
+  it('adds up the worst band of every component', () => {
+    const tews = tewsScore(adult({
+      emergencyType: 'trauma',
+      mobility: 'immobile',
+      alertness: 'unresponsive',
+      vitalSigns: {
+        respiratoryRate: 32,
+        heartRate: 135,
+        bloodPressure: { systolic: 65, diastolic: 40 },
+        temperature: 39,
+      },
+    }));
+    expect(tews).toEqual({
+      total: 17,
+      mobility: 2,
+      respiratoryRate: 3,
+      heartRate: 3,
+      systolic: 3,
+      temperature: 2,
+      consciousness: 3,
+      trauma: 1,
+    });
+  });
+
+  it.each([
+    ['respiratoryRate', 8, 2],
+    ['respiratoryRate', 9, 0],
+    ['respiratoryRate', 15, 1],
+    ['respiratoryRate', 21, 2],
+    ['heartRate', 40, 2],
+    ['heartRate', 41, 1],
+    ['heartRate', 51, 0],
+    ['heartRate', 101, 1],
+    ['heartRate', 111, 2],
+    ['heartRate', 130, 3],
+    ['temperature', 34.9, 2],
+    ['temperature', 38.5, 2],
+  ] as const)('scores %s %d as %i', (vital, value, points) => {
+    expect(tewsScore(adult({ vitalSigns: { ...normalVitals, [vital]: value } }))?.[vital]).toBe(points);
+  });
+
+  it.each([[70, 3], [71, 2], [81, 1], [101, 0], [199, 0], [200, 2]])('scores systolic %i as %i', (systolic, points) => {
+    const vitalSigns = { ...normalVitals, bloodPressure: { systolic, diastolic: 70 } };
+    expect(tewsScore(adult({ vitalSigns }))?.systolic).toBe(points);
+  });
+
+  it('scores an alert but disoriented patient as confused', () => {
+    const orientation = orientationAssessment({ person: true, place: false, time: true, situation: true });
+    expect(tewsScore(adult({ orientation }))?.consciousness).toBe(1);
+  });
+
+  it('counts an injury assessment as trauma', () => {
+    const injuryAssessment = {
+      mechanism: 'fall',
+      bodyRegions: [],
+      bloodLoss: 'none' as const,
+      fractures: [],
+      wounds: [],
+    };
+    expect(tewsScore(adult({ injuryAssessment }))?.trauma).toBe(1);
+  });
+
+  it('is undefined unless every vital sign it needs was taken', () => {
+    const { mobility: _, ...withoutMobility } = adult();
+    const { temperature: __, ...withoutTemperature } = normalVitals;
+    expect(tewsScore(withoutMobility)).toBeUndefined();
+    expect(tewsScore(adult({ vitalSigns: withoutTemperature }))).toBeUndefined();
+  });
+});
+
+describe('tewsCategory', () => {
+  it.each([[0, 'green'], [2, 'green'], [3, 'yellow'], [4, 'yellow'], [5, 'orange'], [6, 'orange'], [7, 'red']])(
+    'puts a TEWS of %i in %s',
+    (total, category) => {
+      expect(tewsCategory(total)).toBe(category);
+    }
+  );
+});
+
+describe('triage', () => {
+  it('puts a well adult in green with the TEWS attached', () => {
+    expect(triage(adult())).toMatchObject({ scale: 'sats', category: 'green', reasons: [], tews: { total: 0 } });
+  });
+
+  it('puts a dead patient in blue regardless of anything else', () => {
+    expect(triage(adult({ signs: ['dead', 'cardiac_arrest'] }))).toEqual({
+      scale: 'sats',
+      category: 'blue',
+      reasons: [{ code: 'dead', category: 'blue', message: 'Dead on arrival' }],
+    });
+  });
+
+  it('takes the TEWS band when no discriminator is more urgent', () => {
+    const vitalSigns = { ...normalVitals, heartRate: 115, temperature: 39 };
+    const result = triage(adult({ mobility: 'immobile', vitalSigns }));
+    expect(result.category).toBe('orange');
+    expect(result.reasons).toEqual([{ code: 'tews', category: 'orange', message: 'TEWS 6' }]);
+  });
+
+  it('takes a discriminator over a lower TEWS band and lists the most urgent reason first', () => {
+    const result = triage(adult({ signs: ['abdominal_pain', 'chest_pain'] }));
+    expect(result.category).toBe('orange');
+    expect(result.reasons.map(reason => reason.code)).toEqual(['chest_pain', 'abdominal_pain']);
+  });
+
+  it('puts hypoxaemia and coma in red', () => {
+    expect(triage(adult({ vitalSigns: { ...normalVitals, oxygenSaturation: 88 } })).category).toBe('red');
+    const glasgow = glasgowComaScale({ eyeOpening: 2, verbalResponse: 2, motorResponse: 4 });
+    expect(triage(adult({ glasgowComaScale: glasgow })).reasons[0]).toMatchObject({ code: 'coma', category: 'red' });
+  });
+
+  it('puts a GCS under 15 above the coma threshold in orange', () => {
+    const glasgow = glasgowComaScale({ eyeOpening: 4, verbalResponse: 4, motorResponse: 6 });
+    expect(triage(adult({ glasgowComaScale: glasgow })).reasons)
+      .toEqual([expect.objectContaining({ code: 'reduced_consciousness', category: 'orange' })]);
+  });
+
+  it('uses the adult and child hypoglycaemia thresholds', () => {
+    expect(triage(adult({ vitalSigns: { ...normalVitals, bloodGlucose: 2.7 } })).category).toBe('red');
+    expect(triage(child({ vitalSigns: { bloodGlucose: 2.7 } })).category).toBe('green');
+    expect(triage(child({ vitalSigns: { bloodGlucose: 2.4 } })).category).toBe('red');
+  });
+
+  it('only grades moderate pain on the SATS scale', () => {
+    expect(triage(adult({ vitalSigns: { ...normalVitals, painScore: 6 } })).category).toBe('yellow');
+    expect(triage(child({ vitalSigns: { painScore: 6 } })).category).toBe('green');
+    expect(triage(child({ vitalSigns: { painScore: 8 } })).category).toBe('orange');
+  });
+
+  describe('ETAT', () => {
+    it('does not score TEWS for children', () => {
+      const result = triage(child({ mobility: 'immobile', vitalSigns: { ...normalVitals, heartRate: 135 } }));
+      expect(result.scale).toBe('etat');
+      expect(result.tews).toBeUndefined();
+    });
+
+    it.each([
+      ['a tiny infant', child({ ageInMonths: 1 }), 'tiny_infant'],
+      ['a very high temperature', child({ vitalSigns: { temperature: 39.5 } }), 'very_high_temperature'],
+      ['trauma', child({ emergencyType: 'trauma' }), 'trauma'],
+    ])('treats %s as a priority sign', (_, input, code) => {
+      expect(triage(input)).toMatchObject({ category: 'orange', reasons: [expect.objectContaining({ code })] });
+    });
+
+    it('puts an emergency sign in red', () => {
+      expect(triage(child({ signs: ['severe_dehydration', 'severe_pallor'] }))).toMatchObject({
+        category: 'red',
+        reasons: [
+          expect.objectContaining({ code: 'severe_dehydration' }),
+          expect.objectContaining({ code: 'severe_pallor' }),
+        ],
+      });
+    });
+  });
+});
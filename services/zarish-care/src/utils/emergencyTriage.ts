@@ -0,0 +1,249 @@
+import { ClinicalTypes, PatientTypes } from '@zarishhealthcare/shared-types';
+
+type RankedCategory = Exclude<ClinicalTypes.TriageCategory, 'blue'>;
+
+type SignCategory = { category: ClinicalTypes.TriageCategory; message: string };
+
+// Children younger than this are triaged with ETAT, everyone else with the SATS adult TEWS
+export const ETAT_MAX_AGE_MONTHS = 12 * 12;
+
+// Most urgent first
+export const RANKED_CATEGORIES: RankedCategory[] = ['red', 'orange', 'yellow', 'green'];
+
+// Queue priority a patient is called with once triaged
+export const QUEUE_PRIORITIES: Record<RankedCategory, PatientTypes.TriagePriority> = {
+  red: 'emergency',
+  orange: 'very_urgent',
+  yellow: 'urgent',
+  green: 'routine',
+};
+
+// Glucose mmol/L, SpO2 %, temperature °C, pain 0-10
+export const TRIAGE_THRESHOLDS = {
+  hypoglycaemia: 3,
+  childHypoglycaemia: 2.5,
+  hyperglycaemia: 17,
+  hypoxaemia: 90,
+  veryHighTemperature: 39.5, // ETAT priority sign
+  tinyInfantMonths: 2, // ETAT priority sign
+  severePain: 8,
+  moderatePain: 5,
+  comaGcs: 8, // at or below, the airway is at risk
+};
+
+// SATS emergency, very urgent and urgent discriminators and the ETAT emergency and priority signs.
+// ETAT only separates emergency from priority, so a priority sign is orange: seen ahead of the queue.
+export const EMERGENCY_SIGNS: Record<ClinicalTypes.EmergencySign, SignCategory> = {
+  dead: { category: 'blue', message: 'Dead on arrival' },
+  airway_obstructed: { category: 'red', message: 'Obstructed airway' },
+  breathing_inadequate: { category: 'red', message: 'Absent or inadequate breathing' },
+  cardiac_arrest: { category: 'red', message: 'Cardiac arrest' },
+  seizure_current: { category: 'red', message: 'Seizure in progress' },
+  burn_facial_inhalation: { category: 'red', message: 'Facial or inhalation burn' },
+  severe_respiratory_distress: { category: 'red', message: 'Severe respiratory distress' },
+  central_cyanosis: { category: 'red', message: 'Central cyanosis' },
+  shock: { category: 'red', message: 'Shock: cold hands, capillary refill over 3 seconds, weak fast pulse' },
+  severe_dehydration: { category: 'red', message: 'Diarrhoea with severe dehydration' },
+  shortness_of_breath: { category: 'orange', message: 'Acute shortness of breath' },
+  coughing_blood: { category: 'orange', message: 'Coughing blood' },
+  chest_pain: { category: 'orange', message: 'Chest pain' },
+  haemorrhage_uncontrolled: { category: 'orange', message: 'Uncontrolled haemorrhage' },
+  seizure_post_ictal: { category: 'orange', message: 'Post-ictal after a seizure' },
+  focal_neurology: { category: 'orange', message: 'Acute focal neurology' },
+  psychosis_aggression: { category: 'orange', message: 'Aggression or psychosis' },
+  threatened_limb: { category: 'orange', message: 'Threatened limb' },
+  dislocation_large_joint: { category: 'orange', message: 'Dislocation of a larger joint' },
+  fracture_compound: { category: 'orange', message: 'Compound fracture' },
+  burn_major: { category: 'orange', message: 'Burn over 20%, circumferential, electrical or chemical' },
+  poisoning_overdose: { category: 'orange', message: 'Poisoning or overdose' },
+  diabetic_ketonuria: { category: 'orange', message: 'Diabetic with glucose over 11 mmol/L and ketonuria' },
+  vomiting_blood: { category: 'orange', message: 'Vomiting fresh blood' },
+  pregnancy_abdominal: { category: 'orange', message: 'Pregnant with abdominal trauma or pain' },
+  respiratory_distress: { category: 'orange', message: 'Respiratory distress' },
+  severe_pallor: { category: 'orange', message: 'Severe palmar pallor' },
+  restless_irritable_lethargic: { category: 'orange', message: 'Restless, continuously irritable or lethargic' },
+  urgent_referral: { category: 'orange', message: 'Urgent referral' },
+  severe_wasting: { category: 'orange', message: 'Visible severe wasting' },
+  bilateral_oedema: { category: 'orange', message: 'Oedema of both feet' },
+  haemorrhage_controlled: { category: 'yellow', message: 'Controlled haemorrhage' },
+  fracture_closed: { category: 'yellow', message: 'Closed fracture' },
+  burn_other: { category: 'yellow', message: 'Other burn' },
+  abdominal_pain: { category: 'yellow', message: 'Abdominal pain' },
+  vomiting_persistent: { category: 'yellow', message: 'Persistent vomiting' },
+};
+
+export const GCS_RANGES: Record<keyof Omit<ClinicalTypes.GlasgowComaScale, 'total'>, [number, number]> = {
+  eyeOpening: [1, 4],
+  verbalResponse: [1, 5],
+  motorResponse: [1, 6],
+};
+
+// [lowest value of the band, points]; a value scores the points of the highest band it reaches
+const TEWS_BANDS: Record<'respiratoryRate' | 'heartRate' | 'systolic' | 'temperature', Array<[number, number]>> = {
+  respiratoryRate: [[0, 2], [9, 0], [15, 1], [21, 2], [30, 3]],
+  heartRate: [[0, 2], [41, 1], [51, 0], [101, 1], [111, 2], [130, 3]],
+  systolic: [[0, 3], [71, 2], [81, 1], [101, 0], [200, 2]],
+  temperature: [[0, 2], [35, 0], [38.5, 2]],
+};
+
+const MOBILITY_POINTS: Record<ClinicalTypes.Mobility, number> = { walking: 0, with_help: 1, immobile: 2 };
+const ALERTNESS_POINTS: Record<ClinicalTypes.Alertness, number> = { alert: 0, voice: 1, pain: 2, unresponsive: 3 };
+const CONFUSED_POINTS = 1;
+
+export interface TriageInput extends Omit<ClinicalTypes.TriageFindings, 'glasgowComaScale' | 'orientation'> {
+  ageInMonths: number | null;
+  glasgowComaScale?: ClinicalTypes.GlasgowComaScale;
+  orientation?: ClinicalTypes.OrientationAssessment;
+}
+
+export const triageScale = (ageInMonths: number | null): ClinicalTypes.TriageScale =>
+  ageInMonths !== null && ageInMonths < ETAT_MAX_AGE_MONTHS ? 'etat' : 'sats';
+
+export const glasgowComaScale = (
+  scores: Omit<ClinicalTypes.GlasgowComaScale, 'total'>
+): ClinicalTypes.GlasgowComaScale => ({
+  eyeOpening: scores.eyeOpening,
+  verbalResponse: scores.verbalResponse,
+  motorResponse: scores.motorResponse,
+  total: scores.eyeOpening + scores.verbalResponse + scores.motorResponse,
+});
+
+export const orientationAssessment = (
+  answers: Omit<ClinicalTypes.OrientationAssessment, 'score'>
+): ClinicalTypes.OrientationAssessment => ({
+  person: answers.person,
+  place: answers.place,
+  time: answers.time,
+  situation: answers.situation,
+  score: [answers.person, answers.place, answers.time, answers.situation].filter(Boolean).length,
+});
+
+export const isTrauma = (findings: Pick<ClinicalTypes.TriageFindings, 'emergencyType' | 'injuryAssessment'>): boolean =>
+  findings.emergencyType === 'trauma' || findings.injuryAssessment !== undefined;
+
+const bandPoints = (bands: Array<[number, number]>, value: number): number =>
+  bands.reduce((points, [from, score]) => (value >= from ? score : points), 0);
+
+// Triage Early Warning Score; undefined unless every vital sign it needs was taken
+export function tewsScore(input: TriageInput): ClinicalTypes.TEWSScore | undefined {
+  const vitals = input.vitalSigns ?? {};
+  const systolic = vitals.bloodPressure?.systolic;
+
+  if (input.mobility === undefined || vitals.respiratoryRate === undefined || vitals.heartRate === undefined
+    || systolic === undefined || vitals.temperature === undefined) {
+    return undefined;
+  }
+
+  // An alert patient who is disoriented scores as confused
+  const confused = input.alertness === 'alert' && input.orientation !== undefined && input.orientation.score < 4;
+
+  const components = {
+    mobility: MOBILITY_POINTS[input.mobility],
+    respiratoryRate: bandPoints(TEWS_BANDS.respiratoryRate, vitals.respiratoryRate),
+    heartRate: bandPoints(TEWS_BANDS.heartRate, vitals.heartRate),
+    systolic: bandPoints(TEWS_BANDS.systolic, systolic),
+    temperature: bandPoints(TEWS_BANDS.temperature, vitals.temperature),
+    consciousness: confused ? CONFUSED_POINTS : ALERTNESS_POINTS[input.alertness],
+    trauma: isTrauma(input) ? 1 : 0,
+  };
+
+  return { total: Object.values(components).reduce((total, points) => total + points, 0), ...components };
+}
+
+export function tewsCategory(total: number): RankedCategory {
+  if (total >= 7) {
+    return 'red';
+  }
+  if (total >= 5) {
+    return 'orange';
+  }
+
+  return total >= 3 ? 'yellow' : 'green';
+}
+
+// Findings from the vital signs and level of consciousness that set a category on their own
+function vitalSignReasons(input: TriageInput, scale: ClinicalTypes.TriageScale): ClinicalTypes.TriageReason[] {
+  const vitals = input.vitalSigns ?? {};
+  const gcs = input.glasgowComaScale?.total;
+  const reasons: ClinicalTypes.TriageReason[] = [];
+  const add = (code: string, category: RankedCategory, message: string): void => {
+    reasons.push({ code, category, message });
+  };
+
+  const hypoglycaemia = scale === 'etat' ? TRIAGE_THRESHOLDS.childHypoglycaemia : TRIAGE_THRESHOLDS.hypoglycaemia;
+  if (vitals.bloodGlucose !== undefined && vitals.bloodGlucose < hypoglycaemia) {
+    add('hypoglycaemia', 'red', `Blood glucose ${vitals.bloodGlucose} mmol/L is below ${hypoglycaemia}`);
+  } else if (vitals.bloodGlucose !== undefined && vitals.bloodGlucose > TRIAGE_THRESHOLDS.hyperglycaemia) {
+    add(
+      'hyperglycaemia',
+      'yellow',
+      `Blood glucose ${vitals.bloodGlucose} mmol/L is over ${TRIAGE_THRESHOLDS.hyperglycaemia}`
+    );
+  }
+
+  if (vitals.oxygenSaturation !== undefined && vitals.oxygenSaturation < TRIAGE_THRESHOLDS.hypoxaemia) {
+    add('hypoxaemia', 'red', `Oxygen saturation ${vitals.oxygenSaturation}% is below ${TRIAGE_THRESHOLDS.hypoxaemia}%`);
+  }
+
+  if (input.alertness === 'pain' || input.alertness === 'unresponsive'
+    || (gcs !== undefined && gcs <= TRIAGE_THRESHOLDS.comaGcs)) {
+    add('coma', 'red', gcs !== undefined ? `Coma: GCS ${gcs}` : `Coma: responds only to ${input.alertness}`);
+  } else if (input.alertness === 'voice' || (gcs !== undefined && gcs < 15)) {
+    add(
+      'reduced_consciousness',
+      'orange',
+      gcs !== undefined ? `Reduced level of consciousness: GCS ${gcs}` : 'Reduced level of consciousness'
+    );
+  }
+
+  if (vitals.painScore !== undefined && vitals.painScore >= TRIAGE_THRESHOLDS.severePain) {
+    add('severe_pain', 'orange', `Severe pain (${vitals.painScore}/10)`);
+  } else if (scale === 'sats' && vitals.painScore !== undefined && vitals.painScore >= TRIAGE_THRESHOLDS.moderatePain) {
+    add('moderate_pain', 'yellow', `Moderate pain (${vitals.painScore}/10)`);
+  }
+
+  if (scale === 'etat') {
+    if (input.ageInMonths !== null && input.ageInMonths < TRIAGE_THRESHOLDS.tinyInfantMonths) {
+      add('tiny_infant', 'orange', `Tiny infant under ${TRIAGE_THRESHOLDS.tinyInfantMonths} months`);
+    }
+    if (vitals.temperature !== undefined && vitals.temperature >= TRIAGE_THRESHOLDS.veryHighTemperature) {
+      add('very_high_temperature', 'orange', `Very high temperature (${vitals.temperature} °C)`);
+    }
+    if (isTrauma(input)) {
+      add('trauma', 'orange', 'Trauma or other urgent surgical condition');
+    }
+  }
+
+  return reasons;
+}
+
+// The category is the most urgent of the TEWS band (SATS only), the signs and the vital-sign findings
+export function triage(input: TriageInput): Omit<ClinicalTypes.TriageResult, 'targetMinutes'> {
+  const scale = triageScale(input.ageInMonths);
+  const signs = input.signs ?? [];
+
+  if (signs.includes('dead')) {
+    return {
+      scale,
+      category: 'blue',
+      reasons: [{ code: 'dead', category: 'blue', message: EMERGENCY_SIGNS.dead.message }],
+    };
+  }
+
+  const tews = scale === 'sats' ? tewsScore(input) : undefined;
+  const reasons: ClinicalTypes.TriageReason[] = [
+    ...(tews && tewsCategory(tews.total) !== 'green'
+      ? [{ code: 'tews', category: tewsCategory(tews.total), message: `TEWS ${tews.total}` }]
+      : []),
+    ...[...new Set(signs)].map(sign => ({ code: sign, ...EMERGENCY_SIGNS[sign] })),
+    ...vitalSignReasons(input, scale),
+  ].sort((a, b) =>
+    RANKED_CATEGORIES.indexOf(a.category as RankedCategory) - RANKED_CATEGORIES.indexOf(b.category as RankedCategory));
+
+  return {
+    scale,
+    category: reasons[0]?.category ?? 'green',
+    ...(tews && { tews }),
+    reasons,
+  };
+}
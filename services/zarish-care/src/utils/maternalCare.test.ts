@@ -0,0 +1,185 @@
+import {
+  DangerSignInput,
+  addDays,
+  ancSchedule,
+  apgarCategory,
+  assessDangerSigns,
+  contactIndex,
+  estimatedDueDate,
+  gestationalAge,
+  nextContactDate,
+  pncSchedule,
+  settleSchedule,
+} from './maternalCare';
+
+const lmp = new Date(2024, 0, 1);
+const day = (offset: number, from = lmp): Date => addDays(from, offset);
+
+describe('gestationalAge', () => {
+  it('counts completed weeks and days from the LMP, ignoring the time of day', () => {
+    expect(gestationalAge(lmp, new Date(2024, 2, 11, 23, 30))).toEqual({ weeks: 10, days: 0, totalDays: 70 });
+    expect(gestationalAge(lmp, new Date(2024, 2, 14))).toEqual({ weeks: 10, days: 3, totalDays: 73 });
+  });
+});
+
+describe('estimatedDueDate', () => {
+  it('is 280 days after the LMP', () => {
+    const edd = estimatedDueDate(lmp);
+    expect([edd.getFullYear(), edd.getMonth(), edd.getDate()]).toEqual([2024, 9, 7]);
+  });
+});
+
+describe('contactIndex', () => {
+  const targets = [84, 140, 182];
+
+  it('assigns a visit to the first contact whose target it does not pass', () => {
+    expect(contactIndex(targets, 0)).toBe(0);
+    expect(contactIndex(targets, 84)).toBe(0);
+    expect(contactIndex(targets, 85)).toBe(1);
+    expect(contactIndex(targets, 182)).toBe(2);
+  });
+
+  it('assigns any later visit to the last contact', () => {
+    expect(contactIndex(targets, 300)).toBe(2);
+  });
+});
+
+describe('ancSchedule', () => {
+  // Visits at 10 and 11 weeks (both in the first contact's window) and at 21 weeks 3 days; seen at 28 weeks 4 days
+  const contacts = ancSchedule(
+    lmp,
+    [{ id: 'third', date: day(150) }, { id: 'second', date: day(80) }, { id: 'first', date: day(70) }],
+    day(200)
+  );
+
+  it('lays out the eight WHO contacts', () => {
+    expect(contacts.map(contact => contact.targetWeek)).toEqual([12, 20, 26, 30, 34, 36, 38, 40]);
+    expect(contacts.map(contact => contact.contactNumber)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(contacts[0]!.dueDate).toEqual(day(84));
+  });
+
+  it('credits the first visit in each window and tracks the rest by date', () => {
+    expect(contacts.map(contact => [contact.status, contact.visitId])).toEqual([
+      ['completed', 'first'],
+      ['missed', undefined],
+      ['completed', 'third'],
+      ['due', undefined],
+      ['upcoming', undefined],
+      ['upcoming', undefined],
+      ['upcoming', undefined],
+      ['upcoming', undefined],
+    ]);
+  });
+
+  it('counts a visit after 40 weeks towards the last contact', () => {
+    const late = ancSchedule(lmp, [{ id: 'late', date: day(290) }], day(290));
+    expect(late[7]).toMatchObject({ status: 'completed', visitId: 'late' });
+    expect(late.slice(0, 7).every(contact => contact.status === 'missed')).toBe(true);
+  });
+
+  it('gives the next contact date as the first contact still to be made', () => {
+    expect(nextContactDate(contacts)).toEqual(day(30 * 7));
+  });
+
+  it('settles a schedule by dropping upcoming contacts and missing the due one', () => {
+    expect(settleSchedule(contacts).map(contact => contact.status))
+      .toEqual(['completed', 'missed', 'completed', 'missed']);
+  });
+});
+
+describe('pncSchedule', () => {
+  it('tracks the four WHO postnatal contacts from the delivery date', () => {
+    const delivery = new Date(2024, 9, 5);
+    const contacts = pncSchedule(delivery, [{ id: 'birth', date: delivery }], day(5, delivery));
+
+    expect(contacts.map(contact => [contact.targetDay, contact.status])).toEqual([
+      [1, 'completed'],
+      [3, 'missed'],
+      [14, 'due'],
+      [42, 'upcoming'],
+    ]);
+  });
+});
+
+describe('assessDangerSigns', () => {
+  const antenatal = (overrides: Partial<DangerSignInput> = {}): DangerSignInput => ({
+    stage: 'antenatal',
+    gestationalAgeWeeks: 32,
+    symptoms: [],
+    ...overrides,
+  });
+  const codes = (input: DangerSignInput): string[] => assessDangerSigns(input).map(sign => sign.code);
+
+  it('finds nothing in a normal visit', () => {
+    expect(assessDangerSigns(antenatal({ bloodPressure: { systolic: 118, diastolic: 76 }, hemoglobin: 12 })))
+      .toEqual([]);
+  });
+
+  it.each([
+    ['gestational hypertension', { bloodPressure: { systolic: 150, diastolic: 95 } }, 'gestational_hypertension'],
+    ['pre-eclampsia', { bloodPressure: { systolic: 150, diastolic: 95 }, proteinuria: '2+' }, 'pre_eclampsia'],
+    [
+      'severe hypertension',
+      { bloodPressure: { systolic: 165, diastolic: 100 }, proteinuria: '1+' },
+      'severe_hypertension',
+    ],
+    [
+      'severe pre-eclampsia',
+      { bloodPressure: { systolic: 145, diastolic: 92 }, symptoms: ['severe_headache'] },
+      'severe_pre_eclampsia',
+    ],
+    ['eclampsia', { bloodPressure: { systolic: 150, diastolic: 95 }, symptoms: ['convulsions'] }, 'eclampsia'],
+    [
+      'chronic hypertension before 20 weeks',
+      { gestationalAgeWeeks: 16, bloodPressure: { systolic: 150, diastolic: 95 }, proteinuria: '2+' },
+      'chronic_hypertension',
+    ],
+  ] as Array<[string, Partial<DangerSignInput>, string]>)('classifies %s', (_, overrides, code) => {
+    expect(codes(antenatal(overrides))).toEqual([code]);
+  });
+
+  it('asks for a BP check when a normotensive woman has pre-eclampsia symptoms', () => {
+    expect(codes(antenatal({ bloodPressure: { systolic: 120, diastolic: 80 }, symptoms: ['blurred_vision'] })))
+      .toEqual(['pre_eclampsia_symptoms']);
+  });
+
+  it.each([[6.5, 'severe_anaemia'], [9.5, 'moderate_anaemia'], [10.5, 'mild_anaemia']])(
+    'grades Hb %d g/dL as %s',
+    (hemoglobin, code) => {
+      expect(codes(antenatal({ hemoglobin }))).toEqual([code]);
+    }
+  );
+
+  it('tells antepartum from postpartum haemorrhage', () => {
+    expect(codes(antenatal({ symptoms: ['vaginal_bleeding'] }))).toEqual(['antepartum_haemorrhage']);
+    expect(codes({ stage: 'postnatal', symptoms: ['vaginal_bleeding'] })).toEqual([]);
+    expect(codes({ stage: 'postnatal', symptoms: ['heavy_bleeding'] })).toEqual(['postpartum_haemorrhage']);
+  });
+
+  it('treats postnatal fever with foul discharge as puerperal sepsis', () => {
+    expect(codes({ stage: 'postnatal', temperature: 38.4, symptoms: ['foul_discharge'] }))
+      .toEqual(['puerperal_sepsis']);
+    expect(codes({ stage: 'postnatal', temperature: 38.4, symptoms: [] })).toEqual(['fever']);
+  });
+
+  it('only raises stage-specific symptoms in their stage', () => {
+    expect(codes(antenatal({ symptoms: ['reduced_fetal_movement'] }))).toEqual(['reduced_fetal_movement']);
+    expect(codes({ stage: 'postnatal', symptoms: ['reduced_fetal_movement'] })).toEqual([]);
+  });
+});
+
+describe('apgarCategory', () => {
+  it.each([
+    [10, 'normal'],
+    [7, 'normal'],
+    [6, 'moderately_abnormal'],
+    [4, 'moderately_abnormal'],
+    [3, 'low'],
+    [0, 'low'],
+  ])(
+    'puts a 5-minute score of %i in %s',
+    (score, category) => {
+      expect(apgarCategory(score)).toBe(category);
+    }
+  );
+});
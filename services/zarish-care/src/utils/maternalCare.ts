@@ -0,0 +1,316 @@
+import { PatientTypes } from '@zarishhealthcare/shared-types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Naegele's rule: 280 days from the first day of the last menstrual period
+export const PREGNANCY_DAYS = 280;
+
+export const PRETERM_DAYS = 37 * 7;
+
+// WHO ANC model (2016): eight contacts, by completed week of gestation
+export const ANC_CONTACT_WEEKS = [12, 20, 26, 30, 34, 36, 38, 40];
+
+// WHO postnatal contacts: within 24 hours, day 3, days 7-14 and six weeks after birth
+export const PNC_CONTACT_DAYS = [1, 3, 14, 42];
+
+export const MATERNAL_THRESHOLDS = {
+  hypertension: { systolic: 140, diastolic: 90 },
+  severeHypertension: { systolic: 160, diastolic: 110 },
+  // Haemoglobin in g/dL; the WHO pregnancy cut-offs are also applied after delivery
+  anaemia: 11,
+  moderateAnaemia: 10,
+  severeAnaemia: 7,
+  fever: 38,
+  lowBirthWeight: 2500,
+};
+
+export const DANGER_SYMPTOMS: PatientTypes.MaternalDangerSymptom[] = [
+  'vaginal_bleeding',
+  'heavy_bleeding',
+  'convulsions',
+  'severe_headache',
+  'blurred_vision',
+  'epigastric_pain',
+  'severe_abdominal_pain',
+  'breathing_difficulty',
+  'fever',
+  'foul_discharge',
+  'reduced_fetal_movement',
+  'leaking_fluid',
+  'swelling_face_hands',
+];
+
+// Symptoms that also point to pre-eclampsia in a hypertensive woman
+const SEVERE_FEATURES: PatientTypes.MaternalDangerSymptom[] = ['severe_headache', 'blurred_vision', 'epigastric_pain'];
+
+const SIGNIFICANT_PROTEINURIA: PatientTypes.Proteinuria[] = ['2+', '3+', '4+'];
+
+type Stage = 'antenatal' | 'postnatal';
+
+// Symptoms that are a danger sign on their own, by stage
+const SYMPTOM_SIGNS: Array<{
+  symptom: PatientTypes.MaternalDangerSymptom;
+  stages: Stage[];
+  sign: PatientTypes.MaternalDangerSign;
+}> = [
+  {
+    symptom: 'severe_abdominal_pain',
+    stages: ['antenatal', 'postnatal'],
+    sign: { code: 'severe_abdominal_pain', severity: 'urgent', message: 'Severe abdominal pain' },
+  },
+  {
+    symptom: 'breathing_difficulty',
+    stages: ['antenatal', 'postnatal'],
+    sign: { code: 'breathing_difficulty', severity: 'urgent', message: 'Difficulty breathing' },
+  },
+  {
+    symptom: 'reduced_fetal_movement',
+    stages: ['antenatal'],
+    sign: { code: 'reduced_fetal_movement', severity: 'urgent', message: 'Reduced or absent fetal movement' },
+  },
+  {
+    symptom: 'leaking_fluid',
+    stages: ['antenatal'],
+    sign: { code: 'ruptured_membranes', severity: 'urgent', message: 'Leaking fluid: possible ruptured membranes' },
+  },
+  {
+    symptom: 'swelling_face_hands',
+    stages: ['antenatal', 'postnatal'],
+    sign: { code: 'oedema', severity: 'warning', message: 'Swelling of face or hands; check BP and urine protein' },
+  },
+];
+
+export interface DangerSignInput {
+  stage: Stage;
+  gestationalAgeWeeks?: number;
+  bloodPressure?: { systolic: number; diastolic: number };
+  proteinuria?: PatientTypes.Proteinuria;
+  hemoglobin?: number;
+  temperature?: number;
+  symptoms: PatientTypes.MaternalDangerSymptom[];
+}
+
+// Whole days from `from` to `to`, counted on calendar dates so the time of day does not matter
+export function daysBetween(from: Date, to: Date): number {
+  const start = Date.UTC(from.getFullYear(), from.getMonth(), from.getDate());
+  const end = Date.UTC(to.getFullYear(), to.getMonth(), to.getDate());
+  return Math.round((end - start) / DAY_MS);
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+export const gestationalAgeFromDays = (totalDays: number): PatientTypes.GestationalAge => ({
+  weeks: Math.floor(totalDays / 7),
+  days: totalDays % 7,
+  totalDays,
+});
+
+export const gestationalAge = (lmp: Date, on: Date): PatientTypes.GestationalAge =>
+  gestationalAgeFromDays(daysBetween(lmp, on));
+
+export const estimatedDueDate = (lmp: Date): Date => addDays(lmp, PREGNANCY_DAYS);
+
+export const lmpFromDueDate = (edd: Date): Date => addDays(edd, -PREGNANCY_DAYS);
+
+interface ScheduledContact {
+  contactNumber: number;
+  target: number;
+  dueDate: Date;
+  status: PatientTypes.ANCContact['status'];
+  visitId?: string;
+}
+
+// Contact n is made by a visit after contact n-1's target day and by its own; the last contact takes
+// any later visit too. Only the first visit in a window counts.
+export function contactIndex(targets: number[], offsetDays: number): number {
+  const index = targets.findIndex(target => offsetDays <= target);
+  return index === -1 ? targets.length - 1 : index;
+}
+
+function schedule(
+  targets: number[],
+  start: Date,
+  visits: Array<{ id: string; date: Date }>,
+  today: Date
+): ScheduledContact[] {
+  const made = new Map<number, string>();
+  const sorted = [...visits].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  for (const visit of sorted) {
+    const index = contactIndex(targets, daysBetween(start, visit.date));
+    if (!made.has(index)) {
+      made.set(index, visit.id);
+    }
+  }
+
+  const now = daysBetween(start, today);
+
+  return targets.map((target, index) => {
+    const opens = index === 0 ? -Infinity : targets[index - 1]!;
+    const closes = index === targets.length - 1 ? Infinity : target;
+    const visitId = made.get(index);
+    const status: ScheduledContact['status'] = visitId
+      ? 'completed'
+      : now > closes ? 'missed' : now > opens ? 'due' : 'upcoming';
+
+    return {
+      contactNumber: index + 1,
+      target,
+      dueDate: addDays(start, target),
+      status,
+      ...(visitId && { visitId }),
+    };
+  });
+}
+
+export function ancSchedule(
+  lmp: Date,
+  visits: Array<{ id: string; date: Date }>,
+  today: Date
+): PatientTypes.ANCContact[] {
+  return schedule(ANC_CONTACT_WEEKS.map(week => week * 7), lmp, visits, today)
+    .map(({ target, ...contact }) => ({ ...contact, targetWeek: target / 7 }));
+}
+
+export function pncSchedule(
+  deliveryDate: Date,
+  visits: Array<{ id: string; date: Date }>,
+  today: Date
+): PatientTypes.PNCContact[] {
+  return schedule(PNC_CONTACT_DAYS, deliveryDate, visits, today)
+    .map(({ target, ...contact }) => ({ ...contact, targetDay: target }));
+}
+
+// A schedule as it stood when the pregnancy or postnatal period ended: contacts never reached
+// are dropped and the one that was due counts as missed
+export function settleSchedule<T extends { status: PatientTypes.ANCContact['status'] }>(contacts: T[]): T[] {
+  return contacts
+    .filter(contact => contact.status !== 'upcoming')
+    .map(contact => (contact.status === 'due' ? { ...contact, status: 'missed' } : contact));
+}
+
+// The due date of the first contact still to be made, if any
+export function nextContactDate(contacts: Array<{ status: string; dueDate: Date }>): Date | undefined {
+  return contacts.find(contact => contact.status === 'due' || contact.status === 'upcoming')?.dueDate;
+}
+
+function hypertensiveSigns(input: DangerSignInput): PatientTypes.MaternalDangerSign[] {
+  const { bloodPressure, symptoms } = input;
+  const convulsions = symptoms.includes('convulsions');
+
+  if (!bloodPressure) {
+    return convulsions
+      ? [{ code: 'convulsions', severity: 'urgent', message: 'Convulsions: treat as eclampsia until proven otherwise' }]
+      : [];
+  }
+
+  const { hypertension, severeHypertension } = MATERNAL_THRESHOLDS;
+  const { systolic, diastolic } = bloodPressure;
+  const reading = `BP ${systolic}/${diastolic} mmHg`;
+  const hypertensive = systolic >= hypertension.systolic || diastolic >= hypertension.diastolic;
+  const severe = systolic >= severeHypertension.systolic || diastolic >= severeHypertension.diastolic;
+
+  if (convulsions) {
+    return [{ code: 'eclampsia', severity: 'urgent', message: `Convulsions with ${reading}: eclampsia` }];
+  }
+
+  if (!hypertensive) {
+    return [];
+  }
+
+  // Hypertension before 20 weeks predates the pregnancy and is not pre-eclampsia
+  if (input.stage === 'antenatal' && (input.gestationalAgeWeeks ?? 0) < 20) {
+    return [severe
+      ? { code: 'severe_hypertension', severity: 'urgent', message: `${reading}: severe hypertension` }
+      : { code: 'chronic_hypertension', severity: 'warning', message: `${reading} before 20 weeks` }];
+  }
+
+  const proteinuria = input.proteinuria !== undefined && SIGNIFICANT_PROTEINURIA.includes(input.proteinuria);
+  const severeFeatures = symptoms.filter(symptom => SEVERE_FEATURES.includes(symptom));
+
+  // Severe-range BP or symptoms of end-organ involvement make it severe pre-eclampsia
+  if (proteinuria || severeFeatures.length > 0) {
+    const severePreEclampsia = severe || severeFeatures.length > 0;
+    const findings = [...(proteinuria ? [`proteinuria ${input.proteinuria}`] : []), ...severeFeatures];
+
+    return [{
+      code: severePreEclampsia ? 'severe_pre_eclampsia' : 'pre_eclampsia',
+      severity: 'urgent',
+      message: `${reading} with ${findings.join(', ')}: ${severePreEclampsia ? 'severe ' : ''}pre-eclampsia`,
+    }];
+  }
+
+  return [severe
+    ? { code: 'severe_hypertension', severity: 'urgent', message: `${reading}: severe hypertension` }
+    : {
+      code: 'gestational_hypertension',
+      severity: 'warning',
+      message: `${reading} without significant proteinuria: gestational hypertension`,
+    }];
+}
+
+// Danger signs from the readings and reported symptoms of an antenatal or postnatal visit
+export function assessDangerSigns(input: DangerSignInput): PatientTypes.MaternalDangerSign[] {
+  const { symptoms } = input;
+  const signs = hypertensiveSigns(input);
+  const hypertensive = signs.some(sign => sign.code.endsWith('eclampsia') || sign.code.endsWith('hypertension'));
+
+  // Pre-eclampsia symptoms in a normotensive woman still call for a BP and urine check
+  const severeFeatures = symptoms.filter(symptom => SEVERE_FEATURES.includes(symptom));
+  if (!hypertensive && severeFeatures.length > 0) {
+    signs.push({
+      code: 'pre_eclampsia_symptoms',
+      severity: 'warning',
+      message: `${severeFeatures.join(', ')}: recheck BP and urine protein`,
+    });
+  }
+
+  const { anaemia, moderateAnaemia, severeAnaemia } = MATERNAL_THRESHOLDS;
+  const hb = input.hemoglobin;
+  if (hb !== undefined && hb < anaemia) {
+    signs.push(hb < severeAnaemia
+      ? { code: 'severe_anaemia', severity: 'urgent', message: `Hb ${hb} g/dL: severe anaemia` }
+      : {
+        code: hb < moderateAnaemia ? 'moderate_anaemia' : 'mild_anaemia',
+        severity: 'warning',
+        message: `Hb ${hb} g/dL: ${hb < moderateAnaemia ? 'moderate' : 'mild'} anaemia`,
+      });
+  }
+
+  if (input.stage === 'antenatal' && (symptoms.includes('vaginal_bleeding') || symptoms.includes('heavy_bleeding'))) {
+    signs.push({ code: 'antepartum_haemorrhage', severity: 'urgent', message: 'Vaginal bleeding in pregnancy' });
+  }
+
+  if (input.stage === 'postnatal' && symptoms.includes('heavy_bleeding')) {
+    signs.push({ code: 'postpartum_haemorrhage', severity: 'urgent', message: 'Heavy bleeding after delivery' });
+  }
+
+  const fever = symptoms.includes('fever')
+    || (input.temperature !== undefined && input.temperature >= MATERNAL_THRESHOLDS.fever);
+  if (input.stage === 'postnatal' && fever && symptoms.includes('foul_discharge')) {
+    signs.push({ code: 'puerperal_sepsis', severity: 'urgent', message: 'Fever with foul-smelling discharge' });
+  } else if (fever) {
+    signs.push({
+      code: 'fever',
+      severity: 'warning',
+      message: input.temperature !== undefined ? `Temperature ${input.temperature} °C` : 'Fever',
+    });
+  } else if (input.stage === 'postnatal' && symptoms.includes('foul_discharge')) {
+    signs.push({ code: 'foul_discharge', severity: 'warning', message: 'Foul-smelling vaginal discharge' });
+  }
+
+  for (const { symptom, stages, sign } of SYMPTOM_SIGNS) {
+    if (symptoms.includes(symptom) && stages.includes(input.stage)) {
+      signs.push(sign);
+    }
+  }
+
+  return signs;
+}
+
+// 5-minute APGAR: 7-10 normal, 4-6 moderately abnormal, 0-3 low
+export function apgarCategory(fiveMinute: number): NonNullable<PatientTypes.NewbornOutcome['apgarCategory']> {
+  return fiveMinute >= 7 ? 'normal' : fiveMinute >= 4 ? 'moderately_abnormal' : 'low';
+}
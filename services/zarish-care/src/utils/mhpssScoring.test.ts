@@ -0,0 +1,135 @@
+import { PatientTypes } from '@zarishhealthcare/shared-types';
+import { deriveRiskLevel, higherRisk, scoreAssessment, validateAssessment } from './mhpssScoring';
+
+// Item scores that add up to `total`, filling items from the first one up to `max` each
+const responsesTotalling = (total: number, items: number, max: number): number[] =>
+  Array.from({ length: items }, (_, index) => Math.max(0, Math.min(max, total - index * max)));
+
+const noRisk: PatientTypes.MHGapSuicideScreen = {
+  medicallySeriousAct: false,
+  currentThoughtsOrPlan: false,
+  thoughtsOrPlanPastMonth: false,
+  actPastYear: false,
+  severeDistress: false,
+};
+
+describe('validateAssessment', () => {
+  it('accepts a complete questionnaire', () => {
+    expect(validateAssessment({ tool: 'phq9', responses: responsesTotalling(5, 9, 3) }, 'assessments[0]')).toEqual([]);
+  });
+
+  it('rejects an unknown tool', () => {
+    const errors = validateAssessment({ tool: 'k10', responses: [] } as unknown as PatientTypes.MHAssessmentInput, 'a');
+    expect(errors).toEqual([expect.objectContaining({ field: 'a.tool', code: 'INVALID_VALUE' })]);
+  });
+
+  it.each([
+    ['the wrong number of items', { tool: 'gad7', responses: [0, 0, 0] }],
+    ['an item above the maximum', { tool: 'gad7', responses: [4, 0, 0, 0, 0, 0, 0] }],
+    ['a fractional item', { tool: 'whodas12', responses: [1.5, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0] }],
+  ])('rejects %s', (_, input) => {
+    const errors = validateAssessment(input as PatientTypes.MHAssessmentInput, 'a');
+    expect(errors).toEqual([expect.objectContaining({ field: 'a.responses', code: 'INVALID_VALUE' })]);
+  });
+
+  it('requires a yes/no answer to every mhGAP question', () => {
+    const { severeDistress: _, ...partial } = noRisk;
+    const errors = validateAssessment(
+      { tool: 'mhgap_suicide', responses: partial as PatientTypes.MHGapSuicideScreen },
+      'a'
+    );
+    expect(errors).toEqual([expect.objectContaining({ code: 'REQUIRED_FIELD' })]);
+    expect(errors[0]!.message).toContain('severeDistress');
+  });
+});
+
+describe('scoreAssessment', () => {
+  describe('PHQ-9', () => {
+    it.each([
+      [4, 'minimal', 'low'],
+      [5, 'mild', 'low'],
+      [10, 'moderate', 'moderate'],
+      [15, 'moderately_severe', 'moderate'],
+      [20, 'severe', 'high'],
+    ])('bands a score of %i as %s with %s risk', (total, severity, riskLevel) => {
+      // Item 9 is left at 0, so the total alone sets the risk
+      const result = scoreAssessment({ tool: 'phq9', responses: responsesTotalling(total, 9, 3) });
+      expect(result).toMatchObject({ score: total, maxScore: 27, severity, riskLevel });
+    });
+
+    it('treats any thought of self-harm on item 9 as high risk', () => {
+      const result = scoreAssessment({ tool: 'phq9', responses: [0, 0, 0, 0, 0, 0, 0, 0, 1] });
+      expect(result).toMatchObject({ score: 1, severity: 'minimal', riskLevel: 'high' });
+      expect(result.riskReasons).toContain('PHQ-9 item 9: thoughts of death or self-harm');
+    });
+  });
+
+  describe('GAD-7', () => {
+    it.each([
+      [0, 'minimal', 'low'],
+      [9, 'mild', 'low'],
+      [10, 'moderate', 'moderate'],
+      [15, 'severe', 'high'],
+      [21, 'severe', 'high'],
+    ])('bands a score of %i as %s with %s risk', (total, severity, riskLevel) => {
+      const result = scoreAssessment({ tool: 'gad7', responses: responsesTotalling(total, 7, 3) });
+      expect(result).toMatchObject({ score: total, maxScore: 21, severity, riskLevel });
+    });
+  });
+
+  describe('WHODAS 2.0', () => {
+    it.each([
+      [2, 4, 'none', 'low'],
+      [3, 6, 'mild', 'low'],
+      [12, 25, 'moderate', 'moderate'],
+      [24, 50, 'severe', 'high'],
+      [46, 96, 'complete', 'high'],
+    ])('reports a score of %i as %i%% (%s, %s risk)', (total, percentage, severity, riskLevel) => {
+      const result = scoreAssessment({ tool: 'whodas12', responses: responsesTotalling(total, 12, 4) });
+      expect(result).toMatchObject({ score: total, maxScore: 48, percentage, severity, riskLevel });
+    });
+  });
+
+  describe('mhGAP suicide screen', () => {
+    it('finds no risk when every answer is no', () => {
+      expect(scoreAssessment({ tool: 'mhgap_suicide', responses: noRisk }))
+        .toMatchObject({ severity: 'no_risk', riskLevel: 'low', riskReasons: [] });
+    });
+
+    it('flags recent thoughts without severe distress as risk', () => {
+      expect(scoreAssessment({ tool: 'mhgap_suicide', responses: { ...noRisk, actPastYear: true } }))
+        .toMatchObject({ severity: 'risk', riskLevel: 'high' });
+    });
+
+    it.each([
+      ['a medically serious act', { medicallySeriousAct: true }],
+      ['current thoughts or plan', { currentThoughtsOrPlan: true }],
+      ['recent thoughts with severe distress', { thoughtsOrPlanPastMonth: true, severeDistress: true }],
+    ])('flags %s as imminent risk', (_, answers) => {
+      expect(scoreAssessment({ tool: 'mhgap_suicide', responses: { ...noRisk, ...answers } }))
+        .toMatchObject({ severity: 'imminent_risk', riskLevel: 'crisis' });
+    });
+  });
+});
+
+describe('deriveRiskLevel', () => {
+  const results = [
+    scoreAssessment({ tool: 'gad7', responses: responsesTotalling(10, 7, 3) }),
+    scoreAssessment({ tool: 'phq9', responses: responsesTotalling(4, 9, 3) }),
+  ];
+
+  it('takes the highest risk among the results', () => {
+    expect(deriveRiskLevel(results)).toBe('moderate');
+    expect(deriveRiskLevel([])).toBe('low');
+  });
+
+  it('lets clinical judgement raise the level but not lower it', () => {
+    expect(deriveRiskLevel(results, 'crisis')).toBe('crisis');
+    expect(deriveRiskLevel(results, 'low')).toBe('moderate');
+  });
+
+  it('orders risk levels low < moderate < high < crisis', () => {
+    expect(higherRisk('high', 'moderate')).toBe('high');
+    expect(higherRisk('moderate', 'crisis')).toBe('crisis');
+  });
+});
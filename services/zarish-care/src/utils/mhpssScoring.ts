@@ -0,0 +1,188 @@
+import { PatientTypes } from '@zarishhealthcare/shared-types';
+import { FieldError } from './patientValidation';
+
+export const MH_RISK_LEVELS: PatientTypes.MHRiskLevel[] = ['low', 'moderate', 'high', 'crisis'];
+
+type Questionnaire = Exclude<PatientTypes.MHAssessmentTool, 'mhgap_suicide'>;
+
+// Item count and the highest answer per item for each questionnaire
+const QUESTIONNAIRES: Record<Questionnaire, { items: number; max: number }> = {
+  phq9: { items: 9, max: 3 },
+  gad7: { items: 7, max: 3 },
+  whodas12: { items: 12, max: 4 },
+};
+
+export const MH_ASSESSMENT_TOOLS = [...Object.keys(QUESTIONNAIRES), 'mhgap_suicide'] as PatientTypes.MHAssessmentTool[];
+
+const MHGAP_QUESTIONS: (keyof PatientTypes.MHGapSuicideScreen)[] = [
+  'medicallySeriousAct',
+  'currentThoughtsOrPlan',
+  'thoughtsOrPlanPastMonth',
+  'actPastYear',
+  'severeDistress',
+];
+
+// PHQ-9 item 9 asks about thoughts of being better off dead or of self-harm
+const PHQ9_SELF_HARM_ITEM = 8;
+
+export const higherRisk = (a: PatientTypes.MHRiskLevel, b: PatientTypes.MHRiskLevel): PatientTypes.MHRiskLevel =>
+  MH_RISK_LEVELS.indexOf(a) >= MH_RISK_LEVELS.indexOf(b) ? a : b;
+
+const sum = (values: number[]): number => values.reduce((total, value) => total + value, 0);
+
+export function validateAssessment(input: PatientTypes.MHAssessmentInput, field: string): FieldError[] {
+  if (!MH_ASSESSMENT_TOOLS.includes(input?.tool)) {
+    return [{
+      field: `${field}.tool`,
+      message: `tool must be one of: ${MH_ASSESSMENT_TOOLS.join(', ')}`,
+      code: 'INVALID_VALUE',
+      value: input?.tool,
+    }];
+  }
+
+  if (input.tool === 'mhgap_suicide') {
+    const missing = MHGAP_QUESTIONS.filter(question => typeof input.responses?.[question] !== 'boolean');
+    return missing.length > 0
+      ? [{
+        field: `${field}.responses`,
+        message: `mhGAP screen needs a yes/no answer for: ${missing.join(', ')}`,
+        code: 'REQUIRED_FIELD',
+      }]
+      : [];
+  }
+
+  const { items, max } = QUESTIONNAIRES[input.tool];
+  const responses = input.responses;
+  const valid = Array.isArray(responses) && responses.length === items
+    && responses.every(response => Number.isInteger(response) && response >= 0 && response <= max);
+
+  return valid
+    ? []
+    : [{
+      field: `${field}.responses`,
+      message: `${input.tool} needs ${items} item scores from 0 to ${max}`,
+      code: 'INVALID_VALUE',
+      value: responses,
+    }];
+}
+
+// PHQ-9 bands: 0-4 minimal, 5-9 mild, 10-14 moderate, 15-19 moderately severe, 20-27 severe.
+// Any thought of self-harm on item 9 is high risk whatever the total.
+function scorePhq9(responses: number[]): Omit<PatientTypes.MHAssessmentResult, 'tool' | 'responses'> {
+  const score = sum(responses);
+  const severity: PatientTypes.MHSeverity = score >= 20 ? 'severe'
+    : score >= 15 ? 'moderately_severe'
+      : score >= 10 ? 'moderate'
+        : score >= 5 ? 'mild' : 'minimal';
+  const riskReasons: string[] = [];
+  let riskLevel: PatientTypes.MHRiskLevel = score >= 10 ? 'moderate' : 'low';
+
+  if (score >= 20) {
+    riskLevel = 'high';
+    riskReasons.push(`PHQ-9 score ${score}: severe depression`);
+  } else if (score >= 10) {
+    riskReasons.push(`PHQ-9 score ${score}: ${severity.replace('_', ' ')} depression`);
+  }
+
+  if (responses[PHQ9_SELF_HARM_ITEM]! > 0) {
+    riskLevel = 'high';
+    riskReasons.push('PHQ-9 item 9: thoughts of death or self-harm');
+  }
+
+  return { score, maxScore: 27, severity, riskLevel, riskReasons };
+}
+
+// GAD-7 bands: 0-4 minimal, 5-9 mild, 10-14 moderate, 15-21 severe
+function scoreGad7(responses: number[]): Omit<PatientTypes.MHAssessmentResult, 'tool' | 'responses'> {
+  const score = sum(responses);
+  const severity: PatientTypes.MHSeverity = score >= 15 ? 'severe'
+    : score >= 10 ? 'moderate'
+      : score >= 5 ? 'mild' : 'minimal';
+  const riskLevel: PatientTypes.MHRiskLevel = score >= 15 ? 'high' : score >= 10 ? 'moderate' : 'low';
+
+  return {
+    score,
+    maxScore: 21,
+    severity,
+    riskLevel,
+    riskReasons: score >= 10 ? [`GAD-7 score ${score}: ${severity} anxiety`] : [],
+  };
+}
+
+// WHODAS 2.0 12-item simple score as a percentage of the maximum, banded by the ICF qualifiers:
+// 0-4 none, 5-24 mild, 25-49 moderate, 50-95 severe, 96-100 complete difficulty
+function scoreWhodas(responses: number[]): Omit<PatientTypes.MHAssessmentResult, 'tool' | 'responses'> {
+  const score = sum(responses);
+  const percentage = Math.round((score / 48) * 100);
+  const severity: PatientTypes.MHSeverity = percentage >= 96 ? 'complete'
+    : percentage >= 50 ? 'severe'
+      : percentage >= 25 ? 'moderate'
+        : percentage >= 5 ? 'mild' : 'none';
+  const riskLevel: PatientTypes.MHRiskLevel = percentage >= 50 ? 'high' : percentage >= 25 ? 'moderate' : 'low';
+
+  return {
+    score,
+    maxScore: 48,
+    percentage,
+    severity,
+    riskLevel,
+    riskReasons: percentage >= 25 ? [`WHODAS ${percentage}%: ${severity} disability`] : [],
+  };
+}
+
+// mhGAP SUI module: imminent risk with a medically serious act, current thoughts or plan, or recent
+// thoughts, plans or acts in a person now severely distressed; otherwise recent ones are a risk to follow up
+function scoreMhGap(
+  screen: PatientTypes.MHGapSuicideScreen
+): Omit<PatientTypes.MHAssessmentResult, 'tool' | 'responses'> {
+  const recent = screen.thoughtsOrPlanPastMonth || screen.actPastYear;
+  const riskReasons: string[] = [];
+
+  if (screen.medicallySeriousAct) {
+    riskReasons.push('Medically serious act of self-harm');
+  }
+  if (screen.currentThoughtsOrPlan) {
+    riskReasons.push('Current thoughts or plan of self-harm or suicide');
+  }
+  if (recent && screen.severeDistress) {
+    riskReasons.push('Recent thoughts, plan or act of self-harm with severe distress');
+  }
+
+  if (riskReasons.length > 0) {
+    return { severity: 'imminent_risk', riskLevel: 'crisis', riskReasons };
+  }
+
+  if (recent) {
+    return {
+      severity: 'risk',
+      riskLevel: 'high',
+      riskReasons: ['Thoughts or plan of self-harm in the past month, or an act in the past year'],
+    };
+  }
+
+  return { severity: 'no_risk', riskLevel: 'low', riskReasons: [] };
+}
+
+export function scoreAssessment(input: PatientTypes.MHAssessmentInput): PatientTypes.MHAssessmentResult {
+  switch (input.tool) {
+    case 'phq9':
+      return { ...input, ...scorePhq9(input.responses) };
+    case 'gad7':
+      return { ...input, ...scoreGad7(input.responses) };
+    case 'whodas12':
+      return { ...input, ...scoreWhodas(input.responses) };
+    case 'mhgap_suicide':
+      return { ...input, ...scoreMhGap(input.responses) };
+  }
+}
+
+// The highest risk among the results; a clinician's judgement can raise it but not lower it
+export function deriveRiskLevel(
+  results: PatientTypes.MHAssessmentResult[],
+  clinicalJudgement?: PatientTypes.MHRiskLevel
+): PatientTypes.MHRiskLevel {
+  return results.reduce<PatientTypes.MHRiskLevel>(
+    (level, result) => higherRisk(level, result.riskLevel),
+    clinicalJudgement || 'low'
+  );
+}
@@ -0,0 +1,121 @@
+import { PatientTypes } from '@zarishhealthcare/shared-types';
+
+// Format tokens: {FACILITY} facility code, {YYYY}/{YY} allocation year,
+// {COUNTER} zero-padded sequence value, {CHECK} check character
+const TOKEN_PATTERN = /\{(FACILITY|YYYY|YY|COUNTER|CHECK)\}/g;
+
+// Luhn mod N alphabet (N = 36): check characters cover MRNs with letters in the facility prefix
+const CODE_POINTS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+export interface ParsedMRN {
+  facilityCode: string;
+  year: number | null;
+  counter: number;
+}
+
+export function usesYear(format: PatientTypes.MrnFormat): boolean {
+  return /\{YYYY\}|\{YY\}/.test(format.pattern);
+}
+
+// Luhn mod N check character over the alphanumeric characters of `payload`
+export function luhnModN(payload: string): string {
+  const n = CODE_POINTS.length;
+  const chars = payload.toUpperCase().replace(/[^0-9A-Z]/g, '');
+  let factor = 2;
+  let sum = 0;
+
+  for (let i = chars.length - 1; i >= 0; i--) {
+    let addend = factor * CODE_POINTS.indexOf(chars[i]!);
+    factor = factor === 2 ? 1 : 2;
+    addend = Math.floor(addend / n) + (addend % n);
+    sum += addend;
+  }
+
+  return CODE_POINTS[(n - (sum % n)) % n]!;
+}
+
+export function formatMRN(format: PatientTypes.MrnFormat, year: number, counter: number): string {
+  const counterText = counter.toString().padStart(format.counterWidth, '0');
+  const values: Record<string, string> = {
+    FACILITY: format.facilityCode.toUpperCase(),
+    YYYY: year.toString(),
+    YY: year.toString().slice(-2),
+    COUNTER: counterText,
+  };
+
+  const withoutCheck = format.pattern.replace(TOKEN_PATTERN, (_match, token: string) =>
+    token === 'CHECK' ? '{CHECK}' : values[token]!
+  );
+
+  const check = format.checkDigit === 'luhn_mod_n'
+    ? luhnModN(withoutCheck.replace('{CHECK}', ''))
+    : '';
+
+  return withoutCheck.replace('{CHECK}', check);
+}
+
+// Reverses formatMRN. Returns null when the MRN does not fit the format or its check character is wrong.
+export function parseMRN(format: PatientTypes.MrnFormat, mrn: string): ParsedMRN | null {
+  const value = mrn.trim().toUpperCase();
+  const groups: string[] = [];
+  const source = format.pattern
+    .replace(/[.]/g, '\\.')
+    .replace(TOKEN_PATTERN, (_match, token: string) => {
+      switch (token) {
+        case 'FACILITY':
+          return format.facilityCode.toUpperCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        case 'YYYY':
+          groups.push(token);
+          return '([0-9]{4})';
+        case 'YY':
+          groups.push(token);
+          return '([0-9]{2})';
+        case 'COUNTER':
+          groups.push(token);
+          return `([0-9]{${format.counterWidth},})`;
+        default:
+          return format.checkDigit === 'luhn_mod_n' ? '[0-9A-Z]' : '';
+      }
+    });
+
+  const match = new RegExp(`^${source}$`).exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const parts: Record<string, string> = {};
+  groups.forEach((token, index) => {
+    parts[token] = match[index + 1]!;
+  });
+
+  const counter = parseInt(parts.COUNTER!, 10);
+  const year = parts.YYYY
+    ? parseInt(parts.YYYY, 10)
+    : parts.YY ? 2000 + parseInt(parts.YY, 10) : null;
+
+  // Re-formatting must reproduce the MRN exactly, which also verifies the check character
+  if (formatMRN(format, year ?? 0, counter) !== value) {
+    return null;
+  }
+
+  return { facilityCode: format.facilityCode, year, counter };
+}
+
+// Problems with a format pattern, empty when it can be used
+export function validateMrnPattern(pattern: string): string[] {
+  const problems: string[] = [];
+  const tokens = pattern.match(TOKEN_PATTERN) || [];
+  const count = (token: string) => tokens.filter(candidate => candidate === token).length;
+
+  if (count('{COUNTER}') !== 1) {
+    problems.push('pattern must contain {COUNTER} exactly once');
+  }
+  if (count('{CHECK}') > 1 || count('{FACILITY}') > 1 || count('{YYYY}') + count('{YY}') > 1) {
+    problems.push('{FACILITY}, {CHECK} and the year may each appear at most once');
+  }
+  if (!/^[A-Z0-9\-\/_.]*$/.test(pattern.replace(TOKEN_PATTERN, ''))) {
+    problems.push('literal text may only contain A-Z, 0-9, "-", "/", "_" and "."');
+  }
+
+  return problems;
+}
@@ -0,0 +1,147 @@
+import { ClinicalTypes } from '@zarishhealthcare/shared-types';
+
+// WHO HEARTS control targets; a value is controlled when it is below the target
+export const HEARTS_TARGETS = {
+  systolic: 140,
+  diastolic: 90,
+  fastingGlucose: 7.0,
+  randomGlucose: 11.1,
+  hba1c: 7.0,
+};
+
+// Conditions with a follow-up protocol and the program each one is enrolled under
+export const NCD_FOLLOW_UP_PROGRAMS: Partial<Record<ClinicalTypes.NCDConditionType, string>> = {
+  hypertension: 'ncd_hypertension',
+  diabetes: 'ncd_diabetes',
+};
+
+export const DEFAULT_NCD_PROTOCOL = 'WHO HEARTS';
+
+// Changes smaller than these count as stable
+const TREND_THRESHOLDS = {
+  systolic: 5,
+  hba1c: 0.5,
+  fastingGlucose: 1.0,
+  randomGlucose: 2.0,
+};
+
+type Trend = ClinicalTypes.BPControlStatus['trend'];
+
+function trendOf(current: number, previous: number | undefined, threshold: number): Trend {
+  if (previous === undefined || Math.abs(current - previous) < threshold) {
+    return 'stable';
+  }
+
+  return current < previous ? 'improving' : 'worsening';
+}
+
+export function assessBloodPressure(
+  current: ClinicalTypes.NCDMeasurements,
+  previous?: ClinicalTypes.NCDMeasurements
+): ClinicalTypes.BPControlStatus | undefined {
+  if (!current.bloodPressure) {
+    return undefined;
+  }
+
+  const { systolic, diastolic } = current.bloodPressure;
+
+  return {
+    systolicTarget: HEARTS_TARGETS.systolic,
+    diastolicTarget: HEARTS_TARGETS.diastolic,
+    currentSystolic: systolic,
+    currentDiastolic: diastolic,
+    controlled: systolic < HEARTS_TARGETS.systolic && diastolic < HEARTS_TARGETS.diastolic,
+    trend: trendOf(systolic, previous?.bloodPressure?.systolic, TREND_THRESHOLDS.systolic),
+  };
+}
+
+// HbA1c decides control when measured, then fasting glucose, then random glucose
+export function assessGlucose(
+  current: ClinicalTypes.NCDMeasurements,
+  previous?: ClinicalTypes.NCDMeasurements
+): ClinicalTypes.GlucoseControlStatus | undefined {
+  const measure = (['hba1c', 'fastingGlucose', 'randomGlucose'] as const)
+    .find(key => current[key] !== undefined);
+
+  if (!measure) {
+    return undefined;
+  }
+
+  const value = current[measure]!;
+
+  return {
+    fastingTarget: HEARTS_TARGETS.fastingGlucose,
+    randomTarget: HEARTS_TARGETS.randomGlucose,
+    hba1cTarget: HEARTS_TARGETS.hba1c,
+    ...(current.fastingGlucose !== undefined && { currentFasting: current.fastingGlucose }),
+    ...(current.randomGlucose !== undefined && { currentRandom: current.randomGlucose }),
+    ...(current.hba1c !== undefined && { currentHbA1c: current.hba1c }),
+    controlled: value < HEARTS_TARGETS[measure],
+    trend: trendOf(value, previous?.[measure], TREND_THRESHOLDS[measure]),
+  };
+}
+
+// Control against the HEARTS targets. Overall control is excellent when every measured target is
+// met and none is worsening, good when all are met, fair when some are and poor when none are.
+export function assessControl(
+  current: ClinicalTypes.NCDMeasurements,
+  previous?: ClinicalTypes.NCDMeasurements
+): ClinicalTypes.NCDControlAssessment {
+  const bloodPressureControl = assessBloodPressure(current, previous);
+  const glucoseControl = assessGlucose(current, previous);
+  const targetsMet: string[] = [];
+  const targetsNotMet: string[] = [];
+
+  if (bloodPressureControl) {
+    const target = `BP < ${HEARTS_TARGETS.systolic}/${HEARTS_TARGETS.diastolic} mmHg`;
+    (bloodPressureControl.controlled ? targetsMet : targetsNotMet).push(target);
+  }
+
+  if (glucoseControl) {
+    const target = glucoseControl.currentHbA1c !== undefined
+      ? `HbA1c < ${HEARTS_TARGETS.hba1c}%`
+      : glucoseControl.currentFasting !== undefined
+        ? `Fasting glucose < ${HEARTS_TARGETS.fastingGlucose} mmol/L`
+        : `Random glucose < ${HEARTS_TARGETS.randomGlucose} mmol/L`;
+    (glucoseControl.controlled ? targetsMet : targetsNotMet).push(target);
+  }
+
+  const worsening = [bloodPressureControl, glucoseControl].some(status => status?.trend === 'worsening');
+  let overallControl: ClinicalTypes.NCDControlAssessment['overallControl'];
+
+  if (targetsNotMet.length === 0) {
+    overallControl = worsening ? 'good' : 'excellent';
+  } else {
+    overallControl = targetsMet.length > 0 ? 'fair' : 'poor';
+  }
+
+  return {
+    ...(bloodPressureControl && { bloodPressureControl }),
+    ...(glucoseControl && { glucoseControl }),
+    overallControl,
+    targetsMet,
+    targetsNotMet,
+  };
+}
+
+// Whether the visit is controlled for the condition it follows up; undefined when its measure was not taken
+export function isConditionControlled(
+  conditionType: ClinicalTypes.NCDConditionType,
+  control: ClinicalTypes.NCDControlAssessment
+): boolean | undefined {
+  return conditionType === 'diabetes'
+    ? control.glucoseControl?.controlled
+    : control.bloodPressureControl?.controlled;
+}
+
+export function treatmentChange(step: number, previousStep: number | undefined): ClinicalTypes.NCDTreatment['change'] {
+  if (previousStep === undefined) {
+    return 'started';
+  }
+
+  if (step === previousStep) {
+    return 'unchanged';
+  }
+
+  return step > previousStep ? 'stepped_up' : 'stepped_down';
+}
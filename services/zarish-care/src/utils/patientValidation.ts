@@ -0,0 +1,168 @@
+import { PatientTypes } from '@zarishhealthcare/shared-types';
+
+export interface FieldError {
+  field: string;
+  message: string;
+  code: string;
+  value?: any;
+}
+
+export interface ValidationRuleContext {
+  facilityCode?: string;
+  programIds?: string[];
+}
+
+// Named checks a rule can reference through `customValidator`. Returns the error code on
+// failure. The mobile app implements the same names so offline forms agree with the API.
+const CUSTOM_VALIDATORS: Record<string, (value: any, data: any) => string | null> = {
+  date: (value) => isNaN(new Date(value).getTime()) ? 'INVALID_FORMAT' : null,
+  not_future: (value) => new Date(value) > new Date() ? 'INVALID_VALUE' : null,
+  // Recorded age estimates are accepted within a year of the age the date of birth gives
+  matches_date_of_birth: (value, data) => {
+    const derived = ageFromDateOfBirth(data.dateOfBirth);
+    return derived !== undefined && Math.abs(derived - Number(value)) > 1 ? 'INVALID_VALUE' : null;
+  },
+};
+
+export const CUSTOM_VALIDATOR_NAMES = Object.keys(CUSTOM_VALIDATORS);
+
+const SCOPE_PRECEDENCE: Record<PatientTypes.ValidationRuleScope, number> = {
+  global: 0,
+  program: 1,
+  facility: 2,
+};
+
+function ageFromDateOfBirth(dateOfBirth: unknown): number | undefined {
+  if (!dateOfBirth) {
+    return undefined;
+  }
+
+  const dob = new Date(dateOfBirth as string);
+  if (isNaN(dob.getTime())) {
+    return undefined;
+  }
+
+  const now = new Date();
+  const beforeBirthday = now.getMonth() < dob.getMonth()
+    || (now.getMonth() === dob.getMonth() && now.getDate() < dob.getDate());
+  return now.getFullYear() - dob.getFullYear() - (beforeBirthday ? 1 : 0);
+}
+
+// Dotted path lookup; `age` is derived the same way PATIENT_AGE_SQL derives it
+function fieldValue(data: any, field: string): any {
+  if (field === 'age') {
+    return ageFromDateOfBirth(data.dateOfBirth) ?? data.demographics?.age;
+  }
+
+  return field.split('.').reduce((value, key) => (value == null ? undefined : value[key]), data);
+}
+
+function isEmpty(value: any): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+function conditionHolds(data: any, condition: PatientTypes.ValidationCondition): boolean {
+  const value = fieldValue(data, condition.field);
+
+  switch (condition.operator) {
+    case 'equals':
+      return value === condition.value;
+    case 'not_equals':
+      return value !== condition.value;
+    case 'in':
+      return Array.isArray(condition.value) && condition.value.includes(value);
+    case 'present':
+      return !isEmpty(value);
+    case 'absent':
+      return isEmpty(value);
+    default:
+      return false;
+  }
+}
+
+// Returns the error code of the first constraint the value breaks
+function checkRule(value: any, rule: PatientTypes.PatientValidationRule['rule'], data: any): string | null {
+  if (isEmpty(value)) {
+    return rule.required ? 'REQUIRED_FIELD' : null;
+  }
+
+  if (rule.minValue !== undefined && Number(value) < rule.minValue) {
+    return 'INVALID_VALUE';
+  }
+  if (rule.maxValue !== undefined && Number(value) > rule.maxValue) {
+    return 'INVALID_VALUE';
+  }
+  if (rule.minLength !== undefined && String(value).length < rule.minLength) {
+    return 'INVALID_VALUE';
+  }
+  if (rule.maxLength !== undefined && String(value).length > rule.maxLength) {
+    return 'INVALID_VALUE';
+  }
+  if (rule.pattern && !new RegExp(rule.pattern).test(String(value))) {
+    return 'INVALID_FORMAT';
+  }
+  if (rule.allowedValues && !rule.allowedValues.includes(value)) {
+    return 'INVALID_VALUE';
+  }
+
+  const validator = rule.customValidator ? CUSTOM_VALIDATORS[rule.customValidator] : undefined;
+  return validator ? validator(value, data) : null;
+}
+
+// Picks, per rule code, the most specific active rule: facility over program over global.
+// An inactive facility or program rule switches the global rule off there.
+export function resolveValidationRules(
+  rules: PatientTypes.PatientValidationRule[],
+  context: ValidationRuleContext
+): PatientTypes.PatientValidationRule[] {
+  const selected = new Map<string, PatientTypes.PatientValidationRule>();
+
+  for (const rule of rules) {
+    const applies = rule.scope === 'global'
+      || (rule.scope === 'facility' && rule.facilityCode === context.facilityCode)
+      || (rule.scope === 'program' && !!rule.programId && (context.programIds || []).includes(rule.programId));
+    const current = selected.get(rule.code);
+
+    if (applies && (!current || SCOPE_PRECEDENCE[rule.scope] > SCOPE_PRECEDENCE[current.scope])) {
+      selected.set(rule.code, rule);
+    }
+  }
+
+  return Array.from(selected.values()).filter(rule => rule.active);
+}
+
+// Program ids from a query parameter that may be repeated or comma-separated
+export function parseProgramIds(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : value ? [value] : [];
+  return values.flatMap(item => String(item).split(',')).map(item => item.trim()).filter(Boolean);
+}
+
+// Evaluates resolved rules against a registration or update payload
+export function validatePatientData(
+  data: any,
+  rules: PatientTypes.PatientValidationRule[]
+): PatientTypes.PatientValidationResult {
+  const errors: PatientTypes.PatientValidationIssue[] = [];
+  const warnings: PatientTypes.PatientValidationIssue[] = [];
+
+  for (const rule of rules) {
+    if (!(rule.when || []).every(condition => conditionHolds(data, condition))) {
+      continue;
+    }
+
+    const value = fieldValue(data, rule.field);
+    const code = checkRule(value, rule.rule, data);
+
+    if (code) {
+      (rule.severity === 'warning' ? warnings : errors).push({
+        field: rule.field,
+        message: rule.message,
+        code,
+        rule: rule.code,
+        ...(value !== undefined && { value }),
+      });
+    }
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}
@@ -0,0 +1,55 @@
+import { nameSimilarity, normalizeName, phoneticKey } from './phonetics';
+
+describe('normalizeName', () => {
+  it('lowercases, strips diacritics and punctuation, and collapses spaces', () => {
+    expect(normalizeName('  Nūr-Jahan   Begum ')).toBe('nur jahan begum');
+  });
+});
+
+describe('phoneticKey', () => {
+  it.each([
+    ['Mohammad', 'Muhammad', 'MD'],
+    ['Mohammad', 'Mohamed', 'MD'],
+    ['Fatema', 'Fathima', 'FTM'],
+    ['Khatun', 'Khatoon', 'KTN'],
+    ['Zakir', 'Jakir', 'JKR'],
+    ['Ismail', 'Esmail', 'ASML'],
+  ])('gives %s and %s the same key', (a, b, key) => {
+    expect(phoneticKey(a)).toBe(key);
+    expect(phoneticKey(b)).toBe(key);
+  });
+
+  it('keys each word of a multi-word name', () => {
+    expect(phoneticKey('Mohammad Rahim')).toBe('MD RM');
+    expect(phoneticKey('Muhammed Raheem')).toBe('MD RM');
+  });
+
+  it('returns an empty key for missing names', () => {
+    expect(phoneticKey(null)).toBe('');
+    expect(phoneticKey(undefined)).toBe('');
+    expect(phoneticKey('')).toBe('');
+  });
+});
+
+describe('nameSimilarity', () => {
+  it('matches the reference Jaro-Winkler values', () => {
+    expect(nameSimilarity('MARTHA', 'MARHTA')).toBeCloseTo(0.961, 3);
+    expect(nameSimilarity('DWAYNE', 'DUANE')).toBeCloseTo(0.84, 3);
+    expect(nameSimilarity('DIXON', 'DICKSONX')).toBeCloseTo(0.813, 3);
+  });
+
+  it('is 1 for names that only differ in case and spacing', () => {
+    expect(nameSimilarity('Rahima  Khatun', 'rahima khatun')).toBe(1);
+  });
+
+  it('is 0 when either name is missing', () => {
+    expect(nameSimilarity('Rahima', null)).toBe(0);
+    expect(nameSimilarity(undefined, 'Rahima')).toBe(0);
+  });
+
+  it('scores spelling variants above unrelated names', () => {
+    expect(nameSimilarity('Fatema Begum', 'Fathima Begum')).toBeGreaterThan(
+      nameSimilarity('Fatema Begum', 'Nur Hossain')
+    );
+  });
+});
@@ -0,0 +1,131 @@
+// Name matching helpers tuned for romanised Rohingya and Bengali names, where the same
+// name is routinely written several ways (Mohammad/Muhammad/Mohamed, Fatema/Fathima,
+// Khatun/Khatoon, Zakir/Jakir).
+
+const VOWELS = new Set(['a', 'e', 'i', 'o', 'u', 'y']);
+
+// Applied in order; digraphs first so their letters are not rewritten individually
+const SUBSTITUTIONS: Array<[RegExp, string]> = [
+  [/ph/g, 'f'],
+  [/kh/g, 'k'],
+  [/gh/g, 'g'],
+  [/th/g, 't'],
+  [/dh/g, 'd'],
+  [/bh/g, 'b'],
+  [/sh/g, 's'],
+  [/ch/g, 'c'],
+  [/ck/g, 'k'],
+  [/q/g, 'k'],
+  [/z/g, 'j'],
+  [/v/g, 'b'],
+  [/w/g, 'u'],
+  [/x/g, 'ks'],
+];
+
+// Lowercases, strips diacritics and anything that is not a letter or a space
+export function normalizeName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function tokenKey(token: string): string {
+  let value = token;
+  for (const [pattern, replacement] of SUBSTITUTIONS) {
+    value = value.replace(pattern, replacement);
+  }
+
+  // Leading vowels are written inconsistently (Ismail/Esmail), so they all become 'a'
+  const first = VOWELS.has(value[0]) ? 'a' : value[0];
+  let key = first;
+
+  for (const char of value.slice(1)) {
+    // Vowels and silent 'h' carry most of the spelling variation; drop them after the first letter
+    if (VOWELS.has(char) || char === 'h') {
+      continue;
+    }
+    if (key[key.length - 1] !== char) {
+      key += char;
+    }
+  }
+
+  return key.toUpperCase();
+}
+
+// Phonetic key for a (possibly multi-word) name; "Mohammad Rahim" and "Muhammed Raheem" share one
+export function phoneticKey(name: string | null | undefined): string {
+  if (!name) {
+    return '';
+  }
+
+  return normalizeName(name)
+    .split(' ')
+    .filter(Boolean)
+    .map(tokenKey)
+    .join(' ');
+}
+
+// Jaro-Winkler similarity between two names, 0 (different) to 1 (identical)
+export function nameSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+  const s1 = normalizeName(a || '');
+  const s2 = normalizeName(b || '');
+
+  if (!s1 || !s2) {
+    return 0;
+  }
+
+  if (s1 === s2) {
+    return 1;
+  }
+
+  const matchWindow = Math.max(Math.floor(Math.max(s1.length, s2.length) / 2) - 1, 0);
+  const s1Matches = new Array<boolean>(s1.length).fill(false);
+  const s2Matches = new Array<boolean>(s2.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < s1.length; i++) {
+    const start = Math.max(0, i - matchWindow);
+    const end = Math.min(i + matchWindow + 1, s2.length);
+
+    for (let j = start; j < end; j++) {
+      if (!s2Matches[j] && s1[i] === s2[j]) {
+        s1Matches[i] = true;
+        s2Matches[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+
+  if (matches === 0) {
+    return 0;
+  }
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < s1.length; i++) {
+    if (!s1Matches[i]) {
+      continue;
+    }
+    while (!s2Matches[k]) {
+      k++;
+    }
+    if (s1[i] !== s2[k]) {
+      transpositions++;
+    }
+    k++;
+  }
+
+  const jaro = (matches / s1.length + matches / s2.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < Math.min(4, s1.length, s2.length) && s1[prefix] === s2[prefix]) {
+    prefix++;
+  }
+
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
@@ -0,0 +1,76 @@
+import { PatientTypes } from '@zarishhealthcare/shared-types';
+import { ageOf } from './deidentification';
+import { FieldError } from './patientValidation';
+
+// Diagnosis codes the patient already carries: active or chronic conditions in their history
+export function historyDiagnosisCodes(patient: PatientTypes.Patient): string[] {
+  return (patient.medicalHistory || [])
+    .filter(entry => entry.icdCode && entry.currentStatus !== 'resolved')
+    .map(entry => entry.icdCode!.toUpperCase());
+}
+
+// ICD-10 codes match on prefix, so "I10" covers "I10.0" and "E11" covers "E11.9"
+export function matchesDiagnosis(codes: string[], prefixes: string[]): boolean {
+  return codes.some(code => {
+    const normalised = code.toUpperCase().replace(/\s+/g, '');
+    return prefixes.some(prefix => normalised.startsWith(prefix.toUpperCase()));
+  });
+}
+
+// Reasons the patient cannot join the program; empty when eligible
+export function checkEligibility(
+  program: PatientTypes.ProgramDefinition,
+  patient: PatientTypes.Patient,
+  diagnosisCodes: string[]
+): FieldError[] {
+  const { eligibility } = program;
+  const errors: FieldError[] = [];
+  const age = ageOf(patient);
+
+  if ((eligibility.minAge !== undefined || eligibility.maxAge !== undefined) && age === null) {
+    errors.push({
+      field: 'dateOfBirth',
+      message: `Age is needed to check eligibility for ${program.name}`,
+      code: 'ELIGIBILITY_AGE_UNKNOWN',
+    });
+  } else if (age !== null) {
+    if (eligibility.minAge !== undefined && age < eligibility.minAge) {
+      errors.push({
+        field: 'age',
+        message: `${program.name} requires a minimum age of ${eligibility.minAge}`,
+        code: 'ELIGIBILITY_AGE',
+        value: age,
+      });
+    }
+
+    if (eligibility.maxAge !== undefined && age > eligibility.maxAge) {
+      errors.push({
+        field: 'age',
+        message: `${program.name} is limited to patients aged ${eligibility.maxAge} or younger`,
+        code: 'ELIGIBILITY_AGE',
+        value: age,
+      });
+    }
+  }
+
+  if (eligibility.genders && eligibility.genders.length > 0 && !eligibility.genders.includes(patient.gender)) {
+    errors.push({
+      field: 'gender',
+      message: `${program.name} is limited to: ${eligibility.genders.join(', ')}`,
+      code: 'ELIGIBILITY_GENDER',
+      value: patient.gender,
+    });
+  }
+
+  if (eligibility.diagnosisCodes && eligibility.diagnosisCodes.length > 0
+    && !matchesDiagnosis(diagnosisCodes, eligibility.diagnosisCodes)) {
+    errors.push({
+      field: 'diagnosisCodes',
+      message: `${program.name} requires a diagnosis in: ${eligibility.diagnosisCodes.join(', ')}`,
+      code: 'ELIGIBILITY_DIAGNOSIS',
+      value: diagnosisCodes,
+    });
+  }
+
+  return errors;
+}
@@ -0,0 +1,64 @@
+import ExcelJS from 'exceljs';
+import { parseCsv } from './csv';
+
+export interface SheetRow {
+  rowNumber: number; // 1-based, the header is row 1
+  values: string[];
+}
+
+export interface Sheet {
+  headers: string[];
+  rows: SheetRow[];
+}
+
+// Excel cells can hold dates, formulas, rich text and hyperlinks; everything is read as text
+function cellText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString().slice(0, 10);
+  }
+  if (typeof value === 'object') {
+    if ('result' in value) {
+      return cellText(value.result as ExcelJS.CellValue);
+    }
+    if ('richText' in value) {
+      return value.richText.map(part => part.text).join('');
+    }
+    if ('text' in value) {
+      return String(value.text);
+    }
+    return '';
+  }
+  return String(value);
+}
+
+// Reads the first worksheet (XLSX) or the whole file (CSV) into a header row and data rows
+export async function readSheet(buffer: Buffer, format: 'csv' | 'xlsx'): Promise<Sheet> {
+  let table: SheetRow[];
+
+  if (format === 'csv') {
+    table = parseCsv(buffer.toString('utf8')).map((values, index) => ({ rowNumber: index + 1, values }));
+  } else {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(buffer as any);
+    const worksheet = workbook.worksheets[0];
+    table = [];
+
+    worksheet?.eachRow({ includeEmpty: false }, (row, rowNumber) => {
+      // row.values is 1-indexed with an empty slot at 0
+      const values = (row.values as ExcelJS.CellValue[]).slice(1).map(cellText);
+      if (values.some(value => value.trim() !== '')) {
+        table.push({ rowNumber, values });
+      }
+    });
+  }
+
+  const [header, ...rows] = table;
+
+  return {
+    headers: header ? header.values.map(value => value.trim()) : [],
+    rows,
+  };
+}
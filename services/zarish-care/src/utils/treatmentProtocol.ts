@@ -0,0 +1,187 @@
+import { ClinicalTypes } from '@zarishhealthcare/shared-types';
+import { matchesDiagnosis } from './programEligibility';
+
+export interface ProtocolInput {
+  bloodPressure: ClinicalTypes.BloodPressureTarget & { date?: Date };
+  currentStep?: number; // from the last visit; inferred from the medications when unknown
+  medications: ClinicalTypes.NCDMedication[];
+  diagnosisCodes: string[];
+  programs: string[]; // open enrollments
+  adherenceRate?: number; // lowest recorded rate among medications being taken
+  today: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const regimenOf = (medication: ClinicalTypes.NCDMedication): string =>
+  `${medication.dosage} ${medication.frequency}`;
+
+// Prescriptions often carry the product name ("Amlodipine 5 mg tablet"), so they match a protocol
+// drug on the leading word
+function sameDrug(prescribed: ClinicalTypes.NCDMedication, protocolDrug: string): boolean {
+  return prescribed.name.trim().toLowerCase().startsWith(protocolDrug.toLowerCase());
+}
+
+function sameRegimen(a: ClinicalTypes.NCDMedication, b: ClinicalTypes.NCDMedication): boolean {
+  return regimenOf(a).replace(/\s+/g, ' ').toLowerCase() === regimenOf(b).replace(/\s+/g, ' ').toLowerCase();
+}
+
+export function detectComorbidities(
+  protocol: ClinicalTypes.TreatmentProtocol,
+  diagnosisCodes: string[],
+  programs: string[]
+): string[] {
+  return Object.entries(protocol.comorbidities)
+    .filter(([, definition]) => matchesDiagnosis(diagnosisCodes, definition.diagnosisCodes)
+      || (definition.programs || []).some(program => programs.includes(program)))
+    .map(([name]) => name);
+}
+
+// The highest step whose protocol drugs and doses are exactly what the patient takes; 0 when they
+// take none of the protocol drugs, undefined when the regimen matches no step
+export function inferStep(
+  protocol: ClinicalTypes.TreatmentProtocol,
+  medications: ClinicalTypes.NCDMedication[]
+): number | undefined {
+  const protocolDrugs = new Set(protocol.steps.flatMap(step => step.medications.map(medication => medication.name)));
+  const taking = medications.filter(medication => Array.from(protocolDrugs).some(drug => sameDrug(medication, drug)));
+
+  if (taking.length === 0) {
+    return 0;
+  }
+
+  const matching = protocol.steps.filter(step =>
+    step.medications.length === taking.length
+    && step.medications.every(planned => taking.some(medication =>
+      sameDrug(medication, planned.name) && sameRegimen(medication, planned)))
+  );
+
+  return matching.length > 0 ? matching[matching.length - 1]!.step : undefined;
+}
+
+// What to start, change, keep and stop to move from the current medications to the step's regimen.
+// Drugs outside the protocol are left alone.
+export function medicationChanges(
+  protocol: ClinicalTypes.TreatmentProtocol,
+  current: ClinicalTypes.NCDMedication[],
+  regimen: ClinicalTypes.NCDMedication[]
+): ClinicalTypes.MedicationChange[] {
+  const changes: ClinicalTypes.MedicationChange[] = regimen.map(planned => {
+    const prescribed = current.find(medication => sameDrug(medication, planned.name));
+
+    if (!prescribed) {
+      return { name: planned.name, action: 'start', to: regimenOf(planned) };
+    }
+
+    return sameRegimen(prescribed, planned)
+      ? { name: planned.name, action: 'continue', to: regimenOf(planned) }
+      : { name: planned.name, action: 'change_dose', from: regimenOf(prescribed), to: regimenOf(planned) };
+  });
+
+  const protocolDrugs = new Set(protocol.steps.flatMap(step => step.medications.map(medication => medication.name)));
+  for (const drug of protocolDrugs) {
+    const prescribed = current.find(medication => sameDrug(medication, drug));
+    if (prescribed && !regimen.some(planned => planned.name === drug)) {
+      changes.push({ name: drug, action: 'stop', from: regimenOf(prescribed) });
+    }
+  }
+
+  return changes;
+}
+
+// Controlled patients stay on their step. Uncontrolled patients move to the next step that is not
+// contraindicated, unless poor adherence should be addressed first; with no such step they are referred.
+export function recommendTreatment(
+  protocol: ClinicalTypes.TreatmentProtocol,
+  input: ProtocolInput
+): ClinicalTypes.TreatmentRecommendation {
+  const comorbidities = detectComorbidities(protocol, input.diagnosisCodes, input.programs);
+  const highRisk = protocol.highRiskTarget
+    && protocol.highRiskTarget.comorbidities.some(comorbidity => comorbidities.includes(comorbidity));
+  const target = highRisk
+    ? { systolic: protocol.highRiskTarget!.systolic, diastolic: protocol.highRiskTarget!.diastolic }
+    : protocol.target;
+
+  const { systolic, diastolic } = input.bloodPressure;
+  const controlled = systolic < target.systolic && diastolic < target.diastolic;
+  const urgent = systolic >= protocol.urgentThreshold.systolic || diastolic >= protocol.urgentThreshold.diastolic;
+
+  const reasons: string[] = [];
+  const warnings: string[] = [];
+  const allowed = (step: ClinicalTypes.ProtocolStep): boolean =>
+    !(step.contraindications || []).some(comorbidity => comorbidities.includes(comorbidity));
+
+  const inferred = input.currentStep ?? inferStep(protocol, input.medications);
+  const currentStep = inferred ?? 0;
+  if (inferred === undefined) {
+    warnings.push('Current medications do not match a protocol step; review them against the protocol');
+  }
+
+  const current = protocol.steps.find(step => step.step === currentStep);
+  let recommendedStep = currentStep;
+  let action: ClinicalTypes.TreatmentRecommendation['action'] = 'continue';
+
+  if (highRisk) {
+    reasons.push(`Target ${target.systolic}/${target.diastolic} mmHg for ${comorbidities
+      .filter(comorbidity => protocol.highRiskTarget!.comorbidities.includes(comorbidity))
+      .join(', ')}`);
+  }
+
+  if (current && !allowed(current)) {
+    action = 'refer';
+    reasons.push(`Step ${current.step} is contraindicated in ${current.contraindications!
+      .filter(comorbidity => comorbidities.includes(comorbidity))
+      .join(', ')}`);
+  } else if (controlled) {
+    reasons.push(`BP ${systolic}/${diastolic} mmHg is below the target; continue step ${currentStep}`);
+  } else if (currentStep > 0 && protocol.minimumAdherence !== undefined && input.adherenceRate !== undefined
+    && input.adherenceRate < protocol.minimumAdherence) {
+    reasons.push(
+      `Adherence ${input.adherenceRate}% is below ${protocol.minimumAdherence}%; address it before stepping up`
+    );
+  } else {
+    const next = protocol.steps.find(step => step.step > currentStep && allowed(step));
+
+    if (next) {
+      action = currentStep === 0 ? 'start' : 'step_up';
+      recommendedStep = next.step;
+      reasons.push(`BP ${systolic}/${diastolic} mmHg is not below ${target.systolic}/${target.diastolic}; `
+        + `move to step ${next.step} (${next.description})`);
+    } else {
+      action = 'refer';
+      reasons.push(protocol.steps.some(step => step.step > currentStep)
+        ? 'The next protocol steps are contraindicated; refer for specialist treatment'
+        : 'Uncontrolled on the final protocol step; refer for specialist treatment');
+    }
+  }
+
+  if (urgent) {
+    warnings.push(`BP at or above ${protocol.urgentThreshold.systolic}/${protocol.urgentThreshold.diastolic} mmHg: `
+      + 'recheck, assess for hypertensive emergency and refer the same day if symptomatic');
+  }
+
+  const regimen = protocol.steps.find(step => step.step === recommendedStep)?.medications || [];
+  const followUpDays = urgent
+    ? protocol.followUpDays.urgent
+    : controlled ? protocol.followUpDays.controlled : protocol.followUpDays.uncontrolled;
+
+  return {
+    protocolId: protocol.id,
+    protocolVersion: protocol.version,
+    conditionType: protocol.conditionType,
+    bloodPressure: input.bloodPressure,
+    target,
+    controlled,
+    urgent,
+    comorbidities,
+    currentStep,
+    recommendedStep,
+    action,
+    medications: action === 'refer' ? input.medications : regimen,
+    medicationChanges: action === 'refer' ? [] : medicationChanges(protocol, input.medications, regimen),
+    followUpDays,
+    nextAppointment: new Date(input.today.getTime() + followUpDays * DAY_MS),
+    reasons,
+    warnings,
+  };
+}
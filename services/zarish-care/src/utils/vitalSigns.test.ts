@@ -0,0 +1,110 @@
+import { PatientTypes } from '@zarishhealthcare/shared-types';
+import { ageInMonthsAt, calculateBmi, classifyNutrition, flagVitals, flagZScores, lmsZScore } from './vitalSigns';
+
+// WHO 2006 weight-for-length, boys at 80 cm (growth-references/who-2006-wfl.json)
+const [L, M, S] = [-0.3521, 10.4475, 0.08308];
+
+describe('lmsZScore', () => {
+  it('puts the median at 0', () => {
+    expect(lmsZScore(M, L, M, S)).toBeCloseTo(0);
+  });
+
+  // The published WHO SD curves at 80 cm, rounded to 0.1 kg
+  it.each([
+    [8.2, -3.04],
+    [8.9, -1.99],
+    [9.6, -1.03],
+    [11.4, 1.03],
+    [12.4, 2],
+    [13.6, 3.03],
+  ])('scores %d kg as %d', (weight, z) => {
+    expect(lmsZScore(weight, L, M, S)).toBe(z);
+  });
+
+  it('measures beyond ±3 SD in units of the 2-3 SD distance', () => {
+    const sdCurve = (z: number): number => M * Math.pow(1 + L * S * z, 1 / L);
+
+    expect(lmsZScore(sdCurve(3) + (sdCurve(3) - sdCurve(2)), L, M, S)).toBe(4);
+    expect(lmsZScore(sdCurve(-3) - (sdCurve(-2) - sdCurve(-3)), L, M, S)).toBe(-4);
+    expect(lmsZScore(7.5, L, M, S)).toBe(-4.1);
+  });
+
+  it('uses the log form when L is 0', () => {
+    expect(lmsZScore(12, 0, 10, 0.1)).toBe(1.82);
+  });
+});
+
+describe('calculateBmi', () => {
+  it('rounds to one decimal place', () => {
+    expect(calculateBmi(70, 175)).toBe(22.9);
+  });
+});
+
+describe('flagVitals', () => {
+  it('applies the reference range for the age band', () => {
+    expect(flagVitals({ heartRate: 150 }, 6)).toEqual([]);
+    expect(flagVitals({ heartRate: 150 }, 40 * 12)).toEqual([
+      expect.objectContaining({ measure: 'heartRate', direction: 'high', severity: 'critical' }),
+    ]);
+  });
+
+  it('flags IMCI fast breathing by age', () => {
+    expect(flagVitals({ respiratoryRate: 45 }, 6)).toEqual([]);
+    expect(flagVitals({ respiratoryRate: 45 }, 24)).toEqual([
+      expect.objectContaining({
+        measure: 'respiratoryRate',
+        severity: 'abnormal',
+        referenceRange: { min: 20, max: 39 },
+      }),
+    ]);
+  });
+
+  it('only applies age-independent ranges without an age', () => {
+    expect(flagVitals({ heartRate: 200, oxygenSaturation: 88 }, null)).toEqual([
+      expect.objectContaining({ measure: 'oxygenSaturation', direction: 'low', severity: 'critical' }),
+    ]);
+  });
+});
+
+describe('flagZScores', () => {
+  it('flags wasting below -2 SD and severe wasting below -3 SD', () => {
+    expect(flagZScores({ weightForHeightZ: -2.5 })).toEqual([
+      expect.objectContaining({ measure: 'weightForHeightZ', severity: 'abnormal' }),
+    ]);
+    expect(flagZScores({ weightForHeightZ: -3.2, muacForAgeZ: -1 })).toEqual([
+      expect.objectContaining({ measure: 'weightForHeightZ', severity: 'critical' }),
+    ]);
+    expect(flagZScores({ weightForHeightZ: 0.4 })).toEqual([]);
+  });
+});
+
+describe('classifyNutrition', () => {
+  it.each([
+    [-3.1, undefined, 24, 'severe_acute_malnutrition'],
+    [-1, 110, 24, 'severe_acute_malnutrition'],
+    [-2.5, 130, 24, 'moderate_acute_malnutrition'],
+    [undefined, 120, 24, 'moderate_acute_malnutrition'],
+    [-1, 130, 24, 'normal'],
+    [-1, 110, 4, 'normal'],
+    [undefined, undefined, 24, undefined],
+    [undefined, 110, 72, undefined],
+  ])('classifies WFH z %s with MUAC %s mm at %i months as %s', (whz, muac, age, status) => {
+    expect(classifyNutrition(whz, muac, age)).toBe(status);
+  });
+});
+
+describe('ageInMonthsAt', () => {
+  const patient = (fields: { dateOfBirth?: Date; age?: number }): PatientTypes.Patient =>
+    ({ dateOfBirth: fields.dateOfBirth, demographics: { age: fields.age } }) as unknown as PatientTypes.Patient;
+
+  it('counts whole months from the date of birth', () => {
+    const born = patient({ dateOfBirth: new Date(2023, 0, 15) });
+    expect(ageInMonthsAt(born, new Date(2024, 0, 14))).toBe(11);
+    expect(ageInMonthsAt(born, new Date(2024, 0, 15))).toBe(12);
+  });
+
+  it('falls back to the recorded age estimate in whole years', () => {
+    expect(ageInMonthsAt(patient({ age: 3 }), new Date())).toBe(36);
+    expect(ageInMonthsAt(patient({}), new Date())).toBeNull();
+  });
+});
@@ -0,0 +1,273 @@
+import { ClinicalTypes, PatientTypes } from '@zarishhealthcare/shared-types';
+
+export const VITAL_UNITS: Record<ClinicalTypes.VitalMeasure, string> = {
+  systolic: 'mmHg',
+  diastolic: 'mmHg',
+  heartRate: 'beats/min',
+  respiratoryRate: 'breaths/min',
+  temperature: '°C',
+  weight: 'kg',
+  height: 'cm',
+  muac: 'mm',
+  bmi: 'kg/m²',
+  bloodGlucose: 'mmol/L',
+  oxygenSaturation: '%',
+  painScore: '0-10',
+};
+
+// Values outside these bounds are almost certainly entry errors (wrong unit, missing decimal point)
+export const PLAUSIBLE_RANGES: Record<Exclude<ClinicalTypes.VitalMeasure, 'bmi'>, [number, number]> = {
+  systolic: [40, 300],
+  diastolic: [20, 200],
+  heartRate: [20, 300],
+  respiratoryRate: [4, 120],
+  temperature: [25, 45],
+  weight: [0.3, 400],
+  height: [20, 250],
+  muac: [50, 500],
+  bloodGlucose: [0.5, 60],
+  oxygenSaturation: [30, 100],
+  painScore: [0, 10],
+};
+
+// Recorded in whole units (and stored as SMALLINT), so a fractional reading is an entry error
+export const WHOLE_NUMBER_MEASURES: ClinicalTypes.VitalMeasure[] = [
+  'systolic',
+  'diastolic',
+  'heartRate',
+  'respiratoryRate',
+  'muac',
+  'oxygenSaturation',
+  'painScore',
+];
+
+// Normal range for an age band: below `low` or above `high` is abnormal, below `criticalLow`
+// or above `criticalHigh` is critical. `toMonths` is inclusive; null means no upper age limit.
+interface ReferenceRange {
+  fromMonths: number;
+  toMonths: number | null;
+  low?: number;
+  high?: number;
+  criticalLow?: number;
+  criticalHigh?: number;
+}
+
+const ADULT_MONTHS = 18 * 12;
+
+// Paediatric bands follow IMCI and PALS; respiratory rate highs are the IMCI fast-breathing cut-offs.
+// Childhood hypertension needs height percentiles, so under-13 blood pressure is only flagged when low.
+const REFERENCE_RANGES: Partial<Record<ClinicalTypes.VitalMeasure, ReferenceRange[]>> = {
+  heartRate: [
+    { fromMonths: 0, toMonths: 0, low: 100, high: 180, criticalLow: 60, criticalHigh: 220 },
+    { fromMonths: 1, toMonths: 11, low: 100, high: 160, criticalLow: 60, criticalHigh: 220 },
+    { fromMonths: 12, toMonths: 35, low: 90, high: 150, criticalLow: 60, criticalHigh: 180 },
+    { fromMonths: 36, toMonths: 71, low: 80, high: 140, criticalLow: 60, criticalHigh: 180 },
+    { fromMonths: 72, toMonths: 143, low: 70, high: 120, criticalLow: 50, criticalHigh: 160 },
+    { fromMonths: 144, toMonths: null, low: 60, high: 100, criticalLow: 40, criticalHigh: 130 },
+  ],
+  respiratoryRate: [
+    { fromMonths: 0, toMonths: 1, low: 30, high: 59, criticalLow: 20, criticalHigh: 70 },
+    { fromMonths: 2, toMonths: 11, low: 25, high: 49, criticalLow: 15, criticalHigh: 70 },
+    { fromMonths: 12, toMonths: 59, low: 20, high: 39, criticalLow: 12, criticalHigh: 60 },
+    { fromMonths: 60, toMonths: 143, low: 18, high: 30, criticalLow: 10, criticalHigh: 50 },
+    { fromMonths: 144, toMonths: null, low: 12, high: 20, criticalLow: 8, criticalHigh: 30 },
+  ],
+  temperature: [
+    // Any fever or hypothermia in a young infant is a danger sign
+    { fromMonths: 0, toMonths: 1, low: 36.0, high: 37.4, criticalLow: 35.5, criticalHigh: 37.4 },
+    { fromMonths: 2, toMonths: null, low: 36.0, high: 37.5, criticalLow: 35.0, criticalHigh: 40.0 },
+  ],
+  oxygenSaturation: [
+    { fromMonths: 0, toMonths: null, low: 94, criticalLow: 90 },
+  ],
+  bloodGlucose: [
+    { fromMonths: 0, toMonths: null, low: 3.9, high: 11.0, criticalLow: 3.0, criticalHigh: 20.0 },
+  ],
+  systolic: [
+    { fromMonths: 0, toMonths: 0, low: 60, criticalLow: 50 },
+    { fromMonths: 1, toMonths: 11, low: 70, criticalLow: 60 },
+    // PALS hypotension: 70 + 2 × age in years
+    ...Array.from({ length: 9 }, (_, index) => ({
+      fromMonths: (index + 1) * 12,
+      toMonths: (index + 2) * 12 - 1,
+      low: 70 + 2 * (index + 1),
+      criticalLow: 60 + 2 * (index + 1),
+    })),
+    { fromMonths: 120, toMonths: 155, low: 90, criticalLow: 80 },
+    { fromMonths: 156, toMonths: ADULT_MONTHS - 1, low: 90, high: 129, criticalLow: 80, criticalHigh: 179 },
+    { fromMonths: ADULT_MONTHS, toMonths: null, low: 90, high: 139, criticalLow: 80, criticalHigh: 179 },
+  ],
+  diastolic: [
+    { fromMonths: 156, toMonths: ADULT_MONTHS - 1, high: 79, criticalHigh: 109 },
+    { fromMonths: ADULT_MONTHS, toMonths: null, low: 60, high: 89, criticalHigh: 109 },
+  ],
+  // MUAC cut-offs for acute malnutrition apply from 6 to 59 months
+  muac: [
+    { fromMonths: 6, toMonths: 59, low: 125, criticalLow: 115 },
+  ],
+  bmi: [
+    { fromMonths: ADULT_MONTHS, toMonths: null, low: 18.5, high: 24.9, criticalLow: 16.0 },
+  ],
+};
+
+const MEASURE_LABELS: Record<ClinicalTypes.VitalSignFlag['measure'], string> = {
+  systolic: 'Systolic blood pressure',
+  diastolic: 'Diastolic blood pressure',
+  heartRate: 'Heart rate',
+  respiratoryRate: 'Respiratory rate',
+  temperature: 'Temperature',
+  weight: 'Weight',
+  height: 'Height',
+  muac: 'MUAC',
+  bmi: 'BMI',
+  bloodGlucose: 'Blood glucose',
+  oxygenSaturation: 'SpO2',
+  painScore: 'Pain score',
+  weightForHeightZ: 'Weight-for-height z-score',
+  muacForAgeZ: 'MUAC-for-age z-score',
+};
+
+const round = (value: number, decimals: number): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+// Whole months between birth and the measurement; the recorded age estimate counts as whole years
+export function ageInMonthsAt(patient: PatientTypes.Patient, at: Date): number | null {
+  if (patient.dateOfBirth) {
+    const dob = new Date(patient.dateOfBirth);
+    const months = (at.getFullYear() - dob.getFullYear()) * 12 + at.getMonth() - dob.getMonth()
+      - (at.getDate() < dob.getDate() ? 1 : 0);
+    return Math.max(months, 0);
+  }
+
+  return typeof patient.demographics.age === 'number' ? patient.demographics.age * 12 : null;
+}
+
+export function calculateBmi(weightKg: number, heightCm: number): number {
+  const heightM = heightCm / 100;
+  return round(weightKg / (heightM * heightM), 1);
+}
+
+// WHO LMS z-score, with the WHO restriction beyond ±3 SD where the skewed tail is measured
+// in units of the distance between the 2 and 3 SD curves
+export function lmsZScore(value: number, l: number, m: number, s: number): number {
+  const sdCurve = (z: number): number => (l === 0 ? m * Math.exp(s * z) : m * Math.pow(1 + l * s * z, 1 / l));
+  let z = l === 0 ? Math.log(value / m) / s : (Math.pow(value / m, l) - 1) / (l * s);
+
+  if (z > 3) {
+    z = 3 + (value - sdCurve(3)) / (sdCurve(3) - sdCurve(2));
+  } else if (z < -3) {
+    z = -3 + (value - sdCurve(-3)) / (sdCurve(-2) - sdCurve(-3));
+  }
+
+  return round(z, 2);
+}
+
+function rangeFor(measure: ClinicalTypes.VitalMeasure, ageInMonths: number | null): ReferenceRange | undefined {
+  const ranges = REFERENCE_RANGES[measure] || [];
+
+  // Without an age only the ranges that hold at every age can be applied
+  if (ageInMonths === null) {
+    return ranges.find(range => range.fromMonths === 0 && range.toMonths === null);
+  }
+
+  return ranges.find(range =>
+    ageInMonths >= range.fromMonths && (range.toMonths === null || ageInMonths <= range.toMonths)
+  );
+}
+
+function flagFor(
+  measure: ClinicalTypes.VitalSignFlag['measure'],
+  value: number,
+  range: Omit<ReferenceRange, 'fromMonths' | 'toMonths'>,
+  unit: string
+): ClinicalTypes.VitalSignFlag | null {
+  const referenceRange = {
+    ...(range.low !== undefined && { min: range.low }),
+    ...(range.high !== undefined && { max: range.high }),
+  };
+  const label = MEASURE_LABELS[measure];
+  const suffix = unit ? ` ${unit}` : '';
+
+  if (range.low !== undefined && value < range.low) {
+    const critical = range.criticalLow !== undefined && value < range.criticalLow;
+    return {
+      measure,
+      value,
+      direction: 'low',
+      severity: critical ? 'critical' : 'abnormal',
+      referenceRange,
+      message: `${label} ${value}${suffix} is ${critical ? 'critically ' : ''}below ${range.low}${suffix}`,
+    };
+  }
+
+  if (range.high !== undefined && value > range.high) {
+    const critical = range.criticalHigh !== undefined && value > range.criticalHigh;
+    return {
+      measure,
+      value,
+      direction: 'high',
+      severity: critical ? 'critical' : 'abnormal',
+      referenceRange,
+      message: `${label} ${value}${suffix} is ${critical ? 'critically ' : ''}above ${range.high}${suffix}`,
+    };
+  }
+
+  return null;
+}
+
+// Flags every measurement that falls outside the normal range for the patient's age
+export function flagVitals(
+  measurements: Partial<Record<ClinicalTypes.VitalMeasure, number>>,
+  ageInMonths: number | null
+): ClinicalTypes.VitalSignFlag[] {
+  const flags: ClinicalTypes.VitalSignFlag[] = [];
+
+  for (const [measure, value] of Object.entries(measurements) as [ClinicalTypes.VitalMeasure, number][]) {
+    const range = value === undefined ? undefined : rangeFor(measure, ageInMonths);
+    const flag = range && flagFor(measure, value, range, VITAL_UNITS[measure]);
+    if (flag) {
+      flags.push(flag);
+    }
+  }
+
+  return flags;
+}
+
+// Below -2 SD is moderate and below -3 SD severe wasting; above +2 SD overweight
+export function flagZScores(anthropometry: ClinicalTypes.AnthropometricAssessment): ClinicalTypes.VitalSignFlag[] {
+  const zScoreRange = { low: -2, high: 2, criticalLow: -3 };
+
+  return [
+    anthropometry.weightForHeightZ !== undefined
+      ? flagFor('weightForHeightZ', anthropometry.weightForHeightZ, zScoreRange, 'SD')
+      : null,
+    anthropometry.muacForAgeZ !== undefined
+      ? flagFor('muacForAgeZ', anthropometry.muacForAgeZ, { low: -2, criticalLow: -3 }, 'SD')
+      : null,
+  ].filter((flag): flag is ClinicalTypes.VitalSignFlag => flag !== null);
+}
+
+// Acute malnutrition by weight-for-height or MUAC, whichever is worse; MUAC only counts from 6 months
+export function classifyNutrition(
+  weightForHeightZ: number | undefined,
+  muac: number | undefined,
+  ageInMonths: number
+): ClinicalTypes.NutritionStatus | undefined {
+  const usableMuac = ageInMonths >= 6 && ageInMonths <= 59 ? muac : undefined;
+
+  if (weightForHeightZ === undefined && usableMuac === undefined) {
+    return undefined;
+  }
+
+  if ((weightForHeightZ !== undefined && weightForHeightZ < -3) || (usableMuac !== undefined && usableMuac < 115)) {
+    return 'severe_acute_malnutrition';
+  }
+
+  if ((weightForHeightZ !== undefined && weightForHeightZ < -2) || (usableMuac !== undefined && usableMuac < 125)) {
+    return 'moderate_acute_malnutrition';
+  }
+
+  return 'normal';
+}